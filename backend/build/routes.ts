@@ -4,26 +4,162 @@
 import type { TsoaRoute } from '@tsoa/runtime';
 import {  fetchMiddlewares, ExpressTemplateService } from '@tsoa/runtime';
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-import { HealthController } from './../src/api/controllers/HealthController';
+import { UserAdminController } from './../src/api/controllers/UserAdminController';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { StorageAdminController } from './../src/api/controllers/StorageAdminController';
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 import { FileController } from './../src/api/controllers/FileController';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { SharedFileController } from './../src/api/controllers/SharedFileController';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { ShareLinkController } from './../src/api/controllers/ShareLinkController';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { HealthController } from './../src/api/controllers/HealthController';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { FileAccessController } from './../src/api/controllers/FileAccessController';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { AuthController } from './../src/api/controllers/AuthController';
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+import { ApiKeyController } from './../src/api/controllers/ApiKeyController';
+import { expressAuthentication } from './../src/api/middlewares/authentication';
+// @ts-ignore - no great way to install types from subpackage
 import type { Request as ExRequest, Response as ExResponse, RequestHandler, Router } from 'express';
 
+const expressAuthenticationRecasted = expressAuthentication as (req: ExRequest, securityName: string, scopes?: string[], res?: ExResponse) => Promise<any>;
 
 
 // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
 const models: TsoaRoute.Models = {
-    "HealthResponse": {
+    "ProblemFieldError": {
         "dataType": "refObject",
         "properties": {
-            "status": {"dataType":"string","required":true},
-            "timestamp": {"dataType":"string","required":true},
-            "uptime": {"dataType":"double","required":true},
-            "environment": {"dataType":"string","required":true},
-            "version": {"dataType":"string","required":true},
-            "memory": {"dataType":"nestedObjectLiteral","nestedProperties":{"external":{"dataType":"double","required":true},"total":{"dataType":"double","required":true},"used":{"dataType":"double","required":true}},"required":true},
-            "system": {"dataType":"nestedObjectLiteral","nestedProperties":{"pid":{"dataType":"double","required":true},"nodeVersion":{"dataType":"string","required":true},"platform":{"dataType":"string","required":true}},"required":true},
+            "field": {"dataType":"string","required":true},
+            "message": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ProblemDetails": {
+        "dataType": "refObject",
+        "properties": {
+            "type": {"dataType":"string","required":true},
+            "title": {"dataType":"string","required":true},
+            "status": {"dataType":"double","required":true},
+            "detail": {"dataType":"string","required":true},
+            "instance": {"dataType":"string","required":true},
+            "requestId": {"dataType":"string","required":true},
+            "errors": {"dataType":"array","array":{"dataType":"refObject","ref":"ProblemFieldError"}},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "UserResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "email": {"dataType":"string","required":true},
+            "displayName": {"dataType":"string"},
+            "role": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["user"]},{"dataType":"enum","enums":["auditor"]},{"dataType":"enum","enums":["admin"]}],"required":true},
+            "createdAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "UserListResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "users": {"dataType":"array","array":{"dataType":"refObject","ref":"UserResponse"},"required":true},
+            "totalCount": {"dataType":"double","required":true},
+            "page": {"dataType":"double","required":true},
+            "limit": {"dataType":"double","required":true},
+            "hasNextPage": {"dataType":"boolean","required":true},
+            "hasPreviousPage": {"dataType":"boolean","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "UserRoleRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "role": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["user"]},{"dataType":"enum","enums":["auditor"]},{"dataType":"enum","enums":["admin"]}],"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "OrphanedStorageFileResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "storagePath": {"dataType":"string","required":true},
+            "size": {"dataType":"double","required":true},
+            "modifiedAt": {"dataType":"string","required":true},
+            "deleted": {"dataType":"boolean","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "StoredContentReferenceResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "storagePath": {"dataType":"string","required":true},
+            "expectedSize": {"dataType":"double","required":true},
+            "referencedBy": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["file"]},{"dataType":"enum","enums":["version"]},{"dataType":"enum","enums":["blob"]}],"required":true},
+            "referenceId": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "StorageSizeMismatchResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "reference": {"ref":"StoredContentReferenceResponse","required":true},
+            "actualSize": {"dataType":"double","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "StorageReconciliationReportResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "trigger": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["manual"]},{"dataType":"enum","enums":["scheduled"]}],"required":true},
+            "dryRun": {"dataType":"boolean","required":true},
+            "startedAt": {"dataType":"string","required":true},
+            "finishedAt": {"dataType":"string","required":true},
+            "consistent": {"dataType":"boolean","required":true},
+            "storedFileCount": {"dataType":"double","required":true},
+            "referenceCount": {"dataType":"double","required":true},
+            "deletedFileCount": {"dataType":"double","required":true},
+            "orphanedFiles": {"dataType":"array","array":{"dataType":"refObject","ref":"OrphanedStorageFileResponse"},"required":true},
+            "danglingReferences": {"dataType":"array","array":{"dataType":"refObject","ref":"StoredContentReferenceResponse"},"required":true},
+            "sizeMismatches": {"dataType":"array","array":{"dataType":"refObject","ref":"StorageSizeMismatchResponse"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "StorageReconciliationReportListResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "reports": {"dataType":"array","array":{"dataType":"refObject","ref":"StorageReconciliationReportResponse"},"required":true},
+            "limit": {"dataType":"double","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "FileSetStatsResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "count": {"dataType":"double","required":true},
+            "totalSize": {"dataType":"double","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "StorageStatsResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "files": {"ref":"FileSetStatsResponse","required":true},
+            "trash": {"ref":"FileSetStatsResponse","required":true},
         },
         "additionalProperties": false,
     },
@@ -36,18 +172,24 @@ const models: TsoaRoute.Models = {
             "fileSize": {"dataType":"double","required":true},
             "formattedSize": {"dataType":"string","required":true},
             "contentType": {"dataType":"string","required":true},
+            "contentHash": {"dataType":"string"},
             "createdAt": {"dataType":"string","required":true},
             "updatedAt": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ContentEncoding": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["utf8"]},{"dataType":"enum","enums":["base64"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
     "ProcessedFileRequest": {
         "dataType": "refObject",
         "properties": {
             "filename": {"dataType":"string","required":true},
             "content": {"dataType":"string","required":true},
-            "contentType": {"dataType":"string","required":true},
+            "encoding": {"ref":"ContentEncoding"},
         },
         "additionalProperties": false,
     },
@@ -56,8 +198,62 @@ const models: TsoaRoute.Models = {
         "dataType": "refObject",
         "properties": {
             "files": {"dataType":"array","array":{"dataType":"refObject","ref":"FileResponse"},"required":true},
+            "totalCount": {"dataType":"double"},
+            "totalSize": {"dataType":"double"},
+            "page": {"dataType":"double"},
+            "limit": {"dataType":"double","required":true},
+            "hasNextPage": {"dataType":"boolean","required":true},
+            "hasPreviousPage": {"dataType":"boolean","required":true},
+            "nextCursor": {"dataType":"string"},
+            "prevCursor": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ContentTypeResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "contentType": {"dataType":"string","required":true},
+            "extensions": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "mimeAliases": {"dataType":"array","array":{"dataType":"string"},"required":true},
+            "maxSizeBytes": {"dataType":"double","required":true},
+            "binary": {"dataType":"boolean","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ContentTypeListResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "contentTypes": {"dataType":"array","array":{"dataType":"refObject","ref":"ContentTypeResponse"},"required":true},
+            "maxUploadSizeBytes": {"dataType":"double","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "FileSearchHitResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "filename": {"dataType":"string","required":true},
+            "fileSize": {"dataType":"double","required":true},
+            "formattedSize": {"dataType":"string","required":true},
+            "contentType": {"dataType":"string","required":true},
+            "contentHash": {"dataType":"string"},
+            "createdAt": {"dataType":"string","required":true},
+            "updatedAt": {"dataType":"string","required":true},
+            "rank": {"dataType":"double","required":true},
+            "snippet": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "FileSearchResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "query": {"dataType":"string","required":true},
+            "results": {"dataType":"array","array":{"dataType":"refObject","ref":"FileSearchHitResponse"},"required":true},
             "totalCount": {"dataType":"double","required":true},
-            "totalSize": {"dataType":"double","required":true},
             "page": {"dataType":"double","required":true},
             "limit": {"dataType":"double","required":true},
             "hasNextPage": {"dataType":"boolean","required":true},
@@ -72,43 +268,1218 @@ const models: TsoaRoute.Models = {
             "id": {"dataType":"string","required":true},
             "filename": {"dataType":"string","required":true},
             "content": {"dataType":"string","required":true},
+            "encoding": {"ref":"ContentEncoding","required":true},
             "fileSize": {"dataType":"double","required":true},
             "formattedSize": {"dataType":"string","required":true},
             "contentType": {"dataType":"string","required":true},
+            "version": {"dataType":"double","required":true},
+            "contentHash": {"dataType":"string"},
             "createdAt": {"dataType":"string","required":true},
             "updatedAt": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "FileVersionResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "fileId": {"dataType":"string","required":true},
+            "version": {"dataType":"double","required":true},
+            "fileSize": {"dataType":"double","required":true},
+            "formattedSize": {"dataType":"string","required":true},
+            "contentType": {"dataType":"string","required":true},
+            "contentHash": {"dataType":"string"},
+            "isCurrent": {"dataType":"boolean","required":true},
+            "createdAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "FileVersionListResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "fileId": {"dataType":"string","required":true},
+            "filename": {"dataType":"string","required":true},
+            "currentVersion": {"dataType":"double","required":true},
+            "versions": {"dataType":"array","array":{"dataType":"refObject","ref":"FileVersionResponse"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "FileVersionContentResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "fileId": {"dataType":"string","required":true},
+            "version": {"dataType":"double","required":true},
+            "fileSize": {"dataType":"double","required":true},
+            "formattedSize": {"dataType":"string","required":true},
+            "contentType": {"dataType":"string","required":true},
+            "contentHash": {"dataType":"string"},
+            "isCurrent": {"dataType":"boolean","required":true},
+            "createdAt": {"dataType":"string","required":true},
+            "filename": {"dataType":"string","required":true},
+            "content": {"dataType":"string","required":true},
+            "encoding": {"ref":"ContentEncoding","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "FileDiffHunk": {
+        "dataType": "refObject",
+        "properties": {
+            "oldStart": {"dataType":"double","required":true},
+            "oldLines": {"dataType":"double","required":true},
+            "newStart": {"dataType":"double","required":true},
+            "newLines": {"dataType":"double","required":true},
+            "lines": {"dataType":"array","array":{"dataType":"string"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "JsonChangeResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "op": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["added"]},{"dataType":"enum","enums":["removed"]},{"dataType":"enum","enums":["changed"]}],"required":true},
+            "path": {"dataType":"string","required":true},
+            "oldValue": {"dataType":"any"},
+            "newValue": {"dataType":"any"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "FileDiffResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "fileId": {"dataType":"string","required":true},
+            "filename": {"dataType":"string","required":true},
+            "contentType": {"dataType":"string","required":true},
+            "mode": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["text"]},{"dataType":"enum","enums":["json"]}],"required":true},
+            "fromVersion": {"dataType":"double","required":true},
+            "toVersion": {"dataType":"double","required":true},
+            "identical": {"dataType":"boolean","required":true},
+            "unifiedDiff": {"dataType":"string"},
+            "hunks": {"dataType":"array","array":{"dataType":"refObject","ref":"FileDiffHunk"}},
+            "additions": {"dataType":"double"},
+            "deletions": {"dataType":"double"},
+            "changes": {"dataType":"array","array":{"dataType":"refObject","ref":"JsonChangeResponse"}},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
     "DeleteFileResponse": {
         "dataType": "refObject",
         "properties": {
             "id": {"dataType":"string","required":true},
             "filename": {"dataType":"string","required":true},
             "deleted": {"dataType":"boolean","required":true},
+            "deletedAt": {"dataType":"string","required":true},
+            "purgeAt": {"dataType":"string","required":true},
             "message": {"dataType":"string","required":true},
         },
         "additionalProperties": false,
     },
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-};
-const templateService = new ExpressTemplateService(models, {"noImplicitAdditionalProperties":"throw-on-extras","bodyCoercion":true});
+    "TrashedFileResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "filename": {"dataType":"string","required":true},
+            "fileSize": {"dataType":"double","required":true},
+            "formattedSize": {"dataType":"string","required":true},
+            "contentType": {"dataType":"string","required":true},
+            "contentHash": {"dataType":"string"},
+            "createdAt": {"dataType":"string","required":true},
+            "updatedAt": {"dataType":"string","required":true},
+            "deletedAt": {"dataType":"string","required":true},
+            "purgeAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "TrashListResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "files": {"dataType":"array","array":{"dataType":"refObject","ref":"TrashedFileResponse"},"required":true},
+            "totalCount": {"dataType":"double","required":true},
+            "totalSize": {"dataType":"double","required":true},
+            "page": {"dataType":"double","required":true},
+            "limit": {"dataType":"double","required":true},
+            "hasNextPage": {"dataType":"boolean","required":true},
+            "hasPreviousPage": {"dataType":"boolean","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "PurgeFileResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "filename": {"dataType":"string","required":true},
+            "purged": {"dataType":"boolean","required":true},
+            "message": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SharePasswordRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "password": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ShareLinkResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "fileId": {"dataType":"string","required":true},
+            "url": {"dataType":"string","required":true},
+            "expiresAt": {"dataType":"string","required":true},
+            "passwordProtected": {"dataType":"boolean","required":true},
+            "maxDownloads": {"dataType":"double"},
+            "downloadCount": {"dataType":"double","required":true},
+            "createdAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ShareLinkRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "expiresInHours": {"dataType":"double"},
+            "password": {"dataType":"string"},
+            "maxDownloads": {"dataType":"double"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ShareLinkListResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "fileId": {"dataType":"string","required":true},
+            "shareLinks": {"dataType":"array","array":{"dataType":"refObject","ref":"ShareLinkResponse"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "HealthResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "status": {"dataType":"string","required":true},
+            "timestamp": {"dataType":"string","required":true},
+            "uptime": {"dataType":"double","required":true},
+            "environment": {"dataType":"string","required":true},
+            "version": {"dataType":"string","required":true},
+            "memory": {"dataType":"nestedObjectLiteral","nestedProperties":{"external":{"dataType":"double","required":true},"total":{"dataType":"double","required":true},"used":{"dataType":"double","required":true}},"required":true},
+            "system": {"dataType":"nestedObjectLiteral","nestedProperties":{"pid":{"dataType":"double","required":true},"nodeVersion":{"dataType":"string","required":true},"platform":{"dataType":"string","required":true}},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "FileGrantResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "userId": {"dataType":"string","required":true},
+            "role": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["viewer"]},{"dataType":"enum","enums":["editor"]},{"dataType":"enum","enums":["owner"]}],"required":true},
+            "createdAt": {"dataType":"string","required":true},
+            "updatedAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "FileGrantListResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "fileId": {"dataType":"string","required":true},
+            "ownerId": {"dataType":"string"},
+            "grants": {"dataType":"array","array":{"dataType":"refObject","ref":"FileGrantResponse"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "FileGrantRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "email": {"dataType":"string","required":true},
+            "role": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["viewer"]},{"dataType":"enum","enums":["editor"]},{"dataType":"enum","enums":["owner"]}],"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "RegistrationRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "email": {"dataType":"string","required":true},
+            "password": {"dataType":"string","required":true},
+            "displayName": {"dataType":"string"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "AuthTokenResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "tokenType": {"dataType":"enum","enums":["Bearer"],"required":true},
+            "accessToken": {"dataType":"string","required":true},
+            "expiresIn": {"dataType":"double","required":true},
+            "accessTokenExpiresAt": {"dataType":"string","required":true},
+            "refreshToken": {"dataType":"string","required":true},
+            "refreshTokenExpiresAt": {"dataType":"string","required":true},
+            "user": {"ref":"UserResponse","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "CredentialsRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "email": {"dataType":"string","required":true},
+            "password": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "RefreshTokenRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "refreshToken": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "SignOutRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "refreshToken": {"dataType":"string","required":true},
+            "allSessions": {"dataType":"boolean"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ApiKeyScope": {
+        "dataType": "refAlias",
+        "type": {"dataType":"union","subSchemas":[{"dataType":"enum","enums":["files:read"]},{"dataType":"enum","enums":["files:write"]},{"dataType":"enum","enums":["admin:access"]},{"dataType":"enum","enums":["storage:read"]},{"dataType":"enum","enums":["storage:maintain"]},{"dataType":"enum","enums":["users:read"]},{"dataType":"enum","enums":["users:manage"]}],"validators":{}},
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ApiKeyCreatedResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "name": {"dataType":"string","required":true},
+            "prefix": {"dataType":"string","required":true},
+            "scopes": {"dataType":"array","array":{"dataType":"refAlias","ref":"ApiKeyScope"},"required":true},
+            "expiresAt": {"dataType":"string","required":true},
+            "lastUsedAt": {"dataType":"string"},
+            "createdAt": {"dataType":"string","required":true},
+            "key": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ApiKeyRequest": {
+        "dataType": "refObject",
+        "properties": {
+            "name": {"dataType":"string","required":true},
+            "scopes": {"dataType":"array","array":{"dataType":"refAlias","ref":"ApiKeyScope"},"required":true},
+            "expiresInDays": {"dataType":"double"},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ApiKeyResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "id": {"dataType":"string","required":true},
+            "name": {"dataType":"string","required":true},
+            "prefix": {"dataType":"string","required":true},
+            "scopes": {"dataType":"array","array":{"dataType":"refAlias","ref":"ApiKeyScope"},"required":true},
+            "expiresAt": {"dataType":"string","required":true},
+            "lastUsedAt": {"dataType":"string"},
+            "createdAt": {"dataType":"string","required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+    "ApiKeyListResponse": {
+        "dataType": "refObject",
+        "properties": {
+            "apiKeys": {"dataType":"array","array":{"dataType":"refObject","ref":"ApiKeyResponse"},"required":true},
+        },
+        "additionalProperties": false,
+    },
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+};
+const templateService = new ExpressTemplateService(models, {"noImplicitAdditionalProperties":"throw-on-extras","bodyCoercion":true});
+
+// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+
+
+
+export function RegisterRoutes(app: Router) {
+
+    // ###########################################################################################################
+    //  NOTE: If you do not see routes for all of your controllers in this file, then you might not have informed tsoa of where to look
+    //      Please look into the "controllerPathGlobs" config option described in the readme: https://github.com/lukeautry/tsoa
+    // ###########################################################################################################
+
+
+    
+        const argsUserAdminController_getUsers: Record<string, TsoaRoute.ParameterSchema> = {
+                page: {"in":"query","name":"page","dataType":"double"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+        };
+        app.get('/admin/users',
+            authenticateMiddleware([{"bearerAuth":["admin:access","users:read"]},{"apiKeyAuth":["admin:access","users:read"]}]),
+            ...(fetchMiddlewares<RequestHandler>(UserAdminController)),
+            ...(fetchMiddlewares<RequestHandler>(UserAdminController.prototype.getUsers)),
+
+            async function UserAdminController_getUsers(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsUserAdminController_getUsers, request, response });
+
+                const controller = new UserAdminController();
+
+              await templateService.apiHandler({
+                methodName: 'getUsers',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsUserAdminController_changeUserRole: Record<string, TsoaRoute.ParameterSchema> = {
+                userId: {"in":"path","name":"userId","required":true,"dataType":"string"},
+                body: {"in":"body","name":"body","required":true,"ref":"UserRoleRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.put('/admin/users/:userId/role',
+            authenticateMiddleware([{"bearerAuth":["admin:access","users:manage"]},{"apiKeyAuth":["admin:access","users:manage"]}]),
+            ...(fetchMiddlewares<RequestHandler>(UserAdminController)),
+            ...(fetchMiddlewares<RequestHandler>(UserAdminController.prototype.changeUserRole)),
+
+            async function UserAdminController_changeUserRole(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsUserAdminController_changeUserRole, request, response });
+
+                const controller = new UserAdminController();
+
+              await templateService.apiHandler({
+                methodName: 'changeUserRole',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsStorageAdminController_reconcile: Record<string, TsoaRoute.ParameterSchema> = {
+                dryRun: {"in":"query","name":"dryRun","dataType":"boolean"},
+        };
+        app.post('/admin/storage/reconcile',
+            authenticateMiddleware([{"bearerAuth":["admin:access","storage:maintain"]},{"apiKeyAuth":["admin:access","storage:maintain"]}]),
+            ...(fetchMiddlewares<RequestHandler>(StorageAdminController)),
+            ...(fetchMiddlewares<RequestHandler>(StorageAdminController.prototype.reconcile)),
+
+            async function StorageAdminController_reconcile(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsStorageAdminController_reconcile, request, response });
+
+                const controller = new StorageAdminController();
+
+              await templateService.apiHandler({
+                methodName: 'reconcile',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsStorageAdminController_getReports: Record<string, TsoaRoute.ParameterSchema> = {
+                limit: {"in":"query","name":"limit","dataType":"double"},
+        };
+        app.get('/admin/storage/reports',
+            authenticateMiddleware([{"bearerAuth":["admin:access","storage:read"]},{"apiKeyAuth":["admin:access","storage:read"]}]),
+            ...(fetchMiddlewares<RequestHandler>(StorageAdminController)),
+            ...(fetchMiddlewares<RequestHandler>(StorageAdminController.prototype.getReports)),
+
+            async function StorageAdminController_getReports(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsStorageAdminController_getReports, request, response });
+
+                const controller = new StorageAdminController();
+
+              await templateService.apiHandler({
+                methodName: 'getReports',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsStorageAdminController_getReport: Record<string, TsoaRoute.ParameterSchema> = {
+                reportId: {"in":"path","name":"reportId","required":true,"dataType":"string"},
+        };
+        app.get('/admin/storage/reports/:reportId',
+            authenticateMiddleware([{"bearerAuth":["admin:access","storage:read"]},{"apiKeyAuth":["admin:access","storage:read"]}]),
+            ...(fetchMiddlewares<RequestHandler>(StorageAdminController)),
+            ...(fetchMiddlewares<RequestHandler>(StorageAdminController.prototype.getReport)),
+
+            async function StorageAdminController_getReport(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsStorageAdminController_getReport, request, response });
+
+                const controller = new StorageAdminController();
+
+              await templateService.apiHandler({
+                methodName: 'getReport',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsStorageAdminController_getStats: Record<string, TsoaRoute.ParameterSchema> = {
+        };
+        app.get('/admin/storage/stats',
+            authenticateMiddleware([{"bearerAuth":["admin:access","storage:read"]},{"apiKeyAuth":["admin:access","storage:read"]}]),
+            ...(fetchMiddlewares<RequestHandler>(StorageAdminController)),
+            ...(fetchMiddlewares<RequestHandler>(StorageAdminController.prototype.getStats)),
+
+            async function StorageAdminController_getStats(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsStorageAdminController_getStats, request, response });
+
+                const controller = new StorageAdminController();
+
+              await templateService.apiHandler({
+                methodName: 'getStats',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsFileController_uploadFile: Record<string, TsoaRoute.ParameterSchema> = {
+                processedFile: {"in":"body","name":"processedFile","required":true,"ref":"ProcessedFileRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/files/upload',
+            authenticateMiddleware([{"bearerAuth":["files:write"]},{"apiKeyAuth":["files:write"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FileController)),
+            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.uploadFile)),
+
+            async function FileController_uploadFile(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_uploadFile, request, response });
+
+                const controller = new FileController();
+
+              await templateService.apiHandler({
+                methodName: 'uploadFile',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 201,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsFileController_uploadFileStream: Record<string, TsoaRoute.ParameterSchema> = {
+                filename: {"in":"query","name":"filename","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/files/upload/stream',
+            authenticateMiddleware([{"bearerAuth":["files:write"]},{"apiKeyAuth":["files:write"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FileController)),
+            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.uploadFileStream)),
+
+            async function FileController_uploadFileStream(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_uploadFileStream, request, response });
+
+                const controller = new FileController();
+
+              await templateService.apiHandler({
+                methodName: 'uploadFileStream',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 201,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsFileController_getAllFiles: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                page: {"in":"query","name":"page","dataType":"double"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+                sortBy: {"in":"query","name":"sortBy","dataType":"union","subSchemas":[{"dataType":"enum","enums":["filename"]},{"dataType":"enum","enums":["created_at"]},{"dataType":"enum","enums":["file_size"]}]},
+                sortOrder: {"in":"query","name":"sortOrder","dataType":"union","subSchemas":[{"dataType":"enum","enums":["ASC"]},{"dataType":"enum","enums":["DESC"]}]},
+                contentType: {"in":"query","name":"contentType","dataType":"string"},
+                createdFrom: {"in":"query","name":"createdFrom","dataType":"datetime"},
+                createdTo: {"in":"query","name":"createdTo","dataType":"datetime"},
+                updatedFrom: {"in":"query","name":"updatedFrom","dataType":"datetime"},
+                updatedTo: {"in":"query","name":"updatedTo","dataType":"datetime"},
+                minSize: {"in":"query","name":"minSize","dataType":"double"},
+                maxSize: {"in":"query","name":"maxSize","dataType":"double"},
+                nameContains: {"in":"query","name":"nameContains","dataType":"string"},
+                cursor: {"in":"query","name":"cursor","dataType":"string"},
+        };
+        app.get('/files',
+            authenticateMiddleware([{"bearerAuth":["files:read"]},{"apiKeyAuth":["files:read"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FileController)),
+            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.getAllFiles)),
+
+            async function FileController_getAllFiles(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_getAllFiles, request, response });
+
+                const controller = new FileController();
+
+              await templateService.apiHandler({
+                methodName: 'getAllFiles',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsFileController_getContentTypes: Record<string, TsoaRoute.ParameterSchema> = {
+        };
+        app.get('/files/types',
+            authenticateMiddleware([{"bearerAuth":["files:read"]},{"apiKeyAuth":["files:read"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FileController)),
+            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.getContentTypes)),
+
+            async function FileController_getContentTypes(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_getContentTypes, request, response });
+
+                const controller = new FileController();
+
+              await templateService.apiHandler({
+                methodName: 'getContentTypes',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsFileController_searchFiles: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                q: {"in":"query","name":"q","required":true,"dataType":"string"},
+                contentType: {"in":"query","name":"contentType","dataType":"string"},
+                startDate: {"in":"query","name":"startDate","dataType":"datetime"},
+                endDate: {"in":"query","name":"endDate","dataType":"datetime"},
+                page: {"in":"query","name":"page","dataType":"double"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+        };
+        app.get('/files/search',
+            authenticateMiddleware([{"bearerAuth":["files:read"]},{"apiKeyAuth":["files:read"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FileController)),
+            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.searchFiles)),
+
+            async function FileController_searchFiles(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_searchFiles, request, response });
+
+                const controller = new FileController();
+
+              await templateService.apiHandler({
+                methodName: 'searchFiles',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsFileController_getFileContent: Record<string, TsoaRoute.ParameterSchema> = {
+                fileId: {"in":"path","name":"fileId","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.get('/files/:fileId',
+            authenticateMiddleware([{"bearerAuth":["files:read"]},{"apiKeyAuth":["files:read"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FileController)),
+            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.getFileContent)),
+
+            async function FileController_getFileContent(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_getFileContent, request, response });
+
+                const controller = new FileController();
+
+              await templateService.apiHandler({
+                methodName: 'getFileContent',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsFileController_downloadFile: Record<string, TsoaRoute.ParameterSchema> = {
+                fileId: {"in":"path","name":"fileId","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.get('/files/:fileId/raw',
+            authenticateMiddleware([{"bearerAuth":["files:read"]},{"apiKeyAuth":["files:read"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FileController)),
+            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.downloadFile)),
+
+            async function FileController_downloadFile(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_downloadFile, request, response });
+
+                const controller = new FileController();
+
+              await templateService.apiHandler({
+                methodName: 'downloadFile',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsFileController_updateFileContent: Record<string, TsoaRoute.ParameterSchema> = {
+                fileId: {"in":"path","name":"fileId","required":true,"dataType":"string"},
+                processedFile: {"in":"body","name":"processedFile","required":true,"ref":"ProcessedFileRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                ifMatch: {"in":"header","name":"If-Match","dataType":"string"},
+        };
+        app.put('/files/:fileId/content',
+            authenticateMiddleware([{"bearerAuth":["files:write"]},{"apiKeyAuth":["files:write"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FileController)),
+            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.updateFileContent)),
+
+            async function FileController_updateFileContent(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_updateFileContent, request, response });
+
+                const controller = new FileController();
+
+              await templateService.apiHandler({
+                methodName: 'updateFileContent',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsFileController_getFileVersions: Record<string, TsoaRoute.ParameterSchema> = {
+                fileId: {"in":"path","name":"fileId","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.get('/files/:fileId/versions',
+            authenticateMiddleware([{"bearerAuth":["files:read"]},{"apiKeyAuth":["files:read"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FileController)),
+            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.getFileVersions)),
+
+            async function FileController_getFileVersions(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_getFileVersions, request, response });
+
+                const controller = new FileController();
+
+              await templateService.apiHandler({
+                methodName: 'getFileVersions',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsFileController_getFileVersion: Record<string, TsoaRoute.ParameterSchema> = {
+                fileId: {"in":"path","name":"fileId","required":true,"dataType":"string"},
+                version: {"in":"path","name":"version","required":true,"dataType":"double"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.get('/files/:fileId/versions/:version',
+            authenticateMiddleware([{"bearerAuth":["files:read"]},{"apiKeyAuth":["files:read"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FileController)),
+            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.getFileVersion)),
+
+            async function FileController_getFileVersion(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_getFileVersion, request, response });
+
+                const controller = new FileController();
+
+              await templateService.apiHandler({
+                methodName: 'getFileVersion',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsFileController_getFileDiff: Record<string, TsoaRoute.ParameterSchema> = {
+                fileId: {"in":"path","name":"fileId","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                from: {"in":"query","name":"from","dataType":"double"},
+                to: {"in":"query","name":"to","dataType":"double"},
+                mode: {"in":"query","name":"mode","dataType":"union","subSchemas":[{"dataType":"enum","enums":["text"]},{"dataType":"enum","enums":["json"]}]},
+        };
+        app.get('/files/:fileId/diff',
+            authenticateMiddleware([{"bearerAuth":["files:read"]},{"apiKeyAuth":["files:read"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FileController)),
+            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.getFileDiff)),
+
+            async function FileController_getFileDiff(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_getFileDiff, request, response });
+
+                const controller = new FileController();
+
+              await templateService.apiHandler({
+                methodName: 'getFileDiff',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsFileController_deleteFile: Record<string, TsoaRoute.ParameterSchema> = {
+                fileId: {"in":"path","name":"fileId","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.delete('/files/:fileId',
+            authenticateMiddleware([{"bearerAuth":["files:write"]},{"apiKeyAuth":["files:write"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FileController)),
+            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.deleteFile)),
+
+            async function FileController_deleteFile(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_deleteFile, request, response });
+
+                const controller = new FileController();
+
+              await templateService.apiHandler({
+                methodName: 'deleteFile',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsFileController_getTrash: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+                page: {"in":"query","name":"page","dataType":"double"},
+                limit: {"in":"query","name":"limit","dataType":"double"},
+        };
+        app.get('/files/trash',
+            authenticateMiddleware([{"bearerAuth":["files:read"]},{"apiKeyAuth":["files:read"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FileController)),
+            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.getTrash)),
+
+            async function FileController_getTrash(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_getTrash, request, response });
+
+                const controller = new FileController();
+
+              await templateService.apiHandler({
+                methodName: 'getTrash',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsFileController_restoreFile: Record<string, TsoaRoute.ParameterSchema> = {
+                fileId: {"in":"path","name":"fileId","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/files/:fileId/restore',
+            authenticateMiddleware([{"bearerAuth":["files:write"]},{"apiKeyAuth":["files:write"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FileController)),
+            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.restoreFile)),
+
+            async function FileController_restoreFile(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_restoreFile, request, response });
+
+                const controller = new FileController();
+
+              await templateService.apiHandler({
+                methodName: 'restoreFile',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsFileController_purgeFile: Record<string, TsoaRoute.ParameterSchema> = {
+                fileId: {"in":"path","name":"fileId","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.delete('/files/trash/:fileId',
+            authenticateMiddleware([{"bearerAuth":["files:write"]},{"apiKeyAuth":["files:write"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FileController)),
+            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.purgeFile)),
+
+            async function FileController_purgeFile(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_purgeFile, request, response });
+
+                const controller = new FileController();
+
+              await templateService.apiHandler({
+                methodName: 'purgeFile',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSharedFileController_downloadSharedFile: Record<string, TsoaRoute.ParameterSchema> = {
+                linkId: {"in":"path","name":"linkId","required":true,"dataType":"string"},
+                expires: {"in":"query","name":"expires","required":true,"dataType":"string"},
+                signature: {"in":"query","name":"signature","required":true,"dataType":"string"},
+                password: {"in":"header","name":"X-Share-Password","dataType":"string"},
+        };
+        app.get('/share/:linkId',
+            ...(fetchMiddlewares<RequestHandler>(SharedFileController)),
+            ...(fetchMiddlewares<RequestHandler>(SharedFileController.prototype.downloadSharedFile)),
+
+            async function SharedFileController_downloadSharedFile(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSharedFileController_downloadSharedFile, request, response });
+
+                const controller = new SharedFileController();
+
+              await templateService.apiHandler({
+                methodName: 'downloadSharedFile',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsSharedFileController_downloadSharedFileWithPassword: Record<string, TsoaRoute.ParameterSchema> = {
+                linkId: {"in":"path","name":"linkId","required":true,"dataType":"string"},
+                expires: {"in":"query","name":"expires","required":true,"dataType":"string"},
+                signature: {"in":"query","name":"signature","required":true,"dataType":"string"},
+                body: {"in":"body","name":"body","required":true,"ref":"SharePasswordRequest"},
+        };
+        app.post('/share/:linkId',
+            ...(fetchMiddlewares<RequestHandler>(SharedFileController)),
+            ...(fetchMiddlewares<RequestHandler>(SharedFileController.prototype.downloadSharedFileWithPassword)),
+
+            async function SharedFileController_downloadSharedFileWithPassword(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsSharedFileController_downloadSharedFileWithPassword, request, response });
+
+                const controller = new SharedFileController();
+
+              await templateService.apiHandler({
+                methodName: 'downloadSharedFileWithPassword',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsShareLinkController_createShareLink: Record<string, TsoaRoute.ParameterSchema> = {
+                fileId: {"in":"path","name":"fileId","required":true,"dataType":"string"},
+                body: {"in":"body","name":"body","required":true,"ref":"ShareLinkRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/files/:fileId/share-links',
+            authenticateMiddleware([{"bearerAuth":["files:write"]},{"apiKeyAuth":["files:write"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ShareLinkController)),
+            ...(fetchMiddlewares<RequestHandler>(ShareLinkController.prototype.createShareLink)),
+
+            async function ShareLinkController_createShareLink(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsShareLinkController_createShareLink, request, response });
+
+                const controller = new ShareLinkController();
+
+              await templateService.apiHandler({
+                methodName: 'createShareLink',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 201,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsShareLinkController_getShareLinks: Record<string, TsoaRoute.ParameterSchema> = {
+                fileId: {"in":"path","name":"fileId","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.get('/files/:fileId/share-links',
+            authenticateMiddleware([{"bearerAuth":["files:read"]},{"apiKeyAuth":["files:read"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ShareLinkController)),
+            ...(fetchMiddlewares<RequestHandler>(ShareLinkController.prototype.getShareLinks)),
 
-// WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+            async function ShareLinkController_getShareLinks(request: ExRequest, response: ExResponse, next: any) {
 
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsShareLinkController_getShareLinks, request, response });
 
+                const controller = new ShareLinkController();
 
-export function RegisterRoutes(app: Router) {
+              await templateService.apiHandler({
+                methodName: 'getShareLinks',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsShareLinkController_revokeShareLink: Record<string, TsoaRoute.ParameterSchema> = {
+                fileId: {"in":"path","name":"fileId","required":true,"dataType":"string"},
+                linkId: {"in":"path","name":"linkId","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.delete('/files/:fileId/share-links/:linkId',
+            authenticateMiddleware([{"bearerAuth":["files:write"]},{"apiKeyAuth":["files:write"]}]),
+            ...(fetchMiddlewares<RequestHandler>(ShareLinkController)),
+            ...(fetchMiddlewares<RequestHandler>(ShareLinkController.prototype.revokeShareLink)),
 
-    // ###########################################################################################################
-    //  NOTE: If you do not see routes for all of your controllers in this file, then you might not have informed tsoa of where to look
-    //      Please look into the "controllerPathGlobs" config option described in the readme: https://github.com/lukeautry/tsoa
-    // ###########################################################################################################
+            async function ShareLinkController_revokeShareLink(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsShareLinkController_revokeShareLink, request, response });
 
-    
+                const controller = new ShareLinkController();
+
+              await templateService.apiHandler({
+                methodName: 'revokeShareLink',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 204,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
         const argsHealthController_getHealth: Record<string, TsoaRoute.ParameterSchema> = {
         };
         app.get('/health',
@@ -138,58 +1509,60 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsFileController_uploadFile: Record<string, TsoaRoute.ParameterSchema> = {
-                processedFile: {"in":"body","name":"processedFile","required":true,"ref":"ProcessedFileRequest"},
+        const argsFileAccessController_getFileGrants: Record<string, TsoaRoute.ParameterSchema> = {
+                fileId: {"in":"path","name":"fileId","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.post('/files/upload',
-            ...(fetchMiddlewares<RequestHandler>(FileController)),
-            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.uploadFile)),
+        app.get('/files/:fileId/grants',
+            authenticateMiddleware([{"bearerAuth":["files:read"]},{"apiKeyAuth":["files:read"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FileAccessController)),
+            ...(fetchMiddlewares<RequestHandler>(FileAccessController.prototype.getFileGrants)),
 
-            async function FileController_uploadFile(request: ExRequest, response: ExResponse, next: any) {
+            async function FileAccessController_getFileGrants(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_uploadFile, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsFileAccessController_getFileGrants, request, response });
 
-                const controller = new FileController();
+                const controller = new FileAccessController();
 
               await templateService.apiHandler({
-                methodName: 'uploadFile',
+                methodName: 'getFileGrants',
                 controller,
                 response,
                 next,
                 validatedArgs,
-                successStatus: 201,
+                successStatus: 200,
               });
             } catch (err) {
                 return next(err);
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsFileController_getAllFiles: Record<string, TsoaRoute.ParameterSchema> = {
-                page: {"in":"query","name":"page","dataType":"double"},
-                limit: {"in":"query","name":"limit","dataType":"double"},
-                sortBy: {"in":"query","name":"sortBy","dataType":"union","subSchemas":[{"dataType":"enum","enums":["filename"]},{"dataType":"enum","enums":["created_at"]},{"dataType":"enum","enums":["file_size"]}]},
-                sortOrder: {"in":"query","name":"sortOrder","dataType":"union","subSchemas":[{"dataType":"enum","enums":["ASC"]},{"dataType":"enum","enums":["DESC"]}]},
+        const argsFileAccessController_grantFileAccess: Record<string, TsoaRoute.ParameterSchema> = {
+                fileId: {"in":"path","name":"fileId","required":true,"dataType":"string"},
+                body: {"in":"body","name":"body","required":true,"ref":"FileGrantRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/files',
-            ...(fetchMiddlewares<RequestHandler>(FileController)),
-            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.getAllFiles)),
+        app.put('/files/:fileId/grants',
+            authenticateMiddleware([{"bearerAuth":["files:write"]},{"apiKeyAuth":["files:write"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FileAccessController)),
+            ...(fetchMiddlewares<RequestHandler>(FileAccessController.prototype.grantFileAccess)),
 
-            async function FileController_getAllFiles(request: ExRequest, response: ExResponse, next: any) {
+            async function FileAccessController_grantFileAccess(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_getAllFiles, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsFileAccessController_grantFileAccess, request, response });
 
-                const controller = new FileController();
+                const controller = new FileAccessController();
 
               await templateService.apiHandler({
-                methodName: 'getAllFiles',
+                methodName: 'grantFileAccess',
                 controller,
                 response,
                 next,
@@ -201,25 +1574,88 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsFileController_getFileContent: Record<string, TsoaRoute.ParameterSchema> = {
+        const argsFileAccessController_revokeFileAccess: Record<string, TsoaRoute.ParameterSchema> = {
                 fileId: {"in":"path","name":"fileId","required":true,"dataType":"string"},
+                userId: {"in":"path","name":"userId","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
         };
-        app.get('/files/:fileId',
-            ...(fetchMiddlewares<RequestHandler>(FileController)),
-            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.getFileContent)),
+        app.delete('/files/:fileId/grants/:userId',
+            authenticateMiddleware([{"bearerAuth":["files:write"]},{"apiKeyAuth":["files:write"]}]),
+            ...(fetchMiddlewares<RequestHandler>(FileAccessController)),
+            ...(fetchMiddlewares<RequestHandler>(FileAccessController.prototype.revokeFileAccess)),
 
-            async function FileController_getFileContent(request: ExRequest, response: ExResponse, next: any) {
+            async function FileAccessController_revokeFileAccess(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_getFileContent, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsFileAccessController_revokeFileAccess, request, response });
 
-                const controller = new FileController();
+                const controller = new FileAccessController();
 
               await templateService.apiHandler({
-                methodName: 'getFileContent',
+                methodName: 'revokeFileAccess',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 204,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsAuthController_register: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"RegistrationRequest"},
+        };
+        app.post('/auth/register',
+            ...(fetchMiddlewares<RequestHandler>(AuthController)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.register)),
+
+            async function AuthController_register(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_register, request, response });
+
+                const controller = new AuthController();
+
+              await templateService.apiHandler({
+                methodName: 'register',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 201,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsAuthController_login: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"CredentialsRequest"},
+        };
+        app.post('/auth/login',
+            ...(fetchMiddlewares<RequestHandler>(AuthController)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.login)),
+
+            async function AuthController_login(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_login, request, response });
+
+                const controller = new AuthController();
+
+              await templateService.apiHandler({
+                methodName: 'login',
                 controller,
                 response,
                 next,
@@ -231,25 +1667,149 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
-        const argsFileController_deleteFile: Record<string, TsoaRoute.ParameterSchema> = {
-                fileId: {"in":"path","name":"fileId","required":true,"dataType":"string"},
+        const argsAuthController_refresh: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"RefreshTokenRequest"},
         };
-        app.delete('/files/:fileId',
-            ...(fetchMiddlewares<RequestHandler>(FileController)),
-            ...(fetchMiddlewares<RequestHandler>(FileController.prototype.deleteFile)),
+        app.post('/auth/refresh',
+            ...(fetchMiddlewares<RequestHandler>(AuthController)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.refresh)),
 
-            async function FileController_deleteFile(request: ExRequest, response: ExResponse, next: any) {
+            async function AuthController_refresh(request: ExRequest, response: ExResponse, next: any) {
 
             // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
             let validatedArgs: any[] = [];
             try {
-                validatedArgs = templateService.getValidatedArgs({ args: argsFileController_deleteFile, request, response });
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_refresh, request, response });
 
-                const controller = new FileController();
+                const controller = new AuthController();
 
               await templateService.apiHandler({
-                methodName: 'deleteFile',
+                methodName: 'refresh',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsAuthController_logout: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"SignOutRequest"},
+        };
+        app.post('/auth/logout',
+            ...(fetchMiddlewares<RequestHandler>(AuthController)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.logout)),
+
+            async function AuthController_logout(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_logout, request, response });
+
+                const controller = new AuthController();
+
+              await templateService.apiHandler({
+                methodName: 'logout',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 204,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsAuthController_getCurrentUser: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.get('/auth/me',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(AuthController)),
+            ...(fetchMiddlewares<RequestHandler>(AuthController.prototype.getCurrentUser)),
+
+            async function AuthController_getCurrentUser(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsAuthController_getCurrentUser, request, response });
+
+                const controller = new AuthController();
+
+              await templateService.apiHandler({
+                methodName: 'getCurrentUser',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 200,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsApiKeyController_createApiKey: Record<string, TsoaRoute.ParameterSchema> = {
+                body: {"in":"body","name":"body","required":true,"ref":"ApiKeyRequest"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.post('/me/api-keys',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(ApiKeyController)),
+            ...(fetchMiddlewares<RequestHandler>(ApiKeyController.prototype.createApiKey)),
+
+            async function ApiKeyController_createApiKey(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsApiKeyController_createApiKey, request, response });
+
+                const controller = new ApiKeyController();
+
+              await templateService.apiHandler({
+                methodName: 'createApiKey',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 201,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsApiKeyController_getApiKeys: Record<string, TsoaRoute.ParameterSchema> = {
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.get('/me/api-keys',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(ApiKeyController)),
+            ...(fetchMiddlewares<RequestHandler>(ApiKeyController.prototype.getApiKeys)),
+
+            async function ApiKeyController_getApiKeys(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsApiKeyController_getApiKeys, request, response });
+
+                const controller = new ApiKeyController();
+
+              await templateService.apiHandler({
+                methodName: 'getApiKeys',
                 controller,
                 response,
                 next,
@@ -261,9 +1821,111 @@ export function RegisterRoutes(app: Router) {
             }
         });
         // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        const argsApiKeyController_deleteApiKey: Record<string, TsoaRoute.ParameterSchema> = {
+                keyId: {"in":"path","name":"keyId","required":true,"dataType":"string"},
+                request: {"in":"request","name":"request","required":true,"dataType":"object"},
+        };
+        app.delete('/me/api-keys/:keyId',
+            authenticateMiddleware([{"bearerAuth":[]}]),
+            ...(fetchMiddlewares<RequestHandler>(ApiKeyController)),
+            ...(fetchMiddlewares<RequestHandler>(ApiKeyController.prototype.deleteApiKey)),
+
+            async function ApiKeyController_deleteApiKey(request: ExRequest, response: ExResponse, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            let validatedArgs: any[] = [];
+            try {
+                validatedArgs = templateService.getValidatedArgs({ args: argsApiKeyController_deleteApiKey, request, response });
+
+                const controller = new ApiKeyController();
+
+              await templateService.apiHandler({
+                methodName: 'deleteApiKey',
+                controller,
+                response,
+                next,
+                validatedArgs,
+                successStatus: 204,
+              });
+            } catch (err) {
+                return next(err);
+            }
+        });
+        // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
 
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 
+    function authenticateMiddleware(security: TsoaRoute.Security[] = []) {
+        return async function runAuthenticationMiddleware(request: any, response: any, next: any) {
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            // keep track of failed auth attempts so we can hand back the most
+            // recent one.  This behavior was previously existing so preserving it
+            // here
+            const failedAttempts: any[] = [];
+            const pushAndRethrow = (error: any) => {
+                failedAttempts.push(error);
+                throw error;
+            };
+
+            const secMethodOrPromises: Promise<any>[] = [];
+            for (const secMethod of security) {
+                if (Object.keys(secMethod).length > 1) {
+                    const secMethodAndPromises: Promise<any>[] = [];
+
+                    for (const name in secMethod) {
+                        secMethodAndPromises.push(
+                            expressAuthenticationRecasted(request, name, secMethod[name], response)
+                                .catch(pushAndRethrow)
+                        );
+                    }
+
+                    // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+                    secMethodOrPromises.push(Promise.all(secMethodAndPromises)
+                        .then(users => { return users[0]; }));
+                } else {
+                    for (const name in secMethod) {
+                        secMethodOrPromises.push(
+                            expressAuthenticationRecasted(request, name, secMethod[name], response)
+                                .catch(pushAndRethrow)
+                        );
+                    }
+                }
+            }
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+
+            try {
+                request['user'] = await Promise.any(secMethodOrPromises);
+
+                // Response was sent in middleware, abort
+                if (response.writableEnded) {
+                    return;
+                }
+
+                next();
+            }
+            catch(err) {
+                // Show most recent error as response
+                const error = failedAttempts.pop();
+                error.status = error.status || 401;
+
+                // Response was sent in middleware, abort
+                if (response.writableEnded) {
+                    return;
+                }
+                next(error);
+            }
+
+            // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
+        }
+    }
 
     // WARNING: This file was auto-generated with tsoa. Please do not modify it. Re-run tsoa to re-generate this file: https://github.com/lukeautry/tsoa
 }
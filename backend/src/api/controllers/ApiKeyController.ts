@@ -0,0 +1,128 @@
+import { Request as ExpressRequest } from 'express';
+import {
+  Route,
+  Get,
+  Post,
+  Delete,
+  Tags,
+  SuccessResponse,
+  Example,
+  Controller,
+  Path,
+  Response,
+  Body,
+  Request,
+  Security
+} from 'tsoa';
+import { ApiKeyRequest, ApiKeyResponse, ApiKeyCreatedResponse, ApiKeyListResponse, ProblemDetails } from '../dto';
+import {
+  CreateApiKeyUseCase,
+  GetApiKeysUseCase,
+  DeleteApiKeyUseCase,
+  ApiKeySummary
+} from '../../application/usecases';
+import { authenticatedUserOf } from '../middlewares';
+
+const exampleApiKey: ApiKeyResponse = {
+  id: '1e6f0a2b-3c4d-4e5f-8a9b-0c1d2e3f4a5b',
+  name: 'nightly-reports',
+  prefix: 'atl_Qm9vZ2xl',
+  scopes: ['files:read', 'files:write'],
+  expiresAt: '2025-12-07T10:30:00.000Z',
+  lastUsedAt: '2025-09-09T02:00:00.000Z',
+  createdAt: '2025-09-08T10:30:00.000Z'
+};
+
+@Route('me/api-keys')
+@Tags('API Keys')
+@Response<ProblemDetails>('401', 'Access token or API key missing, invalid or expired', undefined, 'application/problem+json')
+@Response<ProblemDetails>('500', 'Unexpected server error', undefined, 'application/problem+json')
+export class ApiKeyController extends Controller {
+  constructor(
+    private createApiKeyUseCase: CreateApiKeyUseCase,
+    private getApiKeysUseCase: GetApiKeysUseCase,
+    private deleteApiKeyUseCase: DeleteApiKeyUseCase
+  ) {
+    super();
+  }
+
+  /**
+   * Create an API key
+   * @summary Create a named, scoped and expiring key for scripts and CI
+   * @description The key is returned only in this response; only its hash is stored. Send it as "X-API-Key: <key>". Keys can only be created when signed in, not with another key.
+   */
+  @Post()
+  @Security('bearerAuth')
+  @SuccessResponse('201', 'API key created')
+  @Response<ProblemDetails>('400', 'Invalid name, scopes or expiry', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('403', 'Scope beyond the caller\'s role, or called with an API key', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('409', 'The caller has a key with this name already', undefined, 'application/problem+json')
+  @Example<ApiKeyCreatedResponse>({
+    id: '1e6f0a2b-3c4d-4e5f-8a9b-0c1d2e3f4a5b',
+    name: 'nightly-reports',
+    prefix: 'atl_Qm9vZ2xl',
+    scopes: ['files:read', 'files:write'],
+    expiresAt: '2025-12-07T10:30:00.000Z',
+    createdAt: '2025-09-08T10:30:00.000Z',
+    key: 'atl_Qm9vZ2xlU2VjcmV0S2V5VGhhdElzTG9uZ0Vub3VnaDEyMzQ1Ng'
+  })
+  public async createApiKey(@Body() body: ApiKeyRequest, @Request() request: ExpressRequest): Promise<ApiKeyCreatedResponse> {
+    const result = await this.createApiKeyUseCase.execute({
+      user: authenticatedUserOf(request),
+      name: body?.name,
+      scopes: body?.scopes,
+      expiresInDays: body?.expiresInDays
+    });
+
+    this.setStatus(201);
+    return { ...this.toApiKeyResponse(result.apiKey), key: result.key };
+  }
+
+  /**
+   * List your API keys
+   * @summary Get the caller's API keys with their scopes, expiry and when they were last used
+   * @description Keys can only be listed when signed in, not with a key.
+   */
+  @Get()
+  @Security('bearerAuth')
+  @SuccessResponse('200', 'API keys retrieved successfully')
+  @Response<ProblemDetails>('403', 'Called with an API key', undefined, 'application/problem+json')
+  @Example<ApiKeyListResponse>({ apiKeys: [exampleApiKey] })
+  public async getApiKeys(@Request() request: ExpressRequest): Promise<ApiKeyListResponse> {
+    const result = await this.getApiKeysUseCase.execute({ user: authenticatedUserOf(request) });
+
+    return { apiKeys: result.apiKeys.map(apiKey => this.toApiKeyResponse(apiKey)) };
+  }
+
+  /**
+   * Delete an API key
+   * @summary Delete one of the caller's API keys, which stops it from being accepted at once
+   * @description Keys can only be deleted when signed in, not with a key.
+   */
+  @Delete('{keyId}')
+  @Security('bearerAuth')
+  @SuccessResponse('204', 'API key deleted')
+  @Response<ProblemDetails>('400', 'Invalid API key ID format', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('403', 'Called with an API key', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('404', 'API key not found', undefined, 'application/problem+json')
+  public async deleteApiKey(@Path() keyId: string, @Request() request: ExpressRequest): Promise<void> {
+    await this.deleteApiKeyUseCase.execute({ keyId, user: authenticatedUserOf(request) });
+
+    this.setStatus(204);
+  }
+
+  /**
+   * Maps an API key summary to its response, serializing dates
+   */
+  private toApiKeyResponse(apiKey: ApiKeySummary): ApiKeyResponse {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      expiresAt: apiKey.expiresAt.toISOString(),
+      lastUsedAt: apiKey.lastUsedAt?.toISOString(),
+      createdAt: apiKey.createdAt.toISOString()
+    };
+  }
+}
\ No newline at end of file
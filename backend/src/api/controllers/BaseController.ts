@@ -1,5 +1,10 @@
 import { Request, Response } from 'express';
+import { sendProblem } from '../middleware';
 
+/**
+ * Helpers for controllers that write Express responses themselves
+ * Error helpers answer with RFC 7807 problem details like the central error handler
+ */
 export abstract class BaseController {
   protected ok<T>(res: Response, dto?: T): Response {
     if (dto) {
@@ -15,33 +20,23 @@ export abstract class BaseController {
   }
 
   protected clientError(res: Response, message?: string): Response {
-    return res.status(400).json({
-      message: message || 'Bad request'
-    });
+    return sendProblem(res.req, res, 400, message || 'Bad request');
   }
 
   protected unauthorized(res: Response, message?: string): Response {
-    return res.status(401).json({
-      message: message || 'Unauthorized'
-    });
+    return sendProblem(res.req, res, 401, message || 'Unauthorized');
   }
 
   protected forbidden(res: Response, message?: string): Response {
-    return res.status(403).json({
-      message: message || 'Forbidden'
-    });
+    return sendProblem(res.req, res, 403, message || 'Forbidden');
   }
 
   protected notFound(res: Response, message?: string): Response {
-    return res.status(404).json({
-      message: message || 'Not found'
-    });
+    return sendProblem(res.req, res, 404, message || 'Not found');
   }
 
   protected fail(res: Response, error: Error | string): Response {
     console.log(error);
-    return res.status(500).json({
-      message: 'Internal server error'
-    });
+    return sendProblem(res.req, res, 500, 'An unexpected error occurred');
   }
 }
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { Request as ExpressRequest } from 'express';
+import {
+  Route,
+  Get,
+  Put,
+  Delete,
+  Tags,
+  SuccessResponse,
+  Example,
+  Controller,
+  Path,
+  Response,
+  Body,
+  Request,
+  Security
+} from 'tsoa';
+import { FileGrantRequest, FileGrantResponse, FileGrantListResponse, ProblemDetails } from '../dto';
+import {
+  GrantFileAccessUseCase,
+  GetFileGrantsUseCase,
+  RevokeFileAccessUseCase,
+  FileGrantSummary
+} from '../../application/usecases';
+import { authenticatedUserOf } from '../middlewares';
+
+const exampleGrant: FileGrantResponse = {
+  userId: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+  role: 'viewer',
+  createdAt: '2025-09-06T10:30:00.000Z',
+  updatedAt: '2025-09-06T10:30:00.000Z'
+};
+
+@Route('files')
+@Tags('Sharing')
+@Response<ProblemDetails>('400', 'Invalid file ID format', undefined, 'application/problem+json')
+@Response<ProblemDetails>('401', 'Access token or API key missing, invalid or expired', undefined, 'application/problem+json')
+@Response<ProblemDetails>('403', 'File shared with you without the owner role', undefined, 'application/problem+json')
+@Response<ProblemDetails>('404', 'File not found or not shared with you', undefined, 'application/problem+json')
+@Response<ProblemDetails>('500', 'Unexpected server error', undefined, 'application/problem+json')
+export class FileAccessController extends Controller {
+  constructor(
+    private grantFileAccessUseCase: GrantFileAccessUseCase,
+    private getFileGrantsUseCase: GetFileGrantsUseCase,
+    private revokeFileAccessUseCase: RevokeFileAccessUseCase
+  ) {
+    super();
+  }
+
+  /**
+   * List who a file is shared with
+   * @summary Get the owner of a file and the roles granted to other users
+   * @description Only the file's owners may see who else has access.
+   */
+  @Get('{fileId}/grants')
+  @Security('bearerAuth', ['files:read'])
+  @Security('apiKeyAuth', ['files:read'])
+  @SuccessResponse('200', 'Grants retrieved successfully')
+  @Example<FileGrantListResponse>({
+    fileId: '123e4567-e89b-12d3-a456-426614174000',
+    ownerId: '9b2f1e3a-5c4d-4e6f-8a7b-0c1d2e3f4a5b',
+    grants: [exampleGrant]
+  })
+  public async getFileGrants(@Path() fileId: string, @Request() request: ExpressRequest): Promise<FileGrantListResponse> {
+    const result = await this.getFileGrantsUseCase.execute({ fileId, userId: authenticatedUserOf(request).id });
+
+    return {
+      fileId: result.fileId,
+      ownerId: result.ownerId,
+      grants: result.grants.map(grant => this.toGrantResponse(grant))
+    };
+  }
+
+  /**
+   * Share a file with another user
+   * @summary Give a user a role on a file, or change the role they hold
+   * @description viewer reads the file, editor also changes its content, owner also deletes and shares it. Only the file's owners may share it.
+   */
+  @Put('{fileId}/grants')
+  @Security('bearerAuth', ['files:write'])
+  @Security('apiKeyAuth', ['files:write'])
+  @SuccessResponse('200', 'Role granted')
+  @Response<ProblemDetails>('409', 'File has no owner and is open to every user', undefined, 'application/problem+json')
+  @Example<FileGrantResponse>(exampleGrant)
+  public async grantFileAccess(
+    @Path() fileId: string,
+    @Body() body: FileGrantRequest,
+    @Request() request: ExpressRequest
+  ): Promise<FileGrantResponse> {
+    const result = await this.grantFileAccessUseCase.execute({
+      fileId,
+      userId: authenticatedUserOf(request).id,
+      email: body?.email,
+      role: body?.role
+    });
+
+    return this.toGrantResponse(result);
+  }
+
+  /**
+   * Stop sharing a file with a user
+   * @summary Withdraw the role a user holds on a file
+   * @description Only the file's owners may revoke access; the user who uploaded the file always keeps it.
+   * @param userId ID of the user to withdraw the role from
+   */
+  @Delete('{fileId}/grants/{userId}')
+  @Security('bearerAuth', ['files:write'])
+  @Security('apiKeyAuth', ['files:write'])
+  @SuccessResponse('204', 'Role withdrawn')
+  public async revokeFileAccess(
+    @Path() fileId: string,
+    @Path() userId: string,
+    @Request() request: ExpressRequest
+  ): Promise<void> {
+    await this.revokeFileAccessUseCase.execute({
+      fileId,
+      userId: authenticatedUserOf(request).id,
+      granteeId: userId
+    });
+
+    this.setStatus(204);
+  }
+
+  /**
+   * Maps a grant summary to its response, serializing dates
+   */
+  private toGrantResponse(grant: FileGrantSummary): FileGrantResponse {
+    return {
+      userId: grant.userId,
+      role: grant.role,
+      createdAt: grant.createdAt.toISOString(),
+      updatedAt: grant.updatedAt.toISOString()
+    };
+  }
+}
\ No newline at end of file
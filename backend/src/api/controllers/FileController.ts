@@ -1,7 +1,10 @@
+import { Readable } from 'stream';
+import { Request as ExpressRequest } from 'express';
 import { 
   Route, 
   Get, 
   Post, 
+  Put,
   Delete,
   Tags, 
   SuccessResponse, 
@@ -10,107 +13,231 @@ import {
   Path,
   Query,
   Response,
-  Body
+  Body,
+  Request,
+  Header,
+  Produces,
+  Consumes,
+  Security
 } from 'tsoa';
 import { 
   FileResponse,
   FileContentResponse,
   FileListResponse,
   DeleteFileResponse,
-  ProcessedFileRequest
+  ProcessedFileRequest,
+  FileVersionResponse,
+  FileVersionListResponse,
+  FileVersionContentResponse,
+  FileDiffResponse,
+  FileSearchResponse,
+  ProblemDetails,
+  TrashListResponse,
+  PurgeFileResponse,
+  ContentTypeListResponse,
+  ContentEncoding
 } from '../dto';
 import {
   UploadFileUseCase,
   GetAllFilesUseCase,
   GetFileContentUseCase,
-  DeleteFileUseCase
+  DeleteFileUseCase,
+  UpdateFileContentUseCase,
+  GetFileVersionsUseCase,
+  GetFileVersionContentUseCase,
+  GetFileDiffUseCase,
+  SearchFilesUseCase,
+  UploadFileStreamUseCase,
+  GetFileStreamUseCase,
+  GetFileStreamResponse,
+  GetTrashedFilesUseCase,
+  RestoreFileUseCase,
+  PurgeFileUseCase,
+  GetContentTypesUseCase
 } from '../../application/usecases';
+import { ByteRange } from '../../application/interfaces';
+import { authenticatedUserOf } from '../middlewares';
+import { ValidationError, PreconditionRequiredError } from '../../domain/errors';
+import { contentTypeRegistry } from '../../domain/services';
+
+/**
+ * The outcome of a raw download request: the status to answer with, its headers
+ * and, unless the client's copy is current or the range cannot be served, the content stream
+ */
+export interface FileDownload {
+  status: 200 | 206 | 304 | 416;
+  stream?: Readable;
+  headers: Record<string, string>;
+}
+
+/**
+ * Builds a Content-Disposition header offering a file as a download
+ */
+export function contentDispositionFor(filename: string): string {
+  // Plain ASCII fallback for old clients plus the exact name per RFC 6266 / RFC 5987
+  const asciiFallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `attachment; filename="${asciiFallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+/**
+ * Builds the Content-Type header of a download; only text types get a charset
+ */
+export function contentTypeHeaderFor(contentType: string): string {
+  return contentTypeRegistry.get(contentType)?.binary ? contentType : `${contentType}; charset=utf-8`;
+}
+
+/**
+ * Builds the strong ETag of a file revision
+ * It names the revision as well as the content, so content that was changed and changed back
+ * gets a new tag and If-Match cannot mistake it for the revision a client read
+ */
+export function entityTagFor(contentHash: string, version: number): string {
+  return `"${version}-${contentHash}"`;
+}
 
 @Route('files')
 @Tags('Files')
+@Response<ProblemDetails>('401', 'Access token or API key missing, invalid or expired', undefined, 'application/problem+json')
+@Response<ProblemDetails>('403', 'API key not scoped for this action', undefined, 'application/problem+json')
+@Response<ProblemDetails>('500', 'Unexpected server error', undefined, 'application/problem+json')
 export class FileController extends Controller {
   constructor(
     private uploadFileUseCase: UploadFileUseCase,
     private getAllFilesUseCase: GetAllFilesUseCase,
     private getFileContentUseCase: GetFileContentUseCase,
-    private deleteFileUseCase: DeleteFileUseCase
+    private deleteFileUseCase: DeleteFileUseCase,
+    private updateFileContentUseCase: UpdateFileContentUseCase,
+    private getFileVersionsUseCase: GetFileVersionsUseCase,
+    private getFileVersionContentUseCase: GetFileVersionContentUseCase,
+    private getFileDiffUseCase: GetFileDiffUseCase,
+    private searchFilesUseCase: SearchFilesUseCase,
+    private uploadFileStreamUseCase: UploadFileStreamUseCase,
+    private getFileStreamUseCase: GetFileStreamUseCase,
+    private getTrashedFilesUseCase: GetTrashedFilesUseCase,
+    private restoreFileUseCase: RestoreFileUseCase,
+    private purgeFileUseCase: PurgeFileUseCase,
+    private getContentTypesUseCase: GetContentTypesUseCase
   ) {
     super();
   }
 
   /**
    * Upload a new file to the system
-   * @summary Upload a text document (txt, md, json only) using multipart form data
-   * @description Upload a file using multipart/form-data with field name 'file'. Supports .txt, .md, and .json files up to 1MB.
+   * @summary Upload a document or image using multipart form data
+   * @description Upload a file using multipart/form-data with field name 'file'. Supports the document types listed by GET /files/types, each up to its size limit. The content type is detected from the content and must match the file extension; the MIME type sent by the client is not trusted.
    */
   @Post('upload')
+  @Security('bearerAuth', ['files:write'])
+  @Security('apiKeyAuth', ['files:write'])
   @SuccessResponse('201', 'File uploaded successfully')
-  @Response('400', 'Invalid file format, content, or missing file')
-  @Response('409', 'File with same name already exists')
-  @Response('413', 'File too large (max 1MB)')
+  @Response<ProblemDetails>('400', 'Invalid file format, content, or missing file', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('409', 'File with same name already exists', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('413', 'File larger than the size limit of its type', undefined, 'application/problem+json')
   @Example<FileResponse>({
     id: '123e4567-e89b-12d3-a456-426614174000',
     filename: 'example.txt',
     fileSize: 1024,
     formattedSize: '1.0 KB',
     contentType: 'text/plain',
+    contentHash: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
     createdAt: '2025-09-06T10:30:00.000Z',
     updatedAt: '2025-09-06T10:30:00.000Z'
   })
-  public async uploadFile(@Body() processedFile: ProcessedFileRequest): Promise<FileResponse> {
-    try {
-      if (!processedFile) {
-        this.setStatus(400);
-        throw new Error('No valid file data found. Please ensure file is uploaded via multipart form data with field name "file"');
-      }
+  public async uploadFile(@Body() processedFile: ProcessedFileRequest, @Request() request: ExpressRequest): Promise<FileResponse> {
+    if (!processedFile) {
+      throw new ValidationError('No valid file data found. Please ensure file is uploaded via multipart form data with field name "file"');
+    }
 
-      const uploadRequest = {
-        filename: processedFile.filename,
-        content: processedFile.content,
-        contentType: processedFile.contentType
-      };
+    return this.storeUploadedFile(processedFile.filename, this.decodeContent(processedFile), authenticatedUserOf(request).id);
+  }
 
-      const result = await this.uploadFileUseCase.execute(uploadRequest);
-      
-      this.setStatus(201);
-      return {
-        id: result.id,
-        filename: result.filename,
-        fileSize: result.fileSize,
-        formattedSize: this.formatFileSize(result.fileSize),
-        contentType: result.contentType,
-        createdAt: result.createdAt.toISOString(),
-        updatedAt: result.createdAt.toISOString()
-      };
-    } catch (error) {
-      const message = (error as Error).message;
-      
-      if (message.includes('already exists')) {
-        this.setStatus(409);
-        throw new Error(message);
-      }
-      
-      if (message.includes('cannot exceed') || message.includes('too large')) {
-        this.setStatus(413);
-        throw new Error(message);
-      }
-      
-      if (message.includes('extension') || message.includes('content type') || message.includes('invalid') || message.includes('No valid file')) {
-        this.setStatus(400);
-        throw new Error(message);
-      }
-      
-      this.setStatus(500);
-      throw new Error(`Failed to upload file: ${message}`);
-    }
+  /**
+   * Stores the raw bytes of an uploaded file on behalf of its owner
+   * Used by the multipart route, which receives the bytes without a JSON encoding
+   */
+  public async storeUploadedFile(filename: string, content: Buffer, ownerId: string): Promise<FileResponse> {
+    const result = await this.uploadFileUseCase.execute({ filename, content, ownerId });
+    
+    this.setStatus(201);
+    return {
+      id: result.id,
+      filename: result.filename,
+      fileSize: result.fileSize,
+      formattedSize: this.formatFileSize(result.fileSize),
+      contentType: result.contentType,
+      contentHash: result.contentHash,
+      createdAt: result.createdAt.toISOString(),
+      updatedAt: result.createdAt.toISOString()
+    };
+  }
+
+  /**
+   * Upload a new file by streaming its raw bytes
+   * @summary Upload a document or image as a raw request body
+   * @description Send the file content as the request body with Content-Type application/octet-stream. The content is written to storage as it arrives; size and SHA-256 hash are computed on the fly, and the leading bytes must match the type of the file extension. Up to the size limit of the document type.
+   * @param filename Original filename including its extension
+   */
+  @Post('upload/stream')
+  @Security('bearerAuth', ['files:write'])
+  @Security('apiKeyAuth', ['files:write'])
+  @Consumes('application/octet-stream')
+  @SuccessResponse('201', 'File uploaded successfully')
+  @Response<ProblemDetails>('400', 'Invalid filename, extension or content', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('409', 'File with same name already exists', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('413', 'File larger than the size limit of its type', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('415', 'Body not sent as application/octet-stream', undefined, 'application/problem+json')
+  @Example<FileResponse>({
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    filename: 'example.txt',
+    fileSize: 1024,
+    formattedSize: '1.0 KB',
+    contentType: 'text/plain',
+    contentHash: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+    createdAt: '2025-09-06T10:30:00.000Z',
+    updatedAt: '2025-09-06T10:30:00.000Z'
+  })
+  public async uploadFileStream(
+    @Query() filename: string,
+    @Request() request: ExpressRequest
+  ): Promise<FileResponse> {
+    const result = await this.uploadFileStreamUseCase.execute({
+      filename,
+      content: request,
+      ownerId: authenticatedUserOf(request).id
+    });
+
+    this.setStatus(201);
+    return {
+      id: result.id,
+      filename: result.filename,
+      fileSize: result.fileSize,
+      formattedSize: this.formatFileSize(result.fileSize),
+      contentType: result.contentType,
+      contentHash: result.contentHash,
+      createdAt: result.createdAt.toISOString(),
+      updatedAt: result.createdAt.toISOString()
+    };
   }
 
   /**
-   * Get all files with optional pagination
-   * @summary Retrieve list of all uploaded files
+   * Get all files with optional pagination and filters
+   * @summary Retrieve list of uploaded files
+   * @description Lists the files you own, the files shared with you and files uploaded before ownership was recorded. All filters are optional and combined; ranges are inclusive. totalCount and totalSize describe the filtered set. Pass nextCursor or prevCursor from a previous response as cursor for stable keyset pagination (keep the same filters); page is used otherwise. Cursor pages leave the totals out, so following a cursor stays cheap however many files match.
+   * @param cursor Opaque cursor from a previous response; takes precedence over page
+   * @param contentType Only return files of this content type
+   * @param createdFrom Only return files uploaded at or after this date (ISO 8601)
+   * @param createdTo Only return files uploaded at or before this date (ISO 8601)
+   * @param updatedFrom Only return files modified at or after this date (ISO 8601)
+   * @param updatedTo Only return files modified at or before this date (ISO 8601)
+   * @param minSize Minimum file size in bytes
+   * @param maxSize Maximum file size in bytes
+   * @param nameContains Case-insensitive substring the filename must contain
    */
   @Get()
+  @Security('bearerAuth', ['files:read'])
+  @Security('apiKeyAuth', ['files:read'])
   @SuccessResponse('200', 'Files retrieved successfully')
+  @Response<ProblemDetails>('400', 'Invalid filter', undefined, 'application/problem+json')
   @Example<FileListResponse>({
     files: [
       {
@@ -119,6 +246,7 @@ export class FileController extends Controller {
         fileSize: 1024,
         formattedSize: '1.0 KB',
         contentType: 'text/plain',
+        contentHash: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
         createdAt: '2025-09-06T10:30:00.000Z',
         updatedAt: '2025-09-06T10:30:00.000Z'
       }
@@ -127,134 +255,780 @@ export class FileController extends Controller {
     totalSize: 1024,
     page: 1,
     limit: 20,
-    hasNextPage: false,
-    hasPreviousPage: false
+    hasNextPage: true,
+    hasPreviousPage: false,
+    nextCursor: 'eyJzIjoiY3JlYXRlZF9hdCIsIm8iOiJERVNDIiwidiI6IjIwMjUtMDktMDZUMTA6MzA6MDAuMDAwWiIsImkiOiIxMjNlNDU2Ny1lODliLTEyZDMtYTQ1Ni00MjY2MTQxNzQwMDAiLCJkIjoiYWZ0ZXIifQ'
   })
   public async getAllFiles(
+    @Request() request: ExpressRequest,
     @Query() page?: number,
     @Query() limit?: number,
     @Query() sortBy?: 'filename' | 'created_at' | 'file_size',
-    @Query() sortOrder?: 'ASC' | 'DESC'
+    @Query() sortOrder?: 'ASC' | 'DESC',
+    @Query() contentType?: string,
+    @Query() createdFrom?: Date,
+    @Query() createdTo?: Date,
+    @Query() updatedFrom?: Date,
+    @Query() updatedTo?: Date,
+    @Query() minSize?: number,
+    @Query() maxSize?: number,
+    @Query() nameContains?: string,
+    @Query() cursor?: string
   ): Promise<FileListResponse> {
-    try {
-      const result = await this.getAllFilesUseCase.execute({
-        page,
-        limit,
-        sortBy,
-        sortOrder
-      });
+    const result = await this.getAllFilesUseCase.execute({
+      page,
+      cursor,
+      limit,
+      sortBy,
+      sortOrder,
+      contentType,
+      createdFrom,
+      createdTo,
+      updatedFrom,
+      updatedTo,
+      minSize,
+      maxSize,
+      nameContains,
+      userId: authenticatedUserOf(request).id
+    });
 
-      return {
-        files: result.files.map(file => ({
-          id: file.id,
-          filename: file.filename,
-          fileSize: file.fileSize,
-          formattedSize: file.formattedSize,
-          contentType: file.contentType,
-          createdAt: file.createdAt.toISOString(),
-          updatedAt: file.updatedAt.toISOString()
-        })),
-        totalCount: result.totalCount,
-        totalSize: result.totalSize,
-        page: result.page,
-        limit: result.limit,
-        hasNextPage: result.hasNextPage,
-        hasPreviousPage: result.hasPreviousPage
-      };
-    } catch (error) {
-      this.setStatus(500);
-      throw new Error(`Failed to retrieve files: ${(error as Error).message}`);
-    }
+    return {
+      files: result.files.map(file => ({
+        id: file.id,
+        filename: file.filename,
+        fileSize: file.fileSize,
+        formattedSize: file.formattedSize,
+        contentType: file.contentType,
+        contentHash: file.contentHash,
+        createdAt: file.createdAt.toISOString(),
+        updatedAt: file.updatedAt.toISOString()
+      })),
+      totalCount: result.totalCount,
+      totalSize: result.totalSize,
+      page: result.page,
+      limit: result.limit,
+      hasNextPage: result.hasNextPage,
+      hasPreviousPage: result.hasPreviousPage,
+      nextCursor: result.nextCursor,
+      prevCursor: result.prevCursor
+    };
+  }
+
+  /**
+   * List the supported document types
+   * @summary Get the extensions, MIME types and size limits accepted for uploads
+   * @description Size limits are the ones configured for this deployment, globally or per content type.
+   */
+  @Get('types')
+  @Security('bearerAuth', ['files:read'])
+  @Security('apiKeyAuth', ['files:read'])
+  @SuccessResponse('200', 'Supported document types retrieved successfully')
+  @Example<ContentTypeListResponse>({
+    contentTypes: [
+      { contentType: 'text/plain', extensions: ['.txt'], mimeAliases: [], maxSizeBytes: 1048576, binary: false },
+      { contentType: 'application/json', extensions: ['.json'], mimeAliases: ['application/x-json'], maxSizeBytes: 1048576, binary: false },
+      { contentType: 'image/png', extensions: ['.png'], mimeAliases: [], maxSizeBytes: 5242880, binary: true }
+    ],
+    maxUploadSizeBytes: 5242880
+  })
+  public async getContentTypes(): Promise<ContentTypeListResponse> {
+    return this.getContentTypesUseCase.execute();
+  }
+
+  /**
+   * Search inside file contents and names
+   * @summary Full-text search across documents with ranked, highlighted results
+   * @description Searches the files you may read. Supports web-search syntax: quoted phrases, OR and -exclusions. Markdown syntax and JSON keys are not indexed. Date filters apply to the upload date.
+   * @param q Search query
+   * @param contentType Only return files of this content type
+   * @param startDate Only return files uploaded at or after this date (ISO 8601)
+   * @param endDate Only return files uploaded at or before this date (ISO 8601)
+   */
+  @Get('search')
+  @Security('bearerAuth', ['files:read'])
+  @Security('apiKeyAuth', ['files:read'])
+  @SuccessResponse('200', 'Search completed successfully')
+  @Response<ProblemDetails>('400', 'Missing or invalid query or filters', undefined, 'application/problem+json')
+  @Example<FileSearchResponse>({
+    query: 'quarterly report',
+    results: [
+      {
+        id: '123e4567-e89b-12d3-a456-426614174000',
+        filename: 'report.md',
+        fileSize: 1024,
+        formattedSize: '1.0 KB',
+        contentType: 'text/markdown',
+        contentHash: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+        createdAt: '2025-09-06T10:30:00.000Z',
+        updatedAt: '2025-09-06T10:30:00.000Z',
+        rank: 0.6,
+        snippet: 'Summary of the <mark>quarterly</mark> <mark>report</mark> for Q3'
+      }
+    ],
+    totalCount: 1,
+    page: 1,
+    limit: 20,
+    hasNextPage: false,
+    hasPreviousPage: false
+  })
+  public async searchFiles(
+    @Request() request: ExpressRequest,
+    @Query() q: string,
+    @Query() contentType?: string,
+    @Query() startDate?: Date,
+    @Query() endDate?: Date,
+    @Query() page?: number,
+    @Query() limit?: number
+  ): Promise<FileSearchResponse> {
+    const result = await this.searchFilesUseCase.execute({
+      query: q,
+      contentType,
+      startDate,
+      endDate,
+      page,
+      limit,
+      userId: authenticatedUserOf(request).id
+    });
+
+    return {
+      query: result.query,
+      results: result.results.map(hit => ({
+        id: hit.id,
+        filename: hit.filename,
+        fileSize: hit.fileSize,
+        formattedSize: hit.formattedSize,
+        contentType: hit.contentType,
+        contentHash: hit.contentHash,
+        createdAt: hit.createdAt.toISOString(),
+        updatedAt: hit.updatedAt.toISOString(),
+        rank: hit.rank,
+        snippet: hit.snippet
+      })),
+      totalCount: result.totalCount,
+      page: result.page,
+      limit: result.limit,
+      hasNextPage: result.hasNextPage,
+      hasPreviousPage: result.hasPreviousPage
+    };
   }
 
   /**
    * Get file details and content by ID
    * @summary Retrieve complete file information including content
+   * @description Binary files (images, PDF) are returned base64 encoded, as indicated by encoding. Responses carry a strong ETag (the revision and its content hash) and Last-Modified; send them back in If-None-Match / If-Modified-Since to get 304 Not Modified while the content is unchanged. Requires at least the viewer role on the file.
    */
   @Get('{fileId}')
+  @Security('bearerAuth', ['files:read'])
+  @Security('apiKeyAuth', ['files:read'])
   @SuccessResponse('200', 'File retrieved successfully')
-  @Response('404', 'File not found')
+  @Response('304', 'Content unchanged since the cached copy')
+  @Response<ProblemDetails>('404', 'File not found or not shared with you', undefined, 'application/problem+json')
   @Example<FileContentResponse>({
     id: '123e4567-e89b-12d3-a456-426614174000',
     filename: 'example.txt',
     content: 'This is the file content...',
+    encoding: 'utf8',
     fileSize: 1024,
     formattedSize: '1.0 KB',
     contentType: 'text/plain',
+    version: 1,
+    contentHash: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
     createdAt: '2025-09-06T10:30:00.000Z',
     updatedAt: '2025-09-06T10:30:00.000Z'
   })
-  public async getFileContent(@Path() fileId: string): Promise<FileContentResponse> {
-    try {
-      const result = await this.getFileContentUseCase.execute({ fileId });
+  public async getFileContent(@Path() fileId: string, @Request() request: ExpressRequest): Promise<FileContentResponse> {
+    const result = await this.getFileContentUseCase.execute({ fileId, userId: authenticatedUserOf(request).id });
+
+    // Express answers 304 on its own when these match the request's conditional headers
+    for (const [name, value] of Object.entries(this.cacheHeaders(result.contentHash, result.version, result.updatedAt))) {
+      this.setHeader(name, value);
+    }
+
+    return {
+      id: result.id,
+      filename: result.filename,
+      ...this.encodeContent(result.content, result.binary),
+      fileSize: result.fileSize,
+      formattedSize: result.formattedSize,
+      contentType: result.contentType,
+      version: result.version,
+      contentHash: result.contentHash,
+      createdAt: result.createdAt.toISOString(),
+      updatedAt: result.updatedAt.toISOString()
+    };
+  }
 
+  /**
+   * Download the raw content of a file
+   * @summary Stream the current content of a file as a download
+   * @description Streams the stored bytes with Content-Type, Content-Disposition and Content-Length headers instead of wrapping the content in JSON. Supports conditional requests (ETag / Last-Modified) and single byte ranges (Range, If-Range) for paging through large documents.
+   */
+  @Get('{fileId}/raw')
+  @Security('bearerAuth', ['files:read'])
+  @Security('apiKeyAuth', ['files:read'])
+  @Produces('application/octet-stream')
+  @SuccessResponse('200', 'File content streamed successfully')
+  @Response('206', 'Requested byte range streamed successfully')
+  @Response('304', 'Content unchanged since the cached copy')
+  @Response<ProblemDetails>('400', 'Invalid file ID format', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('404', 'File not found or not shared with you', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('416', 'Requested range not satisfiable', undefined, 'application/problem+json')
+  public async downloadFile(@Path() fileId: string, @Request() request: ExpressRequest): Promise<Readable | undefined> {
+    const download = await this.openFileDownload(fileId, request);
+
+    this.setStatus(download.status);
+    for (const [name, value] of Object.entries(download.headers)) {
+      this.setHeader(name, value);
+    }
+
+    return download.stream;
+  }
+
+  /**
+   * Resolves a raw download request: evaluates conditional and range headers,
+   * then opens the content stream only when content has to be sent
+   * Lets plain Express routes stream downloads without sharing header state on the controller
+   */
+  public async openFileDownload(fileId: string, request: ExpressRequest): Promise<FileDownload> {
+    const file = await this.getFileStreamUseCase.execute({ fileId, userId: authenticatedUserOf(request).id });
+    const caching = this.cacheHeaders(file.contentHash, file.version, file.updatedAt);
+    const headers: Record<string, string> = {
+      ...caching,
+      'Content-Type': contentTypeHeaderFor(file.contentType),
+      'Content-Disposition': contentDispositionFor(file.filename),
+      'Accept-Ranges': 'bytes'
+    };
+
+    if (this.isNotModified(request, caching.ETag, file.updatedAt)) {
+      return { status: 304, headers };
+    }
+
+    const range = this.requestedRange(request, file, caching.ETag);
+    if (range === 'unsatisfiable') {
+      return { status: 416, headers: { ...headers, 'Content-Range': `bytes */${file.fileSize}` } };
+    }
+
+    if (range) {
       return {
-        id: result.id,
-        filename: result.filename,
-        content: result.content,
-        fileSize: result.fileSize,
-        formattedSize: result.formattedSize,
-        contentType: result.contentType,
-        createdAt: result.createdAt.toISOString(),
-        updatedAt: result.updatedAt.toISOString()
+        status: 206,
+        stream: await file.openStream(range),
+        headers: {
+          ...headers,
+          'Content-Range': `bytes ${range.start}-${range.end}/${file.fileSize}`,
+          'Content-Length': String(range.end - range.start + 1)
+        }
       };
-    } catch (error) {
-      const message = (error as Error).message;
-      
-      if (message.includes('not found')) {
-        this.setStatus(404);
-        throw new Error(message);
+    }
+
+    return {
+      status: 200,
+      stream: await file.openStream(),
+      headers: { ...headers, 'Content-Length': String(file.fileSize) }
+    };
+  }
+
+  /**
+   * Builds the caching headers of a file's current content
+   * Files stored before content hashing only get Last-Modified. no-cache lets browsers keep the
+   * content but revalidate it on every view, which costs a 304 instead of a download
+   */
+  public cacheHeaders(contentHash: string | undefined, version: number, updatedAt: Date): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Cache-Control': 'private, no-cache',
+      'Last-Modified': updatedAt.toUTCString()
+    };
+    if (contentHash) {
+      headers.ETag = entityTagFor(contentHash, version);
+    }
+    return headers;
+  }
+
+  /**
+   * Replace the content of an existing file, storing a new revision
+   * @summary Upload new content for a file using multipart form data
+   * @description Upload the new content using multipart/form-data with field name 'file'. The content must match the content type of the existing file; previous revisions stay available. Send the ETag of the revision you edited in If-Match (or * to overwrite whatever is current); if the file changed in the meantime the update is rejected with 412 so it cannot silently overwrite someone else's work. The response carries the ETag of the new revision.
+   * @param ifMatch ETag of the revision the update is based on, or *
+   */
+  @Put('{fileId}/content')
+  @Security('bearerAuth', ['files:write'])
+  @Security('apiKeyAuth', ['files:write'])
+  @SuccessResponse('200', 'New revision stored successfully')
+  @Response<ProblemDetails>('400', 'Invalid file ID, content or missing file', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('403', 'File shared with you without the editor role', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('404', 'File not found or not shared with you', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('412', 'File changed since the version named in If-Match', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('413', 'File larger than the size limit of its type', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('428', 'If-Match header missing', undefined, 'application/problem+json')
+  @Example<FileVersionResponse>({
+    fileId: '123e4567-e89b-12d3-a456-426614174000',
+    version: 2,
+    fileSize: 2048,
+    formattedSize: '2 KB',
+    contentType: 'text/plain',
+    isCurrent: true,
+    createdAt: '2025-09-07T10:30:00.000Z'
+  })
+  public async updateFileContent(
+    @Path() fileId: string,
+    @Body() processedFile: ProcessedFileRequest,
+    @Request() request: ExpressRequest,
+    @Header('If-Match') ifMatch?: string
+  ): Promise<FileVersionResponse> {
+    return this.storeFileContent(
+      fileId,
+      processedFile && this.decodeContent(processedFile),
+      authenticatedUserOf(request).id,
+      ifMatch
+    );
+  }
+
+  /**
+   * Stores the raw bytes of a new revision
+   * Used by the multipart route, which receives the bytes without a JSON encoding
+   */
+  public async storeFileContent(fileId: string, content: Buffer | undefined, userId: string, ifMatch?: string): Promise<FileVersionResponse> {
+    if (!ifMatch) {
+      throw new PreconditionRequiredError('If-Match header is required. Send the ETag of the file version you are updating, or * to overwrite any version.');
+    }
+
+    if (!content) {
+      throw new ValidationError('No valid file data found. Please ensure file is uploaded via multipart form data with field name "file"');
+    }
+
+    const result = await this.updateFileContentUseCase.execute({
+      fileId,
+      userId,
+      content,
+      expectedVersions: this.parseIfMatch(ifMatch)
+    });
+
+    this.setHeader('ETag', entityTagFor(result.contentHash, result.version));
+    return {
+      fileId: result.id,
+      version: result.version,
+      fileSize: result.fileSize,
+      formattedSize: result.formattedSize,
+      contentType: result.contentType,
+      contentHash: result.contentHash,
+      isCurrent: true,
+      createdAt: result.updatedAt.toISOString()
+    };
+  }
+
+  /**
+   * List every stored revision of a file
+   * @summary Retrieve the revision history of a file, newest first
+   */
+  @Get('{fileId}/versions')
+  @Security('bearerAuth', ['files:read'])
+  @Security('apiKeyAuth', ['files:read'])
+  @SuccessResponse('200', 'Revisions retrieved successfully')
+  @Response<ProblemDetails>('404', 'File not found or not shared with you', undefined, 'application/problem+json')
+  @Example<FileVersionListResponse>({
+    fileId: '123e4567-e89b-12d3-a456-426614174000',
+    filename: 'example.txt',
+    currentVersion: 2,
+    versions: [
+      {
+        fileId: '123e4567-e89b-12d3-a456-426614174000',
+        version: 2,
+        fileSize: 2048,
+        formattedSize: '2 KB',
+        contentType: 'text/plain',
+        isCurrent: true,
+        createdAt: '2025-09-07T10:30:00.000Z'
+      },
+      {
+        fileId: '123e4567-e89b-12d3-a456-426614174000',
+        version: 1,
+        fileSize: 1024,
+        formattedSize: '1 KB',
+        contentType: 'text/plain',
+        isCurrent: false,
+        createdAt: '2025-09-06T10:30:00.000Z'
       }
-      
-      if (message.includes('UUID')) {
-        this.setStatus(400);
-        throw new Error(message);
+    ]
+  })
+  public async getFileVersions(@Path() fileId: string, @Request() request: ExpressRequest): Promise<FileVersionListResponse> {
+    const result = await this.getFileVersionsUseCase.execute({ fileId, userId: authenticatedUserOf(request).id });
+
+    return {
+      fileId: result.fileId,
+      filename: result.filename,
+      currentVersion: result.currentVersion,
+      versions: result.versions.map(version => ({
+        fileId: result.fileId,
+        version: version.version,
+        fileSize: version.fileSize,
+        formattedSize: version.formattedSize,
+        contentType: version.contentType,
+        contentHash: version.contentHash,
+        isCurrent: version.isCurrent,
+        createdAt: version.createdAt.toISOString()
+      }))
+    };
+  }
+
+  /**
+   * Get a specific revision of a file including its content
+   * @summary Retrieve the content of an older (or the current) revision
+   */
+  @Get('{fileId}/versions/{version}')
+  @Security('bearerAuth', ['files:read'])
+  @Security('apiKeyAuth', ['files:read'])
+  @SuccessResponse('200', 'Revision retrieved successfully')
+  @Response<ProblemDetails>('400', 'Invalid file ID or version number', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('404', 'File or revision not found, or file not shared with you', undefined, 'application/problem+json')
+  @Example<FileVersionContentResponse>({
+    fileId: '123e4567-e89b-12d3-a456-426614174000',
+    filename: 'example.txt',
+    version: 1,
+    content: 'This was the original content...',
+    encoding: 'utf8',
+    fileSize: 1024,
+    formattedSize: '1 KB',
+    contentType: 'text/plain',
+    isCurrent: false,
+    createdAt: '2025-09-06T10:30:00.000Z'
+  })
+  public async getFileVersion(
+    @Path() fileId: string,
+    @Path() version: number,
+    @Request() request: ExpressRequest
+  ): Promise<FileVersionContentResponse> {
+    const result = await this.getFileVersionContentUseCase.execute({ fileId, version, userId: authenticatedUserOf(request).id });
+
+    return {
+      fileId: result.fileId,
+      filename: result.filename,
+      version: result.version,
+      ...this.encodeContent(result.content, result.binary),
+      fileSize: result.fileSize,
+      formattedSize: result.formattedSize,
+      contentType: result.contentType,
+      contentHash: result.contentHash,
+      isCurrent: result.isCurrent,
+      createdAt: result.createdAt.toISOString()
+    };
+  }
+
+  /**
+   * Compare two revisions of a file
+   * @summary Get a unified diff (or structural JSON diff) between two revisions
+   * @description Defaults to comparing the current revision with the previous one. Use mode=json on application/json files to get added, removed and changed values by JSON pointer.
+   * @param from Revision to compare from (defaults to the revision before `to`)
+   * @param to Revision to compare to (defaults to the current revision)
+   * @param mode Diff mode: line-based `text` (default) or structural `json`
+   */
+  @Get('{fileId}/diff')
+  @Security('bearerAuth', ['files:read'])
+  @Security('apiKeyAuth', ['files:read'])
+  @SuccessResponse('200', 'Diff computed successfully')
+  @Response<ProblemDetails>('400', 'Invalid file ID, version number or diff mode, or a binary file', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('404', 'File or revision not found, or file not shared with you', undefined, 'application/problem+json')
+  @Example<FileDiffResponse>({
+    fileId: '123e4567-e89b-12d3-a456-426614174000',
+    filename: 'example.txt',
+    contentType: 'text/plain',
+    mode: 'text',
+    fromVersion: 1,
+    toVersion: 2,
+    identical: false,
+    unifiedDiff: '--- example.txt@v1\n+++ example.txt@v2\n@@ -1,2 +1,2 @@\n Hello\n-World\n+There\n',
+    hunks: [
+      {
+        oldStart: 1,
+        oldLines: 2,
+        newStart: 1,
+        newLines: 2,
+        lines: [' Hello', '-World', '+There']
       }
-      
-      this.setStatus(500);
-      throw new Error(`Failed to retrieve file: ${message}`);
-    }
+    ],
+    additions: 1,
+    deletions: 1
+  })
+  public async getFileDiff(
+    @Path() fileId: string,
+    @Request() request: ExpressRequest,
+    @Query() from?: number,
+    @Query() to?: number,
+    @Query() mode?: 'text' | 'json'
+  ): Promise<FileDiffResponse> {
+    const result = await this.getFileDiffUseCase.execute({ fileId, userId: authenticatedUserOf(request).id, from, to, mode });
+
+    return {
+      fileId: result.fileId,
+      filename: result.filename,
+      contentType: result.contentType,
+      mode: result.mode,
+      fromVersion: result.fromVersion,
+      toVersion: result.toVersion,
+      identical: result.identical,
+      unifiedDiff: result.unifiedDiff,
+      hunks: result.hunks,
+      additions: result.additions,
+      deletions: result.deletions,
+      changes: result.changes
+    };
   }
 
   /**
    * Delete a file by ID
-   * @summary Remove a file from the system
+   * @summary Move a file to the trash
+   * @description The file disappears from listings and lookups but can be restored until its retention period ends; it is purged automatically afterwards. Only the file's owners may delete it.
    */
   @Delete('{fileId}')
-  @SuccessResponse('200', 'File deleted successfully')
-  @Response('404', 'File not found')
+  @Security('bearerAuth', ['files:write'])
+  @Security('apiKeyAuth', ['files:write'])
+  @SuccessResponse('200', 'File moved to the trash')
+  @Response<ProblemDetails>('400', 'Invalid file ID format', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('403', 'File shared with you without the owner role', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('404', 'File not found or not shared with you', undefined, 'application/problem+json')
   @Example<DeleteFileResponse>({
     id: '123e4567-e89b-12d3-a456-426614174000',
     filename: 'example.txt',
     deleted: true,
-    message: "File 'example.txt' has been successfully deleted"
+    deletedAt: '2025-09-06T10:30:00.000Z',
+    purgeAt: '2025-10-06T10:30:00.000Z',
+    message: "File 'example.txt' has been moved to the trash and will be purged after 2025-10-06T10:30:00.000Z"
   })
-  public async deleteFile(@Path() fileId: string): Promise<DeleteFileResponse> {
-    try {
-      const result = await this.deleteFileUseCase.execute({ fileId });
+  public async deleteFile(@Path() fileId: string, @Request() request: ExpressRequest): Promise<DeleteFileResponse> {
+    const result = await this.deleteFileUseCase.execute({ fileId, userId: authenticatedUserOf(request).id });
 
-      return {
-        id: result.id,
-        filename: result.filename,
-        deleted: result.deleted,
-        message: result.message
-      };
-    } catch (error) {
-      const message = (error as Error).message;
-      
-      if (message.includes('not found')) {
-        this.setStatus(404);
-        throw new Error(message);
+    return {
+      id: result.id,
+      filename: result.filename,
+      deleted: result.deleted,
+      deletedAt: result.deletedAt.toISOString(),
+      purgeAt: result.purgeAt.toISOString(),
+      message: result.message
+    };
+  }
+
+  /**
+   * List the files in the trash
+   * @summary Get deleted files that can still be restored, most recently deleted first
+   * @description Lists the deleted files you own, the deleted files shared with you and deleted files uploaded before ownership was recorded.
+   * @param page Page number (1-based)
+   * @param limit Number of files per page (max 100)
+   */
+  @Get('trash')
+  @Security('bearerAuth', ['files:read'])
+  @Security('apiKeyAuth', ['files:read'])
+  @SuccessResponse('200', 'Trash retrieved successfully')
+  @Example<TrashListResponse>({
+    files: [{
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      filename: 'example.txt',
+      fileSize: 1024,
+      formattedSize: '1 KB',
+      contentType: 'text/plain',
+      contentHash: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+      createdAt: '2025-09-01T08:00:00.000Z',
+      updatedAt: '2025-09-01T08:00:00.000Z',
+      deletedAt: '2025-09-06T10:30:00.000Z',
+      purgeAt: '2025-10-06T10:30:00.000Z'
+    }],
+    totalCount: 1,
+    totalSize: 1024,
+    page: 1,
+    limit: 20,
+    hasNextPage: false,
+    hasPreviousPage: false
+  })
+  public async getTrash(
+    @Request() request: ExpressRequest,
+    @Query() page?: number,
+    @Query() limit?: number
+  ): Promise<TrashListResponse> {
+    const result = await this.getTrashedFilesUseCase.execute({ page, limit, userId: authenticatedUserOf(request).id });
+
+    return {
+      files: result.files.map(file => ({
+        id: file.id,
+        filename: file.filename,
+        fileSize: file.fileSize,
+        formattedSize: file.formattedSize,
+        contentType: file.contentType,
+        contentHash: file.contentHash,
+        createdAt: file.createdAt.toISOString(),
+        updatedAt: file.updatedAt.toISOString(),
+        deletedAt: file.deletedAt.toISOString(),
+        purgeAt: file.purgeAt.toISOString()
+      })),
+      totalCount: result.totalCount,
+      totalSize: result.totalSize,
+      page: result.page,
+      limit: result.limit,
+      hasNextPage: result.hasNextPage,
+      hasPreviousPage: result.hasPreviousPage
+    };
+  }
+
+  /**
+   * Restore a file from the trash
+   * @summary Move a deleted file back to the live files
+   * @description Needs at least the editor role on the file.
+   */
+  @Post('{fileId}/restore')
+  @Security('bearerAuth', ['files:write'])
+  @Security('apiKeyAuth', ['files:write'])
+  @SuccessResponse('200', 'File restored successfully')
+  @Response<ProblemDetails>('400', 'Invalid file ID format', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('403', 'File shared with you without the editor role', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('404', 'File not found in the trash or not shared with you', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('409', 'A live file with the same name exists', undefined, 'application/problem+json')
+  @Example<FileResponse>({
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    filename: 'example.txt',
+    fileSize: 1024,
+    formattedSize: '1 KB',
+    contentType: 'text/plain',
+    contentHash: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+    createdAt: '2025-09-01T08:00:00.000Z',
+    updatedAt: '2025-09-07T09:00:00.000Z'
+  })
+  public async restoreFile(@Path() fileId: string, @Request() request: ExpressRequest): Promise<FileResponse> {
+    const result = await this.restoreFileUseCase.execute({ fileId, userId: authenticatedUserOf(request).id });
+
+    return {
+      id: result.id,
+      filename: result.filename,
+      fileSize: result.fileSize,
+      formattedSize: this.formatFileSize(result.fileSize),
+      contentType: result.contentType,
+      contentHash: result.contentHash,
+      createdAt: result.createdAt.toISOString(),
+      updatedAt: result.updatedAt.toISOString()
+    };
+  }
+
+  /**
+   * Permanently delete a file from the trash
+   * @summary Purge a deleted file and release its stored content
+   * @description Only the file's owners may purge it.
+   */
+  @Delete('trash/{fileId}')
+  @Security('bearerAuth', ['files:write'])
+  @Security('apiKeyAuth', ['files:write'])
+  @SuccessResponse('200', 'File purged successfully')
+  @Response<ProblemDetails>('400', 'Invalid file ID format', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('403', 'File shared with you without the owner role', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('404', 'File not found in the trash or not shared with you', undefined, 'application/problem+json')
+  @Example<PurgeFileResponse>({
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    filename: 'example.txt',
+    purged: true,
+    message: "File 'example.txt' has been permanently deleted"
+  })
+  public async purgeFile(@Path() fileId: string, @Request() request: ExpressRequest): Promise<PurgeFileResponse> {
+    const result = await this.purgeFileUseCase.execute({ fileId, userId: authenticatedUserOf(request).id });
+
+    return {
+      id: result.id,
+      filename: result.filename,
+      purged: result.purged,
+      message: result.message
+    };
+  }
+
+  /**
+   * Tells whether the client's cached copy is still current (RFC 9110 section 13.1)
+   * If-None-Match takes precedence over If-Modified-Since and uses weak comparison
+   */
+  private isNotModified(request: ExpressRequest, etag: string | undefined, updatedAt: Date): boolean {
+    const ifNoneMatch = request.get('If-None-Match');
+    if (ifNoneMatch) {
+      if (ifNoneMatch.trim() === '*') {
+        return true;
       }
-      
-      if (message.includes('UUID')) {
-        this.setStatus(400);
-        throw new Error(message);
+      return etag !== undefined && ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag);
+    }
+
+    const ifModifiedSince = Date.parse(request.get('If-Modified-Since') || '');
+    return !isNaN(ifModifiedSince) && this.toHttpDateTime(updatedAt) <= ifModifiedSince;
+  }
+
+  /**
+   * Picks the byte range to serve from the Range header
+   * Only a single range is served; multiple ranges, malformed headers and a stale If-Range fall back to the full content
+   */
+  private requestedRange(
+    request: ExpressRequest,
+    file: GetFileStreamResponse,
+    etag: string | undefined
+  ): ByteRange | 'unsatisfiable' | undefined {
+    const ranges = request.range(file.fileSize, { combine: true });
+    if (ranges === undefined || ranges === -2) {
+      return undefined;
+    }
+
+    // If-Range only allows the partial response while the client's validator is current
+    const ifRange = request.get('If-Range');
+    if (ifRange) {
+      const current = ifRange.trim().startsWith('"')
+        ? etag !== undefined && ifRange.trim() === etag
+        : Date.parse(ifRange) === this.toHttpDateTime(file.updatedAt);
+      if (!current) {
+        return undefined;
       }
-      
-      this.setStatus(500);
-      throw new Error(`Failed to delete file: ${message}`);
     }
+
+    if (ranges === -1) {
+      return 'unsatisfiable';
+    }
+
+    if (ranges.type !== 'bytes' || ranges.length !== 1) {
+      return undefined;
+    }
+
+    return { start: ranges[0].start, end: ranges[0].end };
+  }
+
+  /**
+   * Decodes the content of a JSON upload body
+   */
+  private decodeContent(processedFile: ProcessedFileRequest): Buffer {
+    if (typeof processedFile.content !== 'string') {
+      throw new ValidationError('File content must be a string', 'content');
+    }
+
+    if (processedFile.encoding && processedFile.encoding !== 'utf8' && processedFile.encoding !== 'base64') {
+      throw new ValidationError(`Invalid content encoding: ${processedFile.encoding}`, 'encoding');
+    }
+
+    return Buffer.from(processedFile.content, processedFile.encoding ?? 'utf8');
+  }
+
+  /**
+   * Puts stored bytes into a JSON string; binary content has to be base64 encoded
+   */
+  private encodeContent(content: Buffer, binary: boolean): { content: string; encoding: ContentEncoding } {
+    const encoding: ContentEncoding = binary ? 'base64' : 'utf8';
+    return { content: content.toString(encoding), encoding };
+  }
+
+  /**
+   * Turns an If-Match header into the revisions an update may be based on
+   * * accepts any current content; If-Match uses strong comparison, so weak and foreign tags never match
+   */
+  private parseIfMatch(ifMatch: string): number[] | undefined {
+    if (ifMatch.trim() === '*') {
+      return undefined;
+    }
+
+    return ifMatch
+      .split(',')
+      .map(tag => /^"(\d+)-[0-9a-f]{64}"$/.exec(tag.trim()))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => Number(match[1]));
+  }
+
+  /**
+   * Truncates a timestamp to whole seconds, the precision of HTTP dates
+   */
+  private toHttpDateTime(date: Date): number {
+    return Math.floor(date.getTime() / 1000) * 1000;
   }
 
   /**
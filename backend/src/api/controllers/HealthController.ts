@@ -1,5 +1,6 @@
-import { Route, Get, Tags, SuccessResponse, Example, Controller } from 'tsoa';
+import { Route, Get, Tags, SuccessResponse, Response, Example, Controller } from 'tsoa';
 import { HealthResponse } from '../dto/HealthResponse';
+import { ProblemDetails } from '../dto/ProblemDetails';
 
 @Route('health')
 @Tags('Health')
@@ -10,6 +11,7 @@ export class HealthController extends Controller {
    */
   @Get()
   @SuccessResponse('200', 'Health check successful')
+  @Response<ProblemDetails>('500', 'Health check failed', undefined, 'application/problem+json')
   @Example<HealthResponse>({
     status: 'OK',
     timestamp: '2023-09-06T10:30:00.000Z',
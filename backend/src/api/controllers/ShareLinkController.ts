@@ -0,0 +1,137 @@
+import { Request as ExpressRequest } from 'express';
+import {
+  Route,
+  Get,
+  Post,
+  Delete,
+  Tags,
+  SuccessResponse,
+  Example,
+  Controller,
+  Path,
+  Response,
+  Body,
+  Request,
+  Security
+} from 'tsoa';
+import { ShareLinkRequest, ShareLinkResponse, ShareLinkListResponse, ProblemDetails } from '../dto';
+import {
+  CreateShareLinkUseCase,
+  GetShareLinksUseCase,
+  RevokeShareLinkUseCase,
+  ShareLinkSummary
+} from '../../application/usecases';
+import { authenticatedUserOf } from '../middlewares';
+
+const exampleShareLink: ShareLinkResponse = {
+  id: '0d6c3b2a-1f4e-4a5b-9c8d-7e6f5a4b3c2d',
+  fileId: '123e4567-e89b-12d3-a456-426614174000',
+  url: 'http://localhost:3001/api/v1/share/0d6c3b2a-1f4e-4a5b-9c8d-7e6f5a4b3c2d?expires=1757932200&signature=2Lq0V3cH1yQm9vZ2xlU2lnbmF0dXJlRXhhbXBsZTEyMw',
+  expiresAt: '2025-09-15T10:30:00.000Z',
+  passwordProtected: true,
+  maxDownloads: 5,
+  downloadCount: 0,
+  createdAt: '2025-09-08T10:30:00.000Z'
+};
+
+@Route('files')
+@Tags('Sharing')
+@Response<ProblemDetails>('400', 'Invalid file ID format', undefined, 'application/problem+json')
+@Response<ProblemDetails>('401', 'Access token or API key missing, invalid or expired', undefined, 'application/problem+json')
+@Response<ProblemDetails>('403', 'File shared with you without the owner role', undefined, 'application/problem+json')
+@Response<ProblemDetails>('404', 'File not found or not shared with you', undefined, 'application/problem+json')
+@Response<ProblemDetails>('500', 'Unexpected server error', undefined, 'application/problem+json')
+export class ShareLinkController extends Controller {
+  constructor(
+    private createShareLinkUseCase: CreateShareLinkUseCase,
+    private getShareLinksUseCase: GetShareLinksUseCase,
+    private revokeShareLinkUseCase: RevokeShareLinkUseCase,
+    private publicBaseUrl: string
+  ) {
+    super();
+  }
+
+  /**
+   * Create a share link
+   * @summary Create an expiring signed URL that lets anyone holding it download the file
+   * @description The URL works without an account until it expires, is revoked or has served maxDownloads downloads. A password, if set, must be sent in the X-Share-Password header or POSTed to the URL; browsers are asked for it with a form. Only the file's owners may create links.
+   */
+  @Post('{fileId}/share-links')
+  @Security('bearerAuth', ['files:write'])
+  @Security('apiKeyAuth', ['files:write'])
+  @SuccessResponse('201', 'Share link created')
+  @Example<ShareLinkResponse>(exampleShareLink)
+  public async createShareLink(
+    @Path() fileId: string,
+    @Body() body: ShareLinkRequest,
+    @Request() request: ExpressRequest
+  ): Promise<ShareLinkResponse> {
+    const result = await this.createShareLinkUseCase.execute({
+      fileId,
+      userId: authenticatedUserOf(request).id,
+      expiresInHours: body?.expiresInHours,
+      password: body?.password,
+      maxDownloads: body?.maxDownloads
+    });
+
+    this.setStatus(201);
+    return this.toShareLinkResponse(result);
+  }
+
+  /**
+   * List the share links of a file
+   * @summary Get the links of a file that are neither revoked, expired nor used up
+   * @description Only the file's owners may see its links.
+   */
+  @Get('{fileId}/share-links')
+  @Security('bearerAuth', ['files:read'])
+  @Security('apiKeyAuth', ['files:read'])
+  @SuccessResponse('200', 'Share links retrieved successfully')
+  @Example<ShareLinkListResponse>({ fileId: exampleShareLink.fileId, shareLinks: [exampleShareLink] })
+  public async getShareLinks(@Path() fileId: string, @Request() request: ExpressRequest): Promise<ShareLinkListResponse> {
+    const result = await this.getShareLinksUseCase.execute({ fileId, userId: authenticatedUserOf(request).id });
+
+    return {
+      fileId: result.fileId,
+      shareLinks: result.shareLinks.map(shareLink => this.toShareLinkResponse(shareLink))
+    };
+  }
+
+  /**
+   * Revoke a share link
+   * @summary Stop a share link from working
+   * @description Only the file's owners may revoke its links.
+   * @param linkId ID of the share link to revoke
+   */
+  @Delete('{fileId}/share-links/{linkId}')
+  @Security('bearerAuth', ['files:write'])
+  @Security('apiKeyAuth', ['files:write'])
+  @SuccessResponse('204', 'Share link revoked')
+  public async revokeShareLink(
+    @Path() fileId: string,
+    @Path() linkId: string,
+    @Request() request: ExpressRequest
+  ): Promise<void> {
+    await this.revokeShareLinkUseCase.execute({ fileId, linkId, userId: authenticatedUserOf(request).id });
+
+    this.setStatus(204);
+  }
+
+  /**
+   * Maps a share link summary to its response, building its signed URL
+   */
+  private toShareLinkResponse(shareLink: ShareLinkSummary): ShareLinkResponse {
+    const expires = Math.floor(shareLink.expiresAt.getTime() / 1000);
+
+    return {
+      id: shareLink.id,
+      fileId: shareLink.fileId,
+      url: `${this.publicBaseUrl}/share/${shareLink.id}?expires=${expires}&signature=${shareLink.signature}`,
+      expiresAt: shareLink.expiresAt.toISOString(),
+      passwordProtected: shareLink.passwordProtected,
+      maxDownloads: shareLink.maxDownloads,
+      downloadCount: shareLink.downloadCount,
+      createdAt: shareLink.createdAt.toISOString()
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { Readable } from 'stream';
+import {
+  Route,
+  Get,
+  Post,
+  Body,
+  Tags,
+  SuccessResponse,
+  Controller,
+  Path,
+  Query,
+  Header,
+  Produces,
+  Response
+} from 'tsoa';
+import { ProblemDetails, SharePasswordRequest } from '../dto';
+import { OpenShareLinkUseCase } from '../../application/usecases';
+import { PasswordRequiredError } from '../../domain/errors';
+import { contentDispositionFor, contentTypeHeaderFor } from './FileController';
+
+/**
+ * The content of a shared file and the headers to send it with
+ */
+export interface SharedFileDownload {
+  stream: Readable;
+  headers: Record<string, string>;
+}
+
+/**
+ * Builds the page asking a browser for the password of a share link
+ * The form has no action, so it posts back to the signed URL it was served from
+ */
+export function sharePasswordPageFor(error: PasswordRequiredError): string {
+  const prompt = error.passwordGiven
+    ? 'The password is incorrect. Please try again.'
+    : 'This file is protected by a password.';
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Password required</title></head>',
+    '<body>',
+    '<form method="post">',
+    `<p>${prompt}</p>`,
+    '<label>Password <input type="password" name="password" required autofocus></label>',
+    '<button type="submit">Download</button>',
+    '</form>',
+    '</body>',
+    '</html>'
+  ].join('\n');
+}
+
+@Route('share')
+@Tags('Sharing')
+@Response<ProblemDetails>('500', 'Unexpected server error', undefined, 'application/problem+json')
+export class SharedFileController extends Controller {
+  constructor(private openShareLinkUseCase: OpenShareLinkUseCase) {
+    super();
+  }
+
+  /**
+   * Download a shared file
+   * @summary Stream a file through its share link, without an account
+   * @description Open the URL returned when the link was created. Every download counts towards the link's limit, so ranges are not supported. Links with a password take it in the X-Share-Password header; browsers that open one without it get a form that POSTs the password to the same URL.
+   * @param linkId ID of the share link
+   * @param expires Expiry of the link in seconds since the epoch, as signed
+   * @param signature Signature of the link
+   * @param password Password of the link, if it has one
+   */
+  @Get('{linkId}')
+  @Produces('application/octet-stream')
+  @SuccessResponse('200', 'File content streamed successfully')
+  @Response<ProblemDetails>('403', 'Password missing or incorrect', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('404', 'Share link not found or signature invalid', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('410', 'Share link expired, revoked or used up, or file deleted', undefined, 'application/problem+json')
+  public async downloadSharedFile(
+    @Path() linkId: string,
+    @Query() expires: string,
+    @Query() signature: string,
+    @Header('X-Share-Password') password?: string
+  ): Promise<Readable> {
+    const download = await this.openSharedFile(linkId, expires, signature, password);
+
+    for (const [name, value] of Object.entries(download.headers)) {
+      this.setHeader(name, value);
+    }
+
+    return download.stream;
+  }
+
+  /**
+   * Download a password-protected shared file
+   * @summary Stream a file through its share link, giving the password in the request body
+   * @description POST to the URL returned when the link was created, with the password as a form field or JSON property. Browsers cannot set the X-Share-Password header, so this is what the password form of the GET endpoint submits.
+   * @param linkId ID of the share link
+   * @param expires Expiry of the link in seconds since the epoch, as signed
+   * @param signature Signature of the link
+   */
+  @Post('{linkId}')
+  @Produces('application/octet-stream')
+  @SuccessResponse('200', 'File content streamed successfully')
+  @Response<ProblemDetails>('403', 'Password missing or incorrect', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('404', 'Share link not found or signature invalid', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('410', 'Share link expired, revoked or used up, or file deleted', undefined, 'application/problem+json')
+  public async downloadSharedFileWithPassword(
+    @Path() linkId: string,
+    @Query() expires: string,
+    @Query() signature: string,
+    @Body() body: SharePasswordRequest
+  ): Promise<Readable> {
+    return this.downloadSharedFile(linkId, expires, signature, body.password);
+  }
+
+  /**
+   * Resolves a share link to the content stream and its headers
+   * Lets plain Express routes stream downloads without sharing header state on the controller
+   */
+  public async openSharedFile(linkId: string, expires: string, signature: string, password?: string): Promise<SharedFileDownload> {
+    const file = await this.openShareLinkUseCase.execute({ linkId, expires, signature, password });
+
+    return {
+      stream: file.stream,
+      headers: {
+        'Content-Type': contentTypeHeaderFor(file.contentType),
+        'Content-Disposition': contentDispositionFor(file.filename),
+        'Content-Length': String(file.fileSize),
+        // Each download counts, so neither browsers nor proxies may keep a copy
+        'Cache-Control': 'no-store'
+      }
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,167 @@
+import {
+  Route,
+  Get,
+  Post,
+  Tags,
+  SuccessResponse,
+  Example,
+  Controller,
+  Path,
+  Query,
+  Response,
+  Security
+} from 'tsoa';
+import {
+  ProblemDetails,
+  StorageStatsResponse,
+  StorageReconciliationReportResponse,
+  StorageReconciliationReportListResponse
+} from '../dto';
+import {
+  ReconcileStorageUseCase,
+  GetStorageReconciliationReportsUseCase,
+  GetStorageReconciliationReportUseCase,
+  GetStorageStatsUseCase,
+  StorageReconciliationSummary
+} from '../../application/usecases';
+
+const exampleReport: StorageReconciliationReportResponse = {
+  id: '5f0c6b1e-8d4a-4c3e-9b7a-2e1d0c9b8a76',
+  trigger: 'manual',
+  dryRun: true,
+  startedAt: '2025-09-08T02:00:00.000Z',
+  finishedAt: '2025-09-08T02:00:01.250Z',
+  consistent: false,
+  storedFileCount: 42,
+  referenceCount: 57,
+  deletedFileCount: 0,
+  orphanedFiles: [{
+    storagePath: 'uploaded-files/0b9e2d4c-1f3a-4e5b-8c7d-6a5b4c3d2e1f.txt',
+    size: 512,
+    modifiedAt: '2025-09-01T12:00:00.000Z',
+    deleted: false
+  }],
+  danglingReferences: [],
+  sizeMismatches: [{
+    reference: {
+      storagePath: 'uploaded-files/123e4567-e89b-12d3-a456-426614174000.txt',
+      expectedSize: 1024,
+      referencedBy: 'blob',
+      referenceId: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08'
+    },
+    actualSize: 1000
+  }]
+};
+
+@Route('admin/storage')
+@Tags('Admin')
+@Security('bearerAuth', ['admin:access'])
+@Security('apiKeyAuth', ['admin:access'])
+@Response<ProblemDetails>('401', 'Access token or API key missing, invalid or expired', undefined, 'application/problem+json')
+@Response<ProblemDetails>('403', 'Role or API key lacks the required permission', undefined, 'application/problem+json')
+@Response<ProblemDetails>('500', 'Unexpected server error', undefined, 'application/problem+json')
+export class StorageAdminController extends Controller {
+  constructor(
+    private reconcileStorageUseCase: ReconcileStorageUseCase,
+    private getReportsUseCase: GetStorageReconciliationReportsUseCase,
+    private getReportUseCase: GetStorageReconciliationReportUseCase,
+    private getStorageStatsUseCase: GetStorageStatsUseCase
+  ) {
+    super();
+  }
+
+  /**
+   * Reconcile storage with the database
+   * @summary Report orphaned files, dangling references and size mismatches, deleting orphaned files unless dry-running
+   * @description Stored files younger than the configured grace period are never treated as orphans. The report is persisted.
+   * @param dryRun Only report findings without deleting orphaned files
+   */
+  @Post('reconcile')
+  @Security('bearerAuth', ['admin:access', 'storage:maintain'])
+  @Security('apiKeyAuth', ['admin:access', 'storage:maintain'])
+  @SuccessResponse('200', 'Reconciliation finished')
+  @Response<ProblemDetails>('400', 'Invalid dryRun value', undefined, 'application/problem+json')
+  @Example<StorageReconciliationReportResponse>(exampleReport)
+  public async reconcile(@Query() dryRun?: boolean): Promise<StorageReconciliationReportResponse> {
+    const result = await this.reconcileStorageUseCase.execute({ dryRun: dryRun ?? false, trigger: 'manual' });
+
+    return this.toReportResponse(result);
+  }
+
+  /**
+   * List reconciliation reports
+   * @summary Get the most recent reconciliation reports, newest first
+   * @param limit Number of reports to return (max 100)
+   */
+  @Get('reports')
+  @Security('bearerAuth', ['admin:access', 'storage:read'])
+  @Security('apiKeyAuth', ['admin:access', 'storage:read'])
+  @SuccessResponse('200', 'Reports retrieved successfully')
+  @Example<StorageReconciliationReportListResponse>({ reports: [exampleReport], limit: 20 })
+  public async getReports(@Query() limit?: number): Promise<StorageReconciliationReportListResponse> {
+    const result = await this.getReportsUseCase.execute({ limit });
+
+    return {
+      reports: result.reports.map(report => this.toReportResponse(report)),
+      limit: result.limit
+    };
+  }
+
+  /**
+   * Get a reconciliation report
+   * @summary Get one persisted reconciliation report with all its findings
+   */
+  @Get('reports/{reportId}')
+  @Security('bearerAuth', ['admin:access', 'storage:read'])
+  @Security('apiKeyAuth', ['admin:access', 'storage:read'])
+  @SuccessResponse('200', 'Report retrieved successfully')
+  @Response<ProblemDetails>('400', 'Invalid report ID format', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('404', 'Report not found', undefined, 'application/problem+json')
+  @Example<StorageReconciliationReportResponse>(exampleReport)
+  public async getReport(@Path() reportId: string): Promise<StorageReconciliationReportResponse> {
+    const result = await this.getReportUseCase.execute({ reportId });
+
+    return this.toReportResponse(result);
+  }
+
+  /**
+   * Get storage statistics
+   * @summary Count the live and trashed files of all users and their total size
+   */
+  @Get('stats')
+  @Security('bearerAuth', ['admin:access', 'storage:read'])
+  @Security('apiKeyAuth', ['admin:access', 'storage:read'])
+  @SuccessResponse('200', 'Statistics retrieved successfully')
+  @Example<StorageStatsResponse>({
+    files: { count: 128, totalSize: 5242880 },
+    trash: { count: 3, totalSize: 40960 }
+  })
+  public async getStats(): Promise<StorageStatsResponse> {
+    return this.getStorageStatsUseCase.execute();
+  }
+
+  /**
+   * Maps a reconciliation summary to its response, serializing dates
+   */
+  private toReportResponse(report: StorageReconciliationSummary): StorageReconciliationReportResponse {
+    return {
+      id: report.id,
+      trigger: report.trigger,
+      dryRun: report.dryRun,
+      startedAt: report.startedAt.toISOString(),
+      finishedAt: report.finishedAt.toISOString(),
+      consistent: report.consistent,
+      storedFileCount: report.storedFileCount,
+      referenceCount: report.referenceCount,
+      deletedFileCount: report.deletedFileCount,
+      orphanedFiles: report.orphanedFiles.map(file => ({
+        storagePath: file.storagePath,
+        size: file.size,
+        modifiedAt: file.modifiedAt.toISOString(),
+        deleted: file.deleted
+      })),
+      danglingReferences: report.danglingReferences,
+      sizeMismatches: report.sizeMismatches
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { Request as ExpressRequest } from 'express';
+import {
+  Route,
+  Get,
+  Put,
+  Tags,
+  SuccessResponse,
+  Example,
+  Controller,
+  Path,
+  Query,
+  Response,
+  Body,
+  Request,
+  Security
+} from 'tsoa';
+import { UserResponse, UserListResponse, UserRoleRequest, ProblemDetails } from '../dto';
+import { GetUsersUseCase, ChangeUserRoleUseCase, UserSummary } from '../../application/usecases';
+import { authenticatedUserOf } from '../middlewares';
+
+const exampleUser: UserResponse = {
+  id: '3f2b8c1e-6a4d-4e9b-9c7a-1d2e3f4a5b6c',
+  email: 'ada@example.com',
+  displayName: 'Ada',
+  role: 'auditor',
+  createdAt: '2025-09-08T10:30:00.000Z'
+};
+
+@Route('admin/users')
+@Tags('Admin')
+@Security('bearerAuth', ['admin:access'])
+@Security('apiKeyAuth', ['admin:access'])
+@Response<ProblemDetails>('401', 'Access token or API key missing, invalid or expired', undefined, 'application/problem+json')
+@Response<ProblemDetails>('403', 'Role or API key lacks the required permission', undefined, 'application/problem+json')
+@Response<ProblemDetails>('500', 'Unexpected server error', undefined, 'application/problem+json')
+export class UserAdminController extends Controller {
+  constructor(
+    private getUsersUseCase: GetUsersUseCase,
+    private changeUserRoleUseCase: ChangeUserRoleUseCase
+  ) {
+    super();
+  }
+
+  /**
+   * List user accounts
+   * @summary Get all accounts with their roles, oldest first
+   * @param page Page number (1-based)
+   * @param limit Number of accounts per page (max 100)
+   */
+  @Get()
+  @Security('bearerAuth', ['admin:access', 'users:read'])
+  @Security('apiKeyAuth', ['admin:access', 'users:read'])
+  @SuccessResponse('200', 'Accounts retrieved successfully')
+  @Example<UserListResponse>({
+    users: [exampleUser],
+    totalCount: 1,
+    page: 1,
+    limit: 20,
+    hasNextPage: false,
+    hasPreviousPage: false
+  })
+  public async getUsers(@Query() page?: number, @Query() limit?: number): Promise<UserListResponse> {
+    const result = await this.getUsersUseCase.execute({ page, limit });
+
+    return {
+      users: result.users.map(user => this.toUserResponse(user)),
+      totalCount: result.totalCount,
+      page: result.page,
+      limit: result.limit,
+      hasNextPage: result.hasNextPage,
+      hasPreviousPage: result.hasPreviousPage
+    };
+  }
+
+  /**
+   * Change the role of an account
+   * @summary Promote or demote a user
+   * @description Admins cannot change their own role. The new role applies once the user's current access token has expired.
+   */
+  @Put('{userId}/role')
+  @Security('bearerAuth', ['admin:access', 'users:manage'])
+  @Security('apiKeyAuth', ['admin:access', 'users:manage'])
+  @SuccessResponse('200', 'Role changed')
+  @Response<ProblemDetails>('400', 'Invalid user ID or unknown role', undefined, 'application/problem+json')
+  @Response<ProblemDetails>('404', 'User not found', undefined, 'application/problem+json')
+  @Example<UserResponse>(exampleUser)
+  public async changeUserRole(
+    @Path() userId: string,
+    @Body() body: UserRoleRequest,
+    @Request() request: ExpressRequest
+  ): Promise<UserResponse> {
+    const result = await this.changeUserRoleUseCase.execute({
+      userId,
+      role: body?.role,
+      changedBy: authenticatedUserOf(request).id
+    });
+
+    return this.toUserResponse(result);
+  }
+
+  /**
+   * Maps a user summary to its response, serializing dates
+   */
+  private toUserResponse(user: UserSummary): UserResponse {
+    return {
+      id: user.id,
+      email: user.email,
+      displayName: user.displayName,
+      role: user.role,
+      createdAt: user.createdAt.toISOString()
+    };
+  }
+}
\ No newline at end of file
@@ -1,3 +1,10 @@
 export * from './BaseController';
 export * from './HealthController';
-export * from './FileController';
\ No newline at end of file
+export * from './FileController';
+export * from './StorageAdminController';
+export * from './AuthController';
+export * from './FileAccessController';
+export * from './UserAdminController';
+export * from './ApiKeyController';
+export * from './ShareLinkController';
+export * from './SharedFileController';
\ No newline at end of file
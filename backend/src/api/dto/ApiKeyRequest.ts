@@ -0,0 +1,15 @@
+import { ApiKeyScope } from './ApiKeyResponse';
+
+/**
+ * Data Transfer Object for creating a personal API key
+ */
+export interface ApiKeyRequest {
+  /** Name telling the key apart from the owner's other keys, such as the pipeline using it */
+  name: string;
+  
+  /** Permissions the key may use; only permissions of the owner's role can be given */
+  scopes: ApiKeyScope[];
+  
+  /** Days until the key expires, from 1 to 365 (default: 90) */
+  expiresInDays?: number;
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+/**
+ * Permission an API key can be scoped for
+ */
+export type ApiKeyScope =
+  | 'files:read'
+  | 'files:write'
+  | 'admin:access'
+  | 'storage:read'
+  | 'storage:maintain'
+  | 'users:read'
+  | 'users:manage';
+
+/**
+ * Data Transfer Object for a personal API key, without the key itself
+ */
+export interface ApiKeyResponse {
+  /** Unique identifier of the key */
+  id: string;
+  
+  /** Name given to the key */
+  name: string;
+  
+  /** First characters of the key, to recognise it by */
+  prefix: string;
+  
+  /** Permissions the key may use */
+  scopes: ApiKeyScope[];
+  
+  /** When the key stops being accepted */
+  expiresAt: string;
+  
+  /** When the key last authenticated a request, if ever */
+  lastUsedAt?: string;
+  
+  /** When the key was created */
+  createdAt: string;
+}
+
+/**
+ * Data Transfer Object for a newly created API key
+ */
+export interface ApiKeyCreatedResponse extends ApiKeyResponse {
+  /** The key to send in the X-API-Key header. It is only shown this once */
+  key: string;
+}
+
+/**
+ * Data Transfer Object for the API keys of the caller
+ */
+export interface ApiKeyListResponse {
+  /** Keys of the caller, newest first, including expired ones */
+  apiKeys: ApiKeyResponse[];
+}
\ No newline at end of file
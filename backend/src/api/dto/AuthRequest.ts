@@ -0,0 +1,43 @@
+/**
+ * Data Transfer Object for creating an account
+ */
+export interface RegistrationRequest {
+  /** Email address used to sign in; case is ignored */
+  email: string;
+  
+  /** Password of 8 to 128 characters */
+  password: string;
+  
+  /** Name shown for the user */
+  displayName?: string;
+}
+
+/**
+ * Data Transfer Object for signing in
+ */
+export interface CredentialsRequest {
+  /** Email address of the account */
+  email: string;
+  
+  /** Password of the account */
+  password: string;
+}
+
+/**
+ * Data Transfer Object for exchanging a refresh token
+ */
+export interface RefreshTokenRequest {
+  /** Refresh token from the last sign-in or refresh; it can only be used once */
+  refreshToken: string;
+}
+
+/**
+ * Data Transfer Object for signing out
+ */
+export interface SignOutRequest {
+  /** Refresh token of the session to end */
+  refreshToken: string;
+  
+  /** Also end every other session of the user */
+  allSessions?: boolean;
+}
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { UserResponse } from './UserResponse';
+
+/**
+ * Data Transfer Object for the tokens of a session
+ * Send the access token as "Authorization: Bearer <accessToken>"; exchange the refresh token for new tokens before it expires
+ */
+export interface AuthTokenResponse {
+  /** How to send the access token */
+  tokenType: 'Bearer';
+  
+  /** Signed access token */
+  accessToken: string;
+  
+  /** Seconds until the access token expires */
+  expiresIn: number;
+  
+  /** When the access token expires */
+  accessTokenExpiresAt: string;
+  
+  /** Signed refresh token; it can only be used once */
+  refreshToken: string;
+  
+  /** When the refresh token expires */
+  refreshTokenExpiresAt: string;
+  
+  /** The signed-in user */
+  user: UserResponse;
+}
\ No newline at end of file
@@ -0,0 +1,30 @@
+/**
+ * Data Transfer Object for a supported document type
+ */
+export interface ContentTypeResponse {
+  /** Canonical MIME type stored with files of this type */
+  contentType: string;
+  
+  /** File extensions, lower case and including the leading dot */
+  extensions: string[];
+  
+  /** Other MIME types accepted for this type */
+  mimeAliases: string[];
+  
+  /** Largest accepted file size in bytes */
+  maxSizeBytes: number;
+  
+  /** Whether files of this type are binary; their content is transferred base64 encoded in JSON */
+  binary: boolean;
+}
+
+/**
+ * Data Transfer Object for the list of supported document types
+ */
+export interface ContentTypeListResponse {
+  /** Supported document types */
+  contentTypes: ContentTypeResponse[];
+  
+  /** Largest file size any supported type accepts, in bytes */
+  maxUploadSizeBytes: number;
+}
\ No newline at end of file
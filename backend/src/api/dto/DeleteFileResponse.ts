@@ -12,6 +12,12 @@ export interface DeleteFileResponse {
   /** Whether the deletion was successful */
   deleted: boolean;
   
+  /** When the file was moved to the trash */
+  deletedAt: string;
+  
+  /** When the file will be purged unless it is restored first */
+  purgeAt: string;
+  
   /** Success or error message */
   message: string;
 }
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { ContentEncoding } from './ProcessedFileRequest';
+
 /**
  * Data Transfer Object for file content responses
  * Used when returning complete file data including content
@@ -9,9 +11,12 @@ export interface FileContentResponse {
   /** Original filename with extension */
   filename: string;
   
-  /** Complete file content as string */
+  /** Complete file content; base64 encoded for binary files */
   content: string;
   
+  /** Encoding of content: utf8 for text, base64 for binary files */
+  encoding: ContentEncoding;
+  
   /** File size in bytes */
   fileSize: number;
   
@@ -21,6 +26,12 @@ export interface FileContentResponse {
   /** MIME content type of the file */
   contentType: string;
   
+  /** Revision number of the content being returned */
+  version: number;
+  
+  /** SHA-256 hash of the content (absent for files stored before content addressing) */
+  contentHash?: string;
+  
   /** When the file was uploaded */
   createdAt: string;
   
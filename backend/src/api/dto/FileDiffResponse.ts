@@ -0,0 +1,78 @@
+/**
+ * A contiguous block of changes in a line-based diff
+ */
+export interface FileDiffHunk {
+  /** First line of the hunk in the original revision (1-based) */
+  oldStart: number;
+  
+  /** Number of original lines covered by the hunk */
+  oldLines: number;
+  
+  /** First line of the hunk in the updated revision (1-based) */
+  newStart: number;
+  
+  /** Number of updated lines covered by the hunk */
+  newLines: number;
+  
+  /** Hunk lines prefixed with ' ' (context), '-' (removed) or '+' (added) */
+  lines: string[];
+}
+
+/**
+ * A single structural change between two JSON revisions
+ */
+export interface JsonChangeResponse {
+  /** Kind of change applied to the value */
+  op: 'added' | 'removed' | 'changed';
+  
+  /** JSON pointer (RFC 6901) to the affected value */
+  path: string;
+  
+  /** Value in the original revision (absent for additions) */
+  oldValue?: unknown;
+  
+  /** Value in the updated revision (absent for removals) */
+  newValue?: unknown;
+}
+
+/**
+ * Data Transfer Object for file diff responses
+ * Used when comparing the contents of two revisions of a file
+ */
+export interface FileDiffResponse {
+  /** Unique identifier for the file */
+  fileId: string;
+  
+  /** Filename with extension */
+  filename: string;
+  
+  /** MIME content type of the file */
+  contentType: string;
+  
+  /** Diff mode used: line-based text or structural JSON */
+  mode: 'text' | 'json';
+  
+  /** Revision the comparison starts from */
+  fromVersion: number;
+  
+  /** Revision the comparison ends at */
+  toVersion: number;
+  
+  /** Whether both revisions have equivalent content */
+  identical: boolean;
+  
+  /** Unified diff of the two revisions (text mode) */
+  unifiedDiff?: string;
+  
+  /** Structured hunk list of the unified diff (text mode) */
+  hunks?: FileDiffHunk[];
+  
+  /** Number of added lines (text mode) */
+  additions?: number;
+  
+  /** Number of removed lines (text mode) */
+  deletions?: number;
+  
+  /** Added, removed and changed values by JSON pointer (json mode) */
+  changes?: JsonChangeResponse[];
+}
\ No newline at end of file
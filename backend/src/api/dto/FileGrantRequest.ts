@@ -0,0 +1,10 @@
+/**
+ * Data Transfer Object for sharing a file with another user
+ */
+export interface FileGrantRequest {
+  /** Email address of the account to share the file with */
+  email: string;
+  
+  /** Role to give: viewer reads, editor also changes content, owner also deletes and shares */
+  role: 'viewer' | 'editor' | 'owner';
+}
\ No newline at end of file
@@ -0,0 +1,30 @@
+/**
+ * Data Transfer Object for a role a user holds on a file
+ */
+export interface FileGrantResponse {
+  /** ID of the user holding the role */
+  userId: string;
+  
+  /** Role held on the file */
+  role: 'viewer' | 'editor' | 'owner';
+  
+  /** When the file was first shared with the user */
+  createdAt: string;
+  
+  /** When the role last changed */
+  updatedAt: string;
+}
+
+/**
+ * Data Transfer Object listing who has access to a file
+ */
+export interface FileGrantListResponse {
+  /** ID of the file */
+  fileId: string;
+  
+  /** ID of the user who uploaded the file; absent for files uploaded before ownership was recorded */
+  ownerId?: string;
+  
+  /** Roles granted to other users, oldest first */
+  grants: FileGrantResponse[];
+}
\ No newline at end of file
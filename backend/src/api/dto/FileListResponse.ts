@@ -8,14 +8,14 @@ export interface FileListResponse {
   /** Array of file metadata objects */
   files: FileResponse[];
   
-  /** Total number of files in the system */
-  totalCount: number;
+  /** Total number of files matching the filters; absent when paging by cursor */
+  totalCount?: number;
   
-  /** Total size of all files in bytes */
-  totalSize: number;
+  /** Total size of all files matching the filters in bytes; absent when paging by cursor */
+  totalSize?: number;
   
-  /** Current page number (1-based) */
-  page: number;
+  /** Current page number (1-based); absent when paging by cursor */
+  page?: number;
   
   /** Number of items per page */
   limit: number;
@@ -25,4 +25,10 @@ export interface FileListResponse {
   
   /** Whether there is a previous page available */
   hasPreviousPage: boolean;
+  
+  /** Opaque cursor for the next page (pass as cursor) */
+  nextCursor?: string;
+  
+  /** Opaque cursor for the previous page (pass as cursor) */
+  prevCursor?: string;
 }
\ No newline at end of file
@@ -18,6 +18,9 @@ export interface FileResponse {
   /** MIME content type of the file */
   contentType: string;
   
+  /** SHA-256 hash of the current content (absent for files stored before content addressing) */
+  contentHash?: string;
+  
   /** When the file was uploaded */
   createdAt: string;
   
@@ -0,0 +1,39 @@
+import { FileResponse } from './FileResponse';
+
+/**
+ * Data Transfer Object for a single full-text search hit
+ * File metadata extended with relevance information
+ */
+export interface FileSearchHitResponse extends FileResponse {
+  /** Relevance score (higher is better) */
+  rank: number;
+  
+  /** Excerpt of the content, HTML-escaped, with matched terms wrapped in <mark></mark> */
+  snippet: string;
+}
+
+/**
+ * Data Transfer Object for paginated full-text search responses
+ */
+export interface FileSearchResponse {
+  /** The normalized search query */
+  query: string;
+  
+  /** Matching files, best match first */
+  results: FileSearchHitResponse[];
+  
+  /** Total number of matching files */
+  totalCount: number;
+  
+  /** Current page number (1-based) */
+  page: number;
+  
+  /** Number of items per page */
+  limit: number;
+  
+  /** Whether there is a next page available */
+  hasNextPage: boolean;
+  
+  /** Whether there is a previous page available */
+  hasPreviousPage: boolean;
+}
\ No newline at end of file
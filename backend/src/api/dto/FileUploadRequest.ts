@@ -9,8 +9,7 @@ export interface FileUploadRequest {
   /** Processed file data (added by validation middleware) */
   processedFile?: {
     filename: string;
-    content: string;
+    content: Buffer;
     size: number;
-    contentType: string;
   };
 }
\ No newline at end of file
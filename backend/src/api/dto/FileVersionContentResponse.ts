@@ -0,0 +1,17 @@
+import { FileVersionResponse } from './FileVersionResponse';
+import { ContentEncoding } from './ProcessedFileRequest';
+
+/**
+ * Data Transfer Object for file revision content responses
+ * Used when returning a single revision including its content
+ */
+export interface FileVersionContentResponse extends FileVersionResponse {
+  /** Filename with extension */
+  filename: string;
+  
+  /** Complete revision content; base64 encoded for binary files */
+  content: string;
+  
+  /** Encoding of content: utf8 for text, base64 for binary files */
+  encoding: ContentEncoding;
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { FileVersionResponse } from './FileVersionResponse';
+
+/**
+ * Data Transfer Object for file revision history responses
+ * Used for API responses listing every stored revision of a file
+ */
+export interface FileVersionListResponse {
+  /** Unique identifier for the file */
+  fileId: string;
+  
+  /** Current filename with extension */
+  filename: string;
+  
+  /** Revision number the file currently points at */
+  currentVersion: number;
+  
+  /** Revisions of the file, newest first */
+  versions: FileVersionResponse[];
+}
\ No newline at end of file
@@ -0,0 +1,29 @@
+/**
+ * Data Transfer Object for file revision responses
+ * Used for API responses containing metadata of a single revision
+ */
+export interface FileVersionResponse {
+  /** Unique identifier of the file the revision belongs to */
+  fileId: string;
+  
+  /** Revision number (1-based, increasing with every content update) */
+  version: number;
+  
+  /** Revision size in bytes */
+  fileSize: number;
+  
+  /** Human-readable revision size (e.g., "1.5 MB", "256 KB") */
+  formattedSize: string;
+  
+  /** MIME content type of the revision */
+  contentType: string;
+  
+  /** SHA-256 hash of the revision content (absent for revisions stored before content addressing) */
+  contentHash?: string;
+  
+  /** Whether this revision is the current content of the file */
+  isCurrent: boolean;
+  
+  /** When the revision was stored */
+  createdAt: string;
+}
\ No newline at end of file
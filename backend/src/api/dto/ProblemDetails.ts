@@ -0,0 +1,62 @@
+/**
+ * A single request input that failed validation
+ */
+export interface ProblemFieldError {
+  /**
+   * Name of the invalid input (parameter, query field or body property)
+   * @example "fileId"
+   */
+  field: string;
+
+  /**
+   * Why the input was rejected
+   * @example "File ID must be a valid UUID"
+   */
+  message: string;
+}
+
+/**
+ * Error response body following RFC 7807, sent as application/problem+json
+ */
+export interface ProblemDetails {
+  /**
+   * URI reference identifying the kind of problem
+   * @example "/problems/validation-error"
+   */
+  type: string;
+
+  /**
+   * Short summary of the kind of problem; the same for every occurrence
+   * @example "Invalid request"
+   */
+  title: string;
+
+  /**
+   * HTTP status code of the response
+   * @example 400
+   */
+  status: number;
+
+  /**
+   * Explanation specific to this occurrence of the problem
+   * @example "File ID must be a valid UUID"
+   */
+  detail: string;
+
+  /**
+   * Path of the request that caused the problem
+   * @example "/api/v1/files/not-a-uuid"
+   */
+  instance: string;
+
+  /**
+   * Identifier of the request, also sent in the X-Request-Id header; quote it when reporting problems
+   * @example "5f0c6a3e-7a5b-4b7e-9f43-0c1d2b3a4e5f"
+   */
+  requestId: string;
+
+  /**
+   * Invalid inputs, present on validation problems that concern specific fields
+   */
+  errors?: ProblemFieldError[];
+}
\ No newline at end of file
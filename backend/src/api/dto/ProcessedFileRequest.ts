@@ -1,3 +1,8 @@
+/**
+ * How file content is carried in a JSON string: text as is, binary content base64 encoded
+ */
+export type ContentEncoding = 'utf8' | 'base64';
+
 /**
  * Data Transfer Object for processed file upload requests
  * Used internally after multer processes the multipart form data
@@ -6,9 +11,9 @@ export interface ProcessedFileRequest {
   /** Original filename with extension */
   filename: string;
   
-  /** File content as string */
+  /** File content; base64 encoded when encoding is base64 */
   content: string;
   
-  /** MIME content type */
-  contentType: string;
+  /** Encoding of content, utf8 when omitted; binary files must be sent base64 encoded */
+  encoding?: ContentEncoding;
 }
\ No newline at end of file
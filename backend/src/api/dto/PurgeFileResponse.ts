@@ -0,0 +1,16 @@
+/**
+ * Data Transfer Object for permanent file deletion responses
+ */
+export interface PurgeFileResponse {
+  /** ID of the purged file */
+  id: string;
+  
+  /** Name of the purged file */
+  filename: string;
+  
+  /** Whether the file and its content were removed */
+  purged: boolean;
+  
+  /** Success message */
+  message: string;
+}
\ No newline at end of file
@@ -0,0 +1,21 @@
+/**
+ * Data Transfer Object for creating a share link
+ */
+export interface ShareLinkRequest {
+  /** Hours until the link expires, from 1 to 720 (default: 168, one week) */
+  expiresInHours?: number;
+  
+  /** Password recipients must give to download the file, at least 8 characters */
+  password?: string;
+  
+  /** Number of downloads after which the link stops working; unlimited when left out */
+  maxDownloads?: number;
+}
+
+/**
+ * Data Transfer Object for opening a password-protected share link, sent as a form or as JSON
+ */
+export interface SharePasswordRequest {
+  /** Password of the share link */
+  password: string;
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+/**
+ * Data Transfer Object for a share link
+ */
+export interface ShareLinkResponse {
+  /** Unique identifier of the link */
+  id: string;
+  
+  /** ID of the shared file */
+  fileId: string;
+  
+  /** Signed URL anyone holding it can download the file from, without an account */
+  url: string;
+  
+  /** When the link stops working */
+  expiresAt: string;
+  
+  /** Whether downloading requires a password */
+  passwordProtected: boolean;
+  
+  /** Number of downloads the link allows, if limited */
+  maxDownloads?: number;
+  
+  /** Number of downloads so far */
+  downloadCount: number;
+  
+  /** When the link was created */
+  createdAt: string;
+}
+
+/**
+ * Data Transfer Object for the active share links of a file
+ */
+export interface ShareLinkListResponse {
+  /** ID of the shared file */
+  fileId: string;
+  
+  /** Links that are neither revoked, expired nor used up, newest first */
+  shareLinks: ShareLinkResponse[];
+}
\ No newline at end of file
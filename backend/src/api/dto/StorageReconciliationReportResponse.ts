@@ -0,0 +1,96 @@
+/**
+ * Data Transfer Object for a row pointing at stored content
+ */
+export interface StoredContentReferenceResponse {
+  /** Storage path the row points at */
+  storagePath: string;
+  
+  /** Size in bytes recorded by the row */
+  expectedSize: number;
+  
+  /** Kind of row holding the reference */
+  referencedBy: 'file' | 'version' | 'blob';
+  
+  /** ID of the file or revision, or hash of the blob */
+  referenceId: string;
+}
+
+/**
+ * Data Transfer Object for stored content no row points at
+ */
+export interface OrphanedStorageFileResponse {
+  /** Storage path of the orphaned file */
+  storagePath: string;
+  
+  /** Size in bytes */
+  size: number;
+  
+  /** When the file was last written */
+  modifiedAt: string;
+  
+  /** Whether the run deleted the file */
+  deleted: boolean;
+}
+
+/**
+ * Data Transfer Object for a row whose stored content has a different size than recorded
+ */
+export interface StorageSizeMismatchResponse {
+  /** The row with the unexpected content */
+  reference: StoredContentReferenceResponse;
+  
+  /** Size in bytes found in storage */
+  actualSize: number;
+}
+
+/**
+ * Data Transfer Object for a storage reconciliation report
+ */
+export interface StorageReconciliationReportResponse {
+  /** Report ID */
+  id: string;
+  
+  /** Whether the run was requested or scheduled */
+  trigger: 'manual' | 'scheduled';
+  
+  /** Whether orphaned files were only reported */
+  dryRun: boolean;
+  
+  /** When the run started */
+  startedAt: string;
+  
+  /** When the run finished */
+  finishedAt: string;
+  
+  /** Whether storage and database matched completely */
+  consistent: boolean;
+  
+  /** Number of files found in storage */
+  storedFileCount: number;
+  
+  /** Number of rows pointing at stored content */
+  referenceCount: number;
+  
+  /** Number of orphaned files deleted by the run */
+  deletedFileCount: number;
+  
+  /** Stored files no row points at */
+  orphanedFiles: OrphanedStorageFileResponse[];
+  
+  /** Rows whose stored content is missing */
+  danglingReferences: StoredContentReferenceResponse[];
+  
+  /** Rows whose stored content has a different size than recorded */
+  sizeMismatches: StorageSizeMismatchResponse[];
+}
+
+/**
+ * Data Transfer Object for listing reconciliation reports
+ */
+export interface StorageReconciliationReportListResponse {
+  /** Reports, newest first */
+  reports: StorageReconciliationReportResponse[];
+  
+  /** Maximum number of reports returned */
+  limit: number;
+}
\ No newline at end of file
@@ -0,0 +1,21 @@
+/**
+ * Data Transfer Object for the number and size of a set of files
+ */
+export interface FileSetStatsResponse {
+  /** Number of files */
+  count: number;
+  
+  /** Total size of the files in bytes */
+  totalSize: number;
+}
+
+/**
+ * Data Transfer Object for storage statistics across all users
+ */
+export interface StorageStatsResponse {
+  /** Live files */
+  files: FileSetStatsResponse;
+  
+  /** Files in the trash, waiting to be restored or purged */
+  trash: FileSetStatsResponse;
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { FileResponse } from './FileResponse';
+
+/**
+ * Data Transfer Object for a file in the trash
+ * Adds when the file was deleted and when it will be purged to the file metadata
+ */
+export interface TrashedFileResponse extends FileResponse {
+  /** When the file was moved to the trash */
+  deletedAt: string;
+  
+  /** When the file will be purged unless it is restored first */
+  purgeAt: string;
+}
+
+/**
+ * Data Transfer Object for paginated trash listings
+ */
+export interface TrashListResponse {
+  /** Trashed files, most recently deleted first */
+  files: TrashedFileResponse[];
+  
+  /** Total number of files in the trash */
+  totalCount: number;
+  
+  /** Total size of all files in the trash in bytes */
+  totalSize: number;
+  
+  /** Current page number (1-based) */
+  page: number;
+  
+  /** Number of items per page */
+  limit: number;
+  
+  /** Whether there is a next page available */
+  hasNextPage: boolean;
+  
+  /** Whether there is a previous page available */
+  hasPreviousPage: boolean;
+}
\ No newline at end of file
@@ -0,0 +1,50 @@
+/**
+ * Data Transfer Object for a user account
+ */
+export interface UserResponse {
+  /** Unique identifier of the user */
+  id: string;
+  
+  /** Email address used to sign in, lower case */
+  email: string;
+  
+  /** Name shown for the user */
+  displayName?: string;
+  
+  /** Role deciding what the user may do beyond their own files */
+  role: 'user' | 'auditor' | 'admin';
+  
+  /** When the account was created */
+  createdAt: string;
+}
+
+/**
+ * Data Transfer Object for a page of user accounts
+ */
+export interface UserListResponse {
+  /** Accounts on this page, oldest first */
+  users: UserResponse[];
+  
+  /** Number of all accounts */
+  totalCount: number;
+  
+  /** Current page number (1-based) */
+  page: number;
+  
+  /** Number of accounts per page */
+  limit: number;
+  
+  /** Whether there are more pages after this one */
+  hasNextPage: boolean;
+  
+  /** Whether there are pages before this one */
+  hasPreviousPage: boolean;
+}
+
+/**
+ * Data Transfer Object for changing the role of an account
+ */
+export interface UserRoleRequest {
+  /** New role of the account */
+  role: 'user' | 'auditor' | 'admin';
+}
\ No newline at end of file
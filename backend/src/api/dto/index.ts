@@ -4,4 +4,24 @@ export * from './FileResponse';
 export * from './FileContentResponse';
 export * from './FileListResponse';
 export * from './DeleteFileResponse';
-export * from './ProcessedFileRequest';
\ No newline at end of file
+export * from './ProcessedFileRequest';
+export * from './FileVersionResponse';
+export * from './FileVersionListResponse';
+export * from './FileVersionContentResponse';
+export * from './FileDiffResponse';
+export * from './FileSearchResponse';
+export * from './ProblemDetails';
+export * from './TrashedFileResponse';
+export * from './PurgeFileResponse';
+export * from './StorageReconciliationReportResponse';
+export * from './ContentTypeResponse';
+export * from './AuthRequest';
+export * from './UserResponse';
+export * from './AuthTokenResponse';
+export * from './FileGrantRequest';
+export * from './FileGrantResponse';
+export * from './StorageStatsResponse';
+export * from './ApiKeyRequest';
+export * from './ApiKeyResponse';
+export * from './ShareLinkRequest';
+export * from './ShareLinkResponse';
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from 'express';
+import { PreconditionRequiredError } from '../../domain/errors';
+
+/**
+ * Conditional request middleware
+ * Guards writes that must state which version of a resource they are based on
+ */
+
+/**
+ * Rejects updates without an If-Match header (RFC 6585 428 Precondition Required)
+ * Runs before the body is parsed so an unconditional upload is refused without buffering it
+ */
+export const requireIfMatch = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.get('If-Match')) {
+    return next(new PreconditionRequiredError(
+      'If-Match header is required. Send the ETag of the file version you are updating, or * to overwrite any version.'
+    ));
+  }
+
+  next();
+};
\ No newline at end of file
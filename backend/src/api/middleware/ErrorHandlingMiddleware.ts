@@ -0,0 +1,150 @@
+import { STATUS_CODES } from 'http';
+import { Request, Response, NextFunction } from 'express';
+import { ValidateError } from 'tsoa';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  ConcurrencyError,
+  PayloadTooLargeError,
+  PreconditionRequiredError,
+  IntegrityError,
+  UnauthorizedError,
+  ForbiddenError,
+  GoneError
+} from '../../domain/errors';
+import { ProblemDetails, ProblemFieldError } from '../dto';
+import { requestIdOf } from './RequestIdMiddleware';
+
+/**
+ * Central error handling middleware
+ * Turns errors thrown anywhere in the request pipeline into RFC 7807 problem responses based on their type
+ */
+
+// HTTP status of every error type; the first matching entry wins
+const STATUS_BY_ERROR_TYPE: Array<[abstract new (...args: any[]) => Error, number]> = [
+  [ValidationError, 400],
+  [ValidateError, 400],
+  [UnauthorizedError, 401],
+  [ForbiddenError, 403],
+  [NotFoundError, 404],
+  [ConflictError, 409],
+  [GoneError, 410],
+  [ConcurrencyError, 412],
+  [PayloadTooLargeError, 413],
+  [PreconditionRequiredError, 428]
+];
+
+// Problem type and title of every status the API answers with; other statuses use about:blank
+const PROBLEM_TYPES: Record<number, { type: string; title: string }> = {
+  400: { type: '/problems/validation-error', title: 'Invalid request' },
+  401: { type: '/problems/unauthorized', title: 'Authentication required' },
+  403: { type: '/problems/forbidden', title: 'Access denied' },
+  404: { type: '/problems/not-found', title: 'Resource not found' },
+  409: { type: '/problems/conflict', title: 'Resource already exists' },
+  410: { type: '/problems/gone', title: 'Resource no longer available' },
+  412: { type: '/problems/precondition-failed', title: 'Resource has changed' },
+  413: { type: '/problems/payload-too-large', title: 'Payload too large' },
+  415: { type: '/problems/unsupported-media-type', title: 'Unsupported media type' },
+  416: { type: '/problems/range-not-satisfiable', title: 'Range not satisfiable' },
+  428: { type: '/problems/precondition-required', title: 'Precondition required' },
+  500: { type: '/problems/internal-error', title: 'Internal server error' }
+};
+
+// Stored content failing its checksum is a server fault too, but one clients and operators must tell apart
+const INTEGRITY_PROBLEM_TYPE = { type: '/problems/integrity-error', title: 'Stored content is corrupted' };
+
+/**
+ * Resolves the HTTP status for an error
+ * Errors raised by Express and its body parsers carry their own 4xx status; anything unknown is a 500
+ */
+export function statusForError(error: Error): number {
+  const match = STATUS_BY_ERROR_TYPE.find(([errorType]) => error instanceof errorType);
+  if (match) {
+    return match[1];
+  }
+
+  const status = (error as { status?: unknown }).status ?? (error as { statusCode?: unknown }).statusCode;
+  if (typeof status === 'number' && status >= 400 && status < 500) {
+    return status;
+  }
+
+  return 500;
+}
+
+/**
+ * Lists the invalid inputs named by a validation error
+ */
+function fieldErrorsOf(error: Error): ProblemFieldError[] | undefined {
+  if (error instanceof ValidateError) {
+    return Object.entries(error.fields).map(([field, { message }]) => ({ field, message }));
+  }
+
+  if (error instanceof ValidationError && error.field) {
+    return [{ field: error.field, message: error.message }];
+  }
+
+  return undefined;
+}
+
+/**
+ * Sends an application/problem+json response
+ * Every error response of the API goes through here so clients can rely on a single shape
+ */
+export function sendProblem(
+  req: Request,
+  res: Response,
+  status: number,
+  detail: string,
+  errors?: ProblemFieldError[],
+  problemType: { type: string; title: string } = PROBLEM_TYPES[status] ?? { type: 'about:blank', title: STATUS_CODES[status] ?? 'Error' }
+): Response {
+  const problem: ProblemDetails = {
+    ...problemType,
+    status,
+    detail,
+    instance: req.originalUrl,
+    requestId: requestIdOf(req, res),
+    ...(errors && errors.length > 0 ? { errors } : {})
+  };
+
+  return res.status(status).type('application/problem+json').json(problem);
+}
+
+/**
+ * Answers requests no route matched; register it after all routes
+ */
+export const notFoundHandler = (req: Request, res: Response) => {
+  sendProblem(req, res, 404, `No route matches ${req.method} ${req.path}`);
+};
+
+/**
+ * Express error handler; register it after all routes
+ * Unexpected errors are logged with the request ID and answered without their details
+ */
+export const errorHandler = (error: Error, req: Request, res: Response, next: NextFunction) => {
+  // A response that already started streaming can only be aborted
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  if (error instanceof IntegrityError) {
+    console.error(
+      `Integrity check failed on ${req.method} ${req.originalUrl} (request ${requestIdOf(req, res)}): ` +
+      `expected ${error.expectedHash}, got ${error.actualHash}`
+    );
+    return sendProblem(req, res, 500, error.message, undefined, INTEGRITY_PROBLEM_TYPE);
+  }
+
+  const status = statusForError(error);
+  if (status === 401) {
+    // Tells clients which credentials the API expects
+    res.set('WWW-Authenticate', 'Bearer');
+  }
+  if (status === 500) {
+    console.error(`Unhandled error on ${req.method} ${req.originalUrl} (request ${requestIdOf(req, res)}):`, error);
+    return sendProblem(req, res, 500, 'An unexpected error occurred');
+  }
+
+  sendProblem(req, res, status, error.message, fieldErrorsOf(error));
+};
\ No newline at end of file
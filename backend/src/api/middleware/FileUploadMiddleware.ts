@@ -1,51 +1,55 @@
 import multer from 'multer';
 import { Request, Response, NextFunction } from 'express';
-import path from 'path';
-import { File } from '../../domain/entities';
+import { ValidationError, PayloadTooLargeError } from '../../domain/errors';
+import { contentTypeRegistry } from '../../domain/services';
+import { sendProblem } from './ErrorHandlingMiddleware';
 
 /**
  * File upload validation and processing middleware
- * Validates file types, sizes, and content before processing
+ * Validates file names and sizes before processing; the content itself, including its actual type,
+ * is checked by the use cases
  */
 
-// Configure multer for memory storage (we'll handle disk storage ourselves)
-const upload = multer({
+// Generic binary type browsers send for files they do not recognize
+const GENERIC_MIME_TYPE = 'application/octet-stream';
+
+/**
+ * Configures multer for memory storage (we'll handle disk storage ourselves)
+ * Built per request so the size limits configured at startup apply
+ */
+const createUpload = () => multer({
   storage: multer.memoryStorage(),
   limits: {
-    fileSize: File.MAX_FILE_SIZE, // 1MB limit
+    fileSize: contentTypeRegistry.getLargestMaxSize(), // Per-type limits are checked after multer
     files: 1, // Only allow one file at a time
   },
   fileFilter: (req, file, cb) => {
     // Check file extension
-    const ext = path.extname(file.originalname).toLowerCase();
-    const allowedExtensions = File.ALLOWED_EXTENSIONS;
-
-    if (!allowedExtensions.includes(ext as any)) {
-      return cb(new Error(`Only ${allowedExtensions.join(', ')} files are allowed`));
+    if (!contentTypeRegistry.findByFilename(file.originalname)) {
+      return cb(new ValidationError(`Only ${contentTypeRegistry.getExtensions().join(', ')} files are allowed`));
     }
 
-    // Check MIME type
-    const allowedMimeTypes = [
-      'text/plain',
-      'text/markdown',
-      'application/json',
-      'text/x-markdown', // Alternative markdown MIME type
-      'application/x-json', // Alternative JSON MIME type
-      'application/octet-stream' // Generic binary type (sometimes used for unknown files)
-    ];
-
-    if (!allowedMimeTypes.includes(file.mimetype)) {
-      return cb(new Error(`Invalid file type. Expected text/plain, text/markdown, or application/json`));
+    // Reject MIME types that cannot belong to a supported type; the declared type is never trusted beyond that
+    if (file.mimetype !== GENERIC_MIME_TYPE && !contentTypeRegistry.findByMimeType(file.mimetype)) {
+      return cb(new ValidationError(`Invalid file type. Expected one of: ${contentTypeRegistry.getContentTypes().join(', ')}`));
     }
 
     cb(null, true);
   }
 });
 
+/**
+ * Formats a size limit for error messages
+ */
+function formatLimit(maxSize: number): string {
+  return `${maxSize} bytes (${Math.round(maxSize / (1024 * 1024) * 100) / 100}MB)`;
+}
+
 /**
  * Single file upload middleware
  */
-export const uploadSingleFile = upload.single('file');
+export const uploadSingleFile = (req: Request, res: Response, next: NextFunction) =>
+  createUpload().single('file')(req, res, next);
 
 /**
  * File validation middleware that runs after multer
@@ -53,117 +57,89 @@ export const uploadSingleFile = upload.single('file');
 export const validateUploadedFile = (req: Request, res: Response, next: NextFunction) => {
   try {
     if (!req.file) {
-      return res.status(400).json({
-        error: 'No file provided. Please upload a file using the "file" field.'
-      });
+      return next(new ValidationError('No file provided. Please upload a file using the "file" field.', 'file'));
     }
 
     // Validate filename
     if (!req.file.originalname || req.file.originalname.trim().length === 0) {
-      return res.status(400).json({
-        error: 'Invalid filename provided'
-      });
+      return next(new ValidationError('Invalid filename provided', 'file'));
     }
 
-    // Check file size (double-check after multer)
-    if (req.file.size > File.MAX_FILE_SIZE) {
-      return res.status(413).json({
-        error: `File too large. Maximum size is ${File.MAX_FILE_SIZE} bytes (1MB)`
-      });
+    const definition = contentTypeRegistry.findByFilename(req.file.originalname);
+    if (!definition) {
+      return next(new ValidationError(`Only ${contentTypeRegistry.getExtensions().join(', ')} files are allowed`, 'file'));
     }
 
-    // Check if file is empty
-    if (req.file.size === 0) {
-      return res.status(400).json({
-        error: 'Cannot upload empty files'
-      });
+    // Check file size against the limit of its type (multer only enforces the largest limit)
+    const maxSize = contentTypeRegistry.getMaxSize(definition.contentType);
+    if (req.file.size > maxSize) {
+      return next(new PayloadTooLargeError(`File too large. Maximum size for ${definition.contentType} is ${formatLimit(maxSize)}`));
     }
 
-    // Validate file content based on extension
-    const ext = path.extname(req.file.originalname).toLowerCase();
-    const content = req.file.buffer.toString('utf-8');
-
-    if (ext === '.json') {
-      try {
-        JSON.parse(content);
-      } catch (error) {
-        return res.status(400).json({
-          error: 'Invalid JSON file content'
-        });
-      }
+    // Check if file is empty
+    if (req.file.size === 0) {
+      return next(new ValidationError('Cannot upload empty files', 'file'));
     }
 
-    // Add processed file data to request for controller
+    // Add processed file data to request for controller; the bytes are passed on undecoded
     req.body.processedFile = {
       filename: req.file.originalname,
-      content: content,
-      size: req.file.size,
-      contentType: getContentTypeFromExtension(req.file.originalname)
+      content: req.file.buffer,
+      size: req.file.size
     };
 
     next();
   } catch (error) {
-    return res.status(400).json({
-      error: `File validation failed: ${(error as Error).message}`
-    });
+    return next(new ValidationError(`File validation failed: ${(error as Error).message}`, 'file'));
   }
 };
 
 /**
- * Helper function to get content type from file extension
+ * Validation middleware for streaming uploads (raw request body)
+ * Checks everything that is known before the body arrives; content is validated while it streams
  */
-function getContentTypeFromExtension(filename: string): string {
-  const ext = path.extname(filename).toLowerCase();
-  
-  switch (ext) {
-    case '.json':
-      return 'application/json';
-    case '.md':
-      return 'text/markdown';
-    case '.txt':
-    default:
-      return 'text/plain';
+export const validateStreamUpload = (req: Request, res: Response, next: NextFunction) => {
+  const filename = req.query.filename;
+  if (typeof filename !== 'string' || filename.trim().length === 0) {
+    return next(new ValidationError('No filename provided. Please pass the filename in the "filename" query parameter.', 'filename'));
   }
-}
 
-/**
- * Error handling middleware for multer errors
- */
-export const handleUploadError = (error: Error, req: Request, res: Response, next: NextFunction) => {
-  if (error instanceof multer.MulterError) {
-    switch (error.code) {
-      case 'LIMIT_FILE_SIZE':
-        return res.status(413).json({
-          error: `File too large. Maximum size is ${File.MAX_FILE_SIZE} bytes (1MB)`
-        });
-      case 'LIMIT_FILE_COUNT':
-        return res.status(400).json({
-          error: 'Too many files. Please upload only one file at a time'
-        });
-      case 'LIMIT_UNEXPECTED_FILE':
-        return res.status(400).json({
-          error: 'Unexpected file field. Please use the "file" field name'
-        });
-      default:
-        return res.status(400).json({
-          error: `Upload error: ${error.message}`
-        });
-    }
+  const definition = contentTypeRegistry.findByFilename(filename);
+  if (!definition) {
+    return next(new ValidationError(`Only ${contentTypeRegistry.getExtensions().join(', ')} files are allowed`, 'filename'));
   }
 
-  // Handle custom validation errors
-  if (error.message.includes('Only') && error.message.includes('files are allowed')) {
-    return res.status(400).json({
-      error: error.message
-    });
+  // Other body types would be consumed by the body parsers before reaching the route
+  if (!req.is('application/octet-stream')) {
+    return sendProblem(req, res, 415, 'Streaming uploads must be sent with Content-Type: application/octet-stream');
   }
 
-  if (error.message.includes('Invalid file type')) {
-    return res.status(400).json({
-      error: error.message
-    });
+  // Reject early when the client announces an oversized body
+  const contentLength = Number(req.headers['content-length']);
+  const maxSize = contentTypeRegistry.getMaxSize(definition.contentType);
+  if (Number.isFinite(contentLength) && contentLength > maxSize) {
+    return next(new PayloadTooLargeError(`File too large. Maximum size for ${definition.contentType} is ${formatLimit(maxSize)}`));
   }
 
-  // Pass other errors to default error handler
-  next(error);
+  next();
+};
+
+/**
+ * Translates multer errors into typed errors for the central error handler
+ */
+export const handleUploadError = (error: Error, req: Request, res: Response, next: NextFunction) => {
+  if (!(error instanceof multer.MulterError)) {
+    return next(error);
+  }
+
+  switch (error.code) {
+    case 'LIMIT_FILE_SIZE':
+      return next(new PayloadTooLargeError(`File too large. Maximum size is ${contentTypeRegistry.getLargestMaxSize()} bytes`));
+    case 'LIMIT_FILE_COUNT':
+      return next(new ValidationError('Too many files. Please upload only one file at a time'));
+    case 'LIMIT_UNEXPECTED_FILE':
+      return next(new ValidationError('Unexpected file field. Please use the "file" field name'));
+    default:
+      return next(new ValidationError(`Upload error: ${error.message}`));
+  }
 };
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Request ID middleware
+ * Gives every request an identifier that is echoed in the X-Request-Id header and in error responses
+ */
+
+// Caller-supplied IDs are reused only when they are short and free of unusual characters
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Returns the ID of a request, assigning one when no middleware did so yet
+ * An X-Request-Id header sent by the caller (e.g. a proxy) is kept so logs can be correlated
+ */
+export function requestIdOf(req: Request, res: Response): string {
+  if (typeof res.locals.requestId !== 'string') {
+    const incoming = req.get('X-Request-Id');
+    res.locals.requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : uuidv4();
+    if (!res.headersSent) {
+      res.set('X-Request-Id', res.locals.requestId);
+    }
+  }
+
+  return res.locals.requestId;
+}
+
+/**
+ * Assigns the request ID up front so every response carries it; register it before the routes
+ */
+export const assignRequestId = (req: Request, res: Response, next: NextFunction) => {
+  requestIdOf(req, res);
+  next();
+};
\ No newline at end of file
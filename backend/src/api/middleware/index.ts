@@ -1 +1,4 @@
-export * from './FileUploadMiddleware';
\ No newline at end of file
+export * from './FileUploadMiddleware';
+export * from './ConditionalRequestMiddleware';
+export * from './ErrorHandlingMiddleware';
+export * from './RequestIdMiddleware';
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { Request, Response, NextFunction } from 'express';
+import { IMiddleware } from './IMiddleware';
+import { AuthenticatedUser, ITokenService } from '../../application/interfaces';
+import { AuthenticateApiKeyUseCase } from '../../application/usecases';
+import { UnauthorizedError } from '../../domain/errors';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** The caller, set once the request has been authenticated */
+      user?: AuthenticatedUser;
+    }
+  }
+}
+
+/**
+ * Reads the bearer token of a request
+ * @throws UnauthorizedError when the Authorization header is missing or not a bearer token
+ */
+export function bearerTokenOf(req: Request): string {
+  const header = req.get('Authorization');
+  if (!header) {
+    throw new UnauthorizedError('No access token provided. Send it as "Authorization: Bearer <token>".');
+  }
+
+  const [scheme, token] = header.split(' ');
+  if (scheme.toLowerCase() !== 'bearer' || !token) {
+    throw new UnauthorizedError('Authorization header must use the Bearer scheme');
+  }
+
+  return token;
+}
+
+/**
+ * Reads the API key of a request
+ * @returns The key, or undefined when the request carries no X-API-Key header
+ */
+export function apiKeyOf(req: Request): string | undefined {
+  return req.get('X-API-Key') || undefined;
+}
+
+/**
+ * Returns the caller of an authenticated request
+ * @throws UnauthorizedError when no authentication middleware has identified the caller
+ */
+export function authenticatedUserOf(req: Request): AuthenticatedUser {
+  if (!req.user) {
+    throw new UnauthorizedError('Authentication required');
+  }
+
+  return req.user;
+}
+
+/**
+ * Authentication middleware
+ * Accepts requests carrying a valid access token, or a valid API key in X-API-Key when API keys
+ * are accepted, and records the caller in req.user; everything else is answered 401 by the
+ * central error handler
+ */
+export class AuthenticationMiddleware implements IMiddleware {
+  constructor(
+    private tokenService: ITokenService,
+    private authenticateApiKeyUseCase?: AuthenticateApiKeyUseCase
+  ) {}
+
+  async handle(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const apiKey = apiKeyOf(req);
+      if (apiKey && this.authenticateApiKeyUseCase) {
+        req.user = await this.authenticateApiKeyUseCase.execute({ key: apiKey });
+      } else {
+        req.user = this.tokenService.verifyAccessToken(bearerTokenOf(req));
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
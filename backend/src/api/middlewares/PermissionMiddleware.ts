@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { IMiddleware } from './IMiddleware';
+import { authenticatedUserOf } from './AuthenticationMiddleware';
+import { PermissionPolicy } from '../../application/services';
+import { Permission } from '../../domain/valueobjects';
+
+/**
+ * Permission middleware
+ * Lets requests through whose caller's role holds every required permission; others are answered
+ * 403 by the central error handler. Must run after the authentication middleware
+ */
+export class PermissionMiddleware implements IMiddleware {
+  constructor(
+    private permissions: readonly Permission[],
+    private permissionPolicy: PermissionPolicy = new PermissionPolicy()
+  ) {}
+
+  handle(req: Request, res: Response, next: NextFunction): void {
+    try {
+      this.permissionPolicy.authorize(authenticatedUserOf(req), this.permissions);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+/**
+ * Declares the permissions an Express route needs, the counterpart of @Security('bearerAuth', [...]) on tsoa controllers
+ * @example router.get('/storage/stats', requirePermission('storage:read'), handler)
+ */
+export function requirePermission(...permissions: Permission[]): RequestHandler {
+  const middleware = new PermissionMiddleware(permissions);
+  return (req, res, next) => middleware.handle(req, res, next);
+}
\ No newline at end of file
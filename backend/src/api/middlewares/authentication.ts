@@ -0,0 +1,62 @@
+import { Request } from 'express';
+import { AuthenticatedUser } from '../../application/interfaces';
+import { PermissionPolicy } from '../../application/services';
+import { AuthenticateApiKeyUseCase } from '../../application/usecases';
+import { JwtTokenService } from '../../infrastructure/services';
+import { ApiKeyRepository, UserRepository } from '../../infrastructure/repositories';
+import { DatabaseService } from '../../infrastructure/database';
+import { authConfig } from '../../infrastructure/config';
+import { isPermission } from '../../domain/valueobjects';
+import { UnauthorizedError } from '../../domain/errors';
+import { bearerTokenOf, apiKeyOf } from './AuthenticationMiddleware';
+
+let tokenService: JwtTokenService | undefined;
+let authenticateApiKeyUseCase: AuthenticateApiKeyUseCase | undefined;
+const permissionPolicy = new PermissionPolicy();
+
+/**
+ * Identifies the caller by the API key in X-API-Key
+ */
+async function authenticateApiKey(request: Request): Promise<AuthenticatedUser> {
+  const key = apiKeyOf(request);
+  if (!key) {
+    throw new UnauthorizedError('No API key provided. Send it as "X-API-Key: <key>".');
+  }
+
+  if (!authenticateApiKeyUseCase) {
+    const pool = DatabaseService.getInstance().getPool();
+    authenticateApiKeyUseCase = new AuthenticateApiKeyUseCase(new ApiKeyRepository(pool), new UserRepository(pool));
+  }
+
+  return authenticateApiKeyUseCase.execute({ key });
+}
+
+/**
+ * Authentication module of the tsoa-generated routes, resolving the schemes named in @Security
+ * The scopes of bearerAuth and apiKeyAuth are the permissions the caller's role, and their API key, must hold
+ */
+export async function expressAuthentication(
+  request: Request,
+  securityName: string,
+  scopes: string[] = []
+): Promise<AuthenticatedUser> {
+  if (securityName !== 'bearerAuth' && securityName !== 'apiKeyAuth') {
+    throw new Error(`Unknown security scheme '${securityName}'`);
+  }
+
+  const unknownScope = scopes.find(scope => !isPermission(scope));
+  if (unknownScope) {
+    throw new Error(`Unknown permission '${unknownScope}' in @Security`);
+  }
+
+  let user: AuthenticatedUser;
+  if (securityName === 'apiKeyAuth') {
+    user = await authenticateApiKey(request);
+  } else {
+    tokenService ??= new JwtTokenService(authConfig);
+    user = tokenService.verifyAccessToken(bearerTokenOf(request));
+  }
+  permissionPolicy.authorize(user, scopes.filter(isPermission));
+
+  return user;
+}
\ No newline at end of file
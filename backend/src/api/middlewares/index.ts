@@ -0,0 +1,4 @@
+export * from './IMiddleware';
+export * from './AuthenticationMiddleware';
+export * from './PermissionMiddleware';
+export * from './authentication';
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { Pool } from 'pg';
+import { StorageAdminController, UserAdminController } from '../controllers';
+import { requirePermission } from '../middlewares';
+import {
+  ReconcileStorageUseCase,
+  GetStorageReconciliationReportsUseCase,
+  GetStorageReconciliationReportUseCase,
+  GetStorageStatsUseCase,
+  GetUsersUseCase,
+  ChangeUserRoleUseCase
+} from '../../application/usecases';
+import { FileRepository, StorageReconciliationReportRepository, UserRepository } from '../../infrastructure/repositories';
+import { createFileStorage } from '../../infrastructure/services';
+import { reconciliationConfig } from '../../infrastructure/config';
+import { IFileStorage } from '../../application/interfaces';
+import { ValidationError } from '../../domain/errors';
+
+/**
+ * Parses an optional boolean query parameter, accepting only 'true' and 'false'
+ */
+function parseBooleanQuery(value: unknown, name: string): boolean | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  throw new ValidationError(`Query parameter ${name} must be true or false`, name);
+}
+
+/**
+ * Creates administrative routes with dependency injection
+ * Every route needs the admin:access permission and its own, so plain users are turned away and auditors only read
+ */
+export function createAdminRoutes(pool: Pool, fileStorage: IFileStorage = createFileStorage()): Router {
+  const router = Router();
+
+  // Keep the whole group to admins and auditors
+  router.use(requirePermission('admin:access'));
+
+  // Initialize services
+  const fileRepository = new FileRepository(pool);
+  const reportRepository = new StorageReconciliationReportRepository(pool);
+  const userRepository = new UserRepository(pool);
+
+  // Initialize use cases
+  const reconcileStorageUseCase = new ReconcileStorageUseCase(
+    fileRepository,
+    fileStorage,
+    reportRepository,
+    reconciliationConfig.orphanGracePeriodMinutes
+  );
+  const getReportsUseCase = new GetStorageReconciliationReportsUseCase(reportRepository);
+  const getReportUseCase = new GetStorageReconciliationReportUseCase(reportRepository);
+  const getStorageStatsUseCase = new GetStorageStatsUseCase(fileRepository);
+  const getUsersUseCase = new GetUsersUseCase(userRepository);
+  const changeUserRoleUseCase = new ChangeUserRoleUseCase(userRepository);
+
+  // Initialize controllers
+  const storageAdminController = new StorageAdminController(
+    reconcileStorageUseCase,
+    getReportsUseCase,
+    getReportUseCase,
+    getStorageStatsUseCase
+  );
+  const userAdminController = new UserAdminController(getUsersUseCase, changeUserRoleUseCase);
+
+  // Reconcile storage with the database
+  router.post('/storage/reconcile', requirePermission('storage:maintain'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await storageAdminController.reconcile(parseBooleanQuery(req.query.dryRun, 'dryRun'));
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // List reconciliation reports
+  router.get('/storage/reports', requirePermission('storage:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { limit } = req.query;
+      const result = await storageAdminController.getReports(limit ? Number(limit) : undefined);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get one reconciliation report
+  router.get('/storage/reports/:reportId', requirePermission('storage:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await storageAdminController.getReport(req.params.reportId);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get storage statistics
+  router.get('/storage/stats', requirePermission('storage:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await storageAdminController.getStats();
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // List user accounts
+  router.get('/users', requirePermission('users:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page, limit } = req.query;
+      const result = await userAdminController.getUsers(
+        page ? Number(page) : undefined,
+        limit ? Number(limit) : undefined
+      );
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Change the role of an account
+  router.put('/users/:userId/role', requirePermission('users:manage'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await userAdminController.changeUserRole(req.params.userId, req.body, req);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
\ No newline at end of file
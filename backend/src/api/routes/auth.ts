@@ -0,0 +1,95 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { Pool } from 'pg';
+import { AuthController } from '../controllers';
+import { AuthenticationMiddleware } from '../middlewares';
+import {
+  RegisterUserUseCase,
+  LoginUseCase,
+  RefreshSessionUseCase,
+  LogoutUseCase,
+  GetCurrentUserUseCase
+} from '../../application/usecases';
+import { UserRepository, RefreshTokenRepository } from '../../infrastructure/repositories';
+import { ScryptPasswordHasher } from '../../infrastructure/services';
+import { IPasswordHasher, ITokenService } from '../../application/interfaces';
+
+/**
+ * Creates account and session routes with dependency injection
+ * Registering, signing in, refreshing and signing out are public; everything else needs an access token
+ */
+export function createAuthRoutes(
+  pool: Pool,
+  tokenService: ITokenService,
+  passwordHasher: IPasswordHasher = new ScryptPasswordHasher()
+): Router {
+  const router = Router();
+
+  // Initialize services
+  const userRepository = new UserRepository(pool);
+  const refreshTokenRepository = new RefreshTokenRepository(pool);
+  const authentication = new AuthenticationMiddleware(tokenService);
+
+  // Initialize controller
+  const authController = new AuthController(
+    new RegisterUserUseCase(userRepository, passwordHasher),
+    new LoginUseCase(userRepository, refreshTokenRepository, passwordHasher, tokenService),
+    new RefreshSessionUseCase(userRepository, refreshTokenRepository, tokenService),
+    new LogoutUseCase(refreshTokenRepository, tokenService),
+    new GetCurrentUserUseCase(userRepository)
+  );
+
+  // Create an account
+  router.post('/register', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await authController.register(req.body ?? {});
+      res.status(201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Sign in
+  router.post('/login', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await authController.login(req.body ?? {});
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Exchange a refresh token for new tokens
+  router.post('/refresh', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await authController.refresh(req.body ?? {});
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Sign out
+  router.post('/logout', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await authController.logout(req.body ?? {});
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get the signed-in user
+  router.get('/me',
+    (req: Request, res: Response, next: NextFunction) => authentication.handle(req, res, next),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const result = await authController.getCurrentUser(req);
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+}
\ No newline at end of file
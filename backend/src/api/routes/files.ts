@@ -1,71 +1,176 @@
 import { Router, Request, Response, NextFunction } from 'express';
+import { pipeline } from 'stream/promises';
 import { Pool } from 'pg';
-import { FileController } from '../controllers';
+import { FileController, FileAccessController, ShareLinkController, entityTagFor } from '../controllers';
 import {
   UploadFileUseCase,
   GetAllFilesUseCase,
   GetFileContentUseCase,
-  DeleteFileUseCase
+  DeleteFileUseCase,
+  UpdateFileContentUseCase,
+  GetFileVersionsUseCase,
+  GetFileVersionContentUseCase,
+  GetFileDiffUseCase,
+  SearchFilesUseCase,
+  UploadFileStreamUseCase,
+  GetFileStreamUseCase,
+  GetTrashedFilesUseCase,
+  RestoreFileUseCase,
+  PurgeFileUseCase,
+  GetContentTypesUseCase,
+  GrantFileAccessUseCase,
+  GetFileGrantsUseCase,
+  RevokeFileAccessUseCase,
+  CreateShareLinkUseCase,
+  GetShareLinksUseCase,
+  RevokeShareLinkUseCase
 } from '../../application/usecases';
-import { FileRepository } from '../../infrastructure/repositories';
-import { FileStorageService } from '../../infrastructure/services';
-import { uploadSingleFile, validateUploadedFile, handleUploadError } from '../middleware';
+import {
+  FileRepository,
+  FileVersionRepository,
+  FileBlobRepository,
+  FileGrantRepository,
+  UserRepository,
+  ShareLinkRepository
+} from '../../infrastructure/repositories';
+import { createFileStorage, HmacShareLinkSigner, ScryptPasswordHasher } from '../../infrastructure/services';
+import { PgUnitOfWork } from '../../infrastructure/database';
+import { trashConfig, contentPolicyConfig, shareLinkConfig } from '../../infrastructure/config';
+import { IFileStorage, IShareLinkSigner } from '../../application/interfaces';
+import { FileBlobService, FileAccessPolicy } from '../../application/services';
+import {
+  uploadSingleFile,
+  validateUploadedFile,
+  handleUploadError,
+  validateStreamUpload,
+  requireIfMatch,
+  sendProblem
+} from '../middleware';
+import { authenticatedUserOf, requirePermission } from '../middlewares';
+import { ValidationError } from '../../domain/errors';
+import { TrashRetention } from '../../domain/valueobjects';
+import { FileContentService, ContentTypePolicy, contentTypeRegistry } from '../../domain/services';
 
 /**
  * Creates file routes with dependency injection
  */
-export function createFileRoutes(pool: Pool): Router {
+export function createFileRoutes(
+  pool: Pool,
+  fileStorage: IFileStorage = createFileStorage(),
+  shareLinkSigner: IShareLinkSigner = new HmacShareLinkSigner(shareLinkConfig)
+): Router {
   const router = Router();
   
   // Initialize services
-  const fileStorageService = new FileStorageService();
   const fileRepository = new FileRepository(pool);
+  const fileGrantRepository = new FileGrantRepository(pool);
+  const fileAccessPolicy = new FileAccessPolicy(fileGrantRepository);
+  const shareLinkRepository = new ShareLinkRepository(pool);
+  const fileVersionRepository = new FileVersionRepository(pool);
+  const fileBlobService = new FileBlobService(new FileBlobRepository(pool), fileStorage);
+  const unitOfWork = new PgUnitOfWork(pool);
+  const trashRetention = new TrashRetention(trashConfig.retentionDays);
+  const fileContentService = new FileContentService(
+    contentTypeRegistry,
+    new ContentTypePolicy(contentPolicyConfig.allowedBinaryTypes)
+  );
   
   // Initialize use cases
-  const uploadFileUseCase = new UploadFileUseCase(fileRepository, fileStorageService);
+  const uploadFileUseCase = new UploadFileUseCase(fileRepository, fileBlobService, unitOfWork, fileContentService);
   const getAllFilesUseCase = new GetAllFilesUseCase(fileRepository);
-  const getFileContentUseCase = new GetFileContentUseCase(fileRepository, fileStorageService);
-  const deleteFileUseCase = new DeleteFileUseCase(fileRepository, fileStorageService);
+  const getFileContentUseCase = new GetFileContentUseCase(fileRepository, fileStorage, fileAccessPolicy, fileContentService);
+  const deleteFileUseCase = new DeleteFileUseCase(fileRepository, trashRetention, fileAccessPolicy);
+  const updateFileContentUseCase = new UpdateFileContentUseCase(fileRepository, fileBlobService, unitOfWork, fileAccessPolicy, fileContentService);
+  const getFileVersionsUseCase = new GetFileVersionsUseCase(fileRepository, fileVersionRepository, fileAccessPolicy);
+  const getFileVersionContentUseCase = new GetFileVersionContentUseCase(
+    fileRepository,
+    fileStorage,
+    fileVersionRepository,
+    fileAccessPolicy,
+    fileContentService
+  );
+  const getFileDiffUseCase = new GetFileDiffUseCase(fileRepository, fileStorage, fileVersionRepository, fileAccessPolicy);
+  const searchFilesUseCase = new SearchFilesUseCase(fileRepository);
+  const uploadFileStreamUseCase = new UploadFileStreamUseCase(fileRepository, fileBlobService, unitOfWork, fileContentService);
+  const getFileStreamUseCase = new GetFileStreamUseCase(fileRepository, fileStorage, fileAccessPolicy);
+  const getTrashedFilesUseCase = new GetTrashedFilesUseCase(fileRepository, trashRetention);
+  const restoreFileUseCase = new RestoreFileUseCase(fileRepository, fileAccessPolicy);
+  const purgeFileUseCase = new PurgeFileUseCase(fileBlobService, unitOfWork, fileAccessPolicy);
+  const getContentTypesUseCase = new GetContentTypesUseCase(fileContentService);
+  const grantFileAccessUseCase = new GrantFileAccessUseCase(fileRepository, new UserRepository(pool), fileGrantRepository, fileAccessPolicy);
+  const getFileGrantsUseCase = new GetFileGrantsUseCase(fileRepository, fileGrantRepository, fileAccessPolicy);
+  const revokeFileAccessUseCase = new RevokeFileAccessUseCase(fileRepository, fileGrantRepository, fileAccessPolicy);
+  const createShareLinkUseCase = new CreateShareLinkUseCase(
+    fileRepository,
+    shareLinkRepository,
+    fileAccessPolicy,
+    new ScryptPasswordHasher(),
+    shareLinkSigner
+  );
+  const getShareLinksUseCase = new GetShareLinksUseCase(fileRepository, shareLinkRepository, fileAccessPolicy, shareLinkSigner);
+  const revokeShareLinkUseCase = new RevokeShareLinkUseCase(fileRepository, shareLinkRepository, fileAccessPolicy);
   
-  // Initialize controller
+  // Initialize controllers
   const fileController = new FileController(
     uploadFileUseCase,
     getAllFilesUseCase,
     getFileContentUseCase,
-    deleteFileUseCase
+    deleteFileUseCase,
+    updateFileContentUseCase,
+    getFileVersionsUseCase,
+    getFileVersionContentUseCase,
+    getFileDiffUseCase,
+    searchFilesUseCase,
+    uploadFileStreamUseCase,
+    getFileStreamUseCase,
+    getTrashedFilesUseCase,
+    restoreFileUseCase,
+    purgeFileUseCase,
+    getContentTypesUseCase
+  );
+  const fileAccessController = new FileAccessController(
+    grantFileAccessUseCase,
+    getFileGrantsUseCase,
+    revokeFileAccessUseCase
+  );
+  const shareLinkController = new ShareLinkController(
+    createShareLinkUseCase,
+    getShareLinksUseCase,
+    revokeShareLinkUseCase,
+    shareLinkConfig.publicBaseUrl
   );
 
   // Upload file
-  router.post('/upload', 
+  router.post('/upload',
+    requirePermission('files:write'),
     uploadSingleFile,
     handleUploadError,
     validateUploadedFile,
     async (req: Request, res: Response, next: NextFunction) => {
       try {
         if (!req.file) {
-          return res.status(400).json({ error: 'No file uploaded' });
+          return next(new ValidationError('No file uploaded', 'file'));
         }
 
-        // Get file content and metadata
-        const content = req.file.buffer.toString('utf8');
-        const getContentType = (filename: string): string => {
-          const ext = filename.toLowerCase().split('.').pop();
-          switch (ext) {
-            case 'json': return 'application/json';
-            case 'md': return 'text/markdown';
-            case 'txt': return 'text/plain';
-            default: return 'text/plain';
-          }
-        };
-
-        const processedFile = {
-          filename: req.file.originalname,
-          content: content,
-          contentType: getContentType(req.file.originalname)
-        };
+        // Raw file bytes; their type is detected by the use case
+        const { filename, content } = req.body.processedFile;
 
         // Call the controller method
-        const result = await fileController.uploadFile(processedFile);
+        const result = await fileController.storeUploadedFile(filename, content, authenticatedUserOf(req).id);
+        res.status(201).json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Upload file by streaming the raw request body
+  router.post('/upload/stream',
+    requirePermission('files:write'),
+    validateStreamUpload,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const result = await fileController.uploadFileStream(String(req.query.filename), req);
         res.status(201).json(result);
       } catch (error) {
         next(error);
@@ -74,14 +179,28 @@ export function createFileRoutes(pool: Pool): Router {
   );
 
   // Get all files
-  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  router.get('/', requirePermission('files:read'), async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { page, limit, sortBy, sortOrder } = req.query;
+      const {
+        page, limit, sortBy, sortOrder,
+        contentType, createdFrom, createdTo, updatedFrom, updatedTo, minSize, maxSize, nameContains,
+        cursor
+      } = req.query;
       const result = await fileController.getAllFiles(
+        req,
         page ? Number(page) : undefined,
         limit ? Number(limit) : undefined,
         sortBy as 'filename' | 'created_at' | 'file_size' | undefined,
-        sortOrder as 'ASC' | 'DESC' | undefined
+        sortOrder as 'ASC' | 'DESC' | undefined,
+        contentType as string | undefined,
+        createdFrom ? new Date(String(createdFrom)) : undefined,
+        createdTo ? new Date(String(createdTo)) : undefined,
+        updatedFrom ? new Date(String(updatedFrom)) : undefined,
+        updatedTo ? new Date(String(updatedTo)) : undefined,
+        minSize !== undefined ? Number(minSize) : undefined,
+        maxSize !== undefined ? Number(maxSize) : undefined,
+        nameContains as string | undefined,
+        cursor as string | undefined
       );
       res.json(result);
     } catch (error) {
@@ -89,20 +208,229 @@ export function createFileRoutes(pool: Pool): Router {
     }
   });
 
+  // Full-text search across file contents (registered before '/:fileId')
+  router.get('/search', requirePermission('files:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { q, contentType, startDate, endDate, page, limit } = req.query;
+      const result = await fileController.searchFiles(
+        req,
+        typeof q === 'string' ? q : '',
+        contentType as string | undefined,
+        startDate ? new Date(String(startDate)) : undefined,
+        endDate ? new Date(String(endDate)) : undefined,
+        page ? Number(page) : undefined,
+        limit ? Number(limit) : undefined
+      );
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // List the trash (registered before '/:fileId')
+  router.get('/trash', requirePermission('files:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page, limit } = req.query;
+      const result = await fileController.getTrash(
+        req,
+        page ? Number(page) : undefined,
+        limit ? Number(limit) : undefined
+      );
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Permanently delete a trashed file
+  router.delete('/trash/:fileId', requirePermission('files:write'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await fileController.purgeFile(req.params.fileId, req);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // List supported document types
+  router.get('/types', requirePermission('files:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await fileController.getContentTypes();
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Get file content by ID
-  router.get('/:fileId', async (req: Request, res: Response, next: NextFunction) => {
+  router.get('/:fileId', requirePermission('files:read'), async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const result = await fileController.getFileContent(req.params.fileId);
+      const result = await fileController.getFileContent(req.params.fileId, req);
+      res.set(fileController.cacheHeaders(result.contentHash, result.version, new Date(result.updatedAt)));
       res.json(result);
     } catch (error) {
       next(error);
     }
   });
 
-  // Delete file by ID
-  router.delete('/:fileId', async (req: Request, res: Response, next: NextFunction) => {
+  // Stream the raw content of a file
+  router.get('/:fileId/raw', requirePermission('files:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const download = await fileController.openFileDownload(req.params.fileId, req);
+      res.status(download.status).set(download.headers);
+      if (download.status === 416) {
+        sendProblem(req, res, 416, 'The requested range lies outside the file content');
+        return;
+      }
+      if (!download.stream) {
+        res.end();
+        return;
+      }
+      await pipeline(download.stream, res);
+    } catch (error) {
+      // Once streaming started the response can only be aborted
+      if (!res.headersSent) {
+        next(error);
+      }
+    }
+  });
+
+  // Store a new revision of a file
+  router.put('/:fileId/content',
+    requirePermission('files:write'),
+    requireIfMatch,
+    uploadSingleFile,
+    handleUploadError,
+    validateUploadedFile,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const result = await fileController.storeFileContent(
+          req.params.fileId,
+          req.body.processedFile?.content,
+          authenticatedUserOf(req).id,
+          req.get('If-Match')
+        );
+        if (result.contentHash) {
+          res.set('ETag', entityTagFor(result.contentHash, result.version));
+        }
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Get revision history of a file
+  router.get('/:fileId/versions', requirePermission('files:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await fileController.getFileVersions(req.params.fileId, req);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get a specific revision of a file
+  router.get('/:fileId/versions/:version', requirePermission('files:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await fileController.getFileVersion(req.params.fileId, Number(req.params.version), req);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Compare two revisions of a file
+  router.get('/:fileId/diff', requirePermission('files:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { from, to, mode } = req.query;
+      const result = await fileController.getFileDiff(
+        req.params.fileId,
+        req,
+        from ? Number(from) : undefined,
+        to ? Number(to) : undefined,
+        mode as 'text' | 'json' | undefined
+      );
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Move file to the trash by ID
+  router.delete('/:fileId', requirePermission('files:write'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await fileController.deleteFile(req.params.fileId, req);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // List who a file is shared with
+  router.get('/:fileId/grants', requirePermission('files:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await fileAccessController.getFileGrants(req.params.fileId, req);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Share a file with a user or change their role
+  router.put('/:fileId/grants', requirePermission('files:write'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await fileAccessController.grantFileAccess(req.params.fileId, req.body, req);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Stop sharing a file with a user
+  router.delete('/:fileId/grants/:userId', requirePermission('files:write'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await fileAccessController.revokeFileAccess(req.params.fileId, req.params.userId, req);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Create a signed share link for a file
+  router.post('/:fileId/share-links', requirePermission('files:write'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await shareLinkController.createShareLink(req.params.fileId, req.body ?? {}, req);
+      res.status(201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // List the active share links of a file
+  router.get('/:fileId/share-links', requirePermission('files:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await shareLinkController.getShareLinks(req.params.fileId, req);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Revoke a share link
+  router.delete('/:fileId/share-links/:linkId', requirePermission('files:write'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await shareLinkController.revokeShareLink(req.params.fileId, req.params.linkId, req);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Restore a file from the trash
+  router.post('/:fileId/restore', requirePermission('files:write'), async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const result = await fileController.deleteFile(req.params.fileId);
+      const result = await fileController.restoreFile(req.params.fileId, req);
       res.json(result);
     } catch (error) {
       next(error);
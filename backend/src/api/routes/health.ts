@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { HealthController } from '../controllers/HealthController';
+import { sendProblem } from '../middleware';
 
 const router = Router();
 
@@ -9,9 +10,7 @@ router.get('/', async (req: Request, res: Response) => {
     const healthData = await healthController.getHealth();
     res.status(200).json(healthData);
   } catch (error) {
-    res.status(500).json({ 
-      error: error instanceof Error ? error.message : 'Internal server error' 
-    });
+    sendProblem(req, res, 500, error instanceof Error ? error.message : 'Health check failed');
   }
 });
 
@@ -1,15 +1,45 @@
-import { Router } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { Pool } from 'pg';
 import healthRoutes from './health';
 import docsRoutes from './docs';
 import { createFileRoutes } from './files';
+import { createAdminRoutes } from './admin';
+import { createAuthRoutes } from './auth';
+import { createMeRoutes } from './me';
+import { createShareRoutes } from './share';
+import { AuthenticationMiddleware } from '../middlewares';
+import { IFileStorage, ITokenService } from '../../application/interfaces';
+import { AuthenticateApiKeyUseCase } from '../../application/usecases';
+import { ApiKeyRepository, UserRepository } from '../../infrastructure/repositories';
+import { JwtTokenService, HmacShareLinkSigner } from '../../infrastructure/services';
+import { authConfig, shareLinkConfig } from '../../infrastructure/config';
 
-export function createRoutes(pool: Pool): Router {
+export function createRoutes(
+  pool: Pool,
+  fileStorage?: IFileStorage,
+  tokenService: ITokenService = new JwtTokenService(authConfig)
+): Router {
   const router = Router();
 
+  // Files, administration and the caller's own settings are only available to signed-in users
+  // and to scripts holding one of their API keys
+  const authentication = new AuthenticationMiddleware(
+    tokenService,
+    new AuthenticateApiKeyUseCase(new ApiKeyRepository(pool), new UserRepository(pool))
+  );
+  const authenticate = (req: Request, res: Response, next: NextFunction) => authentication.handle(req, res, next);
+
+  // Share links are signed when created under /files and checked when opened under /share,
+  // which needs no account since the signed URL is the credential
+  const shareLinkSigner = new HmacShareLinkSigner(shareLinkConfig);
+
   router.use('/health', healthRoutes);
   router.use('/docs', docsRoutes);
-  router.use('/files', createFileRoutes(pool));
+  router.use('/auth', createAuthRoutes(pool, tokenService));
+  router.use('/files', authenticate, createFileRoutes(pool, fileStorage, shareLinkSigner));
+  router.use('/admin', authenticate, createAdminRoutes(pool, fileStorage));
+  router.use('/me', authenticate, createMeRoutes(pool));
+  router.use('/share', createShareRoutes(pool, fileStorage, shareLinkSigner));
 
   return router;
 }
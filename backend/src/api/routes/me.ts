@@ -0,0 +1,55 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { Pool } from 'pg';
+import { ApiKeyController } from '../controllers';
+import { CreateApiKeyUseCase, GetApiKeysUseCase, DeleteApiKeyUseCase } from '../../application/usecases';
+import { ApiKeyRepository } from '../../infrastructure/repositories';
+
+/**
+ * Creates routes for the caller's own settings with dependency injection
+ * Expects the caller to be authenticated already
+ */
+export function createMeRoutes(pool: Pool): Router {
+  const router = Router();
+
+  // Initialize services
+  const apiKeyRepository = new ApiKeyRepository(pool);
+
+  // Initialize controller
+  const apiKeyController = new ApiKeyController(
+    new CreateApiKeyUseCase(apiKeyRepository),
+    new GetApiKeysUseCase(apiKeyRepository),
+    new DeleteApiKeyUseCase(apiKeyRepository)
+  );
+
+  // Create an API key
+  router.post('/api-keys', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await apiKeyController.createApiKey(req.body ?? {}, req);
+      res.status(201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // List the caller's API keys
+  router.get('/api-keys', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await apiKeyController.getApiKeys(req);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Delete an API key
+  router.delete('/api-keys/:keyId', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await apiKeyController.deleteApiKey(req.params.keyId, req);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
\ No newline at end of file
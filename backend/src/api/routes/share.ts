@@ -0,0 +1,70 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { pipeline } from 'stream/promises';
+import { Pool } from 'pg';
+import { SharedFileController, sharePasswordPageFor } from '../controllers';
+import { OpenShareLinkUseCase } from '../../application/usecases';
+import { FileRepository, ShareLinkRepository } from '../../infrastructure/repositories';
+import { createFileStorage, HmacShareLinkSigner, ScryptPasswordHasher } from '../../infrastructure/services';
+import { shareLinkConfig } from '../../infrastructure/config';
+import { IFileStorage, IShareLinkSigner } from '../../application/interfaces';
+import { PasswordRequiredError } from '../../domain/errors';
+
+/**
+ * Creates the public routes serving files through share links, with dependency injection
+ * Nothing here needs an account; the signed URL is the credential
+ */
+export function createShareRoutes(
+  pool: Pool,
+  fileStorage: IFileStorage = createFileStorage(),
+  shareLinkSigner: IShareLinkSigner = new HmacShareLinkSigner(shareLinkConfig)
+): Router {
+  const router = Router();
+
+  // Initialize controller
+  const sharedFileController = new SharedFileController(
+    new OpenShareLinkUseCase(
+      new ShareLinkRepository(pool),
+      new FileRepository(pool),
+      fileStorage,
+      new ScryptPasswordHasher(),
+      shareLinkSigner
+    )
+  );
+
+  // Stream a file through its share link
+  const sendSharedFile = async (req: Request, res: Response, next: NextFunction, password?: string) => {
+    try {
+      const { expires, signature } = req.query;
+      const download = await sharedFileController.openSharedFile(
+        req.params.linkId,
+        typeof expires === 'string' ? expires : '',
+        typeof signature === 'string' ? signature : '',
+        password
+      );
+      res.status(200).set(download.headers);
+      await pipeline(download.stream, res);
+    } catch (error) {
+      // Once streaming started the response can only be aborted
+      if (res.headersSent) {
+        return;
+      }
+      // Browsers cannot send the password header, so they are asked for the password with a form
+      if (error instanceof PasswordRequiredError && req.accepts(['json', 'html']) === 'html') {
+        res.status(403).set('Cache-Control', 'no-store').type('html').send(sharePasswordPageFor(error));
+        return;
+      }
+      next(error);
+    }
+  };
+
+  router.get('/:linkId', (req: Request, res: Response, next: NextFunction) =>
+    sendSharedFile(req, res, next, req.get('X-Share-Password')));
+
+  // The same, with the password in a form or JSON body
+  router.post('/:linkId', express.urlencoded({ extended: false }), express.json(), (req: Request, res: Response, next: NextFunction) => {
+    const password = typeof req.body?.password === 'string' ? req.body.password : undefined;
+    return sendSharedFile(req, res, next, password ?? req.get('X-Share-Password'));
+  });
+
+  return router;
+}
\ No newline at end of file
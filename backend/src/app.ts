@@ -4,19 +4,36 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import dotenv from 'dotenv';
 import { createRoutes } from './api/routes';
+import { assignRequestId, notFoundHandler, errorHandler } from './api/middleware';
 import { DatabaseService } from './infrastructure/database';
-import { FileStorageService } from './infrastructure/services';
+import { createFileStorage } from './infrastructure/services';
+import { createTrashPurgeJob, createStorageReconciliationJob, createIntegrityScrubJob, PeriodicJob } from './infrastructure/jobs';
+import { reconciliationConfig, sizeLimitConfig } from './infrastructure/config';
+import { ContentTypeRepository } from './infrastructure/repositories';
+import { contentTypeRegistry, SizeLimitPolicy } from './domain/services';
 
 dotenv.config();
 
 const app = express();
 
+// Apply the configured size limits before anything checks a file against them
+contentTypeRegistry.configureSizeLimits(
+  new SizeLimitPolicy(sizeLimitConfig.defaultMaxBytes, sizeLimitConfig.maxBytesByType)
+);
+
+// JSON uploads carry the content base64 encoded, a third larger than the file, next to a few other fields
+const bodyLimit = Math.ceil(contentTypeRegistry.getLargestMaxSize() * 4 / 3) + 64 * 1024;
+
+// Background jobs started with the application and stopped on shutdown
+const backgroundJobs: PeriodicJob[] = [];
+
 // Middleware setup
+app.use(assignRequestId);
 app.use(helmet());
 app.use(cors());
 app.use(morgan('combined'));
-app.use(express.json({ limit: '1mb' })); // Set JSON body limit to 1MB for file uploads
-app.use(express.urlencoded({ extended: true, limit: '1mb' }));
+app.use(express.json({ limit: bodyLimit })); // Large enough for the largest file a JSON upload may carry
+app.use(express.urlencoded({ extended: true, limit: bodyLimit }));
 
 // Initialize database and routes
 const initializeApp = async () => {
@@ -25,13 +42,32 @@ const initializeApp = async () => {
     const databaseService = DatabaseService.getInstance();
     await databaseService.initialize();
     
-    // Initialize file storage directory
-    const fileStorageService = new FileStorageService();
-    await fileStorageService.ensureDirectoryExists();
+    // Initialize the configured file storage backend
+    const fileStorage = createFileStorage();
+    await fileStorage.initialize();
     
-    // Setup routes with database pool
+    // Let the database accept every registered document type and record its size limit
     const pool = databaseService.getPool();
-    app.use('/api/v1', createRoutes(pool));
+    await new ContentTypeRepository(pool).synchronize(contentTypeRegistry.list(), contentTypeRegistry.getSizeLimits());
+
+    // Setup routes with database pool and file storage
+    app.use('/api/v1', createRoutes(pool, fileStorage));
+
+    // Answer unknown routes and errors from every route with problem details
+    app.use(notFoundHandler);
+    app.use(errorHandler);
+
+    // Purge trashed files once their retention period has passed
+    backgroundJobs.push(createTrashPurgeJob(pool, fileStorage));
+
+    // Re-hash stored content to detect silent corruption
+    backgroundJobs.push(createIntegrityScrubJob(pool, fileStorage));
+
+    // Compare storage with the database on a schedule when enabled
+    if (reconciliationConfig.scheduleEnabled) {
+      backgroundJobs.push(createStorageReconciliationJob(pool, fileStorage));
+    }
+    backgroundJobs.forEach(job => job.start());
     
     console.log('Application initialized successfully');
   } catch (error) {
@@ -50,6 +86,7 @@ process.on('SIGINT', async () => {
   console.log('\nReceived SIGINT. Graceful shutdown...');
   
   try {
+    backgroundJobs.forEach(job => job.stop());
     const databaseService = DatabaseService.getInstance();
     await databaseService.close();
     console.log('Application shutdown complete');
@@ -64,6 +101,7 @@ process.on('SIGTERM', async () => {
   console.log('Received SIGTERM. Graceful shutdown...');
   
   try {
+    backgroundJobs.forEach(job => job.stop());
     const databaseService = DatabaseService.getInstance();
     await databaseService.close();
     console.log('Application shutdown complete');
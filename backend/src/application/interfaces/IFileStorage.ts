@@ -0,0 +1,84 @@
+import { Readable } from 'stream';
+
+/**
+ * Metadata of a stored blob
+ */
+export interface FileStats {
+  size: number;
+  created: Date;
+  modified: Date;
+  isFile: boolean;
+}
+
+/**
+ * An inclusive byte range within stored content
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * File storage port used by the application layer
+ * Implementations decide where blobs live (local disk, S3-compatible object storage, memory)
+ * and hand back an opaque storage path that is persisted alongside the file metadata
+ */
+export interface IFileStorage {
+  /**
+   * Prepares the backend for use (creates directories, buckets, etc.)
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Stores file content and returns the generated storage path
+   * @param content The file content to store
+   * @param originalFilename The original filename for extension detection
+   */
+  storeFile(content: Buffer, originalFilename: string): Promise<string>;
+
+  /**
+   * Stores content read from a stream as bytes arrive and returns the generated storage path
+   * The whole content is never buffered; a stream error aborts the write and leaves nothing behind
+   * @param source The content stream
+   * @param originalFilename The original filename for extension detection
+   */
+  storeStream(source: Readable, originalFilename: string): Promise<string>;
+
+  /**
+   * Reads the stored bytes of a file
+   * Rejects with a NotFoundError when the blob is missing
+   * @param filePath The storage path returned by storeFile
+   */
+  readFile(filePath: string): Promise<Buffer>;
+
+  /**
+   * Opens a stream over the stored bytes, or over a slice of them when a range is given
+   * Rejects with a NotFoundError when the blob is missing
+   * @param filePath The storage path returned by storeFile or storeStream
+   * @param range Inclusive byte range to read; must lie within the stored content
+   */
+  createReadStream(filePath: string, range?: ByteRange): Promise<Readable>;
+
+  /**
+   * Deletes a file from storage; deleting a missing file is not an error
+   * @param filePath The storage path returned by storeFile
+   */
+  deleteFile(filePath: string): Promise<void>;
+
+  /**
+   * Checks if a file exists in storage
+   * @param filePath The storage path returned by storeFile
+   */
+  fileExists(filePath: string): Promise<boolean>;
+
+  /**
+   * Gets file stats (size, dates, etc.)
+   * @param filePath The storage path returned by storeFile
+   */
+  getFileStats(filePath: string): Promise<FileStats>;
+
+  /**
+   * Lists the storage paths of every stored file, in the same form storeFile returns them
+   */
+  listFiles(): Promise<string[]>;
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+/**
+ * Password hashing port used by the application layer
+ * Hashes are self-describing strings, so the algorithm or its cost can change without invalidating stored ones
+ */
+export interface IPasswordHasher {
+  /**
+   * Hashes a password with a fresh random salt
+   * @param password The plain-text password
+   * @returns Promise that resolves to the encoded hash
+   */
+  hash(password: string): Promise<string>;
+
+  /**
+   * Checks a password against a stored hash in constant time
+   * @param password The plain-text password
+   * @param hash The encoded hash
+   * @returns Promise that resolves to true if the password matches
+   */
+  verify(password: string, hash: string): Promise<boolean>;
+}
\ No newline at end of file
@@ -0,0 +1,17 @@
+/**
+ * Share link signing port used by the application layer
+ * A signature binds a link's ID to its expiry, so share URLs can be neither guessed nor extended
+ */
+export interface IShareLinkSigner {
+  /**
+   * Signs the ID and expiry of a link
+   * @returns The URL-safe signature
+   */
+  sign(linkId: string, expiresAt: Date): string;
+
+  /**
+   * Checks a signature in constant time
+   * @returns True if the signature was made for this link ID and expiry
+   */
+  verify(linkId: string, expiresAt: Date, signature: string): boolean;
+}
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { Permission, UserRoleName } from '../../domain/valueobjects';
+
+/**
+ * The caller an access token was issued to, with the role they held when it was issued
+ * Callers authenticated with an API key also carry the key's ID and the scopes it is limited to
+ */
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  role: UserRoleName;
+  apiKeyId?: string;
+  scopes?: readonly Permission[];
+}
+
+/**
+ * What a refresh token identifies
+ */
+export interface RefreshTokenClaims {
+  userId: string;
+  tokenId: string;
+}
+
+/**
+ * A signed token and when it stops being accepted
+ */
+export interface IssuedToken {
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * Token signing port used by the application layer
+ * Access tokens authenticate requests on their own; refresh tokens name a record kept by the
+ * refresh token repository, so they can be rotated and revoked
+ */
+export interface ITokenService {
+  /**
+   * Signs a short-lived access token for a user
+   */
+  issueAccessToken(user: AuthenticatedUser): IssuedToken;
+
+  /**
+   * Checks the signature and expiry of an access token
+   * @returns The user the token was issued to
+   * @throws UnauthorizedError when the token is malformed, forged, expired or not an access token
+   */
+  verifyAccessToken(token: string): AuthenticatedUser;
+
+  /**
+   * Signs a long-lived refresh token naming a refresh token record
+   */
+  issueRefreshToken(claims: RefreshTokenClaims): IssuedToken;
+
+  /**
+   * Checks the signature and expiry of a refresh token
+   * @returns The user and token record the token names
+   * @throws UnauthorizedError when the token is malformed, forged, expired or not a refresh token
+   */
+  verifyRefreshToken(token: string): RefreshTokenClaims;
+}
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { IFileRepository, IFileVersionRepository, IFileBlobRepository } from '../../domain/repositories';
+
+/**
+ * A database transaction in progress, with repositories that read and write through it
+ * Side effects outside the database (stored content) cannot be rolled back with it; they register
+ * a compensating action instead, or are deferred until the transaction has committed
+ */
+export interface ITransaction {
+  readonly files: IFileRepository;
+  readonly fileVersions: IFileVersionRepository;
+  readonly fileBlobs: IFileBlobRepository;
+
+  /**
+   * Registers an action undoing a side effect of this transaction; rollback runs them newest first
+   */
+  onRollback(action: () => Promise<void>): void;
+
+  /**
+   * Registers an action that may only happen once the transaction is durable (e.g. deleting content)
+   */
+  afterCommit(action: () => Promise<void>): void;
+}
+
+/**
+ * Unit of work port used by the application layer
+ * Runs a piece of work in one transaction: every repository write commits together or not at all,
+ * and the compensating actions registered by the work run when it fails
+ */
+export interface IUnitOfWork {
+  /**
+   * Runs work in a new transaction, committing when it resolves and rolling back when it rejects
+   * @param work The work to run; it must use the transaction's repositories for its writes
+   * @returns Promise that resolves to the result of the work once committed
+   */
+  run<T>(work: (transaction: ITransaction) => Promise<T>): Promise<T>;
+}
\ No newline at end of file
@@ -1 +1,6 @@
-export * from './IRepository';
\ No newline at end of file
+export * from './IRepository';
+export * from './IFileStorage';
+export * from './IUnitOfWork';
+export * from './IPasswordHasher';
+export * from './ITokenService';
+export * from './IShareLinkSigner';
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { createHash, randomBytes } from 'crypto';
+import { IApplicationService } from './IApplicationService';
+
+/**
+ * A newly generated API key with what is stored about it
+ */
+export interface GeneratedApiKey {
+  /** The key itself, shown to its owner once */
+  key: string;
+  /** First characters of the key, kept so the owner can recognise it */
+  prefix: string;
+  /** Hash the key is stored and looked up by */
+  hash: string;
+}
+
+/**
+ * Application service generating personal API keys and hashing presented ones
+ * Keys carry 256 random bits, so a fast unsalted SHA-256 is enough to store them and lets
+ * a presented key be looked up by its hash
+ */
+export class ApiKeyService implements IApplicationService {
+  public static readonly KEY_PREFIX = 'atl_';
+  private static readonly VISIBLE_LENGTH = 12;
+
+  /**
+   * Generates a new key
+   */
+  generate(): GeneratedApiKey {
+    const key = ApiKeyService.KEY_PREFIX + randomBytes(32).toString('base64url');
+
+    return {
+      key,
+      prefix: key.slice(0, ApiKeyService.VISIBLE_LENGTH),
+      hash: this.hashOf(key)
+    };
+  }
+
+  /**
+   * Hashes a key the way it is stored
+   */
+  hashOf(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { Transform, TransformCallback } from 'stream';
+import { createHash, Hash } from 'crypto';
+import { PayloadTooLargeError } from '../../domain/errors';
+
+/**
+ * Pass-through stream measuring content on its way to storage
+ * Computes the byte count and SHA-256 hash on the fly and fails once the size limit is exceeded
+ */
+export class ContentDigestStream extends Transform {
+  private readonly hash: Hash = createHash('sha256');
+  private bytes = 0;
+  private digest?: string;
+
+  constructor(
+    private readonly maxBytes: number,
+    private readonly onChunk?: (chunk: Buffer) => void
+  ) {
+    super();
+  }
+
+  /**
+   * Number of bytes seen so far
+   */
+  public get size(): number {
+    return this.bytes;
+  }
+
+  /**
+   * Hex encoded SHA-256 hash of the content; available once the stream has finished
+   */
+  public get contentHash(): string {
+    if (!this.digest) {
+      throw new Error('Content hash is only available after the stream has finished');
+    }
+    return this.digest;
+  }
+
+  _transform(chunk: Buffer | string, _encoding: BufferEncoding, callback: TransformCallback): void {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    this.bytes += buffer.length;
+
+    if (this.bytes > this.maxBytes) {
+      callback(new PayloadTooLargeError(`File size cannot exceed ${this.maxBytes} bytes`));
+      return;
+    }
+
+    this.hash.update(buffer);
+    this.onChunk?.(buffer);
+    callback(null, buffer);
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.digest = this.hash.digest('hex');
+    callback();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { IApplicationService } from './IApplicationService';
+import { IFileGrantRepository } from '../../domain/repositories';
+import { File } from '../../domain/entities';
+import { FileRole } from '../../domain/valueobjects';
+import { ForbiddenError, NotFoundError } from '../../domain/errors';
+
+/**
+ * What a caller may want to do with a file
+ */
+export type FileAction = 'read' | 'edit' | 'delete' | 'share';
+
+/**
+ * Application service deciding what a user may do with a file
+ * The uploader owns a file; other users act through the role granted to them. Files uploaded
+ * before ownership was recorded have no owner and stay open to every user, as they were.
+ * Users without any access are told the file does not exist, so file IDs cannot be probed
+ */
+export class FileAccessPolicy implements IApplicationService {
+  private static readonly REQUIRED_ROLES: Record<FileAction, FileRole> = {
+    read: FileRole.VIEWER,
+    edit: FileRole.EDITOR,
+    delete: FileRole.OWNER,
+    share: FileRole.OWNER
+  };
+
+  private static readonly ACTION_NAMES: Record<FileAction, string> = {
+    read: 'Reading',
+    edit: 'Changing',
+    delete: 'Deleting',
+    share: 'Sharing'
+  };
+
+  constructor(private fileGrantRepository: IFileGrantRepository) {}
+
+  /**
+   * Gets the role a user holds on a file, or null if the user has no access to it
+   */
+  async roleOf(file: File, userId: string): Promise<FileRole | null> {
+    if (!file.hasOwner() || file.ownerId === userId) {
+      return FileRole.OWNER;
+    }
+
+    const grant = await this.fileGrantRepository.findByFileAndUser(file.id, userId);
+    return grant ? grant.role : null;
+  }
+
+  /**
+   * Checks that a user may perform an action on a file
+   * @throws NotFoundError when the user has no access to the file at all
+   * @throws ForbiddenError when the user's role does not allow the action
+   */
+  async authorize(file: File, userId: string, action: FileAction): Promise<void> {
+    const role = await this.roleOf(file, userId);
+    if (!role) {
+      throw new NotFoundError(`File with ID '${file.id}' not found`);
+    }
+
+    const requiredRole = FileAccessPolicy.REQUIRED_ROLES[action];
+    if (!role.includes(requiredRole)) {
+      throw new ForbiddenError(
+        `${FileAccessPolicy.ACTION_NAMES[action]} file '${file.filename}' requires the ${requiredRole} role; you hold the ${role} role`
+      );
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,193 @@
+import { Readable } from 'stream';
+import { IApplicationService } from './IApplicationService';
+import { ContentDigestStream } from './ContentDigestStream';
+import { IFileBlobRepository } from '../../domain/repositories';
+import { ContentHash } from '../../domain/valueobjects';
+import { IFileStorage, ITransaction } from '../interfaces';
+import { ValidationError } from '../../domain/errors';
+
+/**
+ * Result of storing content through the blob service
+ */
+export interface StoredBlob {
+  contentHash: string;
+  storagePath: string;
+  size: number;
+  deduplicated: boolean;
+}
+
+/**
+ * Content streamed to storage but not yet registered as a blob
+ */
+export interface WrittenContent {
+  contentHash: string;
+  storagePath: string;
+  size: number;
+}
+
+/**
+ * Application service coordinating content-addressed storage
+ * Identical content is written once and shared by every file revision pointing at it;
+ * the stored object is only removed once its last reference is released.
+ * Bound to a transaction, newly written objects are deleted again when it rolls back and
+ * released objects are only deleted once it has committed; a shared blob stays locked until then,
+ * so a concurrent release cannot delete the object a new reference points at
+ */
+export class FileBlobService implements IApplicationService {
+  constructor(
+    private fileBlobRepository: IFileBlobRepository,
+    private fileStorage: IFileStorage,
+    private transaction?: ITransaction
+  ) {}
+
+  /**
+   * Returns a blob service reading and writing blob references through the given transaction
+   */
+  within(transaction: ITransaction): FileBlobService {
+    return new FileBlobService(transaction.fileBlobs, this.fileStorage, transaction);
+  }
+
+  /**
+   * Stores content (or reuses an existing blob with the same hash) and registers a reference to it
+   */
+  async store(content: Buffer, originalFilename: string): Promise<StoredBlob> {
+    const contentHash = ContentHash.fromContent(content).value;
+    const size = content.length;
+
+    // A blob that is found stays locked, so a concurrent release cannot delete its object under us
+    const existingBlob = await this.fileBlobRepository.findByHashForUpdate(contentHash);
+    if (existingBlob) {
+      const blob = await this.fileBlobRepository.addReference(contentHash, existingBlob.storagePath, size);
+      return { contentHash, storagePath: blob.storagePath, size, deduplicated: true };
+    }
+
+    const storagePath = await this.fileStorage.storeFile(content, originalFilename);
+    this.deleteOnRollback(storagePath);
+    const blob = await this.fileBlobRepository.addReference(contentHash, storagePath, size);
+
+    // Another upload of the same content registered the blob first; keep theirs
+    if (blob.storagePath !== storagePath) {
+      await this.fileStorage.deleteFile(storagePath);
+    }
+
+    return { contentHash, storagePath: blob.storagePath, size, deduplicated: blob.storagePath !== storagePath };
+  }
+
+  /**
+   * Streams content to storage while hashing it, then shares the blob with identical content already stored
+   * The hash is only known once the last byte arrived, so a duplicate is written once and then discarded
+   * @param source The content stream
+   * @param originalFilename The original filename for extension detection
+   * @param maxBytes Size limit; exceeding it aborts the upload
+   * @param onChunk Observer receiving every chunk on its way to storage (validation, indexing)
+   */
+  async storeStream(
+    source: Readable,
+    originalFilename: string,
+    maxBytes: number,
+    onChunk?: (chunk: Buffer) => void
+  ): Promise<StoredBlob> {
+    const written = await this.writeStream(source, originalFilename, maxBytes, onChunk);
+    return this.register(written);
+  }
+
+  /**
+   * Streams content to storage while hashing it, without registering a blob yet
+   * Lets callers keep slow uploads outside a transaction and only register the result inside one
+   * @param source The content stream
+   * @param originalFilename The original filename for extension detection
+   * @param maxBytes Size limit; exceeding it aborts the upload
+   * @param onChunk Observer receiving every chunk on its way to storage (validation, indexing)
+   */
+  async writeStream(
+    source: Readable,
+    originalFilename: string,
+    maxBytes: number,
+    onChunk?: (chunk: Buffer) => void
+  ): Promise<WrittenContent> {
+    const digestStream = new ContentDigestStream(maxBytes, onChunk);
+    source.on('error', error => digestStream.destroy(error));
+    source.pipe(digestStream);
+
+    const storagePath = await this.fileStorage.storeStream(digestStream, originalFilename);
+    const contentHash = digestStream.contentHash;
+    const size = digestStream.size;
+
+    if (size === 0) {
+      await this.fileStorage.deleteFile(storagePath);
+      throw new ValidationError('File content cannot be empty');
+    }
+
+    return { contentHash, storagePath, size };
+  }
+
+  /**
+   * Registers written content as a blob, sharing an existing blob with the same hash
+   */
+  async register(written: WrittenContent): Promise<StoredBlob> {
+    const { contentHash, storagePath, size } = written;
+    this.deleteOnRollback(storagePath);
+
+    const existingBlob = await this.fileBlobRepository.findByHashForUpdate(contentHash);
+    const blob = await this.fileBlobRepository.addReference(contentHash, existingBlob?.storagePath ?? storagePath, size);
+
+    // Identical content was already stored; keep the existing object
+    if (blob.storagePath !== storagePath) {
+      await this.fileStorage.deleteFile(storagePath);
+    }
+
+    return { contentHash, storagePath: blob.storagePath, size, deduplicated: blob.storagePath !== storagePath };
+  }
+
+  /**
+   * Deletes written content that will not be registered
+   */
+  async discard(written: WrittenContent): Promise<void> {
+    await this.fileStorage.deleteFile(written.storagePath);
+  }
+
+  /**
+   * Releases one reference to stored content, deleting the blob when nothing points at it anymore
+   * Content stored before blobs were introduced has no hash and is deleted directly
+   * @returns true when the stored object was deleted
+   */
+  async release(contentHash: string | undefined, storagePath: string): Promise<boolean> {
+    if (!contentHash) {
+      await this.deleteStored(storagePath);
+      return true;
+    }
+
+    const remainingReferences = await this.fileBlobRepository.removeReference(contentHash);
+    if (remainingReferences > 0) {
+      return false;
+    }
+
+    const deletedBlob = await this.fileBlobRepository.deleteIfUnreferenced(contentHash);
+    if (!deletedBlob) {
+      return false;
+    }
+
+    await this.deleteStored(deletedBlob.storagePath);
+    return true;
+  }
+
+  /**
+   * Deletes a stored object, waiting for the bound transaction to commit first
+   */
+  private async deleteStored(storagePath: string): Promise<void> {
+    if (this.transaction) {
+      this.transaction.afterCommit(() => this.fileStorage.deleteFile(storagePath));
+      return;
+    }
+
+    await this.fileStorage.deleteFile(storagePath);
+  }
+
+  /**
+   * Makes the bound transaction delete a newly written object again when it rolls back
+   * Deleting is idempotent, so this is safe for objects already discarded as duplicates
+   */
+  private deleteOnRollback(storagePath: string): void {
+    this.transaction?.onRollback(() => this.fileStorage.deleteFile(storagePath));
+  }
+}
\ No newline at end of file
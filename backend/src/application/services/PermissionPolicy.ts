@@ -0,0 +1,31 @@
+import { IApplicationService } from './IApplicationService';
+import { AuthenticatedUser } from '../interfaces';
+import { PermissionMatrix, permissionMatrix } from '../../domain/services';
+import { Permission, UserRole } from '../../domain/valueobjects';
+import { ForbiddenError } from '../../domain/errors';
+
+/**
+ * Application service checking the permissions of a caller's role against the permission matrix
+ * Shared by the Express permission middleware and the tsoa authentication module, so both
+ * enforce the same rules
+ */
+export class PermissionPolicy implements IApplicationService {
+  constructor(private matrix: PermissionMatrix = permissionMatrix) {}
+
+  /**
+   * Checks that a caller holds every given permission, and that the API key they used is scoped for it
+   * @throws ForbiddenError naming the first permission the caller's role or API key lacks
+   */
+  authorize(user: AuthenticatedUser, permissions: readonly Permission[]): void {
+    const role = new UserRole(user.role);
+    const missing = permissions.find(permission => !this.matrix.allows(role, permission));
+    if (missing) {
+      throw new ForbiddenError(`This action requires the '${missing}' permission, which the ${role} role does not have`);
+    }
+
+    const unscoped = user.scopes && permissions.find(permission => !user.scopes?.includes(permission));
+    if (unscoped) {
+      throw new ForbiddenError(`This action requires the '${unscoped}' permission, which this API key is not scoped for`);
+    }
+  }
+}
\ No newline at end of file
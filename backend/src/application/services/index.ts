@@ -0,0 +1,6 @@
+export * from './IApplicationService';
+export * from './FileBlobService';
+export * from './ContentDigestStream';
+export * from './FileAccessPolicy';
+export * from './PermissionPolicy';
+export * from './ApiKeyService';
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { IUseCase } from './IUseCase';
+import { IApiKeyRepository, IUserRepository } from '../../domain/repositories';
+import { UnauthorizedError } from '../../domain/errors';
+import { AuthenticatedUser } from '../interfaces';
+import { ApiKeyService } from '../services';
+
+/**
+ * Request model for authenticating with an API key
+ */
+export interface AuthenticateApiKeyRequest {
+  key: string;
+}
+
+/**
+ * Use case for identifying the caller behind an API key and recording that the key was used
+ * The caller gets their current role, limited to the key's scopes
+ */
+export class AuthenticateApiKeyUseCase implements IUseCase<AuthenticateApiKeyRequest, AuthenticatedUser> {
+  constructor(
+    private apiKeyRepository: IApiKeyRepository,
+    private userRepository: IUserRepository,
+    private apiKeyService: ApiKeyService = new ApiKeyService()
+  ) {}
+
+  async execute(request: AuthenticateApiKeyRequest): Promise<AuthenticatedUser> {
+    if (!request?.key) {
+      throw new UnauthorizedError('No API key provided');
+    }
+
+    const apiKey = await this.apiKeyRepository.findByHash(this.apiKeyService.hashOf(request.key));
+    if (!apiKey) {
+      throw new UnauthorizedError('API key is not valid');
+    }
+
+    const now = new Date();
+    if (apiKey.isExpired(now)) {
+      throw new UnauthorizedError(`API key '${apiKey.name}' has expired`);
+    }
+
+    const user = await this.userRepository.findById(apiKey.userId);
+    if (!user) {
+      throw new UnauthorizedError('API key is not valid');
+    }
+
+    await this.apiKeyRepository.recordUse(apiKey.id, now);
+
+    return {
+      id: user.id,
+      email: user.email,
+      role: user.role.value,
+      apiKeyId: apiKey.id,
+      scopes: apiKey.scopes
+    };
+  }
+}
\ No newline at end of file
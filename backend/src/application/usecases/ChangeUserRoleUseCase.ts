@@ -0,0 +1,63 @@
+import { IUseCase } from './IUseCase';
+import { IUserRepository } from '../../domain/repositories';
+import { UserRole } from '../../domain/valueobjects';
+import { ForbiddenError, NotFoundError, ValidationError } from '../../domain/errors';
+import { UserSummary, toUserSummary } from './RegisterUserUseCase';
+
+/**
+ * Request model for changing the role of an account
+ */
+export interface ChangeUserRoleRequest {
+  userId: string;
+  role: string;
+  changedBy: string;
+}
+
+/**
+ * Use case for promoting or demoting an account
+ * Nobody changes their own role, so the admin doing it always remains and an admin cannot lock everyone out.
+ * The new role applies to access tokens issued from then on
+ */
+export class ChangeUserRoleUseCase implements IUseCase<ChangeUserRoleRequest, UserSummary> {
+  constructor(private userRepository: IUserRepository) {}
+
+  async execute(request: ChangeUserRoleRequest): Promise<UserSummary> {
+    // Validate request
+    this.validateRequest(request);
+    const role = new UserRole(request.role);
+
+    if (request.userId === request.changedBy) {
+      throw new ForbiddenError('You cannot change your own role');
+    }
+
+    const user = await this.userRepository.updateRole(request.userId, role);
+    if (!user) {
+      throw new NotFoundError(`User with ID '${request.userId}' not found`);
+    }
+
+    return toUserSummary(user);
+  }
+
+  /**
+   * Validates the request
+   */
+  private validateRequest(request: ChangeUserRoleRequest): void {
+    if (!request) {
+      throw new ValidationError('Request is required');
+    }
+
+    // Basic UUID format validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!request.userId || !uuidRegex.test(request.userId)) {
+      throw new ValidationError('User ID must be a valid UUID', 'userId');
+    }
+
+    if (!request.role) {
+      throw new ValidationError('Role is required', 'role');
+    }
+
+    if (!request.changedBy) {
+      throw new ValidationError('ID of the user making the change is required', 'changedBy');
+    }
+  }
+}
\ No newline at end of file
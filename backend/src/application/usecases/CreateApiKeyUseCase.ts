@@ -0,0 +1,142 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IUseCase } from './IUseCase';
+import { IApiKeyRepository } from '../../domain/repositories';
+import { ApiKey } from '../../domain/entities';
+import { Permission, PERMISSIONS, UserRole, isPermission } from '../../domain/valueobjects';
+import { PermissionMatrix, permissionMatrix } from '../../domain/services';
+import { ConflictError, ForbiddenError, ValidationError } from '../../domain/errors';
+import { AuthenticatedUser } from '../interfaces';
+import { ApiKeyService } from '../services';
+
+/**
+ * Request model for creating a personal API key
+ */
+export interface CreateApiKeyRequest {
+  user: AuthenticatedUser;
+  name: string;
+  scopes: string[];
+  expiresInDays?: number;
+}
+
+/**
+ * An API key as shown to its owner, without the key itself
+ */
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: Permission[];
+  expiresAt: Date;
+  lastUsedAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * Response model carrying the only copy of a new key
+ */
+export interface CreateApiKeyResponse {
+  apiKey: ApiKeySummary;
+  key: string;
+}
+
+/**
+ * Maps an API key to what may be shown about it
+ */
+export function toApiKeySummary(apiKey: ApiKey): ApiKeySummary {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: [...apiKey.scopes],
+    expiresAt: apiKey.expiresAt,
+    lastUsedAt: apiKey.lastUsedAt,
+    createdAt: apiKey.createdAt
+  };
+}
+
+/**
+ * Use case for creating a named, scoped and expiring API key that acts for its owner
+ * A key can only be scoped for permissions its owner's role holds, and keys cannot create
+ * further keys, so a leaked key cannot outlive its own expiry
+ */
+export class CreateApiKeyUseCase implements IUseCase<CreateApiKeyRequest, CreateApiKeyResponse> {
+  public static readonly DEFAULT_EXPIRY_DAYS = 90;
+  public static readonly MAX_EXPIRY_DAYS = 365;
+  public static readonly MAX_NAME_LENGTH = 100;
+
+  constructor(
+    private apiKeyRepository: IApiKeyRepository,
+    private apiKeyService: ApiKeyService = new ApiKeyService(),
+    private matrix: PermissionMatrix = permissionMatrix
+  ) {}
+
+  async execute(request: CreateApiKeyRequest): Promise<CreateApiKeyResponse> {
+    // Validate request
+    this.validateRequest(request);
+    const name = request.name.trim();
+    const scopes = [...new Set(request.scopes)].filter(isPermission);
+
+    if (request.user.apiKeyId) {
+      throw new ForbiddenError('API keys cannot create other API keys; sign in to create one');
+    }
+
+    const role = new UserRole(request.user.role);
+    const beyondRole = scopes.find(scope => !this.matrix.allows(role, scope));
+    if (beyondRole) {
+      throw new ForbiddenError(`The ${role} role does not have the '${beyondRole}' permission, so no key can be scoped for it`);
+    }
+
+    const existing = await this.apiKeyRepository.findByUserId(request.user.id);
+    if (existing.some(apiKey => apiKey.name === name)) {
+      throw new ConflictError(`You already have an API key named '${name}'`);
+    }
+
+    const expiryDays = request.expiresInDays ?? CreateApiKeyUseCase.DEFAULT_EXPIRY_DAYS;
+    const expiresAt = new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000);
+    const generated = this.apiKeyService.generate();
+
+    const apiKey = await this.apiKeyRepository.save(
+      ApiKey.create(uuidv4(), request.user.id, name, generated.prefix, generated.hash, scopes, expiresAt)
+    );
+
+    return { apiKey: toApiKeySummary(apiKey), key: generated.key };
+  }
+
+  /**
+   * Validates the request
+   */
+  private validateRequest(request: CreateApiKeyRequest): void {
+    if (!request) {
+      throw new ValidationError('Request is required');
+    }
+
+    if (!request.user) {
+      throw new ValidationError('User is required', 'user');
+    }
+
+    if (typeof request.name !== 'string' || request.name.trim().length === 0) {
+      throw new ValidationError('Name is required', 'name');
+    }
+
+    if (request.name.trim().length > CreateApiKeyUseCase.MAX_NAME_LENGTH) {
+      throw new ValidationError(`Name cannot be longer than ${CreateApiKeyUseCase.MAX_NAME_LENGTH} characters`, 'name');
+    }
+
+    if (!Array.isArray(request.scopes) || request.scopes.length === 0) {
+      throw new ValidationError('At least one scope is required', 'scopes');
+    }
+
+    const unknownScope = request.scopes.find(scope => !isPermission(scope));
+    if (unknownScope !== undefined) {
+      throw new ValidationError(`Unknown scope '${unknownScope}'. Scopes must be among: ${PERMISSIONS.join(', ')}`, 'scopes');
+    }
+
+    if (request.expiresInDays !== undefined && (
+      !Number.isInteger(request.expiresInDays) ||
+      request.expiresInDays < 1 ||
+      request.expiresInDays > CreateApiKeyUseCase.MAX_EXPIRY_DAYS
+    )) {
+      throw new ValidationError(`Expiry must be a whole number of days between 1 and ${CreateApiKeyUseCase.MAX_EXPIRY_DAYS}`, 'expiresInDays');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IUseCase } from './IUseCase';
+import { IFileRepository, IShareLinkRepository } from '../../domain/repositories';
+import { ShareLink } from '../../domain/entities';
+import { Password } from '../../domain/valueobjects';
+import { NotFoundError, ValidationError } from '../../domain/errors';
+import { IPasswordHasher, IShareLinkSigner } from '../interfaces';
+import { FileAccessPolicy } from '../services';
+
+/**
+ * Request model for creating a share link
+ */
+export interface CreateShareLinkRequest {
+  fileId: string;
+  userId: string;
+  expiresInHours?: number;
+  password?: string;
+  maxDownloads?: number;
+}
+
+/**
+ * A share link with the signature that makes up its URL
+ */
+export interface ShareLinkSummary {
+  id: string;
+  fileId: string;
+  signature: string;
+  expiresAt: Date;
+  passwordProtected: boolean;
+  maxDownloads?: number;
+  downloadCount: number;
+  createdAt: Date;
+}
+
+/**
+ * Maps a share link to what its file's owners may see, signing it again
+ * Signatures are derived from the link, so the URL of an active link can always be shown
+ */
+export function toShareLinkSummary(shareLink: ShareLink, signer: IShareLinkSigner): ShareLinkSummary {
+  return {
+    id: shareLink.id,
+    fileId: shareLink.fileId,
+    signature: signer.sign(shareLink.id, shareLink.expiresAt),
+    expiresAt: shareLink.expiresAt,
+    passwordProtected: shareLink.isPasswordProtected(),
+    maxDownloads: shareLink.maxDownloads,
+    downloadCount: shareLink.downloadCount,
+    createdAt: shareLink.createdAt
+  };
+}
+
+/**
+ * Use case for handing a file to someone without an account through an expiring signed link
+ * Only the file's owners may create links, optionally protected by a password and limited in downloads
+ */
+export class CreateShareLinkUseCase implements IUseCase<CreateShareLinkRequest, ShareLinkSummary> {
+  public static readonly DEFAULT_EXPIRY_HOURS = 168;
+  public static readonly MAX_EXPIRY_HOURS = 720;
+
+  constructor(
+    private fileRepository: IFileRepository,
+    private shareLinkRepository: IShareLinkRepository,
+    private fileAccessPolicy: FileAccessPolicy,
+    private passwordHasher: IPasswordHasher,
+    private shareLinkSigner: IShareLinkSigner
+  ) {}
+
+  async execute(request: CreateShareLinkRequest): Promise<ShareLinkSummary> {
+    // Validate request
+    this.validateRequest(request);
+    const password = request.password !== undefined ? Password.create(request.password) : undefined;
+
+    const file = await this.fileRepository.findById(request.fileId);
+    if (!file) {
+      throw new NotFoundError(`File with ID '${request.fileId}' not found`);
+    }
+    await this.fileAccessPolicy.authorize(file, request.userId, 'share');
+
+    // Share URLs carry the expiry in whole seconds
+    const expiryHours = request.expiresInHours ?? CreateShareLinkUseCase.DEFAULT_EXPIRY_HOURS;
+    const expiresAt = new Date(Math.floor((Date.now() + expiryHours * 60 * 60 * 1000) / 1000) * 1000);
+    const passwordHash = password ? await this.passwordHasher.hash(password.value) : undefined;
+
+    const shareLink = await this.shareLinkRepository.save(
+      ShareLink.create(uuidv4(), file.id, request.userId, expiresAt, passwordHash, request.maxDownloads)
+    );
+
+    return toShareLinkSummary(shareLink, this.shareLinkSigner);
+  }
+
+  /**
+   * Validates the request
+   */
+  private validateRequest(request: CreateShareLinkRequest): void {
+    if (!request) {
+      throw new ValidationError('Request is required');
+    }
+
+    // Basic UUID format validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!request.fileId || !uuidRegex.test(request.fileId)) {
+      throw new ValidationError('File ID must be a valid UUID', 'fileId');
+    }
+
+    if (!request.userId) {
+      throw new ValidationError('User ID is required', 'userId');
+    }
+
+    if (request.expiresInHours !== undefined && (
+      !Number.isInteger(request.expiresInHours) ||
+      request.expiresInHours < 1 ||
+      request.expiresInHours > CreateShareLinkUseCase.MAX_EXPIRY_HOURS
+    )) {
+      throw new ValidationError(`Expiry must be a whole number of hours between 1 and ${CreateShareLinkUseCase.MAX_EXPIRY_HOURS}`, 'expiresInHours');
+    }
+
+    if (request.maxDownloads !== undefined && (!Number.isInteger(request.maxDownloads) || request.maxDownloads < 1)) {
+      throw new ValidationError('Maximum downloads must be a positive whole number', 'maxDownloads');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { IUseCase } from './IUseCase';
+import { IApiKeyRepository } from '../../domain/repositories';
+import { ForbiddenError, NotFoundError, ValidationError } from '../../domain/errors';
+import { AuthenticatedUser } from '../interfaces';
+
+/**
+ * Request model for deleting an API key
+ */
+export interface DeleteApiKeyRequest {
+  keyId: string;
+  user: AuthenticatedUser;
+}
+
+/**
+ * Use case for deleting one of a user's API keys, which stops it from authenticating at once
+ * Keys of other users are reported as not found; keys can only be deleted when signed in, not with a key
+ */
+export class DeleteApiKeyUseCase implements IUseCase<DeleteApiKeyRequest, void> {
+  constructor(private apiKeyRepository: IApiKeyRepository) {}
+
+  async execute(request: DeleteApiKeyRequest): Promise<void> {
+    // Validate request
+    this.validateRequest(request);
+
+    if (request.user.apiKeyId) {
+      throw new ForbiddenError('API keys cannot delete API keys; sign in to delete one');
+    }
+
+    const deleted = await this.apiKeyRepository.delete(request.keyId, request.user.id);
+    if (!deleted) {
+      throw new NotFoundError(`API key with ID '${request.keyId}' not found`);
+    }
+  }
+
+  /**
+   * Validates the request
+   */
+  private validateRequest(request: DeleteApiKeyRequest): void {
+    if (!request) {
+      throw new ValidationError('Request is required');
+    }
+
+    // Basic UUID format validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!request.keyId || !uuidRegex.test(request.keyId)) {
+      throw new ValidationError('API key ID must be a valid UUID', 'keyId');
+    }
+
+    if (!request.user) {
+      throw new ValidationError('User is required', 'user');
+    }
+  }
+}
\ No newline at end of file
@@ -1,12 +1,15 @@
 import { IUseCase } from './IUseCase';
 import { IFileRepository } from '../../domain/repositories';
-import { FileStorageService } from '../../infrastructure/services';
+import { TrashRetention } from '../../domain/valueobjects';
+import { NotFoundError, ValidationError } from '../../domain/errors';
+import { FileAccessPolicy } from '../services';
 
 /**
  * Request model for deleting a file
  */
 export interface DeleteFileRequest {
   fileId: string;
+  userId: string;
 }
 
 /**
@@ -16,64 +19,50 @@ export interface DeleteFileResponse {
   id: string;
   filename: string;
   deleted: boolean;
+  deletedAt: Date;
+  purgeAt: Date;
   message: string;
 }
 
 /**
- * Use case for deleting a file from both database and disk storage
- * Ensures complete cleanup of file resources
+ * Use case for deleting a file by moving it to the trash
+ * The row, its revisions and their content are kept so the file can be restored until it is purged.
+ * Only the file's owners may delete it
  */
 export class DeleteFileUseCase implements IUseCase<DeleteFileRequest, DeleteFileResponse> {
   constructor(
     private fileRepository: IFileRepository,
-    private fileStorageService: FileStorageService
+    private trashRetention: TrashRetention,
+    private fileAccessPolicy: FileAccessPolicy
   ) {}
 
   async execute(request: DeleteFileRequest): Promise<DeleteFileResponse> {
     // Validate request
     this.validateRequest(request);
 
-    // Find file in database
-    const file = await this.fileRepository.findById(request.fileId);
-    if (!file) {
-      throw new Error(`File with ID '${request.fileId}' not found`);
+    // Only live files can be trashed; a file already in the trash is not found
+    const liveFile = await this.fileRepository.findById(request.fileId);
+    if (!liveFile) {
+      throw new NotFoundError(`File with ID '${request.fileId}' not found`);
     }
+    await this.fileAccessPolicy.authorize(liveFile, request.userId, 'delete');
 
-    const filename = file.filename;
-    const filePath = file.filePath;
-
-    try {
-      // Delete from database first
-      await this.fileRepository.delete(request.fileId);
-
-      // Then delete from disk
-      await this.fileStorageService.deleteFile(filePath);
+    const deletedAt = new Date();
+    const file = await this.fileRepository.moveToTrash(request.fileId, deletedAt);
+    if (!file) {
+      throw new NotFoundError(`File with ID '${request.fileId}' not found`);
+    }
 
-      return {
-        id: request.fileId,
-        filename,
-        deleted: true,
-        message: `File '${filename}' has been successfully deleted`
-      };
-    } catch (error) {
-      // If database deletion succeeded but file deletion failed,
-      // we should log this as it creates an orphaned file
-      const errorMessage = (error as Error).message;
-      
-      // Try to restore database record if disk deletion failed
-      try {
-        await this.fileRepository.save(file);
-      } catch (restoreError) {
-        // Log this critical error - we now have inconsistent state
-        throw new Error(
-          `Critical error: Failed to delete file '${filename}' from disk after removing from database. ` +
-          `Attempted to restore database record but failed: ${(restoreError as Error).message}. ` +
-          `Original error: ${errorMessage}`
-        );
-      }
+    const purgeAt = this.trashRetention.purgeDateFor(deletedAt);
 
-      throw new Error(`Failed to delete file '${filename}': ${errorMessage}`);
-    }
+    return {
+      id: file.id,
+      filename: file.filename,
+      deleted: true,
+      deletedAt,
+      purgeAt,
+      message: `File '${file.filename}' has been moved to the trash and will be purged after ${purgeAt.toISOString()}`
+    };
   }
 
   /**
@@ -81,17 +70,21 @@ export class DeleteFileUseCase implements IUseCase<DeleteFileRequest, DeleteFile
    */
   private validateRequest(request: DeleteFileRequest): void {
     if (!request) {
-      throw new Error('Delete request is required');
+      throw new ValidationError('Delete request is required');
     }
 
     if (!request.fileId || request.fileId.trim().length === 0) {
-      throw new Error('File ID is required');
+      throw new ValidationError('File ID is required');
     }
 
     // Basic UUID format validation
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
     if (!uuidRegex.test(request.fileId)) {
-      throw new Error('File ID must be a valid UUID');
+      throw new ValidationError('File ID must be a valid UUID', 'fileId');
+    }
+
+    if (!request.userId) {
+      throw new ValidationError('User ID is required', 'userId');
     }
   }
 }
\ No newline at end of file
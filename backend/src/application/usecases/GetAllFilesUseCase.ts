@@ -1,14 +1,30 @@
 import { IUseCase } from './IUseCase';
-import { IFileRepository } from '../../domain/repositories';
+import { IFileRepository, FileListFilter } from '../../domain/repositories';
+import { File } from '../../domain/entities';
+import { PageCursor } from '../../domain/valueobjects';
+import { ValidationError } from '../../domain/errors';
 
 /**
- * Request model for getting all files (with optional pagination)
+ * Request model for getting all files (with optional pagination and filters)
+ * Filters are combined; ranges are inclusive
+ * Pages either by page number (offset mode) or by an opaque cursor from a previous response
+ * With a userId only files that user may read are listed
  */
 export interface GetAllFilesRequest {
   page?: number;
+  cursor?: string;
   limit?: number;
   sortBy?: 'filename' | 'created_at' | 'file_size';
   sortOrder?: 'ASC' | 'DESC';
+  contentType?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  updatedFrom?: Date;
+  updatedTo?: Date;
+  minSize?: number;
+  maxSize?: number;
+  nameContains?: string;
+  userId?: string;
 }
 
 /**
@@ -20,48 +36,65 @@ export interface FileSummary {
   fileSize: number;
   formattedSize: string;
   contentType: string;
+  contentHash?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
 /**
  * Response model for getting all files
+ * The totals are only computed in offset mode; cursor pages leave them out
  */
 export interface GetAllFilesResponse {
   files: FileSummary[];
-  totalCount: number;
-  totalSize: number;
-  page: number;
+  totalCount?: number;
+  totalSize?: number;
+  page?: number;
   limit: number;
   hasNextPage: boolean;
   hasPreviousPage: boolean;
+  nextCursor?: string;
+  prevCursor?: string;
 }
 
 /**
- * Use case for retrieving all files with optional pagination
- * Returns file metadata without content for listing purposes
+ * Use case for retrieving all files with optional pagination and filtering
+ * Returns file metadata without content for listing purposes; totals describe the filtered set
  */
 export class GetAllFilesUseCase implements IUseCase<GetAllFilesRequest, GetAllFilesResponse> {
   constructor(private fileRepository: IFileRepository) {}
 
   async execute(request: GetAllFilesRequest = {}): Promise<GetAllFilesResponse> {
-    // Set defaults
+    // Validate filters
+    this.validateRequest(request);
+
+    // Set defaults (a cursor carries the sort it was created with)
+    const cursor = request.cursor ? this.decodeCursor(request) : undefined;
     const page = Math.max(1, request.page || 1);
     const limit = Math.min(100, Math.max(1, request.limit || 20));
-    const sortBy = request.sortBy || 'created_at';
-    const sortOrder = request.sortOrder || 'DESC';
-
-    // Calculate offset
-    const offset = (page - 1) * limit;
+    const sortBy = cursor?.sortBy || request.sortBy || 'created_at';
+    const sortOrder = cursor?.sortOrder || request.sortOrder || 'DESC';
 
-    // Get files with pagination
-    const files = await this.fileRepository.findWithPagination(offset, limit, sortBy, sortOrder);
-    
-    // Get total counts
-    const [totalCount, totalSize] = await Promise.all([
-      this.fileRepository.getTotalCount(),
-      this.fileRepository.getTotalSize()
-    ]);
+    const filter = this.buildFilter(request);
+    let files: File[];
+    let totalCount: number | undefined;
+    let totalSize: number | undefined;
+    let hasNextPage: boolean;
+    let hasPreviousPage: boolean;
+    if (cursor) {
+      // Get the page next to the cursor; rows exist on the side the cursor came from,
+      // the other side is known from the extra row
+      const keysetPage = await this.fileRepository.findByCursor(filter, limit, cursor);
+      files = keysetPage.files;
+      hasNextPage = cursor.direction === 'after' ? keysetPage.hasMore : true;
+      hasPreviousPage = cursor.direction === 'before' ? keysetPage.hasMore : true;
+    } else {
+      // Get the filtered page together with the filtered totals
+      const offsetPage = await this.fileRepository.findWithFilters(filter, (page - 1) * limit, limit, sortBy, sortOrder);
+      ({ files, totalCount, totalSize } = offsetPage);
+      hasNextPage = page < Math.ceil(offsetPage.totalCount / limit);
+      hasPreviousPage = page > 1;
+    }
 
     // Map to response format
     const fileSummaries: FileSummary[] = files.map(file => ({
@@ -70,23 +103,112 @@ export class GetAllFilesUseCase implements IUseCase<GetAllFilesRequest, GetAllFi
       fileSize: file.fileSize,
       formattedSize: file.getFormattedSize(),
       contentType: file.contentType,
+      contentHash: file.contentHash,
       createdAt: file.createdAt,
       updatedAt: file.updatedAt
     }));
 
-    // Calculate pagination info
-    const totalPages = Math.ceil(totalCount / limit);
-    const hasNextPage = page < totalPages;
-    const hasPreviousPage = page > 1;
+    const first = files[0];
+    const last = files[files.length - 1];
 
     return {
       files: fileSummaries,
       totalCount,
       totalSize,
-      page,
+      page: cursor ? undefined : page,
       limit,
       hasNextPage,
-      hasPreviousPage
+      hasPreviousPage,
+      nextCursor: hasNextPage && last ? this.cursorFor(last, sortBy, sortOrder, 'after') : undefined,
+      prevCursor: hasPreviousPage && first ? this.cursorFor(first, sortBy, sortOrder, 'before') : undefined
+    };
+  }
+
+  /**
+   * Parses the request cursor and checks it matches the requested sort
+   */
+  private decodeCursor(request: GetAllFilesRequest): PageCursor {
+    const cursor = PageCursor.decode(request.cursor as string);
+
+    if ((request.sortBy && request.sortBy !== cursor.sortBy) || (request.sortOrder && request.sortOrder !== cursor.sortOrder)) {
+      throw new ValidationError('Invalid cursor: it was created for a different sort order', 'cursor');
+    }
+
+    return cursor;
+  }
+
+  /**
+   * Builds the opaque cursor pointing before or after a file
+   */
+  private cursorFor(
+    file: File,
+    sortBy: 'filename' | 'created_at' | 'file_size',
+    sortOrder: 'ASC' | 'DESC',
+    direction: 'after' | 'before'
+  ): string {
+    const sortValue = sortBy === 'filename' ? file.filename : sortBy === 'file_size' ? file.fileSize : file.createdAt;
+
+    return new PageCursor(sortBy, sortOrder, sortValue, file.id, direction).encode();
+  }
+
+  /**
+   * Collects the filter criteria present in the request
+   */
+  private buildFilter(request: GetAllFilesRequest): FileListFilter {
+    const nameContains = request.nameContains?.trim();
+
+    return {
+      contentType: request.contentType,
+      createdFrom: request.createdFrom,
+      createdTo: request.createdTo,
+      updatedFrom: request.updatedFrom,
+      updatedTo: request.updatedTo,
+      minSize: request.minSize,
+      maxSize: request.maxSize,
+      nameContains: nameContains ? nameContains : undefined,
+      accessibleBy: request.userId
     };
   }
+
+  /**
+   * Validates the filter criteria
+   */
+  private validateRequest(request: GetAllFilesRequest): void {
+    if (request.contentType) {
+      const allowedTypes = File.ALLOWED_CONTENT_TYPES;
+      if (!allowedTypes.includes(request.contentType)) {
+        throw new ValidationError(`Content type must be one of: ${allowedTypes.join(', ')}`, 'contentType');
+      }
+    }
+
+    const dates: Array<[string, Date | undefined]> = [
+      ['createdFrom', request.createdFrom],
+      ['createdTo', request.createdTo],
+      ['updatedFrom', request.updatedFrom],
+      ['updatedTo', request.updatedTo]
+    ];
+    for (const [name, date] of dates) {
+      if (date && isNaN(date.getTime())) {
+        throw new ValidationError(`Filter ${name} must be a valid date`, name);
+      }
+    }
+
+    if (request.createdFrom && request.createdTo && request.createdFrom > request.createdTo) {
+      throw new ValidationError('Filter createdFrom must be before createdTo', 'createdFrom');
+    }
+
+    if (request.updatedFrom && request.updatedTo && request.updatedFrom > request.updatedTo) {
+      throw new ValidationError('Filter updatedFrom must be before updatedTo', 'updatedFrom');
+    }
+
+    for (const [name, size] of [['minSize', request.minSize], ['maxSize', request.maxSize]] as const) {
+      if (size !== undefined && (!Number.isInteger(size) || size < 0)) {
+        throw new ValidationError(`Filter ${name} must be a non-negative integer`, name);
+      }
+    }
+
+    if (request.minSize !== undefined && request.maxSize !== undefined && request.minSize > request.maxSize) {
+      throw new ValidationError('Filter minSize cannot be greater than maxSize', 'minSize');
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { IUseCase } from './IUseCase';
+import { IApiKeyRepository } from '../../domain/repositories';
+import { ForbiddenError, ValidationError } from '../../domain/errors';
+import { AuthenticatedUser } from '../interfaces';
+import { ApiKeySummary, toApiKeySummary } from './CreateApiKeyUseCase';
+
+/**
+ * Request model for listing a user's API keys
+ */
+export interface GetApiKeysRequest {
+  user: AuthenticatedUser;
+}
+
+/**
+ * Response model for listing a user's API keys
+ */
+export interface GetApiKeysResponse {
+  apiKeys: ApiKeySummary[];
+}
+
+/**
+ * Use case for listing the API keys of a user, newest first, including expired ones
+ * Like creating keys, listing them needs a signed-in user, so a leaked key cannot survey the others
+ */
+export class GetApiKeysUseCase implements IUseCase<GetApiKeysRequest, GetApiKeysResponse> {
+  constructor(private apiKeyRepository: IApiKeyRepository) {}
+
+  async execute(request: GetApiKeysRequest): Promise<GetApiKeysResponse> {
+    if (!request?.user) {
+      throw new ValidationError('User is required', 'user');
+    }
+
+    if (request.user.apiKeyId) {
+      throw new ForbiddenError('API keys cannot list API keys; sign in to see them');
+    }
+
+    const apiKeys = await this.apiKeyRepository.findByUserId(request.user.id);
+
+    return { apiKeys: apiKeys.map(toApiKeySummary) };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { IUseCase } from './IUseCase';
+import { FileContentService } from '../../domain/services';
+
+/**
+ * A supported document type as published to clients
+ */
+export interface SupportedContentType {
+  contentType: string;
+  extensions: string[];
+  mimeAliases: string[];
+  maxSizeBytes: number;
+  binary: boolean;
+}
+
+/**
+ * Response model for listing the supported document types
+ */
+export interface GetContentTypesResponse {
+  contentTypes: SupportedContentType[];
+  maxUploadSizeBytes: number;
+}
+
+/**
+ * Use case for listing the document types that can be uploaded, so clients do not hard-code them
+ * Binary types the content-type policy does not accept are left out; size limits are the configured ones
+ */
+export class GetContentTypesUseCase implements IUseCase<void, GetContentTypesResponse> {
+  constructor(private fileContentService: FileContentService = new FileContentService()) {}
+
+  async execute(): Promise<GetContentTypesResponse> {
+    const contentTypes = this.fileContentService.getSupportedTypes().map(definition => ({
+      contentType: definition.contentType,
+      extensions: [...definition.extensions],
+      mimeAliases: [...definition.mimeAliases],
+      maxSizeBytes: this.fileContentService.getMaxSize(definition.contentType),
+      binary: definition.binary === true
+    }));
+
+    return {
+      contentTypes,
+      maxUploadSizeBytes: Math.max(0, ...contentTypes.map(contentType => contentType.maxSizeBytes))
+    };
+  }
+}
\ No newline at end of file
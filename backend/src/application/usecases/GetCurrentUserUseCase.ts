@@ -0,0 +1,32 @@
+import { IUseCase } from './IUseCase';
+import { IUserRepository } from '../../domain/repositories';
+import { UserSummary, toUserSummary } from './RegisterUserUseCase';
+import { UnauthorizedError, ValidationError } from '../../domain/errors';
+
+/**
+ * Request model for reading the signed-in user
+ */
+export interface GetCurrentUserRequest {
+  userId: string;
+}
+
+/**
+ * Use case for reading the account an access token was issued to
+ */
+export class GetCurrentUserUseCase implements IUseCase<GetCurrentUserRequest, UserSummary> {
+  constructor(private userRepository: IUserRepository) {}
+
+  async execute(request: GetCurrentUserRequest): Promise<UserSummary> {
+    if (!request || !request.userId) {
+      throw new ValidationError('User ID is required', 'userId');
+    }
+
+    // The token can outlive the account it was issued to
+    const user = await this.userRepository.findById(request.userId);
+    if (!user) {
+      throw new UnauthorizedError('The account of this access token no longer exists');
+    }
+
+    return toUserSummary(user);
+  }
+}
\ No newline at end of file
@@ -1,12 +1,17 @@
 import { IUseCase } from './IUseCase';
 import { IFileRepository } from '../../domain/repositories';
-import { FileStorageService } from '../../infrastructure/services';
+import { FileContentService } from '../../domain/services';
+import { ContentHash } from '../../domain/valueobjects';
+import { IFileStorage } from '../interfaces';
+import { FileAccessPolicy } from '../services';
+import { IntegrityError, NotFoundError, ValidationError } from '../../domain/errors';
 
 /**
  * Request model for getting file content
  */
 export interface GetFileContentRequest {
   fileId: string;
+  userId: string;
 }
 
 /**
@@ -15,22 +20,29 @@ export interface GetFileContentRequest {
 export interface GetFileContentResponse {
   id: string;
   filename: string;
-  content: string;
+  content: Buffer;
+  binary: boolean;
   fileSize: number;
   formattedSize: string;
   contentType: string;
+  version: number;
+  contentHash?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
 /**
  * Use case for retrieving file content by ID
- * Returns complete file information including content
+ * Returns complete file information including content, after checking it against the checksum recorded
+ * at upload; content stored before checksums were recorded is returned unchecked.
+ * The caller needs at least the viewer role on the file
  */
 export class GetFileContentUseCase implements IUseCase<GetFileContentRequest, GetFileContentResponse> {
   constructor(
     private fileRepository: IFileRepository,
-    private fileStorageService: FileStorageService
+    private fileStorage: IFileStorage,
+    private fileAccessPolicy: FileAccessPolicy,
+    private fileContentService: FileContentService = new FileContentService()
   ) {}
 
   async execute(request: GetFileContentRequest): Promise<GetFileContentResponse> {
@@ -40,15 +52,28 @@ export class GetFileContentUseCase implements IUseCase<GetFileContentRequest, Ge
     // Find file in database
     const file = await this.fileRepository.findById(request.fileId);
     if (!file) {
-      throw new Error(`File with ID '${request.fileId}' not found`);
+      throw new NotFoundError(`File with ID '${request.fileId}' not found`);
     }
+    await this.fileAccessPolicy.authorize(file, request.userId, 'read');
 
     try {
       // Read file content from disk
-      const content = await this.fileStorageService.readFile(file.filePath);
+      const content = await this.fileStorage.readFile(file.filePath);
+
+      // Refuse to serve content that changed since it was written
+      if (file.contentHash) {
+        const actualHash = ContentHash.fromContent(content).value;
+        if (actualHash !== file.contentHash) {
+          throw new IntegrityError(
+            `Content of file '${file.filename}' does not match its checksum and may be corrupted`,
+            file.contentHash,
+            actualHash
+          );
+        }
+      }
 
       // Validate that the file still exists and content is valid
-      if (!this.fileStorageService.validateFileContent(content, file.contentType)) {
+      if (!this.fileContentService.validateFileContent(content, file.contentType)) {
         throw new Error('File content appears to be corrupted or invalid');
       }
 
@@ -56,15 +81,18 @@ export class GetFileContentUseCase implements IUseCase<GetFileContentRequest, Ge
         id: file.id,
         filename: file.filename,
         content,
+        binary: this.fileContentService.isBinary(file.contentType),
         fileSize: file.fileSize,
         formattedSize: file.getFormattedSize(),
         contentType: file.contentType,
+        version: file.currentVersion,
+        contentHash: file.contentHash,
         createdAt: file.createdAt,
         updatedAt: file.updatedAt
       };
     } catch (error) {
       // If file doesn't exist on disk but exists in database, we have an inconsistency
-      if ((error as Error).message.includes('File not found')) {
+      if (error instanceof NotFoundError) {
         throw new Error(`File '${file.filename}' exists in database but not on disk. This indicates data corruption.`);
       }
       throw error;
@@ -76,17 +104,21 @@ export class GetFileContentUseCase implements IUseCase<GetFileContentRequest, Ge
    */
   private validateRequest(request: GetFileContentRequest): void {
     if (!request) {
-      throw new Error('Request is required');
+      throw new ValidationError('Request is required');
     }
 
     if (!request.fileId || request.fileId.trim().length === 0) {
-      throw new Error('File ID is required');
+      throw new ValidationError('File ID is required');
     }
 
     // Basic UUID format validation
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
     if (!uuidRegex.test(request.fileId)) {
-      throw new Error('File ID must be a valid UUID');
+      throw new ValidationError('File ID must be a valid UUID', 'fileId');
+    }
+
+    if (!request.userId) {
+      throw new ValidationError('User ID is required', 'userId');
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,166 @@
+import { IUseCase } from './IUseCase';
+import { IFileRepository, IFileVersionRepository } from '../../domain/repositories';
+import { FileContentService, FileDiffService, DiffHunk, JsonChange } from '../../domain/services';
+import { IFileStorage } from '../interfaces';
+import { NotFoundError, ValidationError } from '../../domain/errors';
+import { FileAccessPolicy } from '../services';
+
+/**
+ * Diff modes: line-based text diff or structural JSON diff
+ */
+export type FileDiffMode = 'text' | 'json';
+
+/**
+ * Request model for comparing two revisions of a file
+ * Defaults to comparing the current revision with the one before it
+ */
+export interface GetFileDiffRequest {
+  fileId: string;
+  userId: string;
+  from?: number;
+  to?: number;
+  mode?: FileDiffMode;
+}
+
+/**
+ * Response model for a file diff
+ */
+export interface GetFileDiffResponse {
+  fileId: string;
+  filename: string;
+  contentType: string;
+  mode: FileDiffMode;
+  fromVersion: number;
+  toVersion: number;
+  identical: boolean;
+  unifiedDiff?: string;
+  hunks?: DiffHunk[];
+  additions?: number;
+  deletions?: number;
+  changes?: JsonChange[];
+}
+
+/**
+ * Use case for comparing the stored contents of two revisions of a file
+ * The caller needs at least the viewer role on the file
+ */
+export class GetFileDiffUseCase implements IUseCase<GetFileDiffRequest, GetFileDiffResponse> {
+  constructor(
+    private fileRepository: IFileRepository,
+    private fileStorage: IFileStorage,
+    private fileVersionRepository: IFileVersionRepository,
+    private fileAccessPolicy: FileAccessPolicy,
+    private fileDiffService: FileDiffService = new FileDiffService(),
+    private fileContentService: FileContentService = new FileContentService()
+  ) {}
+
+  async execute(request: GetFileDiffRequest): Promise<GetFileDiffResponse> {
+    // Validate request
+    this.validateRequest(request);
+
+    // Find file in database
+    const file = await this.fileRepository.findById(request.fileId);
+    if (!file) {
+      throw new NotFoundError(`File with ID '${request.fileId}' not found`);
+    }
+    await this.fileAccessPolicy.authorize(file, request.userId, 'read');
+
+    if (this.fileContentService.isBinary(file.contentType)) {
+      throw new ValidationError(`Revisions of ${file.contentType} files cannot be compared; download them instead`);
+    }
+
+    const mode = request.mode || 'text';
+    if (mode === 'json' && !file.isJsonFile()) {
+      throw new ValidationError('Structural JSON diff is only available for application/json files');
+    }
+
+    // Default to the current revision against its predecessor
+    const toVersion = request.to ?? file.currentVersion;
+    const fromVersion = request.from ?? Math.max(1, toVersion - 1);
+
+    const [fromContent, toContent] = await Promise.all([
+      this.readVersionContent(file.id, file.filename, fromVersion),
+      this.readVersionContent(file.id, file.filename, toVersion)
+    ]);
+
+    const response: GetFileDiffResponse = {
+      fileId: file.id,
+      filename: file.filename,
+      contentType: file.contentType,
+      mode,
+      fromVersion,
+      toVersion,
+      identical: fromContent === toContent
+    };
+
+    if (mode === 'json') {
+      try {
+        response.changes = this.fileDiffService.diffJson(fromContent, toContent);
+      } catch {
+        throw new ValidationError('File content is not valid for content type: application/json');
+      }
+      response.identical = response.changes.length === 0;
+      return response;
+    }
+
+    const textDiff = this.fileDiffService.diffText(
+      fromContent,
+      toContent,
+      `${file.filename}@v${fromVersion}`,
+      `${file.filename}@v${toVersion}`
+    );
+
+    return {
+      ...response,
+      unifiedDiff: textDiff.unifiedDiff,
+      hunks: textDiff.hunks,
+      additions: textDiff.additions,
+      deletions: textDiff.deletions
+    };
+  }
+
+  /**
+   * Reads the stored content of a revision
+   */
+  private async readVersionContent(fileId: string, filename: string, versionNumber: number): Promise<string> {
+    const version = await this.fileVersionRepository.findByFileIdAndVersion(fileId, versionNumber);
+    if (!version) {
+      throw new NotFoundError(`Version ${versionNumber} of file '${filename}' not found`);
+    }
+
+    return (await this.fileStorage.readFile(version.filePath)).toString('utf8');
+  }
+
+  /**
+   * Validates the request
+   */
+  private validateRequest(request: GetFileDiffRequest): void {
+    if (!request) {
+      throw new ValidationError('Request is required');
+    }
+
+    if (!request.fileId || request.fileId.trim().length === 0) {
+      throw new ValidationError('File ID is required');
+    }
+
+    // Basic UUID format validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(request.fileId)) {
+      throw new ValidationError('File ID must be a valid UUID', 'fileId');
+    }
+
+    if (!request.userId) {
+      throw new ValidationError('User ID is required', 'userId');
+    }
+
+    for (const version of [request.from, request.to]) {
+      if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+        throw new ValidationError('Version must be a positive integer');
+      }
+    }
+
+    if (request.mode && request.mode !== 'text' && request.mode !== 'json') {
+      throw new ValidationError(`Invalid diff mode: ${request.mode}`);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { IUseCase } from './IUseCase';
+import { IFileRepository, IFileGrantRepository } from '../../domain/repositories';
+import { NotFoundError, ValidationError } from '../../domain/errors';
+import { FileAccessPolicy } from '../services';
+import { FileGrantSummary, toFileGrantSummary } from './GrantFileAccessUseCase';
+
+/**
+ * Request model for listing who a file is shared with
+ */
+export interface GetFileGrantsRequest {
+  fileId: string;
+  userId: string;
+}
+
+/**
+ * Response model listing the owner of a file and the roles granted on it
+ */
+export interface GetFileGrantsResponse {
+  fileId: string;
+  ownerId?: string;
+  grants: FileGrantSummary[];
+}
+
+/**
+ * Use case for listing the users a file is shared with
+ * Only the file's owners may see who else has access
+ */
+export class GetFileGrantsUseCase implements IUseCase<GetFileGrantsRequest, GetFileGrantsResponse> {
+  constructor(
+    private fileRepository: IFileRepository,
+    private fileGrantRepository: IFileGrantRepository,
+    private fileAccessPolicy: FileAccessPolicy
+  ) {}
+
+  async execute(request: GetFileGrantsRequest): Promise<GetFileGrantsResponse> {
+    // Validate request
+    this.validateRequest(request);
+
+    const file = await this.fileRepository.findById(request.fileId);
+    if (!file) {
+      throw new NotFoundError(`File with ID '${request.fileId}' not found`);
+    }
+    await this.fileAccessPolicy.authorize(file, request.userId, 'share');
+
+    const grants = await this.fileGrantRepository.findByFileId(file.id);
+
+    return {
+      fileId: file.id,
+      ownerId: file.ownerId,
+      grants: grants.map(toFileGrantSummary)
+    };
+  }
+
+  /**
+   * Validates the request
+   */
+  private validateRequest(request: GetFileGrantsRequest): void {
+    if (!request) {
+      throw new ValidationError('Request is required');
+    }
+
+    // Basic UUID format validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!request.fileId || !uuidRegex.test(request.fileId)) {
+      throw new ValidationError('File ID must be a valid UUID', 'fileId');
+    }
+
+    if (!request.userId) {
+      throw new ValidationError('User ID is required', 'userId');
+    }
+  }
+}
\ No newline at end of file
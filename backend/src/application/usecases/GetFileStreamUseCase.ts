@@ -0,0 +1,107 @@
+import { Readable } from 'stream';
+import { IUseCase } from './IUseCase';
+import { IFileRepository } from '../../domain/repositories';
+import { IFileStorage, ByteRange } from '../interfaces';
+import { FileAccessPolicy } from '../services';
+import { NotFoundError, ValidationError } from '../../domain/errors';
+
+/**
+ * Request model for streaming the raw content of a file
+ */
+export interface GetFileStreamRequest {
+  fileId: string;
+  userId: string;
+}
+
+/**
+ * Response model for a raw content stream
+ * The metadata is available right away; storage is only read once openStream is called,
+ * so callers can answer conditional requests without touching the content
+ */
+export interface GetFileStreamResponse {
+  id: string;
+  filename: string;
+  contentType: string;
+  fileSize: number;
+  version: number;
+  contentHash?: string;
+  updatedAt: Date;
+  openStream(range?: ByteRange): Promise<Readable>;
+}
+
+/**
+ * Use case for reading the current content of a file as a stream
+ * Used for raw downloads; the content is never loaded into memory as a whole.
+ * The caller needs at least the viewer role on the file
+ */
+export class GetFileStreamUseCase implements IUseCase<GetFileStreamRequest, GetFileStreamResponse> {
+  constructor(
+    private fileRepository: IFileRepository,
+    private fileStorage: IFileStorage,
+    private fileAccessPolicy: FileAccessPolicy
+  ) {}
+
+  async execute(request: GetFileStreamRequest): Promise<GetFileStreamResponse> {
+    // Validate request
+    this.validateRequest(request);
+
+    // Find file in database
+    const file = await this.fileRepository.findById(request.fileId);
+    if (!file) {
+      throw new NotFoundError(`File with ID '${request.fileId}' not found`);
+    }
+    await this.fileAccessPolicy.authorize(file, request.userId, 'read');
+
+    return {
+      id: file.id,
+      filename: file.filename,
+      contentType: file.contentType,
+      fileSize: file.fileSize,
+      version: file.currentVersion,
+      contentHash: file.contentHash,
+      updatedAt: file.updatedAt,
+      openStream: range => this.openStream(file.filePath, file.filename, file.fileSize, range)
+    };
+  }
+
+  /**
+   * Opens the stored content, or the requested slice of it
+   */
+  private async openStream(filePath: string, filename: string, fileSize: number, range?: ByteRange): Promise<Readable> {
+    if (range && (range.start < 0 || range.end < range.start || range.end >= fileSize)) {
+      throw new ValidationError(`Byte range ${range.start}-${range.end} is outside the file content`);
+    }
+
+    try {
+      return await this.fileStorage.createReadStream(filePath, range);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw new Error(`File '${filename}' exists in database but not in storage. This indicates data corruption.`);
+      }
+      throw new Error(`Failed to read file content: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Validates the request
+   */
+  private validateRequest(request: GetFileStreamRequest): void {
+    if (!request) {
+      throw new ValidationError('Request is required');
+    }
+
+    if (!request.fileId || request.fileId.trim().length === 0) {
+      throw new ValidationError('File ID is required');
+    }
+
+    // Basic UUID format validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(request.fileId)) {
+      throw new ValidationError('File ID must be a valid UUID', 'fileId');
+    }
+
+    if (!request.userId) {
+      throw new ValidationError('User ID is required', 'userId');
+    }
+  }
+}
\ No newline at end of file
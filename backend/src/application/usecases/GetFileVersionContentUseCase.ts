@@ -0,0 +1,115 @@
+import { IUseCase } from './IUseCase';
+import { IFileRepository, IFileVersionRepository } from '../../domain/repositories';
+import { FileContentService } from '../../domain/services';
+import { IFileStorage } from '../interfaces';
+import { NotFoundError, ValidationError } from '../../domain/errors';
+import { FileAccessPolicy } from '../services';
+
+/**
+ * Request model for getting the content of a specific revision
+ */
+export interface GetFileVersionContentRequest {
+  fileId: string;
+  version: number;
+  userId: string;
+}
+
+/**
+ * Response model for revision content
+ */
+export interface GetFileVersionContentResponse {
+  fileId: string;
+  filename: string;
+  version: number;
+  content: Buffer;
+  binary: boolean;
+  fileSize: number;
+  formattedSize: string;
+  contentType: string;
+  contentHash?: string;
+  isCurrent: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Use case for retrieving the content of a single revision of a file
+ * The caller needs at least the viewer role on the file
+ */
+export class GetFileVersionContentUseCase implements IUseCase<GetFileVersionContentRequest, GetFileVersionContentResponse> {
+  constructor(
+    private fileRepository: IFileRepository,
+    private fileStorage: IFileStorage,
+    private fileVersionRepository: IFileVersionRepository,
+    private fileAccessPolicy: FileAccessPolicy,
+    private fileContentService: FileContentService = new FileContentService()
+  ) {}
+
+  async execute(request: GetFileVersionContentRequest): Promise<GetFileVersionContentResponse> {
+    // Validate request
+    this.validateRequest(request);
+
+    // Find file in database
+    const file = await this.fileRepository.findById(request.fileId);
+    if (!file) {
+      throw new NotFoundError(`File with ID '${request.fileId}' not found`);
+    }
+    await this.fileAccessPolicy.authorize(file, request.userId, 'read');
+
+    const version = await this.fileVersionRepository.findByFileIdAndVersion(file.id, request.version);
+    if (!version) {
+      throw new NotFoundError(`Version ${request.version} of file '${file.filename}' not found`);
+    }
+
+    try {
+      // Read revision content from disk
+      const content = await this.fileStorage.readFile(version.filePath);
+
+      return {
+        fileId: file.id,
+        filename: file.filename,
+        version: version.versionNumber,
+        content,
+        binary: this.fileContentService.isBinary(version.contentType),
+        fileSize: version.fileSize,
+        formattedSize: version.getFormattedSize(),
+        contentType: version.contentType,
+        contentHash: version.contentHash,
+        isCurrent: version.versionNumber === file.currentVersion,
+        createdAt: version.createdAt
+      };
+    } catch (error) {
+      // If the revision doesn't exist on disk but exists in database, we have an inconsistency
+      if (error instanceof NotFoundError) {
+        throw new Error(`Version ${version.versionNumber} of file '${file.filename}' exists in database but not on disk. This indicates data corruption.`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Validates the request
+   */
+  private validateRequest(request: GetFileVersionContentRequest): void {
+    if (!request) {
+      throw new ValidationError('Request is required');
+    }
+
+    if (!request.fileId || request.fileId.trim().length === 0) {
+      throw new ValidationError('File ID is required');
+    }
+
+    // Basic UUID format validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(request.fileId)) {
+      throw new ValidationError('File ID must be a valid UUID', 'fileId');
+    }
+
+    if (!request.userId) {
+      throw new ValidationError('User ID is required', 'userId');
+    }
+
+    if (!Number.isInteger(request.version) || request.version < 1) {
+      throw new ValidationError('Version must be a positive integer');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { IUseCase } from './IUseCase';
+import { IFileRepository, IFileVersionRepository } from '../../domain/repositories';
+import { NotFoundError, ValidationError } from '../../domain/errors';
+import { FileAccessPolicy } from '../services';
+
+/**
+ * Request model for listing the revisions of a file
+ */
+export interface GetFileVersionsRequest {
+  fileId: string;
+  userId: string;
+}
+
+/**
+ * Revision summary for listing
+ */
+export interface FileVersionSummary {
+  version: number;
+  fileSize: number;
+  formattedSize: string;
+  contentType: string;
+  contentHash?: string;
+  isCurrent: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Response model for the revision history of a file
+ */
+export interface GetFileVersionsResponse {
+  fileId: string;
+  filename: string;
+  currentVersion: number;
+  versions: FileVersionSummary[];
+}
+
+/**
+ * Use case for retrieving the revision history of a file
+ * Returns revision metadata without content, newest first. The caller needs at least the viewer role on the file
+ */
+export class GetFileVersionsUseCase implements IUseCase<GetFileVersionsRequest, GetFileVersionsResponse> {
+  constructor(
+    private fileRepository: IFileRepository,
+    private fileVersionRepository: IFileVersionRepository,
+    private fileAccessPolicy: FileAccessPolicy
+  ) {}
+
+  async execute(request: GetFileVersionsRequest): Promise<GetFileVersionsResponse> {
+    // Validate request
+    this.validateRequest(request);
+
+    // Find file in database
+    const file = await this.fileRepository.findById(request.fileId);
+    if (!file) {
+      throw new NotFoundError(`File with ID '${request.fileId}' not found`);
+    }
+    await this.fileAccessPolicy.authorize(file, request.userId, 'read');
+
+    const versions = await this.fileVersionRepository.findByFileId(file.id);
+
+    return {
+      fileId: file.id,
+      filename: file.filename,
+      currentVersion: file.currentVersion,
+      versions: versions.map(version => ({
+        version: version.versionNumber,
+        fileSize: version.fileSize,
+        formattedSize: version.getFormattedSize(),
+        contentType: version.contentType,
+        contentHash: version.contentHash,
+        isCurrent: version.versionNumber === file.currentVersion,
+        createdAt: version.createdAt
+      }))
+    };
+  }
+
+  /**
+   * Validates the request
+   */
+  private validateRequest(request: GetFileVersionsRequest): void {
+    if (!request) {
+      throw new ValidationError('Request is required');
+    }
+
+    if (!request.fileId || request.fileId.trim().length === 0) {
+      throw new ValidationError('File ID is required');
+    }
+
+    // Basic UUID format validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(request.fileId)) {
+      throw new ValidationError('File ID must be a valid UUID', 'fileId');
+    }
+
+    if (!request.userId) {
+      throw new ValidationError('User ID is required', 'userId');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { IUseCase } from './IUseCase';
+import { IFileRepository, IShareLinkRepository } from '../../domain/repositories';
+import { NotFoundError, ValidationError } from '../../domain/errors';
+import { IShareLinkSigner } from '../interfaces';
+import { FileAccessPolicy } from '../services';
+import { ShareLinkSummary, toShareLinkSummary } from './CreateShareLinkUseCase';
+
+/**
+ * Request model for listing the share links of a file
+ */
+export interface GetShareLinksRequest {
+  fileId: string;
+  userId: string;
+}
+
+/**
+ * Response model for the share links of a file
+ */
+export interface GetShareLinksResponse {
+  fileId: string;
+  shareLinks: ShareLinkSummary[];
+}
+
+/**
+ * Use case for listing the share links of a file that can still be used, newest first
+ * Only the file's owners may see its links
+ */
+export class GetShareLinksUseCase implements IUseCase<GetShareLinksRequest, GetShareLinksResponse> {
+  constructor(
+    private fileRepository: IFileRepository,
+    private shareLinkRepository: IShareLinkRepository,
+    private fileAccessPolicy: FileAccessPolicy,
+    private shareLinkSigner: IShareLinkSigner
+  ) {}
+
+  async execute(request: GetShareLinksRequest): Promise<GetShareLinksResponse> {
+    // Validate request
+    this.validateRequest(request);
+
+    const file = await this.fileRepository.findById(request.fileId);
+    if (!file) {
+      throw new NotFoundError(`File with ID '${request.fileId}' not found`);
+    }
+    await this.fileAccessPolicy.authorize(file, request.userId, 'share');
+
+    const shareLinks = await this.shareLinkRepository.findActiveByFileId(file.id);
+
+    return {
+      fileId: file.id,
+      shareLinks: shareLinks.map(shareLink => toShareLinkSummary(shareLink, this.shareLinkSigner))
+    };
+  }
+
+  /**
+   * Validates the request
+   */
+  private validateRequest(request: GetShareLinksRequest): void {
+    if (!request) {
+      throw new ValidationError('Request is required');
+    }
+
+    // Basic UUID format validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!request.fileId || !uuidRegex.test(request.fileId)) {
+      throw new ValidationError('File ID must be a valid UUID', 'fileId');
+    }
+
+    if (!request.userId) {
+      throw new ValidationError('User ID is required', 'userId');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { IUseCase } from './IUseCase';
+import { IStorageReconciliationReportRepository } from '../../domain/repositories';
+import { StorageReconciliationSummary, toReconciliationSummary } from './ReconcileStorageUseCase';
+import { NotFoundError, ValidationError } from '../../domain/errors';
+
+/**
+ * Request model for reading one reconciliation report
+ */
+export interface GetStorageReconciliationReportRequest {
+  reportId: string;
+}
+
+/**
+ * Use case for reading a persisted reconciliation report with all its findings
+ */
+export class GetStorageReconciliationReportUseCase
+  implements IUseCase<GetStorageReconciliationReportRequest, StorageReconciliationSummary> {
+  constructor(private reportRepository: IStorageReconciliationReportRepository) {}
+
+  async execute(request: GetStorageReconciliationReportRequest): Promise<StorageReconciliationSummary> {
+    // Validate request
+    this.validateRequest(request);
+
+    const report = await this.reportRepository.findById(request.reportId);
+    if (!report) {
+      throw new NotFoundError(`Reconciliation report with ID '${request.reportId}' not found`);
+    }
+
+    return toReconciliationSummary(report);
+  }
+
+  /**
+   * Validates the request
+   */
+  private validateRequest(request: GetStorageReconciliationReportRequest): void {
+    if (!request || !request.reportId || request.reportId.trim().length === 0) {
+      throw new ValidationError('Report ID is required', 'reportId');
+    }
+
+    // Basic UUID format validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(request.reportId)) {
+      throw new ValidationError('Report ID must be a valid UUID', 'reportId');
+    }
+  }
+}
\ No newline at end of file
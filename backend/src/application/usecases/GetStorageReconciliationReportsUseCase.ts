@@ -0,0 +1,38 @@
+import { IUseCase } from './IUseCase';
+import { IStorageReconciliationReportRepository } from '../../domain/repositories';
+import { StorageReconciliationSummary, toReconciliationSummary } from './ReconcileStorageUseCase';
+
+/**
+ * Request model for listing reconciliation reports
+ */
+export interface GetStorageReconciliationReportsRequest {
+  limit?: number;
+}
+
+/**
+ * Response model for listing reconciliation reports
+ */
+export interface GetStorageReconciliationReportsResponse {
+  reports: StorageReconciliationSummary[];
+  limit: number;
+}
+
+/**
+ * Use case for listing the most recent reconciliation reports, newest first
+ */
+export class GetStorageReconciliationReportsUseCase
+  implements IUseCase<GetStorageReconciliationReportsRequest, GetStorageReconciliationReportsResponse> {
+  constructor(private reportRepository: IStorageReconciliationReportRepository) {}
+
+  async execute(request: GetStorageReconciliationReportsRequest = {}): Promise<GetStorageReconciliationReportsResponse> {
+    // Set defaults
+    const limit = Math.min(100, Math.max(1, request.limit || 20));
+
+    const reports = await this.reportRepository.findRecent(limit);
+
+    return {
+      reports: reports.map(toReconciliationSummary),
+      limit
+    };
+  }
+}
\ No newline at end of file
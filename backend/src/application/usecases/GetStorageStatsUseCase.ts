@@ -0,0 +1,36 @@
+import { IUseCase } from './IUseCase';
+import { IFileRepository } from '../../domain/repositories';
+
+/**
+ * Number and total size of a set of files
+ */
+export interface FileSetStats {
+  count: number;
+  totalSize: number;
+}
+
+/**
+ * Response model for storage statistics
+ */
+export interface GetStorageStatsResponse {
+  files: FileSetStats;
+  trash: FileSetStats;
+}
+
+/**
+ * Use case for reading how many files are stored and how much space they take, across all users
+ */
+export class GetStorageStatsUseCase implements IUseCase<void, GetStorageStatsResponse> {
+  constructor(private fileRepository: IFileRepository) {}
+
+  async execute(): Promise<GetStorageStatsResponse> {
+    // Only the totals are needed, so the pages are left empty
+    const live = await this.fileRepository.findWithFilters({}, 0, 0);
+    const trashed = await this.fileRepository.findTrashed(0, 0);
+
+    return {
+      files: { count: live.totalCount, totalSize: live.totalSize },
+      trash: { count: trashed.totalCount, totalSize: trashed.totalSize }
+    };
+  }
+}
\ No newline at end of file
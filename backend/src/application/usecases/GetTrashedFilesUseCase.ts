@@ -0,0 +1,81 @@
+import { IUseCase } from './IUseCase';
+import { IFileRepository } from '../../domain/repositories';
+import { TrashRetention } from '../../domain/valueobjects';
+import { FileSummary } from './GetAllFilesUseCase';
+
+/**
+ * Request model for listing the trash
+ * With a userId only files that user may read are listed
+ */
+export interface GetTrashedFilesRequest {
+  page?: number;
+  limit?: number;
+  userId?: string;
+}
+
+/**
+ * Summary of a trashed file, with when it was deleted and when it will be purged
+ */
+export interface TrashedFileSummary extends FileSummary {
+  deletedAt: Date;
+  purgeAt: Date;
+}
+
+/**
+ * Response model for listing the trash
+ */
+export interface GetTrashedFilesResponse {
+  files: TrashedFileSummary[];
+  totalCount: number;
+  totalSize: number;
+  page: number;
+  limit: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+/**
+ * Use case for listing the files in the trash, most recently deleted first
+ */
+export class GetTrashedFilesUseCase implements IUseCase<GetTrashedFilesRequest, GetTrashedFilesResponse> {
+  constructor(
+    private fileRepository: IFileRepository,
+    private trashRetention: TrashRetention
+  ) {}
+
+  async execute(request: GetTrashedFilesRequest = {}): Promise<GetTrashedFilesResponse> {
+    // Set defaults
+    const page = Math.max(1, request.page || 1);
+    const limit = Math.min(100, Math.max(1, request.limit || 20));
+
+    const { files, totalCount, totalSize } = await this.fileRepository.findTrashed((page - 1) * limit, limit, request.userId);
+
+    const trashedFiles: TrashedFileSummary[] = files.map(file => {
+      // Rows listed from the trash always carry their deletion time
+      const deletedAt = file.deletedAt as Date;
+
+      return {
+        id: file.id,
+        filename: file.filename,
+        fileSize: file.fileSize,
+        formattedSize: file.getFormattedSize(),
+        contentType: file.contentType,
+        contentHash: file.contentHash,
+        createdAt: file.createdAt,
+        updatedAt: file.updatedAt,
+        deletedAt,
+        purgeAt: this.trashRetention.purgeDateFor(deletedAt)
+      };
+    });
+
+    return {
+      files: trashedFiles,
+      totalCount,
+      totalSize,
+      page,
+      limit,
+      hasNextPage: page < Math.ceil(totalCount / limit),
+      hasPreviousPage: page > 1
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { IUseCase } from './IUseCase';
+import { IUserRepository } from '../../domain/repositories';
+import { UserSummary, toUserSummary } from './RegisterUserUseCase';
+
+/**
+ * Request model for listing accounts
+ */
+export interface GetUsersRequest {
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Response model for listing accounts
+ */
+export interface GetUsersResponse {
+  users: UserSummary[];
+  totalCount: number;
+  page: number;
+  limit: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+/**
+ * Use case for listing all accounts with their roles, oldest first
+ */
+export class GetUsersUseCase implements IUseCase<GetUsersRequest, GetUsersResponse> {
+  constructor(private userRepository: IUserRepository) {}
+
+  async execute(request: GetUsersRequest = {}): Promise<GetUsersResponse> {
+    // Set defaults
+    const page = Math.max(1, request.page || 1);
+    const limit = Math.min(100, Math.max(1, request.limit || 20));
+
+    const { users, totalCount } = await this.userRepository.findAll((page - 1) * limit, limit);
+
+    return {
+      users: users.map(toUserSummary),
+      totalCount,
+      page,
+      limit,
+      hasNextPage: page < Math.ceil(totalCount / limit),
+      hasPreviousPage: page > 1
+    };
+  }
+}
\ No newline at end of file
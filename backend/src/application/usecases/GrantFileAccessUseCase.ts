@@ -0,0 +1,108 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IUseCase } from './IUseCase';
+import { IFileRepository, IFileGrantRepository, IUserRepository } from '../../domain/repositories';
+import { FileGrant } from '../../domain/entities';
+import { EmailAddress, FileRole, FileRoleName } from '../../domain/valueobjects';
+import { ConflictError, NotFoundError, ValidationError } from '../../domain/errors';
+import { FileAccessPolicy } from '../services';
+
+/**
+ * Request model for sharing a file with another user
+ */
+export interface GrantFileAccessRequest {
+  fileId: string;
+  userId: string;
+  email: string;
+  role: string;
+}
+
+/**
+ * A role a user holds on a file
+ */
+export interface FileGrantSummary {
+  userId: string;
+  role: FileRoleName;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Maps a grant to the summary returned to clients
+ */
+export function toFileGrantSummary(grant: FileGrant): FileGrantSummary {
+  return {
+    userId: grant.userId,
+    role: grant.role.value,
+    createdAt: grant.createdAt,
+    updatedAt: grant.updatedAt
+  };
+}
+
+/**
+ * Use case for giving another user a role on a file
+ * Only the file's owners may share it; sharing with a user who already holds a role replaces that role
+ */
+export class GrantFileAccessUseCase implements IUseCase<GrantFileAccessRequest, FileGrantSummary> {
+  constructor(
+    private fileRepository: IFileRepository,
+    private userRepository: IUserRepository,
+    private fileGrantRepository: IFileGrantRepository,
+    private fileAccessPolicy: FileAccessPolicy
+  ) {}
+
+  async execute(request: GrantFileAccessRequest): Promise<FileGrantSummary> {
+    // Validate request
+    this.validateRequest(request);
+    const email = EmailAddress.create(request.email);
+    const role = new FileRole(request.role);
+
+    const file = await this.fileRepository.findById(request.fileId);
+    if (!file) {
+      throw new NotFoundError(`File with ID '${request.fileId}' not found`);
+    }
+    await this.fileAccessPolicy.authorize(file, request.userId, 'share');
+
+    if (!file.hasOwner()) {
+      throw new ConflictError(`File '${file.filename}' has no owner and is open to every user`);
+    }
+
+    const grantee = await this.userRepository.findByEmail(email.value);
+    if (!grantee) {
+      throw new NotFoundError(`No account with the email address '${email.value}' exists`);
+    }
+    if (grantee.id === file.ownerId) {
+      throw new ValidationError(`'${email.value}' owns file '${file.filename}' already`, 'email');
+    }
+
+    const grant = await this.fileGrantRepository.save(FileGrant.create(uuidv4(), file.id, grantee.id, role));
+
+    return toFileGrantSummary(grant);
+  }
+
+  /**
+   * Validates the request
+   */
+  private validateRequest(request: GrantFileAccessRequest): void {
+    if (!request) {
+      throw new ValidationError('Request is required');
+    }
+
+    // Basic UUID format validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!request.fileId || !uuidRegex.test(request.fileId)) {
+      throw new ValidationError('File ID must be a valid UUID', 'fileId');
+    }
+
+    if (!request.userId) {
+      throw new ValidationError('User ID is required', 'userId');
+    }
+
+    if (!request.email) {
+      throw new ValidationError('Email address is required', 'email');
+    }
+
+    if (!request.role) {
+      throw new ValidationError('Role is required', 'role');
+    }
+  }
+}
\ No newline at end of file
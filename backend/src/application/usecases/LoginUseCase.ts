@@ -0,0 +1,119 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IUseCase } from './IUseCase';
+import { IUserRepository, IRefreshTokenRepository } from '../../domain/repositories';
+import { User, RefreshToken } from '../../domain/entities';
+import { EmailAddress } from '../../domain/valueobjects';
+import { IPasswordHasher, ITokenService, IssuedToken } from '../interfaces';
+import { UserSummary, toUserSummary } from './RegisterUserUseCase';
+import { DomainError, UnauthorizedError, ValidationError } from '../../domain/errors';
+
+/**
+ * Request model for signing in
+ */
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+/**
+ * A signed-in user with the tokens to act on their behalf
+ */
+export interface AuthSession {
+  user: UserSummary;
+  accessToken: IssuedToken;
+  refreshToken: IssuedToken;
+}
+
+/**
+ * Issues an access token and a recorded refresh token for a user
+ */
+export async function startSession(
+  user: User,
+  refreshTokenRepository: IRefreshTokenRepository,
+  tokenService: ITokenService
+): Promise<AuthSession> {
+  const tokenId = uuidv4();
+  const refreshToken = tokenService.issueRefreshToken({ userId: user.id, tokenId });
+  await refreshTokenRepository.save(RefreshToken.create(tokenId, user.id, refreshToken.expiresAt));
+
+  return {
+    user: toUserSummary(user),
+    accessToken: tokenService.issueAccessToken({ id: user.id, email: user.email, role: user.role.value }),
+    refreshToken
+  };
+}
+
+/**
+ * Use case for signing in with email address and password
+ * Unknown addresses and wrong passwords are answered alike, so accounts cannot be probed.
+ * An unknown address still has a password checked, against a hash made once with the configured
+ * hasher, so the response takes as long as for a wrong password
+ */
+export class LoginUseCase implements IUseCase<LoginRequest, AuthSession> {
+  private dummyPasswordHash?: Promise<string>;
+
+  constructor(
+    private userRepository: IUserRepository,
+    private refreshTokenRepository: IRefreshTokenRepository,
+    private passwordHasher: IPasswordHasher,
+    private tokenService: ITokenService
+  ) {}
+
+  async execute(request: LoginRequest): Promise<AuthSession> {
+    // Validate input
+    this.validateRequest(request);
+
+    try {
+      const user = await this.userRepository.findByEmail(EmailAddress.create(request.email).value);
+      if (!user) {
+        await this.passwordHasher.verify(request.password, await this.getDummyPasswordHash());
+        throw new UnauthorizedError('Invalid email address or password');
+      }
+      if (!(await this.passwordHasher.verify(request.password, user.passwordHash))) {
+        throw new UnauthorizedError('Invalid email address or password');
+      }
+
+      return await startSession(user, this.refreshTokenRepository, this.tokenService);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw new UnauthorizedError('Invalid email address or password');
+      }
+      if (error instanceof DomainError) {
+        throw error;
+      }
+      throw new Error(`Failed to sign in: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Hashes a random password the first time it is needed and keeps the hash for later sign-ins
+   */
+  private getDummyPasswordHash(): Promise<string> {
+    if (!this.dummyPasswordHash) {
+      this.dummyPasswordHash = this.passwordHasher.hash(uuidv4()).catch(error => {
+        // Try again on the next sign-in rather than keeping the failure
+        this.dummyPasswordHash = undefined;
+        throw error;
+      });
+    }
+
+    return this.dummyPasswordHash;
+  }
+
+  /**
+   * Validates the sign-in request
+   */
+  private validateRequest(request: LoginRequest): void {
+    if (!request) {
+      throw new ValidationError('Sign-in request is required');
+    }
+
+    if (typeof request.email !== 'string' || request.email.trim().length === 0) {
+      throw new ValidationError('Email address is required', 'email');
+    }
+
+    if (typeof request.password !== 'string' || request.password.length === 0) {
+      throw new ValidationError('Password is required', 'password');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { IUseCase } from './IUseCase';
+import { IRefreshTokenRepository } from '../../domain/repositories';
+import { ITokenService } from '../interfaces';
+import { DomainError, ValidationError } from '../../domain/errors';
+
+/**
+ * Request model for signing out
+ */
+export interface LogoutRequest {
+  refreshToken: string;
+  /** Also sign out every other session of the user */
+  allSessions?: boolean;
+}
+
+/**
+ * Use case for signing out by revoking refresh tokens
+ * Access tokens already issued stay valid until they expire, which is why they are short-lived
+ */
+export class LogoutUseCase implements IUseCase<LogoutRequest, void> {
+  constructor(
+    private refreshTokenRepository: IRefreshTokenRepository,
+    private tokenService: ITokenService
+  ) {}
+
+  async execute(request: LogoutRequest): Promise<void> {
+    // Validate input
+    this.validateRequest(request);
+
+    const claims = this.tokenService.verifyRefreshToken(request.refreshToken);
+
+    try {
+      if (request.allSessions) {
+        await this.refreshTokenRepository.revokeAllForUser(claims.userId);
+        return;
+      }
+
+      // Signing out twice is harmless
+      const record = await this.refreshTokenRepository.findById(claims.tokenId);
+      if (record && record.userId === claims.userId) {
+        await this.refreshTokenRepository.revoke(record.id);
+      }
+    } catch (error) {
+      if (error instanceof DomainError) {
+        throw error;
+      }
+      throw new Error(`Failed to sign out: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Validates the sign-out request
+   */
+  private validateRequest(request: LogoutRequest): void {
+    if (!request || typeof request.refreshToken !== 'string' || request.refreshToken.trim().length === 0) {
+      throw new ValidationError('Refresh token is required', 'refreshToken');
+    }
+
+    if (request.allSessions !== undefined && typeof request.allSessions !== 'boolean') {
+      throw new ValidationError('allSessions must be a boolean', 'allSessions');
+    }
+  }
+}
\ No newline at end of file
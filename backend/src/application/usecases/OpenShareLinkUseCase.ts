@@ -0,0 +1,117 @@
+import { Readable } from 'stream';
+import { IUseCase } from './IUseCase';
+import { IFileRepository, IShareLinkRepository } from '../../domain/repositories';
+import { ShareLink } from '../../domain/entities';
+import { GoneError, NotFoundError, PasswordRequiredError } from '../../domain/errors';
+import { IFileStorage, IPasswordHasher, IShareLinkSigner } from '../interfaces';
+
+/**
+ * Request model for downloading a file through a share link, as found in its URL
+ */
+export interface OpenShareLinkRequest {
+  linkId: string;
+  expires: string;
+  signature: string;
+  password?: string;
+}
+
+/**
+ * Response model for a shared file's content
+ */
+export interface OpenShareLinkResponse {
+  filename: string;
+  contentType: string;
+  fileSize: number;
+  stream: Readable;
+}
+
+/**
+ * Use case for downloading a shared file without an account
+ * Links with a signature that does not match are reported as not found, so they cannot be told apart
+ * from links that never existed. Every download that gets through counts towards the link's limit
+ */
+export class OpenShareLinkUseCase implements IUseCase<OpenShareLinkRequest, OpenShareLinkResponse> {
+  constructor(
+    private shareLinkRepository: IShareLinkRepository,
+    private fileRepository: IFileRepository,
+    private fileStorage: IFileStorage,
+    private passwordHasher: IPasswordHasher,
+    private shareLinkSigner: IShareLinkSigner
+  ) {}
+
+  async execute(request: OpenShareLinkRequest): Promise<OpenShareLinkResponse> {
+    const shareLink = await this.findSignedLink(request);
+
+    if (shareLink.isRevoked()) {
+      throw new GoneError('This share link has been revoked');
+    }
+    if (shareLink.isExpired()) {
+      throw new GoneError(`This share link expired at ${shareLink.expiresAt.toISOString()}`);
+    }
+    if (shareLink.isExhausted()) {
+      throw new GoneError('This share link has reached its download limit');
+    }
+
+    if (shareLink.passwordHash !== undefined) {
+      if (!request.password) {
+        throw new PasswordRequiredError(
+          'This share link is protected by a password. POST it to the link as the password form field, or send it in the X-Share-Password header.',
+          false
+        );
+      }
+      if (!(await this.passwordHasher.verify(request.password, shareLink.passwordHash))) {
+        throw new PasswordRequiredError('The password of this share link is incorrect', true);
+      }
+    }
+
+    const file = await this.fileRepository.findById(shareLink.fileId);
+    if (!file) {
+      throw new GoneError('The shared file has been deleted');
+    }
+
+    // Another download may have used up the link in the meantime
+    if (!(await this.shareLinkRepository.recordDownload(shareLink.id))) {
+      throw new GoneError('This share link has reached its download limit');
+    }
+
+    let stream: Readable;
+    try {
+      stream = await this.fileStorage.createReadStream(file.filePath);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw new Error(`File '${file.filename}' exists in database but not in storage. This indicates data corruption.`);
+      }
+      throw new Error(`Failed to read file content: ${(error as Error).message}`);
+    }
+
+    return {
+      filename: file.filename,
+      contentType: file.contentType,
+      fileSize: file.fileSize,
+      stream
+    };
+  }
+
+  /**
+   * Finds the link a URL names, provided its signature holds for the link's ID and expiry
+   */
+  private async findSignedLink(request: OpenShareLinkRequest): Promise<ShareLink> {
+    const notFound = new NotFoundError('Share link not found');
+    const expiresInSeconds = /^\d{1,12}$/.test(request?.expires ?? '') ? Number(request.expires) : NaN;
+    if (!request?.linkId || !request.signature || Number.isNaN(expiresInSeconds)) {
+      throw notFound;
+    }
+
+    const expiresAt = new Date(expiresInSeconds * 1000);
+    if (!this.shareLinkSigner.verify(request.linkId, expiresAt, request.signature)) {
+      throw notFound;
+    }
+
+    const shareLink = await this.shareLinkRepository.findById(request.linkId);
+    if (!shareLink || shareLink.expiresAt.getTime() !== expiresAt.getTime()) {
+      throw notFound;
+    }
+
+    return shareLink;
+  }
+}
\ No newline at end of file
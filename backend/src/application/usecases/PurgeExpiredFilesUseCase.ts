@@ -0,0 +1,52 @@
+import { IUseCase } from './IUseCase';
+import { IFileRepository } from '../../domain/repositories';
+import { TrashRetention } from '../../domain/valueobjects';
+import { PurgeFileUseCase } from './PurgeFileUseCase';
+
+/**
+ * Request model for purging the files whose retention period has passed
+ */
+export interface PurgeExpiredFilesRequest {
+  now?: Date;
+  batchSize?: number;
+}
+
+/**
+ * Response model for purging expired files
+ */
+export interface PurgeExpiredFilesResponse {
+  cutoff: Date;
+  purged: Array<{ id: string; filename: string }>;
+  failed: Array<{ id: string; filename: string; error: string }>;
+}
+
+/**
+ * Use case for permanently deleting trashed files kept longer than the retention period
+ * Purges at most one batch, oldest deletions first; files that fail are reported and retried by the next run
+ */
+export class PurgeExpiredFilesUseCase implements IUseCase<PurgeExpiredFilesRequest, PurgeExpiredFilesResponse> {
+  constructor(
+    private fileRepository: IFileRepository,
+    private purgeFileUseCase: PurgeFileUseCase,
+    private trashRetention: TrashRetention
+  ) {}
+
+  async execute(request: PurgeExpiredFilesRequest = {}): Promise<PurgeExpiredFilesResponse> {
+    const cutoff = this.trashRetention.cutoffAt(request.now ?? new Date());
+    const batchSize = Math.max(1, request.batchSize || 100);
+
+    const expired = await this.fileRepository.findTrashedBefore(cutoff, batchSize);
+
+    const response: PurgeExpiredFilesResponse = { cutoff, purged: [], failed: [] };
+    for (const file of expired) {
+      try {
+        await this.purgeFileUseCase.execute({ fileId: file.id });
+        response.purged.push({ id: file.id, filename: file.filename });
+      } catch (error) {
+        response.failed.push({ id: file.id, filename: file.filename, error: (error as Error).message });
+      }
+    }
+
+    return response;
+  }
+}
\ No newline at end of file
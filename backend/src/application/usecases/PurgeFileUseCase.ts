@@ -0,0 +1,128 @@
+import { IUseCase } from './IUseCase';
+import { FileVersion } from '../../domain/entities';
+import { FileBlobService, FileAccessPolicy } from '../services';
+import { IUnitOfWork } from '../interfaces';
+import { DomainError, NotFoundError, ValidationError } from '../../domain/errors';
+
+/**
+ * Request model for purging a trashed file
+ * userId is left out only by the retention purge, which acts for the system rather than a user
+ */
+export interface PurgeFileRequest {
+  fileId: string;
+  userId?: string;
+}
+
+/**
+ * Response model for purging a trashed file
+ */
+export interface PurgeFileResponse {
+  id: string;
+  filename: string;
+  purged: boolean;
+  message: string;
+}
+
+/**
+ * Use case for permanently deleting a trashed file from both database and storage
+ * Every revision releases its blob reference; shared content is only removed with its last reference.
+ * Rows are removed in one transaction and content is deleted from storage only after it committed.
+ * Only the file's owners may purge it
+ */
+export class PurgeFileUseCase implements IUseCase<PurgeFileRequest, PurgeFileResponse> {
+  constructor(
+    private fileBlobService: FileBlobService,
+    private unitOfWork: IUnitOfWork,
+    private fileAccessPolicy: FileAccessPolicy
+  ) {}
+
+  async execute(request: PurgeFileRequest): Promise<PurgeFileResponse> {
+    // Validate request
+    this.validateRequest(request);
+
+    try {
+      return await this.unitOfWork.run(async transaction => {
+        // Only files in the trash can be purged
+        const file = await transaction.files.findTrashedById(request.fileId);
+        if (!file) {
+          throw new NotFoundError(`File with ID '${request.fileId}' not found in the trash`);
+        }
+        if (request.userId !== undefined) {
+          await this.fileAccessPolicy.authorize(file, request.userId, 'delete');
+        }
+
+        // Collect every stored revision so no blob reference is left behind
+        const versions = await transaction.fileVersions.findByFileId(request.fileId);
+        const references = this.collectReferences(file.contentHash, file.filePath, versions);
+
+        // Delete the file row (revisions cascade with it)
+        await transaction.files.delete(request.fileId);
+
+        // Release every revision's content; stored objects are only deleted once the transaction committed
+        const fileBlobService = this.fileBlobService.within(transaction);
+        for (const reference of references) {
+          await fileBlobService.release(reference.contentHash, reference.filePath);
+        }
+
+        return {
+          id: request.fileId,
+          filename: file.filename,
+          purged: true,
+          message: `File '${file.filename}' has been permanently deleted`
+        };
+      });
+    } catch (error) {
+      if (error instanceof DomainError) {
+        throw error;
+      }
+      throw new Error(`Failed to purge file: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Lists the blob references held by a file
+   * Each revision holds one reference; content stored before blobs existed is identified by its path only
+   */
+  private collectReferences(
+    contentHash: string | undefined,
+    filePath: string,
+    versions: FileVersion[]
+  ): Array<{ contentHash?: string; filePath: string }> {
+    if (versions.length === 0) {
+      return [{ contentHash, filePath }];
+    }
+
+    const references: Array<{ contentHash?: string; filePath: string }> = [];
+    const legacyPaths = new Set<string>();
+
+    for (const version of versions) {
+      if (version.contentHash) {
+        references.push({ contentHash: version.contentHash, filePath: version.filePath });
+      } else if (!legacyPaths.has(version.filePath)) {
+        legacyPaths.add(version.filePath);
+        references.push({ filePath: version.filePath });
+      }
+    }
+
+    return references;
+  }
+
+  /**
+   * Validates the purge request
+   */
+  private validateRequest(request: PurgeFileRequest): void {
+    if (!request) {
+      throw new ValidationError('Purge request is required');
+    }
+
+    if (!request.fileId || request.fileId.trim().length === 0) {
+      throw new ValidationError('File ID is required');
+    }
+
+    // Basic UUID format validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(request.fileId)) {
+      throw new ValidationError('File ID must be a valid UUID', 'fileId');
+    }
+  }
+}
\ No newline at end of file
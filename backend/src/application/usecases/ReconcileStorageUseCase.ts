@@ -0,0 +1,187 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IUseCase } from './IUseCase';
+import { IFileRepository, IStorageReconciliationReportRepository } from '../../domain/repositories';
+import {
+  StorageReconciliationReport,
+  StoredContentReference,
+  OrphanedStorageFile,
+  StorageSizeMismatch,
+  ReconciliationTrigger
+} from '../../domain/entities';
+import { IFileStorage, FileStats } from '../interfaces';
+import { ValidationError } from '../../domain/errors';
+
+/**
+ * Request model for reconciling storage with the database
+ * A dry run only reports; otherwise orphaned files are deleted from storage
+ */
+export interface ReconcileStorageRequest {
+  dryRun: boolean;
+  trigger?: ReconciliationTrigger;
+}
+
+/**
+ * Summary of a reconciliation run and its findings
+ */
+export interface StorageReconciliationSummary {
+  id: string;
+  trigger: ReconciliationTrigger;
+  dryRun: boolean;
+  startedAt: Date;
+  finishedAt: Date;
+  consistent: boolean;
+  storedFileCount: number;
+  referenceCount: number;
+  deletedFileCount: number;
+  orphanedFiles: OrphanedStorageFile[];
+  danglingReferences: StoredContentReference[];
+  sizeMismatches: StorageSizeMismatch[];
+}
+
+/**
+ * Maps a reconciliation report to its summary
+ */
+export function toReconciliationSummary(report: StorageReconciliationReport): StorageReconciliationSummary {
+  return {
+    id: report.id,
+    trigger: report.trigger,
+    dryRun: report.dryRun,
+    startedAt: report.startedAt,
+    finishedAt: report.finishedAt,
+    consistent: report.isConsistent(),
+    storedFileCount: report.storedFileCount,
+    referenceCount: report.referenceCount,
+    deletedFileCount: report.getDeletedFiles().length,
+    orphanedFiles: report.orphanedFiles,
+    danglingReferences: report.danglingReferences,
+    sizeMismatches: report.sizeMismatches
+  };
+}
+
+/**
+ * Use case for comparing stored content with the rows pointing at it
+ * Reports stored files no row references (orphans), rows whose content is missing (dangling references)
+ * and rows whose content has a different size than recorded, then persists the report.
+ * Files written within the grace period are never treated as orphans: a streamed upload stores its
+ * content before the rows referencing it are committed
+ */
+export class ReconcileStorageUseCase implements IUseCase<ReconcileStorageRequest, StorageReconciliationSummary> {
+  constructor(
+    private fileRepository: IFileRepository,
+    private fileStorage: IFileStorage,
+    private reportRepository: IStorageReconciliationReportRepository,
+    private orphanGracePeriodMinutes: number = 60
+  ) {}
+
+  async execute(request: ReconcileStorageRequest): Promise<StorageReconciliationSummary> {
+    // Validate input
+    this.validateRequest(request);
+
+    const startedAt = new Date();
+
+    // Read the references before listing storage, so content stored in between can only look orphaned
+    // (and is protected by the grace period) instead of looking missing
+    const references = await this.fileRepository.findStoredContentReferences();
+    const storedPaths = await this.fileStorage.listFiles();
+
+    const referencesByPath = new Map<string, StoredContentReference[]>();
+    for (const reference of references) {
+      const sharing = referencesByPath.get(reference.storagePath) ?? [];
+      sharing.push(reference);
+      referencesByPath.set(reference.storagePath, sharing);
+    }
+
+    // Every referenced path must exist with the recorded size
+    const danglingReferences: StoredContentReference[] = [];
+    const sizeMismatches: StorageSizeMismatch[] = [];
+    for (const [storagePath, sharing] of referencesByPath) {
+      const stats = await this.statIfExists(storagePath);
+      if (!stats) {
+        danglingReferences.push(...sharing);
+        continue;
+      }
+
+      for (const reference of sharing) {
+        if (reference.expectedSize !== stats.size) {
+          sizeMismatches.push({ reference, actualSize: stats.size });
+        }
+      }
+    }
+
+    // Every stored file past the grace period must be referenced
+    const graceCutoff = new Date(startedAt.getTime() - this.orphanGracePeriodMinutes * 60 * 1000);
+    const orphanedFiles: OrphanedStorageFile[] = [];
+    for (const storagePath of storedPaths) {
+      if (referencesByPath.has(storagePath)) {
+        continue;
+      }
+
+      const stats = await this.statIfExists(storagePath);
+      if (!stats || stats.modified > graceCutoff) {
+        continue;
+      }
+
+      orphanedFiles.push({
+        storagePath,
+        size: stats.size,
+        modifiedAt: stats.modified,
+        deleted: request.dryRun ? false : await this.deleteOrphan(storagePath)
+      });
+    }
+
+    const report = await this.reportRepository.save(new StorageReconciliationReport(
+      uuidv4(),
+      request.trigger ?? 'manual',
+      request.dryRun,
+      startedAt,
+      new Date(),
+      storedPaths.length,
+      references.length,
+      orphanedFiles,
+      danglingReferences,
+      sizeMismatches
+    ));
+
+    return toReconciliationSummary(report);
+  }
+
+  /**
+   * Gets the stats of stored content, or null when it does not exist (anymore)
+   */
+  private async statIfExists(storagePath: string): Promise<FileStats | null> {
+    try {
+      return await this.fileStorage.getFileStats(storagePath);
+    } catch (error) {
+      if (!(await this.fileStorage.fileExists(storagePath))) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes an orphaned file; a failure is recorded in the report rather than aborting the run
+   */
+  private async deleteOrphan(storagePath: string): Promise<boolean> {
+    try {
+      await this.fileStorage.deleteFile(storagePath);
+      return true;
+    } catch (error) {
+      console.error(`Failed to delete orphaned file '${storagePath}':`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Validates the reconciliation request
+   */
+  private validateRequest(request: ReconcileStorageRequest): void {
+    if (!request) {
+      throw new ValidationError('Reconciliation request is required');
+    }
+
+    if (typeof request.dryRun !== 'boolean') {
+      throw new ValidationError('dryRun must be a boolean', 'dryRun');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { IUseCase } from './IUseCase';
+import { IUserRepository, IRefreshTokenRepository } from '../../domain/repositories';
+import { ITokenService } from '../interfaces';
+import { AuthSession, startSession } from './LoginUseCase';
+import { DomainError, UnauthorizedError, ValidationError } from '../../domain/errors';
+
+/**
+ * Request model for exchanging a refresh token
+ */
+export interface RefreshSessionRequest {
+  refreshToken: string;
+}
+
+/**
+ * Use case for exchanging a refresh token for a new access and refresh token
+ * Refresh tokens are single use: the one presented is revoked, and presenting a revoked one again
+ * revokes every refresh token of the user, since it can only have been copied
+ */
+export class RefreshSessionUseCase implements IUseCase<RefreshSessionRequest, AuthSession> {
+  constructor(
+    private userRepository: IUserRepository,
+    private refreshTokenRepository: IRefreshTokenRepository,
+    private tokenService: ITokenService
+  ) {}
+
+  async execute(request: RefreshSessionRequest): Promise<AuthSession> {
+    // Validate input
+    this.validateRequest(request);
+
+    const claims = this.tokenService.verifyRefreshToken(request.refreshToken);
+
+    try {
+      const record = await this.refreshTokenRepository.findById(claims.tokenId);
+      if (!record || record.userId !== claims.userId || record.isExpired()) {
+        throw new UnauthorizedError('Refresh token is not valid');
+      }
+
+      // Revoking only succeeds once, so concurrent refreshes with the same token count as reuse too
+      if (record.isRevoked() || !(await this.refreshTokenRepository.revoke(record.id))) {
+        await this.refreshTokenRepository.revokeAllForUser(record.userId);
+        throw new UnauthorizedError('Refresh token has already been used; sign in again');
+      }
+
+      const user = await this.userRepository.findById(record.userId);
+      if (!user) {
+        throw new UnauthorizedError('Refresh token is not valid');
+      }
+
+      return await startSession(user, this.refreshTokenRepository, this.tokenService);
+    } catch (error) {
+      if (error instanceof DomainError) {
+        throw error;
+      }
+      throw new Error(`Failed to refresh session: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Validates the refresh request
+   */
+  private validateRequest(request: RefreshSessionRequest): void {
+    if (!request || typeof request.refreshToken !== 'string' || request.refreshToken.trim().length === 0) {
+      throw new ValidationError('Refresh token is required', 'refreshToken');
+    }
+  }
+}
\ No newline at end of file
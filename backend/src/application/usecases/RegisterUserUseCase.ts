@@ -0,0 +1,97 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IUseCase } from './IUseCase';
+import { IUserRepository } from '../../domain/repositories';
+import { User } from '../../domain/entities';
+import { EmailAddress, Password, UserRoleName } from '../../domain/valueobjects';
+import { IPasswordHasher } from '../interfaces';
+import { DomainError, ConflictError, ValidationError } from '../../domain/errors';
+
+/**
+ * Request model for creating an account
+ */
+export interface RegisterUserRequest {
+  email: string;
+  password: string;
+  displayName?: string;
+}
+
+/**
+ * A user account without its credentials
+ */
+export interface UserSummary {
+  id: string;
+  email: string;
+  displayName?: string;
+  role: UserRoleName;
+  createdAt: Date;
+}
+
+/**
+ * Maps a user to what may be shown about it
+ */
+export function toUserSummary(user: User): UserSummary {
+  return {
+    id: user.id,
+    email: user.email,
+    displayName: user.displayName,
+    role: user.role.value,
+    createdAt: user.createdAt
+  };
+}
+
+/**
+ * Use case for creating an account that can sign in with email address and password
+ */
+export class RegisterUserUseCase implements IUseCase<RegisterUserRequest, UserSummary> {
+  constructor(
+    private userRepository: IUserRepository,
+    private passwordHasher: IPasswordHasher
+  ) {}
+
+  async execute(request: RegisterUserRequest): Promise<UserSummary> {
+    // Validate input
+    this.validateRequest(request);
+
+    const email = EmailAddress.create(request.email);
+    const password = Password.create(request.password);
+    const displayName = request.displayName?.trim() || undefined;
+
+    // Each email address can only have one account
+    if (await this.userRepository.findByEmail(email.value)) {
+      throw new ConflictError(`An account with the email address '${email.value}' already exists`);
+    }
+
+    try {
+      const passwordHash = await this.passwordHasher.hash(password.value);
+      const user = await this.userRepository.save(User.create(uuidv4(), email.value, passwordHash, displayName));
+
+      return toUserSummary(user);
+    } catch (error) {
+      if (error instanceof DomainError) {
+        throw error;
+      }
+      throw new Error(`Failed to register user: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Validates the registration request
+   */
+  private validateRequest(request: RegisterUserRequest): void {
+    if (!request) {
+      throw new ValidationError('Registration request is required');
+    }
+
+    if (typeof request.email !== 'string') {
+      throw new ValidationError('Email address is required', 'email');
+    }
+
+    if (typeof request.password !== 'string') {
+      throw new ValidationError('Password is required', 'password');
+    }
+
+    if (request.displayName !== undefined && typeof request.displayName !== 'string') {
+      throw new ValidationError('Display name must be a string', 'displayName');
+    }
+  }
+}
\ No newline at end of file
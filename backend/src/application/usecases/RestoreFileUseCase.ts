@@ -0,0 +1,93 @@
+import { IUseCase } from './IUseCase';
+import { IFileRepository } from '../../domain/repositories';
+import { ConflictError, NotFoundError, ValidationError } from '../../domain/errors';
+import { FileAccessPolicy } from '../services';
+
+/**
+ * Request model for restoring a file from the trash
+ */
+export interface RestoreFileRequest {
+  fileId: string;
+  userId: string;
+}
+
+/**
+ * Response model for a restored file
+ */
+export interface RestoreFileResponse {
+  id: string;
+  filename: string;
+  fileSize: number;
+  contentType: string;
+  contentHash?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Use case for moving a trashed file back to the live files
+ * Filenames are unique among an owner's live files, so a file the owner uploaded under the same name meanwhile blocks the restore.
+ * The caller needs at least the editor role on the file
+ */
+export class RestoreFileUseCase implements IUseCase<RestoreFileRequest, RestoreFileResponse> {
+  constructor(
+    private fileRepository: IFileRepository,
+    private fileAccessPolicy: FileAccessPolicy
+  ) {}
+
+  async execute(request: RestoreFileRequest): Promise<RestoreFileResponse> {
+    // Validate request
+    this.validateRequest(request);
+
+    const trashed = await this.fileRepository.findTrashedById(request.fileId);
+    if (!trashed) {
+      throw new NotFoundError(`File with ID '${request.fileId}' not found in the trash`);
+    }
+    await this.fileAccessPolicy.authorize(trashed, request.userId, 'edit');
+
+    if (await this.fileRepository.existsByFilename(trashed.filename, trashed.ownerId)) {
+      throw new ConflictError(
+        `A file with the name '${trashed.filename}' already exists. Rename or delete it before restoring this file.`
+      );
+    }
+
+    // The file may have been restored or purged concurrently
+    const file = await this.fileRepository.restoreFromTrash(request.fileId);
+    if (!file) {
+      throw new NotFoundError(`File with ID '${request.fileId}' not found in the trash`);
+    }
+
+    return {
+      id: file.id,
+      filename: file.filename,
+      fileSize: file.fileSize,
+      contentType: file.contentType,
+      contentHash: file.contentHash,
+      createdAt: file.createdAt,
+      updatedAt: file.updatedAt
+    };
+  }
+
+  /**
+   * Validates the restore request
+   */
+  private validateRequest(request: RestoreFileRequest): void {
+    if (!request) {
+      throw new ValidationError('Restore request is required');
+    }
+
+    if (!request.fileId || request.fileId.trim().length === 0) {
+      throw new ValidationError('File ID is required');
+    }
+
+    // Basic UUID format validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(request.fileId)) {
+      throw new ValidationError('File ID must be a valid UUID', 'fileId');
+    }
+
+    if (!request.userId) {
+      throw new ValidationError('User ID is required', 'userId');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { IUseCase } from './IUseCase';
+import { IFileRepository, IFileGrantRepository } from '../../domain/repositories';
+import { NotFoundError, ValidationError } from '../../domain/errors';
+import { FileAccessPolicy } from '../services';
+
+/**
+ * Request model for withdrawing the role a user holds on a file
+ */
+export interface RevokeFileAccessRequest {
+  fileId: string;
+  userId: string;
+  granteeId: string;
+}
+
+/**
+ * Use case for withdrawing a user's access to a file
+ * Only the file's owners may revoke access; the user who uploaded the file keeps it
+ */
+export class RevokeFileAccessUseCase implements IUseCase<RevokeFileAccessRequest, void> {
+  constructor(
+    private fileRepository: IFileRepository,
+    private fileGrantRepository: IFileGrantRepository,
+    private fileAccessPolicy: FileAccessPolicy
+  ) {}
+
+  async execute(request: RevokeFileAccessRequest): Promise<void> {
+    // Validate request
+    this.validateRequest(request);
+
+    const file = await this.fileRepository.findById(request.fileId);
+    if (!file) {
+      throw new NotFoundError(`File with ID '${request.fileId}' not found`);
+    }
+    await this.fileAccessPolicy.authorize(file, request.userId, 'share');
+
+    const revoked = await this.fileGrantRepository.delete(file.id, request.granteeId);
+    if (!revoked) {
+      throw new NotFoundError(`User '${request.granteeId}' holds no role on file '${file.filename}'`);
+    }
+  }
+
+  /**
+   * Validates the request
+   */
+  private validateRequest(request: RevokeFileAccessRequest): void {
+    if (!request) {
+      throw new ValidationError('Request is required');
+    }
+
+    // Basic UUID format validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!request.fileId || !uuidRegex.test(request.fileId)) {
+      throw new ValidationError('File ID must be a valid UUID', 'fileId');
+    }
+
+    if (!request.userId) {
+      throw new ValidationError('User ID is required', 'userId');
+    }
+
+    if (!request.granteeId || !uuidRegex.test(request.granteeId)) {
+      throw new ValidationError('User ID of the grantee must be a valid UUID', 'granteeId');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { IUseCase } from './IUseCase';
+import { IFileRepository, IShareLinkRepository } from '../../domain/repositories';
+import { NotFoundError, ValidationError } from '../../domain/errors';
+import { FileAccessPolicy } from '../services';
+
+/**
+ * Request model for revoking a share link
+ */
+export interface RevokeShareLinkRequest {
+  fileId: string;
+  linkId: string;
+  userId: string;
+}
+
+/**
+ * Use case for withdrawing a share link, which stops it from working at once
+ * Only the file's owners may revoke its links
+ */
+export class RevokeShareLinkUseCase implements IUseCase<RevokeShareLinkRequest, void> {
+  constructor(
+    private fileRepository: IFileRepository,
+    private shareLinkRepository: IShareLinkRepository,
+    private fileAccessPolicy: FileAccessPolicy
+  ) {}
+
+  async execute(request: RevokeShareLinkRequest): Promise<void> {
+    // Validate request
+    this.validateRequest(request);
+
+    const file = await this.fileRepository.findById(request.fileId);
+    if (!file) {
+      throw new NotFoundError(`File with ID '${request.fileId}' not found`);
+    }
+    await this.fileAccessPolicy.authorize(file, request.userId, 'share');
+
+    const revoked = await this.shareLinkRepository.revoke(request.linkId, file.id);
+    if (!revoked) {
+      throw new NotFoundError(`File '${file.filename}' has no share link with ID '${request.linkId}' to revoke`);
+    }
+  }
+
+  /**
+   * Validates the request
+   */
+  private validateRequest(request: RevokeShareLinkRequest): void {
+    if (!request) {
+      throw new ValidationError('Request is required');
+    }
+
+    // Basic UUID format validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!request.fileId || !uuidRegex.test(request.fileId)) {
+      throw new ValidationError('File ID must be a valid UUID', 'fileId');
+    }
+
+    if (!request.linkId || !uuidRegex.test(request.linkId)) {
+      throw new ValidationError('Share link ID must be a valid UUID', 'linkId');
+    }
+
+    if (!request.userId) {
+      throw new ValidationError('User ID is required', 'userId');
+    }
+  }
+}
\ No newline at end of file
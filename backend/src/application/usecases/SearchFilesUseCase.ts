@@ -0,0 +1,130 @@
+import { IUseCase } from './IUseCase';
+import { IFileRepository } from '../../domain/repositories';
+import { File } from '../../domain/entities';
+import { FileSummary } from './GetAllFilesUseCase';
+import { ValidationError } from '../../domain/errors';
+
+/**
+ * Request model for a full-text search across files
+ * With a userId only files that user may read are searched
+ */
+export interface SearchFilesRequest {
+  query: string;
+  contentType?: string;
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  limit?: number;
+  userId?: string;
+}
+
+/**
+ * A search hit: file metadata plus relevance and a highlighted snippet
+ */
+export interface FileSearchHitSummary extends FileSummary {
+  rank: number;
+  snippet: string;
+}
+
+/**
+ * Response model for a full-text search
+ */
+export interface SearchFilesResponse {
+  query: string;
+  results: FileSearchHitSummary[];
+  totalCount: number;
+  page: number;
+  limit: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+/**
+ * Use case for searching inside document bodies and names
+ * Returns hits ranked by relevance, optionally filtered by content type and creation date
+ */
+export class SearchFilesUseCase implements IUseCase<SearchFilesRequest, SearchFilesResponse> {
+  // Maximum accepted length of a search query
+  public static readonly MAX_QUERY_LENGTH = 200;
+
+  constructor(private fileRepository: IFileRepository) {}
+
+  async execute(request: SearchFilesRequest): Promise<SearchFilesResponse> {
+    // Validate request
+    this.validateRequest(request);
+
+    // Set defaults
+    const query = request.query.trim();
+    const page = Math.max(1, request.page || 1);
+    const limit = Math.min(100, Math.max(1, request.limit || 20));
+
+    const result = await this.fileRepository.searchByContent({
+      query,
+      contentType: request.contentType,
+      startDate: request.startDate,
+      endDate: request.endDate,
+      accessibleBy: request.userId,
+      offset: (page - 1) * limit,
+      limit
+    });
+
+    const totalPages = Math.ceil(result.totalCount / limit);
+
+    return {
+      query,
+      results: result.hits.map(hit => ({
+        id: hit.file.id,
+        filename: hit.file.filename,
+        fileSize: hit.file.fileSize,
+        formattedSize: hit.file.getFormattedSize(),
+        contentType: hit.file.contentType,
+        contentHash: hit.file.contentHash,
+        createdAt: hit.file.createdAt,
+        updatedAt: hit.file.updatedAt,
+        rank: hit.rank,
+        snippet: hit.snippet
+      })),
+      totalCount: result.totalCount,
+      page,
+      limit,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1
+    };
+  }
+
+  /**
+   * Validates the search request
+   */
+  private validateRequest(request: SearchFilesRequest): void {
+    if (!request) {
+      throw new ValidationError('Search request is required');
+    }
+
+    if (typeof request.query !== 'string' || request.query.trim().length === 0) {
+      throw new ValidationError('Search query is required');
+    }
+
+    if (request.query.length > SearchFilesUseCase.MAX_QUERY_LENGTH) {
+      throw new ValidationError(`Search query cannot exceed ${SearchFilesUseCase.MAX_QUERY_LENGTH} characters`);
+    }
+
+    if (request.contentType) {
+      const allowedTypes = File.ALLOWED_CONTENT_TYPES;
+      if (!allowedTypes.includes(request.contentType)) {
+        throw new ValidationError(`Content type must be one of: ${allowedTypes.join(', ')}`);
+      }
+    }
+
+    if (request.startDate && isNaN(request.startDate.getTime())) {
+      throw new ValidationError('Start date must be a valid date');
+    }
+
+    if (request.endDate && isNaN(request.endDate.getTime())) {
+      throw new ValidationError('End date must be a valid date');
+    }
+
+    if (request.startDate && request.endDate && request.startDate > request.endDate) {
+      throw new ValidationError('Start date must be before end date');
+    }
+  }
+}
\ No newline at end of file
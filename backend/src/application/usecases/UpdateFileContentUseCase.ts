@@ -0,0 +1,160 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IUseCase } from './IUseCase';
+import { IFileRepository } from '../../domain/repositories';
+import { FileVersion } from '../../domain/entities';
+import { FileSize } from '../../domain/valueobjects';
+import { FileContentService, FileSearchTextService } from '../../domain/services';
+import { FileBlobService, FileAccessPolicy } from '../services';
+import { IUnitOfWork } from '../interfaces';
+import { DomainError, ConcurrencyError, NotFoundError, ValidationError } from '../../domain/errors';
+
+/**
+ * Request model for replacing the content of an existing file
+ * expectedVersions lists the revisions the change is based on; the update is rejected with a
+ * ConcurrencyError unless the current revision is one of them. Every update stores a new revision,
+ * so content that was changed and then changed back still counts as changed. Omit it to replace any current content
+ */
+export interface UpdateFileContentRequest {
+  fileId: string;
+  userId: string;
+  content: Buffer;
+  expectedVersions?: number[];
+}
+
+/**
+ * Response model for a content update
+ */
+export interface UpdateFileContentResponse {
+  id: string;
+  filename: string;
+  version: number;
+  fileSize: number;
+  formattedSize: string;
+  contentType: string;
+  contentHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Use case for storing a new revision of an existing file
+ * Keeps the file identity and history while moving it to the new content; a rejected or failed
+ * update rolls back completely, removing the content it stored. The caller needs at least the editor role on the file
+ */
+export class UpdateFileContentUseCase implements IUseCase<UpdateFileContentRequest, UpdateFileContentResponse> {
+  constructor(
+    private fileRepository: IFileRepository,
+    private fileBlobService: FileBlobService,
+    private unitOfWork: IUnitOfWork,
+    private fileAccessPolicy: FileAccessPolicy,
+    private fileContentService: FileContentService = new FileContentService(),
+    private fileSearchTextService: FileSearchTextService = new FileSearchTextService()
+  ) {}
+
+  async execute(request: UpdateFileContentRequest): Promise<UpdateFileContentResponse> {
+    // Validate input
+    this.validateRequest(request);
+
+    // Find file in database
+    const file = await this.fileRepository.findById(request.fileId);
+    if (!file) {
+      throw new NotFoundError(`File with ID '${request.fileId}' not found`);
+    }
+    await this.fileAccessPolicy.authorize(file, request.userId, 'edit');
+
+    // Reject changes based on a revision that has been replaced in the meantime
+    if (request.expectedVersions && !request.expectedVersions.includes(file.currentVersion)) {
+      throw new ConcurrencyError('File', file.id, `File '${file.filename}' has changed since it was read; reload it and retry`);
+    }
+
+    // New revisions must keep the content type of the file, whatever their bytes claim
+    const contentType = this.fileContentService.detectContentType(file.filename, request.content);
+    if (contentType !== file.contentType) {
+      throw new ValidationError(`File content is ${contentType}, but '${file.filename}' is ${file.contentType}`, 'content');
+    }
+
+    // Store content in its safe form, e.g. HTML without scripts
+    const content = this.fileContentService.sanitizeContent(request.content, file.contentType);
+
+    // Create value objects for validation
+    const fileSize = FileSize.create(content.length, file.contentType);
+
+    // Validate content matches content type
+    if (!this.fileContentService.validateFileContent(content, file.contentType)) {
+      throw new ValidationError(`File content is not valid for content type: ${file.contentType}`);
+    }
+
+    try {
+      return await this.unitOfWork.run(async transaction => {
+        // Store the new revision, sharing the blob with any identical content already stored
+        const blob = await this.fileBlobService.within(transaction).store(content, file.filename);
+
+        // Point the file at the new revision, unless another update got there first
+        const savedFile = await transaction.files.save(
+          file.withNewVersion(blob.storagePath, fileSize.value, blob.contentHash)
+        );
+
+        // Record the revision in the history
+        const version = await transaction.fileVersions.save(
+          FileVersion.create(uuidv4(), savedFile.id, savedFile.currentVersion, blob.storagePath, fileSize.value, file.contentType, blob.contentHash)
+        );
+
+        // Index the content for full-text search
+        await transaction.files.updateSearchText(
+          savedFile.id,
+          this.fileContentService.isBinary(file.contentType)
+            ? ''
+            : this.fileSearchTextService.extractSearchText(content.toString('utf8'), file.contentType)
+        );
+
+        return {
+          id: savedFile.id,
+          filename: savedFile.filename,
+          version: version.versionNumber,
+          fileSize: savedFile.fileSize,
+          formattedSize: savedFile.getFormattedSize(),
+          contentType: savedFile.contentType,
+          contentHash: blob.contentHash,
+          createdAt: savedFile.createdAt,
+          updatedAt: savedFile.updatedAt
+        };
+      });
+    } catch (error) {
+      if (error instanceof DomainError) {
+        throw error;
+      }
+      throw new Error(`Failed to update file content: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Validates the update request
+   */
+  private validateRequest(request: UpdateFileContentRequest): void {
+    if (!request) {
+      throw new ValidationError('Update request is required');
+    }
+
+    if (!request.fileId || request.fileId.trim().length === 0) {
+      throw new ValidationError('File ID is required');
+    }
+
+    // Basic UUID format validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(request.fileId)) {
+      throw new ValidationError('File ID must be a valid UUID', 'fileId');
+    }
+
+    if (!request.userId) {
+      throw new ValidationError('User ID is required', 'userId');
+    }
+
+    if (!Buffer.isBuffer(request.content)) {
+      throw new ValidationError('File content must be a buffer');
+    }
+
+    if (request.content.length === 0) {
+      throw new ValidationError('File content cannot be empty');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,166 @@
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { v4 as uuidv4 } from 'uuid';
+import { IUseCase } from './IUseCase';
+import { UploadFileResponse } from './UploadFileUseCase';
+import { IFileRepository } from '../../domain/repositories';
+import { File, FileVersion } from '../../domain/entities';
+import { FileName } from '../../domain/valueobjects';
+import { FileContentService, FileSearchTextService } from '../../domain/services';
+import { FileBlobService, WrittenContent } from '../services';
+import { IUnitOfWork } from '../interfaces';
+import { DomainError, ConflictError, ValidationError } from '../../domain/errors';
+
+/**
+ * Request model for a streaming upload
+ * ownerId names the uploading user, who becomes the file's owner
+ */
+export interface UploadFileStreamRequest {
+  filename: string;
+  content: Readable;
+  ownerId?: string;
+}
+
+/**
+ * Use case for uploading a file whose content arrives as a stream
+ * Content goes to storage as it is received while size, hash and validity are computed on the fly,
+ * so memory use does not grow with the file size. The content type named by the extension is confirmed
+ * from the leading bytes once the upload is complete. The upload itself happens outside the transaction;
+ * only registering the written content and the file rows runs inside it
+ */
+export class UploadFileStreamUseCase implements IUseCase<UploadFileStreamRequest, UploadFileResponse> {
+  // Only the beginning of very large documents is kept for the full-text index
+  public static readonly MAX_INDEXED_TEXT_LENGTH = 256 * 1024;
+
+  constructor(
+    private fileRepository: IFileRepository,
+    private fileBlobService: FileBlobService,
+    private unitOfWork: IUnitOfWork,
+    private fileContentService: FileContentService = new FileContentService(),
+    private fileSearchTextService: FileSearchTextService = new FileSearchTextService()
+  ) {}
+
+  async execute(request: UploadFileStreamRequest): Promise<UploadFileResponse> {
+    // Validate input
+    this.validateRequest(request);
+
+    // Create value objects for validation
+    const fileName = FileName.create(request.filename);
+
+    // Validate against the type the extension names; the content has to confirm it below
+    const contentType = this.fileContentService.getContentType(request.filename);
+    const binary = this.fileContentService.isBinary(contentType);
+
+    // Content that is rewritten before it is stored must be uploaded whole
+    if (this.fileContentService.requiresSanitizing(contentType)) {
+      request.content.resume();
+      throw new ValidationError(`${contentType} files cannot be streamed; upload them with POST /files/upload so they can be sanitized`);
+    }
+
+    // Check if the owner already has a file with this name before consuming the stream
+    const existingFile = await this.fileRepository.findByFilename(request.filename, request.ownerId);
+    if (existingFile) {
+      request.content.resume();
+      throw new ConflictError(`A file with the name '${request.filename}' already exists`);
+    }
+
+    // Validate, keep the leading bytes for type detection and collect indexable text while the bytes pass through
+    const validator = this.fileContentService.createStreamingValidator(contentType);
+    const decoder = new StringDecoder('utf8');
+    const headChunks: Buffer[] = [];
+    let headLength = 0;
+    let indexedText = '';
+    const inspectChunk = (chunk: Buffer): void => {
+      validator.update(chunk);
+      if (headLength < FileContentService.SNIFF_LENGTH) {
+        headChunks.push(Buffer.from(chunk.subarray(0, FileContentService.SNIFF_LENGTH - headLength)));
+        headLength += Math.min(chunk.length, FileContentService.SNIFF_LENGTH - headLength);
+      }
+      if (!binary && indexedText.length < UploadFileStreamUseCase.MAX_INDEXED_TEXT_LENGTH) {
+        indexedText += decoder.write(chunk);
+      }
+    };
+
+    let written: WrittenContent;
+    try {
+      written = await this.fileBlobService.writeStream(request.content, request.filename, this.fileContentService.getMaxSize(contentType), inspectChunk);
+    } catch (error) {
+      if (error instanceof DomainError) {
+        throw error;
+      }
+      throw new Error(`Failed to upload file: ${(error as Error).message}`);
+    }
+
+    // Content whose bytes belong to another type, or whose type is not accepted, is removed again
+    try {
+      this.fileContentService.detectContentType(request.filename, Buffer.concat(headChunks));
+    } catch (error) {
+      await this.fileBlobService.discard(written);
+      throw error;
+    }
+
+    // Validate content matches content type
+    if (!validator.finish()) {
+      await this.fileBlobService.discard(written);
+      throw new ValidationError(`File content is not valid for content type: ${contentType}`);
+    }
+
+    const searchText = (indexedText + decoder.end()).slice(0, UploadFileStreamUseCase.MAX_INDEXED_TEXT_LENGTH);
+
+    try {
+      return await this.unitOfWork.run(async transaction => {
+        // Register the written content, sharing the blob with any identical content already stored
+        const blob = await this.fileBlobService.within(transaction).register(written);
+
+        // Create file entity
+        const file = File.create(uuidv4(), fileName.value, blob.storagePath, blob.size, contentType, blob.contentHash, request.ownerId);
+
+        // Save to database
+        const savedFile = await transaction.files.save(file);
+
+        // Record the initial revision
+        await transaction.fileVersions.save(
+          FileVersion.create(uuidv4(), savedFile.id, savedFile.currentVersion, blob.storagePath, blob.size, contentType, blob.contentHash)
+        );
+
+        // Index the content for full-text search
+        await transaction.files.updateSearchText(
+          savedFile.id,
+          this.fileSearchTextService.extractSearchText(searchText, contentType)
+        );
+
+        return {
+          id: savedFile.id,
+          filename: savedFile.filename,
+          fileSize: savedFile.fileSize,
+          contentType: savedFile.contentType,
+          version: savedFile.currentVersion,
+          contentHash: blob.contentHash,
+          createdAt: savedFile.createdAt
+        };
+      });
+    } catch (error) {
+      if (error instanceof DomainError) {
+        throw error;
+      }
+      throw new Error(`Failed to upload file: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Validates the streaming upload request
+   */
+  private validateRequest(request: UploadFileStreamRequest): void {
+    if (!request) {
+      throw new ValidationError('Upload request is required');
+    }
+
+    if (!request.filename || request.filename.trim().length === 0) {
+      throw new ValidationError('Filename is required');
+    }
+
+    if (!request.content || typeof request.content.pipe !== 'function') {
+      throw new ValidationError('File content stream is required');
+    }
+  }
+}
\ No newline at end of file
@@ -1,17 +1,21 @@
 import { v4 as uuidv4 } from 'uuid';
 import { IUseCase } from './IUseCase';
 import { IFileRepository } from '../../domain/repositories';
-import { File } from '../../domain/entities';
+import { File, FileVersion } from '../../domain/entities';
 import { FileName, FileSize } from '../../domain/valueobjects';
-import { FileStorageService } from '../../infrastructure/services';
+import { FileContentService, FileSearchTextService } from '../../domain/services';
+import { FileBlobService } from '../services';
+import { IUnitOfWork } from '../interfaces';
+import { DomainError, ConflictError, ValidationError } from '../../domain/errors';
 
 /**
  * Request model for file upload
+ * ownerId names the uploading user, who becomes the file's owner
  */
 export interface UploadFileRequest {
   filename: string;
-  content: string;
-  contentType?: string;
+  content: Buffer;
+  ownerId?: string;
 }
 
 /**
@@ -22,17 +26,23 @@ export interface UploadFileResponse {
   filename: string;
   fileSize: number;
   contentType: string;
+  version: number;
+  contentHash: string;
   createdAt: Date;
 }
 
 /**
  * Use case for uploading a new file to the system
- * Handles validation, storage, and database persistence
+ * Handles validation, storage, and database persistence; the file, its first revision and its blob
+ * reference are written in one transaction, and newly stored content is removed again if it rolls back
  */
 export class UploadFileUseCase implements IUseCase<UploadFileRequest, UploadFileResponse> {
   constructor(
     private fileRepository: IFileRepository,
-    private fileStorageService: FileStorageService
+    private fileBlobService: FileBlobService,
+    private unitOfWork: IUnitOfWork,
+    private fileContentService: FileContentService = new FileContentService(),
+    private fileSearchTextService: FileSearchTextService = new FileSearchTextService()
   ) {}
 
   async execute(request: UploadFileRequest): Promise<UploadFileResponse> {
@@ -41,50 +51,74 @@ export class UploadFileUseCase implements IUseCase<UploadFileRequest, UploadFile
 
     // Create value objects for validation
     const fileName = FileName.create(request.filename);
-    const contentSize = Buffer.byteLength(request.content, 'utf8');
-    const fileSize = FileSize.create(contentSize);
 
-    // Determine content type
-    const contentType = request.contentType || this.fileStorageService.getContentType(request.filename);
+    // Determine content type from the content itself, checked against the extension
+    const contentType = this.fileContentService.detectContentType(request.filename, request.content);
+
+    // Store content in its safe form, e.g. HTML without scripts
+    const content = this.fileContentService.sanitizeContent(request.content, contentType);
+    const fileSize = FileSize.create(content.length, contentType);
 
     // Validate content matches content type
-    if (!this.fileStorageService.validateFileContent(request.content, contentType)) {
-      throw new Error(`File content is not valid for content type: ${contentType}`);
+    if (!this.fileContentService.validateFileContent(content, contentType)) {
+      throw new ValidationError(`File content is not valid for content type: ${contentType}`);
     }
 
-    // Check if filename already exists
-    const existingFile = await this.fileRepository.findByFilename(request.filename);
+    // Check if the owner already has a file with this name
+    const existingFile = await this.fileRepository.findByFilename(request.filename, request.ownerId);
     if (existingFile) {
-      throw new Error(`A file with the name '${request.filename}' already exists`);
+      throw new ConflictError(`A file with the name '${request.filename}' already exists`);
     }
 
     try {
-      // Store file content to disk
-      const filePath = await this.fileStorageService.storeFile(request.content, request.filename);
-
-      // Create file entity
-      const fileId = uuidv4();
-      const file = File.create(
-        fileId,
-        fileName.value,
-        filePath,
-        fileSize.value,
-        contentType
-      );
-
-      // Save to database
-      const savedFile = await this.fileRepository.save(file);
-
-      // Return response
-      return {
-        id: savedFile.id,
-        filename: savedFile.filename,
-        fileSize: savedFile.fileSize,
-        contentType: savedFile.contentType,
-        createdAt: savedFile.createdAt
-      };
+      return await this.unitOfWork.run(async transaction => {
+        // Store file content, sharing the blob with any identical content already stored
+        const blob = await this.fileBlobService.within(transaction).store(content, request.filename);
+
+        // Create file entity
+        const fileId = uuidv4();
+        const file = File.create(
+          fileId,
+          fileName.value,
+          blob.storagePath,
+          fileSize.value,
+          contentType,
+          blob.contentHash,
+          request.ownerId
+        );
+
+        // Save to database
+        const savedFile = await transaction.files.save(file);
+
+        // Record the initial revision
+        await transaction.fileVersions.save(
+          FileVersion.create(uuidv4(), savedFile.id, savedFile.currentVersion, blob.storagePath, fileSize.value, contentType, blob.contentHash)
+        );
+
+        // Index the content for full-text search
+        await transaction.files.updateSearchText(
+          savedFile.id,
+          this.fileContentService.isBinary(contentType)
+            ? ''
+            : this.fileSearchTextService.extractSearchText(content.toString('utf8'), contentType)
+        );
+
+        // Return response
+        return {
+          id: savedFile.id,
+          filename: savedFile.filename,
+          fileSize: savedFile.fileSize,
+          contentType: savedFile.contentType,
+          version: savedFile.currentVersion,
+          contentHash: blob.contentHash,
+          createdAt: savedFile.createdAt
+        };
+      });
     } catch (error) {
-      // If database save fails, cleanup the stored file
+      // The transaction has been rolled back and newly stored content removed
+      if (error instanceof DomainError) {
+        throw error;
+      }
       throw new Error(`Failed to upload file: ${(error as Error).message}`);
     }
   }
@@ -94,27 +128,19 @@ export class UploadFileUseCase implements IUseCase<UploadFileRequest, UploadFile
    */
   private validateRequest(request: UploadFileRequest): void {
     if (!request) {
-      throw new Error('Upload request is required');
+      throw new ValidationError('Upload request is required');
     }
 
     if (!request.filename || request.filename.trim().length === 0) {
-      throw new Error('Filename is required');
+      throw new ValidationError('Filename is required');
     }
 
-    if (typeof request.content !== 'string') {
-      throw new Error('File content must be a string');
+    if (!Buffer.isBuffer(request.content)) {
+      throw new ValidationError('File content must be a buffer');
     }
 
     if (request.content.length === 0) {
-      throw new Error('File content cannot be empty');
-    }
-
-    // Additional content type validation if provided
-    if (request.contentType) {
-      const allowedTypes = File.ALLOWED_CONTENT_TYPES;
-      if (!allowedTypes.includes(request.contentType as any)) {
-        throw new Error(`Content type must be one of: ${allowedTypes.join(', ')}`);
-      }
+      throw new ValidationError('File content cannot be empty');
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { createHash } from 'crypto';
+import { IUseCase } from './IUseCase';
+import { IFileBlobRepository } from '../../domain/repositories';
+import { FileBlob } from '../../domain/entities';
+import { IFileStorage } from '../interfaces';
+import { NotFoundError } from '../../domain/errors';
+
+/**
+ * Request model for verifying stored content
+ */
+export interface VerifyStoredContentRequest {
+  batchSize?: number;
+}
+
+/**
+ * A blob whose stored content failed verification
+ * Unreadable content carries the read error; it is flagged like corrupted content so one broken
+ * object cannot hold up the rest of the scrub
+ */
+export interface CorruptedBlob {
+  hash: string;
+  storagePath: string;
+  reason: 'missing' | 'mismatch' | 'unreadable';
+  actualHash?: string;
+  error?: string;
+}
+
+/**
+ * Response model for verifying stored content
+ */
+export interface VerifyStoredContentResponse {
+  checked: number;
+  corrupted: CorruptedBlob[];
+}
+
+/**
+ * Use case for detecting silent corruption (bit rot) of stored content
+ * Re-hashes one batch of blobs, least recently verified first, and records the outcome on every blob;
+ * repeated runs cycle through all stored content
+ */
+export class VerifyStoredContentUseCase implements IUseCase<VerifyStoredContentRequest, VerifyStoredContentResponse> {
+  constructor(
+    private fileBlobRepository: IFileBlobRepository,
+    private fileStorage: IFileStorage
+  ) {}
+
+  async execute(request: VerifyStoredContentRequest = {}): Promise<VerifyStoredContentResponse> {
+    const batchSize = Math.max(1, request.batchSize || 100);
+
+    const blobs = await this.fileBlobRepository.findLeastRecentlyVerified(batchSize);
+
+    const response: VerifyStoredContentResponse = { checked: 0, corrupted: [] };
+    for (const blob of blobs) {
+      const corruption = await this.verify(blob);
+      await this.fileBlobRepository.recordVerification(blob.hash, new Date(), corruption !== null);
+
+      response.checked++;
+      if (corruption) {
+        response.corrupted.push(corruption);
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Re-hashes the stored content of a blob
+   * @returns The corruption found, or null when the content matches its hash
+   */
+  private async verify(blob: FileBlob): Promise<CorruptedBlob | null> {
+    let actualHash: string;
+    try {
+      const hash = createHash('sha256');
+      for await (const chunk of await this.fileStorage.createReadStream(blob.storagePath)) {
+        hash.update(chunk);
+      }
+      actualHash = hash.digest('hex');
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return { hash: blob.hash, storagePath: blob.storagePath, reason: 'missing' };
+      }
+      return { hash: blob.hash, storagePath: blob.storagePath, reason: 'unreadable', error: (error as Error).message };
+    }
+
+    if (actualHash !== blob.hash) {
+      return { hash: blob.hash, storagePath: blob.storagePath, reason: 'mismatch', actualHash };
+    }
+
+    return null;
+  }
+}
\ No newline at end of file
@@ -2,4 +2,39 @@ export * from './IUseCase';
 export * from './UploadFileUseCase';
 export * from './GetAllFilesUseCase';
 export * from './GetFileContentUseCase';
-export * from './DeleteFileUseCase';
\ No newline at end of file
+export * from './DeleteFileUseCase';
+export * from './UpdateFileContentUseCase';
+export * from './GetFileVersionsUseCase';
+export * from './GetFileVersionContentUseCase';
+export * from './GetFileDiffUseCase';
+export * from './SearchFilesUseCase';
+export * from './UploadFileStreamUseCase';
+export * from './GetFileStreamUseCase';
+export * from './PurgeFileUseCase';
+export * from './RestoreFileUseCase';
+export * from './GetTrashedFilesUseCase';
+export * from './PurgeExpiredFilesUseCase';
+export * from './ReconcileStorageUseCase';
+export * from './GetStorageReconciliationReportsUseCase';
+export * from './GetStorageReconciliationReportUseCase';
+export * from './VerifyStoredContentUseCase';
+export * from './GetContentTypesUseCase';
+export * from './RegisterUserUseCase';
+export * from './LoginUseCase';
+export * from './RefreshSessionUseCase';
+export * from './LogoutUseCase';
+export * from './GetCurrentUserUseCase';
+export * from './GrantFileAccessUseCase';
+export * from './GetFileGrantsUseCase';
+export * from './RevokeFileAccessUseCase';
+export * from './GetStorageStatsUseCase';
+export * from './GetUsersUseCase';
+export * from './ChangeUserRoleUseCase';
+export * from './CreateApiKeyUseCase';
+export * from './GetApiKeysUseCase';
+export * from './DeleteApiKeyUseCase';
+export * from './AuthenticateApiKeyUseCase';
+export * from './CreateShareLinkUseCase';
+export * from './GetShareLinksUseCase';
+export * from './RevokeShareLinkUseCase';
+export * from './OpenShareLinkUseCase';
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { BaseEntity } from './BaseEntity';
+import { Permission } from '../valueobjects';
+
+/**
+ * ApiKey domain entity recording a personal API key a user created for scripts and CI
+ * Only a hash of the key is stored, next to its first characters so its owner can recognise it.
+ * A key acts for its owner, limited to its scopes, until it expires or is deleted
+ */
+export class ApiKey extends BaseEntity<string> {
+  public readonly userId: string;
+  public readonly name: string;
+  public readonly prefix: string;
+  public readonly keyHash: string;
+  public readonly scopes: readonly Permission[];
+  public readonly expiresAt: Date;
+  public readonly lastUsedAt?: Date;
+
+  constructor(
+    id: string,
+    userId: string,
+    name: string,
+    prefix: string,
+    keyHash: string,
+    scopes: readonly Permission[],
+    expiresAt: Date,
+    createdAt?: Date,
+    lastUsedAt?: Date
+  ) {
+    super(id);
+
+    this.userId = userId;
+    this.name = name;
+    this.prefix = prefix;
+    this.keyHash = keyHash;
+    this.scopes = scopes;
+    this.expiresAt = expiresAt;
+    this.lastUsedAt = lastUsedAt;
+
+    if (createdAt) {
+      (this as any).createdAt = createdAt;
+      (this as any).updatedAt = createdAt;
+    }
+  }
+
+  /**
+   * Checks whether the key is past its expiry
+   */
+  public isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt.getTime() <= now.getTime();
+  }
+
+  /**
+   * Creates the record of a newly generated key
+   */
+  public static create(
+    id: string,
+    userId: string,
+    name: string,
+    prefix: string,
+    keyHash: string,
+    scopes: readonly Permission[],
+    expiresAt: Date
+  ): ApiKey {
+    return new ApiKey(id, userId, name, prefix, keyHash, scopes, expiresAt);
+  }
+}
\ No newline at end of file
@@ -1,4 +1,6 @@
 import { BaseEntity } from './BaseEntity';
+import { PayloadTooLargeError, ValidationError } from '../errors';
+import { contentTypeRegistry } from '../services';
 
 /**
  * File domain entity representing a document in the system
@@ -9,23 +11,26 @@ export class File extends BaseEntity<string> {
   public readonly filePath: string;
   public readonly fileSize: number;
   public readonly contentType: string;
-
-  // Maximum file size: 1MB in bytes
-  public static readonly MAX_FILE_SIZE = 1048576;
+  public readonly currentVersion: number;
+  public readonly contentHash?: string;
+  public readonly rowVersion: number;
+  public readonly deletedAt?: Date;
+  public readonly ownerId?: string;
+
+  // Maximum size of types without a limit of their own, as configured in the size-limit policy
+  public static get MAX_FILE_SIZE(): number {
+    return contentTypeRegistry.getSizeLimits().getDefaultMaxSize();
+  }
   
-  // Allowed content types
-  public static readonly ALLOWED_CONTENT_TYPES = [
-    'text/plain',
-    'text/markdown', 
-    'application/json'
-  ] as const;
-
-  // Allowed file extensions
-  public static readonly ALLOWED_EXTENSIONS = [
-    '.txt',
-    '.md',
-    '.json'
-  ] as const;
+  // Allowed content types, as registered in the content-type registry
+  public static get ALLOWED_CONTENT_TYPES(): readonly string[] {
+    return contentTypeRegistry.getContentTypes();
+  }
+
+  // Allowed file extensions, as registered in the content-type registry
+  public static get ALLOWED_EXTENSIONS(): readonly string[] {
+    return contentTypeRegistry.getExtensions();
+  }
 
   constructor(
     id: string,
@@ -34,18 +39,29 @@ export class File extends BaseEntity<string> {
     fileSize: number,
     contentType: string,
     createdAt?: Date,
-    updatedAt?: Date
+    updatedAt?: Date,
+    currentVersion: number = 1,
+    contentHash?: string,
+    rowVersion: number = 1,
+    deletedAt?: Date,
+    ownerId?: string
   ) {
     super(id);
     
     this.validateFilename(filename);
     this.validateFileSize(fileSize);
     this.validateContentType(contentType);
+    this.validateVersion(currentVersion);
     
     this.filename = filename;
     this.filePath = filePath;
     this.fileSize = fileSize;
     this.contentType = contentType;
+    this.currentVersion = currentVersion;
+    this.contentHash = contentHash;
+    this.rowVersion = rowVersion;
+    this.deletedAt = deletedAt;
+    this.ownerId = ownerId;
     
     if (createdAt) {
       (this as any).createdAt = createdAt;
@@ -60,34 +76,37 @@ export class File extends BaseEntity<string> {
    */
   private validateFilename(filename: string): void {
     if (!filename || filename.trim().length === 0) {
-      throw new Error('Filename cannot be empty');
+      throw new ValidationError('Filename cannot be empty');
     }
 
-    const hasAllowedExtension = File.ALLOWED_EXTENSIONS.some(ext => 
-      filename.toLowerCase().endsWith(ext)
-    );
-
-    if (!hasAllowedExtension) {
-      throw new Error(`File must have one of these extensions: ${File.ALLOWED_EXTENSIONS.join(', ')}`);
+    if (!contentTypeRegistry.findByFilename(filename)) {
+      throw new ValidationError(`File must have one of these extensions: ${File.ALLOWED_EXTENSIONS.join(', ')}`);
     }
 
     // Check for invalid characters
     const invalidChars = /[<>:"/\\|?*\x00-\x1f]/;
     if (invalidChars.test(filename)) {
-      throw new Error('Filename contains invalid characters');
+      throw new ValidationError('Filename contains invalid characters');
     }
   }
 
   /**
-   * Validates that the file size is within allowed limits
+   * Validates that the file size is positive
+   * The size limit only applies to new content, so files stored under an earlier, larger limit still load
    */
   private validateFileSize(fileSize: number): void {
     if (fileSize <= 0) {
-      throw new Error('File size must be greater than 0');
+      throw new ValidationError('File size must be greater than 0');
     }
+  }
 
-    if (fileSize > File.MAX_FILE_SIZE) {
-      throw new Error(`File size cannot exceed ${File.MAX_FILE_SIZE} bytes (1MB)`);
+  /**
+   * Validates that new content is within the size limit of its content type
+   */
+  private static validateSizeLimit(fileSize: number, contentType: string): void {
+    const maxSize = contentTypeRegistry.getSizeLimits().getMaxSize(contentType);
+    if (fileSize > maxSize) {
+      throw new PayloadTooLargeError(`File size cannot exceed ${maxSize} bytes (${Math.round(maxSize / (1024 * 1024) * 100) / 100}MB)`);
     }
   }
 
@@ -95,8 +114,17 @@ export class File extends BaseEntity<string> {
    * Validates that the content type is allowed
    */
   private validateContentType(contentType: string): void {
-    if (!File.ALLOWED_CONTENT_TYPES.includes(contentType as any)) {
-      throw new Error(`Content type must be one of: ${File.ALLOWED_CONTENT_TYPES.join(', ')}`);
+    if (!contentTypeRegistry.get(contentType)) {
+      throw new ValidationError(`Content type must be one of: ${File.ALLOWED_CONTENT_TYPES.join(', ')}`);
+    }
+  }
+
+  /**
+   * Validates that the current version is a positive integer
+   */
+  private validateVersion(version: number): void {
+    if (!Number.isInteger(version) || version < 1) {
+      throw new ValidationError('File version must be a positive integer');
     }
   }
 
@@ -135,6 +163,44 @@ export class File extends BaseEntity<string> {
     return this.contentType === 'application/json';
   }
 
+  /**
+   * Checks if the file has been moved to the trash
+   */
+  public isInTrash(): boolean {
+    return this.deletedAt !== undefined;
+  }
+
+  /**
+   * Checks if the file belongs to a user; files uploaded before ownership was recorded have no owner
+   */
+  public hasOwner(): boolean {
+    return this.ownerId !== undefined;
+  }
+
+  /**
+   * Creates the next revision of this file pointing at newly stored content
+   * Identity, name, content type, owner and creation date are preserved; the row version stays the one
+   * this file was loaded at, so the repository can detect a concurrent update when saving
+   */
+  public withNewVersion(filePath: string, fileSize: number, contentHash?: string): File {
+    File.validateSizeLimit(fileSize, this.contentType);
+
+    return new File(
+      this.id,
+      this.filename,
+      filePath,
+      fileSize,
+      this.contentType,
+      this.createdAt,
+      new Date(),
+      this.currentVersion + 1,
+      contentHash,
+      this.rowVersion,
+      this.deletedAt,
+      this.ownerId
+    );
+  }
+
   /**
    * Creates a new File entity with validation
    */
@@ -143,8 +209,12 @@ export class File extends BaseEntity<string> {
     filename: string,
     filePath: string,
     fileSize: number,
-    contentType: string
+    contentType: string,
+    contentHash?: string,
+    ownerId?: string
   ): File {
-    return new File(id, filename, filePath, fileSize, contentType);
+    const file = new File(id, filename, filePath, fileSize, contentType, undefined, undefined, 1, contentHash, 1, undefined, ownerId);
+    File.validateSizeLimit(fileSize, contentType);
+    return file;
   }
 }
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { BaseEntity } from './BaseEntity';
+import { ValidationError } from '../errors';
+
+/**
+ * FileBlob domain entity representing a stored piece of content shared by files
+ * Identified by the SHA-256 hash of its content and kept alive by a reference count.
+ * The integrity scrub re-hashes stored content and records when it last did and whether it found corruption
+ */
+export class FileBlob extends BaseEntity<string> {
+  public readonly storagePath: string;
+  public readonly size: number;
+  public readonly referenceCount: number;
+  public readonly verifiedAt?: Date;
+  public readonly corruptedAt?: Date;
+
+  constructor(
+    hash: string,
+    storagePath: string,
+    size: number,
+    referenceCount: number,
+    createdAt?: Date,
+    verifiedAt?: Date,
+    corruptedAt?: Date
+  ) {
+    super(hash);
+
+    if (!Number.isInteger(referenceCount) || referenceCount < 0) {
+      throw new ValidationError('Reference count must be a non-negative integer');
+    }
+
+    this.storagePath = storagePath;
+    this.size = size;
+    this.referenceCount = referenceCount;
+    this.verifiedAt = verifiedAt;
+    this.corruptedAt = corruptedAt;
+
+    if (createdAt) {
+      (this as any).createdAt = createdAt;
+      (this as any).updatedAt = createdAt;
+    }
+  }
+
+  /**
+   * The SHA-256 hash of the blob content
+   */
+  public get hash(): string {
+    return this.id;
+  }
+
+  /**
+   * Checks whether any file revision still points at this blob
+   */
+  public isReferenced(): boolean {
+    return this.referenceCount > 0;
+  }
+
+  /**
+   * Checks whether the last verification found the stored content missing or changed
+   */
+  public isCorrupted(): boolean {
+    return this.corruptedAt !== undefined;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { BaseEntity } from './BaseEntity';
+import { FileRole } from '../valueobjects';
+
+/**
+ * FileGrant domain entity giving one user a role on a file they do not own
+ * A user holds at most one grant per file; granting again replaces the role
+ */
+export class FileGrant extends BaseEntity<string> {
+  public readonly fileId: string;
+  public readonly userId: string;
+  public readonly role: FileRole;
+
+  constructor(id: string, fileId: string, userId: string, role: FileRole, createdAt?: Date, updatedAt?: Date) {
+    super(id);
+
+    this.fileId = fileId;
+    this.userId = userId;
+    this.role = role;
+
+    if (createdAt) {
+      (this as any).createdAt = createdAt;
+    }
+    if (updatedAt) {
+      (this as any).updatedAt = updatedAt;
+    }
+  }
+
+  /**
+   * Creates a new grant
+   */
+  public static create(id: string, fileId: string, userId: string, role: FileRole): FileGrant {
+    return new FileGrant(id, fileId, userId, role);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { BaseEntity } from './BaseEntity';
+import { ValidationError } from '../errors';
+
+/**
+ * FileVersion domain entity representing a single stored revision of a file
+ * Revisions are immutable once created; a new upload always yields a new version
+ */
+export class FileVersion extends BaseEntity<string> {
+  public readonly fileId: string;
+  public readonly versionNumber: number;
+  public readonly filePath: string;
+  public readonly fileSize: number;
+  public readonly contentType: string;
+  public readonly contentHash?: string;
+
+  constructor(
+    id: string,
+    fileId: string,
+    versionNumber: number,
+    filePath: string,
+    fileSize: number,
+    contentType: string,
+    createdAt?: Date,
+    contentHash?: string
+  ) {
+    super(id);
+
+    this.validateVersionNumber(versionNumber);
+
+    this.fileId = fileId;
+    this.versionNumber = versionNumber;
+    this.filePath = filePath;
+    this.fileSize = fileSize;
+    this.contentType = contentType;
+    this.contentHash = contentHash;
+
+    if (createdAt) {
+      (this as any).createdAt = createdAt;
+      (this as any).updatedAt = createdAt;
+    }
+  }
+
+  /**
+   * Validates that the version number is a positive integer
+   */
+  private validateVersionNumber(versionNumber: number): void {
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      throw new ValidationError('Version number must be a positive integer');
+    }
+  }
+
+  /**
+   * Gets human-readable file size
+   */
+  public getFormattedSize(): string {
+    if (this.fileSize < 1024) {
+      return `${this.fileSize} bytes`;
+    } else if (this.fileSize < 1024 * 1024) {
+      return `${Math.round(this.fileSize / 1024 * 100) / 100} KB`;
+    } else {
+      return `${Math.round(this.fileSize / (1024 * 1024) * 100) / 100} MB`;
+    }
+  }
+
+  /**
+   * Creates a new FileVersion entity with validation
+   */
+  public static create(
+    id: string,
+    fileId: string,
+    versionNumber: number,
+    filePath: string,
+    fileSize: number,
+    contentType: string,
+    contentHash?: string
+  ): FileVersion {
+    return new FileVersion(id, fileId, versionNumber, filePath, fileSize, contentType, undefined, contentHash);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { BaseEntity } from './BaseEntity';
+
+/**
+ * RefreshToken domain entity recording one issued refresh token, identified by its token ID
+ * The token itself is never stored. Every refresh revokes the token it used, so a revoked token
+ * being presented again means it has leaked
+ */
+export class RefreshToken extends BaseEntity<string> {
+  public readonly userId: string;
+  public readonly expiresAt: Date;
+  public readonly revokedAt?: Date;
+
+  constructor(id: string, userId: string, expiresAt: Date, createdAt?: Date, revokedAt?: Date) {
+    super(id);
+
+    this.userId = userId;
+    this.expiresAt = expiresAt;
+    this.revokedAt = revokedAt;
+
+    if (createdAt) {
+      (this as any).createdAt = createdAt;
+      (this as any).updatedAt = createdAt;
+    }
+  }
+
+  /**
+   * Checks whether the token has been used or signed out
+   */
+  public isRevoked(): boolean {
+    return this.revokedAt !== undefined;
+  }
+
+  /**
+   * Checks whether the token is past its expiry
+   */
+  public isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt.getTime() <= now.getTime();
+  }
+
+  /**
+   * Creates a record for a newly issued refresh token
+   */
+  public static create(id: string, userId: string, expiresAt: Date): RefreshToken {
+    return new RefreshToken(id, userId, expiresAt);
+  }
+}
\ No newline at end of file
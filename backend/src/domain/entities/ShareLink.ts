@@ -0,0 +1,85 @@
+import { BaseEntity } from './BaseEntity';
+
+/**
+ * ShareLink domain entity letting anyone holding its signed URL download a file without an account
+ * A link stops working once it expires, is revoked or has served its maximum number of downloads.
+ * Its optional password is only stored hashed
+ */
+export class ShareLink extends BaseEntity<string> {
+  public readonly fileId: string;
+  public readonly createdBy: string;
+  public readonly expiresAt: Date;
+  public readonly passwordHash?: string;
+  public readonly maxDownloads?: number;
+  public readonly downloadCount: number;
+  public readonly revokedAt?: Date;
+
+  constructor(
+    id: string,
+    fileId: string,
+    createdBy: string,
+    expiresAt: Date,
+    passwordHash?: string,
+    maxDownloads?: number,
+    downloadCount: number = 0,
+    createdAt?: Date,
+    revokedAt?: Date
+  ) {
+    super(id);
+
+    this.fileId = fileId;
+    this.createdBy = createdBy;
+    this.expiresAt = expiresAt;
+    this.passwordHash = passwordHash;
+    this.maxDownloads = maxDownloads;
+    this.downloadCount = downloadCount;
+    this.revokedAt = revokedAt;
+
+    if (createdAt) {
+      (this as any).createdAt = createdAt;
+      (this as any).updatedAt = createdAt;
+    }
+  }
+
+  /**
+   * Checks whether the link is past its expiry
+   */
+  public isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt.getTime() <= now.getTime();
+  }
+
+  /**
+   * Checks whether the file's owner withdrew the link
+   */
+  public isRevoked(): boolean {
+    return this.revokedAt !== undefined;
+  }
+
+  /**
+   * Checks whether the link has served all the downloads it allows
+   */
+  public isExhausted(): boolean {
+    return this.maxDownloads !== undefined && this.downloadCount >= this.maxDownloads;
+  }
+
+  /**
+   * Checks whether downloading requires a password
+   */
+  public isPasswordProtected(): boolean {
+    return this.passwordHash !== undefined;
+  }
+
+  /**
+   * Creates a new link that has not been used yet
+   */
+  public static create(
+    id: string,
+    fileId: string,
+    createdBy: string,
+    expiresAt: Date,
+    passwordHash?: string,
+    maxDownloads?: number
+  ): ShareLink {
+    return new ShareLink(id, fileId, createdBy, expiresAt, passwordHash, maxDownloads);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { BaseEntity } from './BaseEntity';
+import { ValidationError } from '../errors';
+
+/**
+ * A database row pointing at stored content
+ * Files, revisions and blobs each record the storage path of their content and the size expected there
+ */
+export interface StoredContentReference {
+  storagePath: string;
+  expectedSize: number;
+  referencedBy: 'file' | 'version' | 'blob';
+  referenceId: string;
+}
+
+/**
+ * Stored content that no database row points at
+ */
+export interface OrphanedStorageFile {
+  storagePath: string;
+  size: number;
+  modifiedAt: Date;
+  deleted: boolean;
+}
+
+/**
+ * A row whose stored content has a different size than recorded
+ */
+export interface StorageSizeMismatch {
+  reference: StoredContentReference;
+  actualSize: number;
+}
+
+/**
+ * What started a reconciliation run
+ */
+export type ReconciliationTrigger = 'manual' | 'scheduled';
+
+/**
+ * StorageReconciliationReport domain entity recording one comparison of storage with the database
+ * Orphaned files are only removed by runs that are not dry runs; dangling references and size
+ * mismatches are reported for inspection since the content they expect cannot be recovered automatically
+ */
+export class StorageReconciliationReport extends BaseEntity<string> {
+  public readonly trigger: ReconciliationTrigger;
+  public readonly dryRun: boolean;
+  public readonly startedAt: Date;
+  public readonly finishedAt: Date;
+  public readonly storedFileCount: number;
+  public readonly referenceCount: number;
+  public readonly orphanedFiles: OrphanedStorageFile[];
+  public readonly danglingReferences: StoredContentReference[];
+  public readonly sizeMismatches: StorageSizeMismatch[];
+
+  constructor(
+    id: string,
+    trigger: ReconciliationTrigger,
+    dryRun: boolean,
+    startedAt: Date,
+    finishedAt: Date,
+    storedFileCount: number,
+    referenceCount: number,
+    orphanedFiles: OrphanedStorageFile[] = [],
+    danglingReferences: StoredContentReference[] = [],
+    sizeMismatches: StorageSizeMismatch[] = []
+  ) {
+    super(id);
+
+    if (finishedAt < startedAt) {
+      throw new ValidationError('A reconciliation cannot finish before it started');
+    }
+
+    this.trigger = trigger;
+    this.dryRun = dryRun;
+    this.startedAt = startedAt;
+    this.finishedAt = finishedAt;
+    this.storedFileCount = storedFileCount;
+    this.referenceCount = referenceCount;
+    this.orphanedFiles = orphanedFiles;
+    this.danglingReferences = danglingReferences;
+    this.sizeMismatches = sizeMismatches;
+
+    (this as any).createdAt = startedAt;
+    (this as any).updatedAt = finishedAt;
+  }
+
+  /**
+   * Checks whether storage and database matched completely
+   */
+  public isConsistent(): boolean {
+    return this.orphanedFiles.length === 0
+      && this.danglingReferences.length === 0
+      && this.sizeMismatches.length === 0;
+  }
+
+  /**
+   * Gets the orphaned files this run removed from storage
+   */
+  public getDeletedFiles(): OrphanedStorageFile[] {
+    return this.orphanedFiles.filter(file => file.deleted);
+  }
+}
\ No newline at end of file
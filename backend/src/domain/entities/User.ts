@@ -0,0 +1,57 @@
+import { BaseEntity } from './BaseEntity';
+import { ValidationError } from '../errors';
+import { UserRole } from '../valueobjects';
+
+/**
+ * User domain entity representing an account that can sign in to the API
+ * Only the hash of the password is kept; the email address is stored normalized.
+ * New accounts get the user role; admins promote them
+ */
+export class User extends BaseEntity<string> {
+  public readonly email: string;
+  public readonly passwordHash: string;
+  public readonly displayName?: string;
+  public readonly role: UserRole;
+
+  // Longest display name accepted
+  public static readonly MAX_DISPLAY_NAME_LENGTH = 100;
+
+  constructor(
+    id: string,
+    email: string,
+    passwordHash: string,
+    displayName?: string,
+    createdAt?: Date,
+    updatedAt?: Date,
+    role: UserRole = UserRole.USER
+  ) {
+    super(id);
+
+    if (!passwordHash) {
+      throw new ValidationError('Password hash cannot be empty');
+    }
+
+    if (displayName !== undefined && displayName.length > User.MAX_DISPLAY_NAME_LENGTH) {
+      throw new ValidationError(`Display name cannot exceed ${User.MAX_DISPLAY_NAME_LENGTH} characters`, 'displayName');
+    }
+
+    this.email = email;
+    this.passwordHash = passwordHash;
+    this.displayName = displayName;
+    this.role = role;
+
+    if (createdAt) {
+      (this as any).createdAt = createdAt;
+    }
+    if (updatedAt) {
+      (this as any).updatedAt = updatedAt;
+    }
+  }
+
+  /**
+   * Creates a new User entity with validation
+   */
+  public static create(id: string, email: string, passwordHash: string, displayName?: string): User {
+    return new User(id, email, passwordHash, displayName);
+  }
+}
\ No newline at end of file
@@ -1,2 +1,10 @@
 export * from './BaseEntity';
-export * from './File';
\ No newline at end of file
+export * from './File';
+export * from './FileVersion';
+export * from './FileBlob';
+export * from './StorageReconciliationReport';
+export * from './User';
+export * from './RefreshToken';
+export * from './FileGrant';
+export * from './ApiKey';
+export * from './ShareLink';
\ No newline at end of file
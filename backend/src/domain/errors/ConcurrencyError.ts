@@ -0,0 +1,15 @@
+import { DomainError } from './DomainError';
+
+/**
+ * Raised when a change is based on a state of an entity that is no longer current
+ * Another writer modified the entity between the read the change was based on and the write
+ */
+export class ConcurrencyError extends DomainError {
+  constructor(
+    public readonly entityName: string,
+    public readonly entityId: string,
+    message: string = `${entityName} '${entityId}' was modified by someone else; reload it and retry`
+  ) {
+    super(message);
+  }
+}
\ No newline at end of file
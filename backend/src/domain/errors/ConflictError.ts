@@ -0,0 +1,6 @@
+import { DomainError } from './DomainError';
+
+/**
+ * Raised when a change clashes with the current state, such as a duplicate filename
+ */
+export class ConflictError extends DomainError {}
\ No newline at end of file
@@ -0,0 +1,10 @@
+/**
+ * Base class of the errors raised by the domain and application layers
+ * Subclasses say what kind of failure happened; how it is reported is up to the caller
+ */
+export abstract class DomainError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
\ No newline at end of file
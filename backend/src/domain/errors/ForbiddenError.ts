@@ -0,0 +1,6 @@
+import { DomainError } from './DomainError';
+
+/**
+ * Raised when the caller is known but not allowed to perform an action, such as deleting a file shared with them
+ */
+export class ForbiddenError extends DomainError {}
\ No newline at end of file
@@ -0,0 +1,6 @@
+import { DomainError } from './DomainError';
+
+/**
+ * Raised when something existed but can no longer be used, such as an expired or revoked share link
+ */
+export class GoneError extends DomainError {}
\ No newline at end of file
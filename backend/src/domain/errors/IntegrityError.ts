@@ -0,0 +1,15 @@
+import { DomainError } from './DomainError';
+
+/**
+ * Raised when stored content no longer matches the checksum recorded when it was written
+ * Signals corruption of the storage backend rather than a problem with the request
+ */
+export class IntegrityError extends DomainError {
+  constructor(
+    message: string,
+    public readonly expectedHash: string,
+    public readonly actualHash: string
+  ) {
+    super(message);
+  }
+}
\ No newline at end of file
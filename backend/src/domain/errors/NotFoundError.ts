@@ -0,0 +1,6 @@
+import { DomainError } from './DomainError';
+
+/**
+ * Raised when a requested entity does not exist
+ */
+export class NotFoundError extends DomainError {}
\ No newline at end of file
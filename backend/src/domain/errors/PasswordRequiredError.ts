@@ -0,0 +1,10 @@
+import { ForbiddenError } from './ForbiddenError';
+
+/**
+ * Raised when something is protected by a password, such as a share link, and none or a wrong one was given
+ */
+export class PasswordRequiredError extends ForbiddenError {
+  constructor(message: string, public readonly passwordGiven: boolean) {
+    super(message);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,6 @@
+import { DomainError } from './DomainError';
+
+/**
+ * Raised when content exceeds a size limit
+ */
+export class PayloadTooLargeError extends DomainError {}
\ No newline at end of file
@@ -0,0 +1,6 @@
+import { DomainError } from './DomainError';
+
+/**
+ * Raised when a change does not state which version of an entity it is based on
+ */
+export class PreconditionRequiredError extends DomainError {}
\ No newline at end of file
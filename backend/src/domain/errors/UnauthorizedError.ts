@@ -0,0 +1,6 @@
+import { DomainError } from './DomainError';
+
+/**
+ * Raised when a caller cannot be identified, such as missing, invalid or expired credentials
+ */
+export class UnauthorizedError extends DomainError {}
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { DomainError } from './DomainError';
+
+/**
+ * Raised when input breaks a business rule (malformed IDs, disallowed names or types, invalid content)
+ * Names the offending input field when the rule concerns a single one
+ */
+export class ValidationError extends DomainError {
+  constructor(message: string, public readonly field?: string) {
+    super(message);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,12 @@
+export * from './DomainError';
+export * from './ValidationError';
+export * from './NotFoundError';
+export * from './ConflictError';
+export * from './PayloadTooLargeError';
+export * from './PreconditionRequiredError';
+export * from './ConcurrencyError';
+export * from './IntegrityError';
+export * from './UnauthorizedError';
+export * from './ForbiddenError';
+export * from './PasswordRequiredError';
+export * from './GoneError';
\ No newline at end of file
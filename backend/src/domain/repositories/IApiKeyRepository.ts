@@ -0,0 +1,43 @@
+import { ApiKey } from '../entities';
+
+/**
+ * API key repository interface
+ * Keys are looked up by the hash of the key a request presents, never by the key itself
+ */
+export interface IApiKeyRepository {
+  /**
+   * Stores a newly created key
+   * @param apiKey The key record
+   * @returns Promise that resolves to the stored record
+   */
+  save(apiKey: ApiKey): Promise<ApiKey>;
+
+  /**
+   * Finds the key with a given hash
+   * @param keyHash Hash of the presented key
+   * @returns Promise that resolves to the record or null if not found
+   */
+  findByHash(keyHash: string): Promise<ApiKey | null>;
+
+  /**
+   * Finds all keys of a user, newest first
+   * @param userId The user ID
+   * @returns Promise that resolves to the user's keys
+   */
+  findByUserId(userId: string): Promise<ApiKey[]>;
+
+  /**
+   * Records that a key authenticated a request
+   * @param id The key ID
+   * @param usedAt When the key was used
+   */
+  recordUse(id: string, usedAt: Date): Promise<void>;
+
+  /**
+   * Deletes a key of a user
+   * @param id The key ID
+   * @param userId The user the key must belong to
+   * @returns Promise that resolves to true if a key was deleted
+   */
+  delete(id: string, userId: string): Promise<boolean>;
+}
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { ContentTypeDefinition, SizeLimitPolicy } from '../services';
+
+/**
+ * Content type repository interface
+ * Mirrors the content-type registry into the database, which only accepts files of known types
+ */
+export interface IContentTypeRepository {
+  /**
+   * Adds or updates the given document types; types no longer registered are kept for existing files
+   * @param definitions The registered document types
+   * @param sizeLimits The size limits in effect, recorded with each type
+   * @returns Promise that resolves when the database knows every given type
+   */
+  synchronize(definitions: ContentTypeDefinition[], sizeLimits: SizeLimitPolicy): Promise<void>;
+}
\ No newline at end of file
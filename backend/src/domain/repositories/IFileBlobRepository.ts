@@ -0,0 +1,54 @@
+import { FileBlob } from '../entities';
+
+/**
+ * File blob repository interface defining contracts for content-addressed blob bookkeeping
+ */
+export interface IFileBlobRepository {
+  /**
+   * Finds a blob by the hash of its content and locks it until the transaction ends
+   * A reference added meanwhile cannot race a release that deletes the blob: the release either
+   * completes first, and the blob is not found, or waits for the new reference
+   * @param hash The SHA-256 hash of the content
+   * @returns Promise that resolves to FileBlob or null if not found
+   */
+  findByHashForUpdate(hash: string): Promise<FileBlob | null>;
+
+  /**
+   * Registers a new reference to a blob, creating the blob record when it doesn't exist yet
+   * @param hash The SHA-256 hash of the content
+   * @param storagePath The storage path holding the content
+   * @param size The content size in bytes
+   * @returns Promise that resolves to the blob with its updated reference count
+   */
+  addReference(hash: string, storagePath: string, size: number): Promise<FileBlob>;
+
+  /**
+   * Drops a reference to a blob
+   * @param hash The SHA-256 hash of the content
+   * @returns Promise that resolves to the number of references left (0 when the blob is unknown)
+   */
+  removeReference(hash: string): Promise<number>;
+
+  /**
+   * Deletes a blob record if nothing references it anymore
+   * @param hash The SHA-256 hash of the content
+   * @returns Promise that resolves to the deleted FileBlob or null if it is still referenced
+   */
+  deleteIfUnreferenced(hash: string): Promise<FileBlob | null>;
+
+  /**
+   * Finds the blobs whose content was verified longest ago, never verified ones first
+   * @param limit Maximum number of blobs to return
+   * @returns Promise that resolves to array of FileBlobs
+   */
+  findLeastRecentlyVerified(limit: number): Promise<FileBlob[]>;
+
+  /**
+   * Records the outcome of re-hashing a blob's stored content
+   * A blob stays flagged with the time corruption was first found until a verification succeeds again
+   * @param hash The SHA-256 hash of the content
+   * @param verifiedAt When the content was verified
+   * @param corrupted Whether the stored content was missing or did not match the hash
+   */
+  recordVerification(hash: string, verifiedAt: Date, corrupted: boolean): Promise<void>;
+}
\ No newline at end of file
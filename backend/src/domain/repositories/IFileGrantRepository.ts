@@ -0,0 +1,37 @@
+import { FileGrant } from '../entities';
+
+/**
+ * File grant repository interface
+ * Stores the roles users hold on files owned by someone else
+ */
+export interface IFileGrantRepository {
+  /**
+   * Finds the grant a user holds on a file
+   * @param fileId The file ID
+   * @param userId The user ID
+   * @returns Promise that resolves to the grant or null if the user holds none
+   */
+  findByFileAndUser(fileId: string, userId: string): Promise<FileGrant | null>;
+
+  /**
+   * Finds every grant on a file, oldest first
+   * @param fileId The file ID
+   * @returns Promise that resolves to array of FileGrants
+   */
+  findByFileId(fileId: string): Promise<FileGrant[]>;
+
+  /**
+   * Stores a grant, replacing the role of an existing grant for the same user and file
+   * @param grant The grant to store
+   * @returns Promise that resolves to the stored grant
+   */
+  save(grant: FileGrant): Promise<FileGrant>;
+
+  /**
+   * Removes the grant a user holds on a file
+   * @param fileId The file ID
+   * @param userId The user ID
+   * @returns Promise that resolves to true if a grant was removed
+   */
+  delete(fileId: string, userId: string): Promise<boolean>;
+}
\ No newline at end of file
@@ -1,17 +1,90 @@
 import { IDomainRepository } from './IDomainRepository';
-import { File } from '../entities';
+import { File, StoredContentReference } from '../entities';
+import { PageCursor } from '../valueobjects';
+
+/**
+ * Composable filter for file listings; every criterion is optional and all given criteria must match
+ * Ranges are inclusive; nameContains is a case-insensitive substring match on the filename
+ * accessibleBy keeps the files a user owns or holds a grant on, and files without an owner
+ */
+export interface FileListFilter {
+  contentType?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  updatedFrom?: Date;
+  updatedTo?: Date;
+  minSize?: number;
+  maxSize?: number;
+  nameContains?: string;
+  accessibleBy?: string;
+}
+
+/**
+ * A page of files together with the totals of the whole filtered set
+ */
+export interface FileListPage {
+  files: File[];
+  totalCount: number;
+  totalSize: number;
+}
+
+/**
+ * A page of files next to a cursor
+ * hasMore tells whether rows exist beyond the page in the cursor direction
+ */
+export interface FileKeysetPage {
+  files: File[];
+  hasMore: boolean;
+}
+
+/**
+ * Criteria for a full-text search across file contents
+ * Content type and date range filters behave like findByContentType / findByDateRange,
+ * accessibleBy like the list filter of the same name
+ */
+export interface FileSearchCriteria {
+  query: string;
+  contentType?: string;
+  startDate?: Date;
+  endDate?: Date;
+  accessibleBy?: string;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * A single full-text search hit
+ * The snippet is HTML-escaped text in which matched terms are wrapped in <mark></mark>
+ */
+export interface FileSearchHit {
+  file: File;
+  rank: number;
+  snippet: string;
+}
+
+/**
+ * A page of full-text search hits, best match first
+ */
+export interface FileSearchResult {
+  hits: FileSearchHit[];
+  totalCount: number;
+}
 
 /**
  * File repository interface defining contracts for file data access
  * Extends base repository with file-specific operations
+ * Saving an existing file rejects with a ConcurrencyError when its row changed after the file was loaded
+ * Lookups, listings and search only see live files; trashed files are reached through the trash methods
+ * and delete removes a file permanently
  */
 export interface IFileRepository extends IDomainRepository<File, string> {
   /**
-   * Finds a file by its filename
+   * Finds a live file of an owner by its filename; filenames are unique per owner
    * @param filename The filename to search for
+   * @param ownerId The owner whose files are searched; left out, the files without an owner are searched
    * @returns Promise that resolves to File or null if not found
    */
-  findByFilename(filename: string): Promise<File | null>;
+  findByFilename(filename: string, ownerId?: string): Promise<File | null>;
 
   /**
    * Finds files by content type
@@ -64,11 +137,39 @@ export interface IFileRepository extends IDomainRepository<File, string> {
   ): Promise<File[]>;
 
   /**
-   * Checks if a file with the given filename already exists
+   * Finds a page of files matching a filter, with totals computed over the filtered set
+   * @param filter The criteria files must match
+   * @param offset Number of records to skip
+   * @param limit Maximum number of records to return
+   * @param sortBy Field to sort by (filename, created_at, file_size)
+   * @param sortOrder Sort order (ASC or DESC)
+   * @returns Promise that resolves to the page and the filtered totals
+   */
+  findWithFilters(
+    filter: FileListFilter,
+    offset: number,
+    limit: number,
+    sortBy?: 'filename' | 'created_at' | 'file_size',
+    sortOrder?: 'ASC' | 'DESC'
+  ): Promise<FileListPage>;
+
+  /**
+   * Finds the page of files matching a filter next to a cursor, keyed on (sort column, id)
+   * Computes no totals, so following a cursor costs the same however large the filtered set is
+   * @param filter The criteria files must match
+   * @param limit Maximum number of records to return
+   * @param cursor Keyset position, sort and direction to page in
+   * @returns Promise that resolves to the page and whether more rows follow in the cursor direction
+   */
+  findByCursor(filter: FileListFilter, limit: number, cursor: PageCursor): Promise<FileKeysetPage>;
+
+  /**
+   * Checks if an owner already has a live file with the given filename
    * @param filename The filename to check
+   * @param ownerId The owner whose files are checked; left out, the files without an owner are checked
    * @returns Promise that resolves to boolean
    */
-  existsByFilename(filename: string): Promise<boolean>;
+  existsByFilename(filename: string, ownerId?: string): Promise<boolean>;
 
   /**
    * Checks if a file with the given file path already exists
@@ -76,4 +177,64 @@ export interface IFileRepository extends IDomainRepository<File, string> {
    * @returns Promise that resolves to boolean
    */
   existsByFilePath(filePath: string): Promise<boolean>;
+
+  /**
+   * Stores the searchable text of a file's current content
+   * @param id The file ID
+   * @param searchText Plain text extracted from the content
+   * @returns Promise that resolves when the search index is updated
+   */
+  updateSearchText(id: string, searchText: string): Promise<void>;
+
+  /**
+   * Searches file contents and names using full-text search
+   * @param criteria The search query, filters and page
+   * @returns Promise that resolves to ranked hits with highlighted snippets
+   */
+  searchByContent(criteria: FileSearchCriteria): Promise<FileSearchResult>;
+
+  /**
+   * Moves a live file to the trash
+   * @param id The file ID
+   * @param deletedAt When the file was deleted
+   * @returns Promise that resolves to the trashed File or null if no live file has the ID
+   */
+  moveToTrash(id: string, deletedAt: Date): Promise<File | null>;
+
+  /**
+   * Moves a trashed file back to the live files
+   * @param id The file ID
+   * @returns Promise that resolves to the restored File or null if the trash holds no file with the ID
+   */
+  restoreFromTrash(id: string): Promise<File | null>;
+
+  /**
+   * Finds a trashed file by its ID
+   * @param id The file ID
+   * @returns Promise that resolves to File or null if the trash holds no file with the ID
+   */
+  findTrashedById(id: string): Promise<File | null>;
+
+  /**
+   * Finds a page of trashed files, most recently deleted first
+   * @param offset Number of records to skip
+   * @param limit Maximum number of records to return
+   * @param accessibleBy Only include files this user may read, like the list filter of the same name
+   * @returns Promise that resolves to the page and the totals of the trash it lists
+   */
+  findTrashed(offset: number, limit: number, accessibleBy?: string): Promise<FileListPage>;
+
+  /**
+   * Finds trashed files deleted before a point in time, oldest first
+   * @param cutoff Files deleted before this date are returned
+   * @param limit Maximum number of records to return
+   * @returns Promise that resolves to array of Files
+   */
+  findTrashedBefore(cutoff: Date, limit: number): Promise<File[]>;
+
+  /**
+   * Lists every row pointing at stored content: live and trashed files, all revisions and all blobs
+   * @returns Promise that resolves to one entry per referencing row
+   */
+  findStoredContentReferences(): Promise<StoredContentReference[]>;
 }
\ No newline at end of file
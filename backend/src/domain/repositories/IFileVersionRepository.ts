@@ -0,0 +1,28 @@
+import { FileVersion } from '../entities';
+
+/**
+ * File version repository interface defining contracts for revision history access
+ */
+export interface IFileVersionRepository {
+  /**
+   * Persists a new file revision
+   * @param version The revision to store
+   * @returns Promise that resolves to the stored FileVersion
+   */
+  save(version: FileVersion): Promise<FileVersion>;
+
+  /**
+   * Finds every revision of a file, newest first
+   * @param fileId The ID of the file
+   * @returns Promise that resolves to array of FileVersions
+   */
+  findByFileId(fileId: string): Promise<FileVersion[]>;
+
+  /**
+   * Finds a single revision of a file by its version number
+   * @param fileId The ID of the file
+   * @param versionNumber The revision number (1-based)
+   * @returns Promise that resolves to FileVersion or null if not found
+   */
+  findByFileIdAndVersion(fileId: string, versionNumber: number): Promise<FileVersion | null>;
+}
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { RefreshToken } from '../entities';
+
+/**
+ * Refresh token repository interface
+ * Records which refresh tokens were issued so they can be rotated and revoked
+ */
+export interface IRefreshTokenRepository {
+  /**
+   * Records a newly issued refresh token
+   * @param token The token record
+   * @returns Promise that resolves to the stored record
+   */
+  save(token: RefreshToken): Promise<RefreshToken>;
+
+  /**
+   * Finds a refresh token record by token ID
+   * @param id The token ID
+   * @returns Promise that resolves to the record or null if not found
+   */
+  findById(id: string): Promise<RefreshToken | null>;
+
+  /**
+   * Revokes a refresh token unless it is revoked already
+   * @param id The token ID
+   * @returns Promise that resolves to true if this call revoked the token
+   */
+  revoke(id: string): Promise<boolean>;
+
+  /**
+   * Revokes every refresh token of a user that is still usable
+   * @param userId The user ID
+   * @returns Promise that resolves to the number of tokens revoked
+   */
+  revokeAllForUser(userId: string): Promise<number>;
+}
\ No newline at end of file
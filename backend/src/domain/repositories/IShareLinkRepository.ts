@@ -0,0 +1,42 @@
+import { ShareLink } from '../entities';
+
+/**
+ * Share link repository interface
+ */
+export interface IShareLinkRepository {
+  /**
+   * Stores a newly created link
+   * @param shareLink The link
+   * @returns Promise that resolves to the stored link
+   */
+  save(shareLink: ShareLink): Promise<ShareLink>;
+
+  /**
+   * Finds a link by ID, whatever its state
+   * @param id The link ID
+   * @returns Promise that resolves to the link or null if not found
+   */
+  findById(id: string): Promise<ShareLink | null>;
+
+  /**
+   * Finds the links of a file that can still be used, newest first
+   * @param fileId The file ID
+   * @returns Promise that resolves to the file's active links
+   */
+  findActiveByFileId(fileId: string): Promise<ShareLink[]>;
+
+  /**
+   * Counts a download, provided the link is still active; concurrent downloads never exceed the limit
+   * @param id The link ID
+   * @returns Promise that resolves to the updated link, or null if it could no longer be used
+   */
+  recordDownload(id: string): Promise<ShareLink | null>;
+
+  /**
+   * Revokes a link of a file unless it is revoked already
+   * @param id The link ID
+   * @param fileId The file the link must belong to
+   * @returns Promise that resolves to true if this call revoked the link
+   */
+  revoke(id: string, fileId: string): Promise<boolean>;
+}
\ No newline at end of file
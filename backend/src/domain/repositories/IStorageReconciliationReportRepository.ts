@@ -0,0 +1,28 @@
+import { StorageReconciliationReport } from '../entities';
+
+/**
+ * Storage reconciliation report repository interface
+ * Reports are written once per run and kept for later inspection
+ */
+export interface IStorageReconciliationReportRepository {
+  /**
+   * Persists a finished reconciliation report
+   * @param report The report to store
+   * @returns Promise that resolves to the stored report
+   */
+  save(report: StorageReconciliationReport): Promise<StorageReconciliationReport>;
+
+  /**
+   * Finds a report by its ID
+   * @param id The report ID
+   * @returns Promise that resolves to the report or null if not found
+   */
+  findById(id: string): Promise<StorageReconciliationReport | null>;
+
+  /**
+   * Finds the most recent reports, newest first
+   * @param limit Maximum number of reports to return
+   * @returns Promise that resolves to array of reports
+   */
+  findRecent(limit: number): Promise<StorageReconciliationReport[]>;
+}
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { User } from '../entities';
+import { UserRole } from '../valueobjects';
+
+/**
+ * A page of users together with the number of all users
+ */
+export interface UserListPage {
+  users: User[];
+  totalCount: number;
+}
+
+/**
+ * User repository interface
+ * Email addresses are unique and looked up in their normalized form
+ */
+export interface IUserRepository {
+  /**
+   * Finds a user by ID
+   * @param id The user ID
+   * @returns Promise that resolves to the user or null if not found
+   */
+  findById(id: string): Promise<User | null>;
+
+  /**
+   * Finds a user by normalized email address
+   * @param email The trimmed, lower-case email address
+   * @returns Promise that resolves to the user or null if not found
+   */
+  findByEmail(email: string): Promise<User | null>;
+
+  /**
+   * Stores a new user
+   * @param user The user to store
+   * @returns Promise that resolves to the stored user
+   * @throws ConflictError when the email address is already taken
+   */
+  save(user: User): Promise<User>;
+
+  /**
+   * Finds a page of users, oldest account first
+   * @param offset Number of records to skip
+   * @param limit Maximum number of records to return
+   * @returns Promise that resolves to the page and the number of all users
+   */
+  findAll(offset: number, limit: number): Promise<UserListPage>;
+
+  /**
+   * Changes the role of a user
+   * @param id The user ID
+   * @param role The new role
+   * @returns Promise that resolves to the updated user or null if not found
+   */
+  updateRole(id: string, role: UserRole): Promise<User | null>;
+}
\ No newline at end of file
@@ -1,2 +1,11 @@
 export * from './IDomainRepository';
-export * from './IFileRepository';
\ No newline at end of file
+export * from './IFileRepository';
+export * from './IFileVersionRepository';
+export * from './IFileBlobRepository';
+export * from './IStorageReconciliationReportRepository';
+export * from './IContentTypeRepository';
+export * from './IUserRepository';
+export * from './IRefreshTokenRepository';
+export * from './IFileGrantRepository';
+export * from './IApiKeyRepository';
+export * from './IShareLinkRepository';
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { ContentTypeDefinition } from './ContentTypeRegistry';
+
+/**
+ * Decides which registered document types are accepted
+ * Text types are always accepted; binary types only when they are on the allow list,
+ * and all of them when no allow list is given
+ */
+export class ContentTypePolicy {
+  private readonly allowedBinaryTypes?: ReadonlySet<string>;
+
+  constructor(allowedBinaryTypes?: readonly string[]) {
+    this.allowedBinaryTypes = allowedBinaryTypes
+      ? new Set(allowedBinaryTypes.map(contentType => contentType.trim().toLowerCase()))
+      : undefined;
+  }
+
+  /**
+   * Tells whether files of a document type are accepted
+   */
+  public isAllowed(definition: ContentTypeDefinition): boolean {
+    if (!definition.binary || !this.allowedBinaryTypes) {
+      return true;
+    }
+
+    return this.allowedBinaryTypes.has(definition.contentType);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,278 @@
+import {
+  StreamingContentValidator,
+  AcceptingContentValidator,
+  StreamingJsonValidator,
+  BufferedContentValidator
+} from './StreamingContentValidator';
+import { isValidYaml, isValidCsv, isValidXml, isWellFormedHtml, sanitizeHtmlDocument } from './DocumentFormatRules';
+import { SizeLimitPolicy } from './SizeLimitPolicy';
+
+/**
+ * Bytes expected at a fixed position of the content
+ */
+export interface MagicBytes {
+  readonly offset: number;
+  readonly bytes: Buffer;
+}
+
+/**
+ * One way content of a binary type begins; every part has to match
+ */
+export type ContentSignature = readonly MagicBytes[];
+
+/**
+ * Everything the application needs to know about one supported document type
+ */
+export interface ContentTypeDefinition {
+  /** Canonical MIME type stored with files of this type */
+  readonly contentType: string;
+  /** File extensions, lower case and including the leading dot */
+  readonly extensions: readonly string[];
+  /** Other MIME types clients send for this type */
+  readonly mimeAliases: readonly string[];
+  /** Raw bytes rather than UTF-8 text; such content is never decoded */
+  readonly binary?: boolean;
+  /** Magic bytes identifying content of this type, any one of which has to match */
+  readonly signatures?: readonly ContentSignature[];
+  /** Creates a validator checking content of this type as it is received */
+  createValidator(): StreamingContentValidator;
+  /** Rewrites content into its safe form before it is stored; content that cannot be trusted as sent needs one */
+  sanitize?(content: string): string;
+}
+
+/**
+ * The single list of supported document types
+ * Upload checks, entity rules, the database lookup table and the clients all read from here,
+ * so supporting a new type means registering one definition
+ */
+export class ContentTypeRegistry {
+  private readonly definitions = new Map<string, ContentTypeDefinition>();
+
+  constructor(definitions: ContentTypeDefinition[] = [], private sizeLimits: SizeLimitPolicy = new SizeLimitPolicy()) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  /**
+   * Replaces the size limits of all document types; done once at startup from configuration
+   */
+  public configureSizeLimits(sizeLimits: SizeLimitPolicy): void {
+    this.sizeLimits = sizeLimits;
+  }
+
+  /**
+   * Gets the size-limit policy currently in effect
+   */
+  public getSizeLimits(): SizeLimitPolicy {
+    return this.sizeLimits;
+  }
+
+  /**
+   * Adds a document type
+   * @throws Error when the type, one of its extensions or MIME aliases is already registered
+   */
+  public register(definition: ContentTypeDefinition): void {
+    if (this.definitions.has(definition.contentType)) {
+      throw new Error(`Content type '${definition.contentType}' is already registered`);
+    }
+
+    for (const extension of definition.extensions) {
+      if (this.findByExtension(extension)) {
+        throw new Error(`Extension '${extension}' is already registered`);
+      }
+    }
+
+    for (const mimeType of definition.mimeAliases) {
+      if (this.findByMimeType(mimeType)) {
+        throw new Error(`MIME type '${mimeType}' is already registered`);
+      }
+    }
+
+    this.definitions.set(definition.contentType, definition);
+  }
+
+  /**
+   * Gets a document type by its canonical content type
+   */
+  public get(contentType: string): ContentTypeDefinition | undefined {
+    return this.definitions.get(contentType);
+  }
+
+  /**
+   * Finds the document type using an extension, with or without the leading dot
+   */
+  public findByExtension(extension: string): ContentTypeDefinition | undefined {
+    const normalized = extension.startsWith('.') ? extension.toLowerCase() : `.${extension.toLowerCase()}`;
+    return this.list().find(definition => definition.extensions.includes(normalized));
+  }
+
+  /**
+   * Finds the document type of a filename from its extension
+   */
+  public findByFilename(filename: string): ContentTypeDefinition | undefined {
+    const lastDotIndex = filename.lastIndexOf('.');
+    return lastDotIndex !== -1 ? this.findByExtension(filename.substring(lastDotIndex)) : undefined;
+  }
+
+  /**
+   * Finds the document type using its canonical MIME type or one of its aliases
+   */
+  public findByMimeType(mimeType: string): ContentTypeDefinition | undefined {
+    const normalized = mimeType.split(';')[0].trim().toLowerCase();
+    return this.list().find(definition =>
+      definition.contentType === normalized || definition.mimeAliases.includes(normalized)
+    );
+  }
+
+  /**
+   * Finds the document type whose magic bytes the content starts with
+   * @param head The first bytes of the content
+   */
+  public findBySignature(head: Buffer): ContentTypeDefinition | undefined {
+    return this.list().find(definition =>
+      (definition.signatures ?? []).some(signature =>
+        signature.every(part =>
+          head.length >= part.offset + part.bytes.length &&
+          head.subarray(part.offset, part.offset + part.bytes.length).equals(part.bytes)
+        )
+      )
+    );
+  }
+
+  /**
+   * Lists all registered document types in registration order
+   */
+  public list(): ContentTypeDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * Gets the canonical content types of all registered document types
+   */
+  public getContentTypes(): string[] {
+    return this.list().map(definition => definition.contentType);
+  }
+
+  /**
+   * Gets the extensions of all registered document types
+   */
+  public getExtensions(): string[] {
+    return this.list().flatMap(definition => definition.extensions);
+  }
+
+  /**
+   * Gets the largest accepted content size of a content type
+   * @param contentType The canonical content type
+   * @returns The size limit in bytes, 0 for unregistered content types
+   */
+  public getMaxSize(contentType: string): number {
+    return this.definitions.has(contentType) ? this.sizeLimits.getMaxSize(contentType) : 0;
+  }
+
+  /**
+   * Gets the largest size any registered document type accepts
+   */
+  public getLargestMaxSize(): number {
+    return this.sizeLimits.getLargestMaxSize(this.getContentTypes());
+  }
+}
+
+/**
+ * Builds a signature part from hex encoded bytes
+ */
+const magic = (hex: string, offset = 0): MagicBytes => ({ offset, bytes: Buffer.from(hex, 'hex') });
+
+/**
+ * The document types supported out of the box
+ */
+export const DEFAULT_CONTENT_TYPES: ContentTypeDefinition[] = [
+  {
+    contentType: 'text/plain',
+    extensions: ['.txt'],
+    mimeAliases: [],
+    createValidator: () => new AcceptingContentValidator()
+  },
+  {
+    contentType: 'text/markdown',
+    extensions: ['.md'],
+    mimeAliases: ['text/x-markdown'],
+    createValidator: () => new AcceptingContentValidator()
+  },
+  {
+    contentType: 'application/json',
+    extensions: ['.json'],
+    mimeAliases: ['application/x-json'],
+    createValidator: () => new StreamingJsonValidator()
+  },
+  {
+    contentType: 'application/yaml',
+    extensions: ['.yaml', '.yml'],
+    mimeAliases: ['application/x-yaml', 'text/yaml', 'text/x-yaml'],
+    createValidator: () => new BufferedContentValidator(isValidYaml)
+  },
+  {
+    contentType: 'text/csv',
+    extensions: ['.csv'],
+    // Browsers on Windows announce CSV files with the Excel MIME type
+    mimeAliases: ['application/csv', 'text/x-csv', 'application/vnd.ms-excel'],
+    createValidator: () => new BufferedContentValidator(isValidCsv)
+  },
+  {
+    contentType: 'application/xml',
+    extensions: ['.xml'],
+    mimeAliases: ['text/xml'],
+    createValidator: () => new BufferedContentValidator(isValidXml)
+  },
+  {
+    contentType: 'text/html',
+    extensions: ['.html', '.htm'],
+    mimeAliases: [],
+    createValidator: () => new BufferedContentValidator(isWellFormedHtml),
+    // Stored HTML is served back to browsers, so scripts and event handlers are removed
+    sanitize: sanitizeHtmlDocument
+  },
+  {
+    contentType: 'image/png',
+    extensions: ['.png'],
+    mimeAliases: [],
+    binary: true,
+    signatures: [[magic('89504e470d0a1a0a')]],
+    createValidator: () => new AcceptingContentValidator()
+  },
+  {
+    contentType: 'image/jpeg',
+    extensions: ['.jpg', '.jpeg'],
+    mimeAliases: ['image/pjpeg'],
+    binary: true,
+    signatures: [[magic('ffd8ff')]],
+    createValidator: () => new AcceptingContentValidator()
+  },
+  {
+    contentType: 'image/gif',
+    extensions: ['.gif'],
+    mimeAliases: [],
+    binary: true,
+    signatures: [[magic('474946383761')], [magic('474946383961')]], // GIF87a, GIF89a
+    createValidator: () => new AcceptingContentValidator()
+  },
+  {
+    contentType: 'image/webp',
+    extensions: ['.webp'],
+    mimeAliases: [],
+    binary: true,
+    signatures: [[magic('52494646'), magic('57454250', 8)]], // RIFF container holding WEBP
+    createValidator: () => new AcceptingContentValidator()
+  },
+  {
+    contentType: 'application/pdf',
+    extensions: ['.pdf'],
+    mimeAliases: ['application/x-pdf'],
+    binary: true,
+    signatures: [[magic('255044462d')]], // %PDF-
+    createValidator: () => new AcceptingContentValidator()
+  }
+];
+
+/**
+ * Registry shared by the whole application
+ */
+export const contentTypeRegistry = new ContentTypeRegistry(DEFAULT_CONTENT_TYPES);
\ No newline at end of file
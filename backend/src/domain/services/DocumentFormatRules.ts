@@ -0,0 +1,79 @@
+import { parseAllDocuments } from 'yaml';
+import { parse as parseCsv } from 'csv-parse/sync';
+import { XMLValidator } from 'fast-xml-parser';
+import { Parser as HtmlParser } from 'htmlparser2';
+import sanitizeHtml from 'sanitize-html';
+
+/**
+ * Parser-backed content rules for the structured text formats, analogous to the JSON.parse check for JSON
+ * Each rule parses the complete document; a parser error means the content is invalid
+ */
+
+/**
+ * Checks that every document of a (possibly multi-document) YAML stream parses without errors
+ */
+export function isValidYaml(content: string): boolean {
+  return parseAllDocuments(content).every(document => document.errors.length === 0);
+}
+
+/**
+ * Checks that CSV content parses with consistent quoting and the same number of columns on every row
+ */
+export function isValidCsv(content: string): boolean {
+  try {
+    const rows: string[][] = parseCsv(content, { bom: true, skip_empty_lines: true });
+    return rows.length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks that XML content is well-formed
+ */
+export function isValidXml(content: string): boolean {
+  return XMLValidator.validate(content) === true;
+}
+
+// Elements without content, closed by definition
+const HTML_VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+]);
+
+// Elements whose end tag HTML allows to omit
+const HTML_OPTIONAL_END_TAGS = new Set([
+  'html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'rt', 'rp', 'optgroup', 'option',
+  'colgroup', 'caption', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th'
+]);
+
+/**
+ * Checks that HTML content parses without elements left open, other than those HTML lets close implicitly
+ */
+export function isWellFormedHtml(content: string): boolean {
+  let wellFormed = true;
+  const parser = new HtmlParser({
+    onclosetag: (name, isImplied) => {
+      if (isImplied && !HTML_VOID_ELEMENTS.has(name) && !HTML_OPTIONAL_END_TAGS.has(name)) {
+        wellFormed = false;
+      }
+    }
+  });
+  parser.write(content);
+  parser.end();
+
+  return wellFormed;
+}
+
+/**
+ * Removes scripts, event handlers and other active content from an HTML document, keeping its markup and text
+ */
+export function sanitizeHtmlDocument(content: string): string {
+  return sanitizeHtml(content, {
+    allowedTags: sanitizeHtml.defaults.allowedTags.concat(['img']),
+    allowedAttributes: {
+      ...sanitizeHtml.defaults.allowedAttributes,
+      '*': ['id', 'class', 'title', 'lang', 'dir']
+    },
+    allowedSchemes: ['http', 'https', 'mailto']
+  });
+}
\ No newline at end of file
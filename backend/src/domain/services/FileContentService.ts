@@ -0,0 +1,143 @@
+import { IDomainService } from './IDomainService';
+import { StreamingContentValidator } from './StreamingContentValidator';
+import { ContentTypeDefinition, ContentTypeRegistry, contentTypeRegistry } from './ContentTypeRegistry';
+import { ContentTypePolicy } from './ContentTypePolicy';
+import { ValidationError } from '../errors';
+
+/**
+ * Domain service holding the content rules for supported document types
+ * Stateless; the rules themselves come from the content-type registry and the content-type policy
+ */
+export class FileContentService implements IDomainService {
+  // Number of leading bytes needed to recognize the type of content
+  public static readonly SNIFF_LENGTH = 512;
+
+  constructor(
+    private registry: ContentTypeRegistry = contentTypeRegistry,
+    private policy: ContentTypePolicy = new ContentTypePolicy()
+  ) {}
+
+  /**
+   * Determines the content type of a file from its leading bytes, checked against its extension
+   * Neither the extension nor a client supplied MIME type is trusted on its own: binary content has to
+   * carry the magic bytes of the type its extension names, and text types must not contain binary data
+   * @param filename The filename with extension
+   * @param head The first bytes of the content, at least SNIFF_LENGTH of them when available
+   * @returns The detected content type
+   * @throws ValidationError when the content does not match its extension or its type is not accepted
+   */
+  public detectContentType(filename: string, head: Buffer): string {
+    const sniffed = this.registry.findBySignature(head);
+    const named = this.registry.findByFilename(filename);
+
+    if (sniffed && named && sniffed !== named) {
+      throw new ValidationError(
+        `File content is ${sniffed.contentType}, which does not match the extension of '${filename}'`,
+        'content'
+      );
+    }
+
+    const definition = sniffed ?? named ?? this.registry.get(this.getContentType(filename));
+    if (!definition) {
+      throw new ValidationError(`Content type of '${filename}' is not supported`, 'content');
+    }
+
+    if (definition.binary && !sniffed) {
+      throw new ValidationError(`File content is not valid for content type: ${definition.contentType}`, 'content');
+    }
+
+    if (!definition.binary && this.containsBinaryData(head)) {
+      throw new ValidationError(`File content is binary data, not ${definition.contentType}`, 'content');
+    }
+
+    if (!this.policy.isAllowed(definition)) {
+      throw new ValidationError(`Files of type ${definition.contentType} are not accepted`, 'content');
+    }
+
+    return definition.contentType;
+  }
+
+  /**
+   * Validates file content based on content type
+   * @param content The raw file content
+   * @param contentType The expected content type
+   * @returns boolean indicating if content is valid
+   */
+  public validateFileContent(content: Buffer, contentType: string): boolean {
+    const validator = this.createStreamingValidator(contentType);
+    validator.update(content);
+    return validator.finish();
+  }
+
+  /**
+   * Creates a validator applying the same rules as validateFileContent to content received in chunks
+   * @param contentType The expected content type
+   * @returns A validator to feed with the raw bytes
+   */
+  public createStreamingValidator(contentType: string): StreamingContentValidator {
+    const definition = this.registry.get(contentType);
+    if (!definition) {
+      return { update: () => undefined, finish: () => false };
+    }
+
+    return definition.createValidator();
+  }
+
+  /**
+   * Rewrites content into the form that is stored, e.g. HTML without scripts
+   * @param content The raw file content
+   * @param contentType The content type
+   * @returns The content to store; unchanged for types that need no sanitizing
+   */
+  public sanitizeContent(content: Buffer, contentType: string): Buffer {
+    const definition = this.registry.get(contentType);
+    return definition?.sanitize ? Buffer.from(definition.sanitize(content.toString('utf8')), 'utf8') : content;
+  }
+
+  /**
+   * Tells whether content of a content type is rewritten before it is stored
+   * Such content cannot be written to storage while it streams in
+   */
+  public requiresSanitizing(contentType: string): boolean {
+    return this.registry.get(contentType)?.sanitize !== undefined;
+  }
+
+  /**
+   * Tells whether content of a content type is raw bytes rather than UTF-8 text
+   */
+  public isBinary(contentType: string): boolean {
+    return this.registry.get(contentType)?.binary === true;
+  }
+
+  /**
+   * Lists the registered document types the content-type policy accepts
+   */
+  public getSupportedTypes(): ContentTypeDefinition[] {
+    return this.registry.list().filter(definition => this.policy.isAllowed(definition));
+  }
+
+  /**
+   * Gets the largest accepted content size of a content type
+   * @param contentType The content type
+   * @returns The size limit in bytes, 0 for unsupported content types
+   */
+  public getMaxSize(contentType: string): number {
+    return this.registry.getMaxSize(contentType);
+  }
+
+  /**
+   * Gets the content type based on file extension
+   * @param filename The filename with extension
+   * @returns The registered content type, plain text for unknown extensions
+   */
+  public getContentType(filename: string): string {
+    return this.registry.findByFilename(filename)?.contentType ?? 'text/plain';
+  }
+
+  /**
+   * Text never contains NUL bytes, which almost every binary format does early on
+   */
+  private containsBinaryData(head: Buffer): boolean {
+    return head.subarray(0, FileContentService.SNIFF_LENGTH).includes(0);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { structuredPatch, formatPatch } from 'diff';
+import { IDomainService } from './IDomainService';
+
+/**
+ * A contiguous block of changes in a line-based diff
+ * Lines are prefixed with ' ' (context), '-' (removed) or '+' (added)
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
+/**
+ * Result of a line-based comparison between two texts
+ */
+export interface TextDiffResult {
+  unifiedDiff: string;
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * A single structural change between two JSON documents
+ * The path is a JSON pointer (RFC 6901) to the affected value
+ */
+export interface JsonChange {
+  op: 'added' | 'removed' | 'changed';
+  path: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+/**
+ * Domain service comparing file contents
+ * Stateless; produces unified line diffs and structural JSON diffs
+ */
+export class FileDiffService implements IDomainService {
+  // Number of unchanged lines shown around each change
+  public static readonly CONTEXT_LINES = 3;
+
+  /**
+   * Computes a line-based diff between two texts
+   * @param oldText The original content
+   * @param newText The updated content
+   * @param oldLabel Label used for the original side in the unified diff header
+   * @param newLabel Label used for the updated side in the unified diff header
+   */
+  public diffText(oldText: string, newText: string, oldLabel: string, newLabel: string): TextDiffResult {
+    const patch = structuredPatch(oldLabel, newLabel, oldText, newText, undefined, undefined, {
+      context: FileDiffService.CONTEXT_LINES
+    });
+
+    const hunks: DiffHunk[] = patch.hunks.map(hunk => ({
+      oldStart: hunk.oldStart,
+      oldLines: hunk.oldLines,
+      newStart: hunk.newStart,
+      newLines: hunk.newLines,
+      lines: hunk.lines
+    }));
+
+    let additions = 0;
+    let deletions = 0;
+    for (const hunk of hunks) {
+      for (const line of hunk.lines) {
+        if (line.startsWith('+')) additions++;
+        if (line.startsWith('-')) deletions++;
+      }
+    }
+
+    return {
+      unifiedDiff: hunks.length > 0 ? formatPatch(patch) : '',
+      hunks,
+      additions,
+      deletions
+    };
+  }
+
+  /**
+   * Computes a structural diff between two JSON documents
+   * Objects are compared key by key and arrays index by index
+   * @param oldJson The original JSON text
+   * @param newJson The updated JSON text
+   */
+  public diffJson(oldJson: string, newJson: string): JsonChange[] {
+    const changes: JsonChange[] = [];
+    this.compareValues(JSON.parse(oldJson), JSON.parse(newJson), '', changes);
+    return changes;
+  }
+
+  /**
+   * Recursively compares two JSON values collecting changes
+   */
+  private compareValues(oldValue: unknown, newValue: unknown, path: string, changes: JsonChange[]): void {
+    if (this.isContainer(oldValue) && this.isContainer(newValue) && Array.isArray(oldValue) === Array.isArray(newValue)) {
+      const oldRecord = oldValue as Record<string, unknown>;
+      const newRecord = newValue as Record<string, unknown>;
+      const keys = Array.isArray(oldValue)
+        ? Array.from({ length: Math.max(oldValue.length, (newValue as unknown[]).length) }, (_, index) => String(index))
+        : Array.from(new Set([...Object.keys(oldRecord), ...Object.keys(newRecord)]));
+
+      for (const key of keys) {
+        const childPath = `${path}/${this.escapePointerToken(key)}`;
+        const inOld = Object.prototype.hasOwnProperty.call(oldRecord, key);
+        const inNew = Object.prototype.hasOwnProperty.call(newRecord, key);
+
+        if (inOld && !inNew) {
+          changes.push({ op: 'removed', path: childPath, oldValue: oldRecord[key] });
+        } else if (!inOld && inNew) {
+          changes.push({ op: 'added', path: childPath, newValue: newRecord[key] });
+        } else {
+          this.compareValues(oldRecord[key], newRecord[key], childPath, changes);
+        }
+      }
+      return;
+    }
+
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ op: 'changed', path, oldValue, newValue });
+    }
+  }
+
+  /**
+   * Checks whether a JSON value is an object or array
+   */
+  private isContainer(value: unknown): boolean {
+    return typeof value === 'object' && value !== null;
+  }
+
+  /**
+   * Escapes a key for use as a JSON pointer reference token
+   */
+  private escapePointerToken(token: string): string {
+    return token.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+}
\ No newline at end of file
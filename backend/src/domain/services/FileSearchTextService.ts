@@ -0,0 +1,114 @@
+import { IDomainService } from './IDomainService';
+
+/**
+ * Domain service turning document content into plain text for full-text indexing
+ * Stateless; Markdown is stripped of its syntax, HTML and XML of their tags and JSON is reduced to its values
+ */
+export class FileSearchTextService implements IDomainService {
+  /**
+   * Extracts the searchable text of a document
+   * @param content The file content
+   * @param contentType The content type of the file
+   * @returns Plain text suitable for building a search vector
+   */
+  public extractSearchText(content: string, contentType: string): string {
+    switch (contentType) {
+      case 'text/markdown':
+        return this.stripMarkdown(content);
+
+      case 'application/json':
+        return this.flattenJson(content);
+
+      case 'text/html':
+      case 'application/xml':
+        return this.stripTags(content);
+
+      case 'text/plain':
+      default:
+        return this.normalizeWhitespace(content);
+    }
+  }
+
+  /**
+   * Removes Markdown syntax while keeping the readable text
+   */
+  private stripMarkdown(markdown: string): string {
+    const text = markdown
+      // Fenced code block delimiters (the code itself stays searchable)
+      .replace(/^\s*(```|~~~).*$/gm, '')
+      // Images and links keep their alt text / label
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      // Reference-style link definitions
+      .replace(/^\s*\[[^\]]+\]:\s*\S+.*$/gm, '')
+      // HTML tags
+      .replace(/<\/?[a-z][^>]*>/gi, '')
+      // Headings, blockquotes and list markers
+      .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+      .replace(/^\s*>+\s?/gm, '')
+      .replace(/^\s*([-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?/gm, '')
+      // Horizontal rules
+      .replace(/^\s*([-*_]\s*){3,}$/gm, '')
+      // Emphasis, strikethrough and inline code markers
+      .replace(/(\*\*|~~|\*|`)/g, '')
+      .replace(/(^|\W)_+|_+(?=\W|$)/g, '$1')
+      // Table pipes
+      .replace(/\|/g, ' ');
+
+    return this.normalizeWhitespace(text);
+  }
+
+  /**
+   * Collects every scalar value of a JSON document; keys are structure, not content
+   */
+  private flattenJson(json: string): string {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      return this.normalizeWhitespace(json);
+    }
+
+    const values: string[] = [];
+    const collect = (value: unknown): void => {
+      if (value === null || value === undefined) {
+        return;
+      }
+      if (Array.isArray(value)) {
+        value.forEach(collect);
+      } else if (typeof value === 'object') {
+        Object.values(value as Record<string, unknown>).forEach(collect);
+      } else {
+        values.push(String(value));
+      }
+    };
+    collect(parsed);
+
+    return this.normalizeWhitespace(values.join('\n'));
+  }
+
+  /**
+   * Removes markup, comments and processing instructions while keeping the text between tags
+   */
+  private stripTags(markup: string): string {
+    const text = markup
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<\?[\s\S]*?\?>/g, '')
+      .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+      .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<[^>]+>/g, '\n');
+
+    return this.normalizeWhitespace(text);
+  }
+
+  /**
+   * Collapses runs of blank lines and trailing spaces
+   */
+  private normalizeWhitespace(text: string): string {
+    return text
+      .split('\n')
+      .map(line => line.replace(/[ \t]+/g, ' ').trim())
+      .filter(line => line.length > 0)
+      .join('\n');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { Permission, UserRole, UserRoleName } from '../valueobjects';
+
+/**
+ * Permissions of every role; users and admins work with their own files, auditors only read files and get the
+ * read-only part of what admins may do
+ */
+export const DEFAULT_PERMISSION_MATRIX: Readonly<Record<UserRoleName, readonly Permission[]>> = {
+  user: ['files:read', 'files:write'],
+  auditor: ['files:read', 'admin:access', 'storage:read', 'users:read'],
+  admin: ['files:read', 'files:write', 'admin:access', 'storage:read', 'storage:maintain', 'users:read', 'users:manage']
+};
+
+/**
+ * Decides which permissions a role grants
+ */
+export class PermissionMatrix {
+  constructor(private readonly matrix: Readonly<Record<UserRoleName, readonly Permission[]>> = DEFAULT_PERMISSION_MATRIX) {}
+
+  /**
+   * Gets the permissions a role grants
+   */
+  public permissionsOf(role: UserRole): readonly Permission[] {
+    return this.matrix[role.value];
+  }
+
+  /**
+   * Tells whether a role grants a permission
+   */
+  public allows(role: UserRole, permission: Permission): boolean {
+    return this.permissionsOf(role).includes(permission);
+  }
+}
+
+/**
+ * Permission matrix shared by the whole application
+ */
+export const permissionMatrix = new PermissionMatrix();
\ No newline at end of file
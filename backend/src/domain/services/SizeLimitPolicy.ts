@@ -0,0 +1,56 @@
+/**
+ * Decides how large files of each document type may be
+ * Every type gets the default limit unless it has a limit of its own
+ */
+export class SizeLimitPolicy {
+  // Limit used when nothing else is configured: 1MB in bytes
+  public static readonly DEFAULT_MAX_SIZE_BYTES = 1048576;
+
+  private readonly maxSizeByType: ReadonlyMap<string, number>;
+
+  /**
+   * @throws Error when a limit is not a positive whole number of bytes
+   */
+  constructor(
+    private readonly defaultMaxSize: number = SizeLimitPolicy.DEFAULT_MAX_SIZE_BYTES,
+    maxSizeByType: Readonly<Record<string, number>> = {}
+  ) {
+    SizeLimitPolicy.assertLimit(defaultMaxSize, 'the default');
+
+    const limits = new Map<string, number>();
+    for (const [contentType, maxSize] of Object.entries(maxSizeByType)) {
+      SizeLimitPolicy.assertLimit(maxSize, contentType);
+      limits.set(contentType.trim().toLowerCase(), maxSize);
+    }
+    this.maxSizeByType = limits;
+  }
+
+  /**
+   * Gets the limit applying to types without a limit of their own
+   */
+  public getDefaultMaxSize(): number {
+    return this.defaultMaxSize;
+  }
+
+  /**
+   * Gets the largest accepted size of a content type
+   * @param contentType The canonical content type
+   * @returns The size limit in bytes
+   */
+  public getMaxSize(contentType: string): number {
+    return this.maxSizeByType.get(contentType) ?? this.defaultMaxSize;
+  }
+
+  /**
+   * Gets the largest size any of the given content types accepts
+   */
+  public getLargestMaxSize(contentTypes: readonly string[]): number {
+    return Math.max(0, ...contentTypes.map(contentType => this.getMaxSize(contentType)));
+  }
+
+  private static assertLimit(maxSize: number, subject: string): void {
+    if (!Number.isInteger(maxSize) || maxSize < 1) {
+      throw new Error(`Size limit for ${subject} must be a positive whole number of bytes, got ${maxSize}`);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,268 @@
+/**
+ * Validates content incrementally while it is being received
+ * Chunks are fed in order with update(); finish() tells whether the complete content was valid
+ */
+export interface StreamingContentValidator {
+  update(chunk: Buffer): void;
+  finish(): boolean;
+}
+
+/**
+ * Validator for content types without structural rules (plain text, Markdown, binary types recognized by signature)
+ */
+export class AcceptingContentValidator implements StreamingContentValidator {
+  public update(_chunk: Buffer): void {}
+
+  public finish(): boolean {
+    return true;
+  }
+}
+
+/**
+ * Validator for formats whose parsers need the whole document (YAML, CSV, XML, HTML)
+ * Chunks are collected, which is bounded by the size limit of the type, and the complete text is checked on finish()
+ */
+export class BufferedContentValidator implements StreamingContentValidator {
+  private readonly chunks: Buffer[] = [];
+
+  constructor(private readonly isValid: (content: string) => boolean) {}
+
+  public update(chunk: Buffer): void {
+    this.chunks.push(Buffer.from(chunk));
+  }
+
+  public finish(): boolean {
+    try {
+      return this.isValid(Buffer.concat(this.chunks).toString('utf8'));
+    } catch {
+      return false;
+    }
+  }
+}
+
+type JsonScanState = 'value' | 'arrayValueOrEnd' | 'keyOrEnd' | 'key' | 'colon' | 'afterValue' | 'done';
+
+const JSON_WHITESPACE = new Set([0x20, 0x09, 0x0a, 0x0d]);
+const JSON_ESCAPES = new Set('"\\/bfnrt'.split('').map(char => char.charCodeAt(0)));
+const JSON_NUMBER_CHARS = new Set('0123456789+-.eE'.split('').map(char => char.charCodeAt(0)));
+const JSON_NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+const JSON_LITERALS: Record<string, string> = { t: 'true', f: 'false', n: 'null' };
+
+/**
+ * Checks JSON syntax byte by byte without building the document
+ * Accepts exactly what JSON.parse accepts; memory use depends on nesting depth only.
+ * Structural characters are ASCII, so multi-byte UTF-8 sequences can only appear inside strings
+ */
+export class StreamingJsonValidator implements StreamingContentValidator {
+  private readonly stack: Array<'object' | 'array'> = [];
+  private state: JsonScanState = 'value';
+  private token: 'none' | 'string' | 'number' | 'literal' = 'none';
+  private tokenText = '';
+  private literal = '';
+  private stringIsKey = false;
+  private escaping = false;
+  private unicodeDigitsLeft = 0;
+  private valid = true;
+
+  public update(chunk: Buffer): void {
+    if (!this.valid) {
+      return;
+    }
+
+    for (const byte of chunk) {
+      if (!this.consume(byte)) {
+        this.valid = false;
+        return;
+      }
+    }
+  }
+
+  public finish(): boolean {
+    if (!this.valid) {
+      return false;
+    }
+
+    if (this.token === 'number') {
+      if (!JSON_NUMBER.test(this.tokenText)) {
+        return false;
+      }
+      this.token = 'none';
+      this.valueCompleted();
+    }
+
+    return this.token === 'none' && this.state === 'done';
+  }
+
+  /**
+   * Advances the scanner by one byte; returns false on a syntax error
+   */
+  private consume(byte: number): boolean {
+    switch (this.token) {
+      case 'string':
+        return this.consumeStringByte(byte);
+
+      case 'literal':
+        if (byte !== this.literal.charCodeAt(this.tokenText.length)) {
+          return false;
+        }
+        this.tokenText += this.literal[this.tokenText.length];
+        if (this.tokenText === this.literal) {
+          this.token = 'none';
+          this.valueCompleted();
+        }
+        return true;
+
+      case 'number':
+        if (JSON_NUMBER_CHARS.has(byte)) {
+          this.tokenText += String.fromCharCode(byte);
+          return true;
+        }
+        if (!JSON_NUMBER.test(this.tokenText)) {
+          return false;
+        }
+        this.token = 'none';
+        this.valueCompleted();
+        // The delimiter is structural; handle it below
+        break;
+    }
+
+    if (JSON_WHITESPACE.has(byte)) {
+      return true;
+    }
+
+    const char = String.fromCharCode(byte);
+    switch (this.state) {
+      case 'arrayValueOrEnd':
+        if (char === ']') {
+          return this.close('array');
+        }
+        return this.startValue(char);
+
+      case 'value':
+        return this.startValue(char);
+
+      case 'keyOrEnd':
+        if (char === '}') {
+          return this.close('object');
+        }
+        return this.startKey(char);
+
+      case 'key':
+        return this.startKey(char);
+
+      case 'colon':
+        if (char !== ':') {
+          return false;
+        }
+        this.state = 'value';
+        return true;
+
+      case 'afterValue': {
+        const container = this.stack[this.stack.length - 1];
+        if (char === ',') {
+          this.state = container === 'object' ? 'key' : 'value';
+          return true;
+        }
+        if (char === '}' && container === 'object') {
+          return this.close('object');
+        }
+        if (char === ']' && container === 'array') {
+          return this.close('array');
+        }
+        return false;
+      }
+
+      case 'done':
+      default:
+        return false;
+    }
+  }
+
+  private consumeStringByte(byte: number): boolean {
+    if (this.unicodeDigitsLeft > 0) {
+      if (!/[0-9a-fA-F]/.test(String.fromCharCode(byte))) {
+        return false;
+      }
+      this.unicodeDigitsLeft--;
+      return true;
+    }
+
+    if (this.escaping) {
+      this.escaping = false;
+      if (byte === 0x75) { // 'u'
+        this.unicodeDigitsLeft = 4;
+        return true;
+      }
+      return JSON_ESCAPES.has(byte);
+    }
+
+    if (byte === 0x22) { // '"'
+      this.token = 'none';
+      if (this.stringIsKey) {
+        this.state = 'colon';
+      } else {
+        this.valueCompleted();
+      }
+      return true;
+    }
+
+    if (byte === 0x5c) { // '\'
+      this.escaping = true;
+      return true;
+    }
+
+    // Control characters must be escaped
+    return byte >= 0x20;
+  }
+
+  private startValue(char: string): boolean {
+    if (char === '{') {
+      this.stack.push('object');
+      this.state = 'keyOrEnd';
+      return true;
+    }
+    if (char === '[') {
+      this.stack.push('array');
+      this.state = 'arrayValueOrEnd';
+      return true;
+    }
+    if (char === '"') {
+      this.token = 'string';
+      this.stringIsKey = false;
+      return true;
+    }
+    if (char === '-' || (char >= '0' && char <= '9')) {
+      this.token = 'number';
+      this.tokenText = char;
+      return true;
+    }
+    if (JSON_LITERALS[char]) {
+      this.token = 'literal';
+      this.literal = JSON_LITERALS[char];
+      this.tokenText = char;
+      return true;
+    }
+    return false;
+  }
+
+  private startKey(char: string): boolean {
+    if (char !== '"') {
+      return false;
+    }
+    this.token = 'string';
+    this.stringIsKey = true;
+    return true;
+  }
+
+  private close(container: 'object' | 'array'): boolean {
+    if (this.stack.pop() !== container) {
+      return false;
+    }
+    this.valueCompleted();
+    return true;
+  }
+
+  private valueCompleted(): void {
+    this.state = this.stack.length === 0 ? 'done' : 'afterValue';
+  }
+}
\ No newline at end of file
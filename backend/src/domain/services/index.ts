@@ -0,0 +1,10 @@
+export * from './IDomainService';
+export * from './FileContentService';
+export * from './FileDiffService';
+export * from './FileSearchTextService';
+export * from './StreamingContentValidator';
+export * from './ContentTypeRegistry';
+export * from './DocumentFormatRules';
+export * from './ContentTypePolicy';
+export * from './SizeLimitPolicy';
+export * from './PermissionMatrix';
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { createHash } from 'crypto';
+import { ValidationError } from '../errors';
+
+/**
+ * ContentHash value object representing the SHA-256 digest of file content
+ * Identical content always yields the same hash, which makes it usable as a storage key
+ */
+export class ContentHash {
+  private readonly _value: string;
+
+  constructor(value: string) {
+    this.validate(value);
+    this._value = value.toLowerCase();
+  }
+
+  public get value(): string {
+    return this._value;
+  }
+
+  /**
+   * Validates the hash is a hex encoded SHA-256 digest
+   */
+  private validate(hash: string): void {
+    if (!hash || !/^[0-9a-f]{64}$/i.test(hash)) {
+      throw new ValidationError('Content hash must be a 64 character hex encoded SHA-256 digest');
+    }
+  }
+
+  /**
+   * Checks if two ContentHash objects are equal
+   */
+  public equals(other: ContentHash): boolean {
+    return this._value === other._value;
+  }
+
+  /**
+   * Returns the string representation
+   */
+  public toString(): string {
+    return this._value;
+  }
+
+  /**
+   * Creates a ContentHash instance with validation
+   */
+  public static create(value: string): ContentHash {
+    return new ContentHash(value);
+  }
+
+  /**
+   * Computes the hash of raw content, or of UTF-8 encoded text
+   */
+  public static fromContent(content: Buffer | string): ContentHash {
+    const bytes = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+    return new ContentHash(createHash('sha256').update(bytes).digest('hex'));
+  }
+}
\ No newline at end of file
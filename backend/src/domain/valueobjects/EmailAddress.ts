@@ -0,0 +1,60 @@
+import { ValidationError } from '../errors';
+
+/**
+ * EmailAddress value object identifying a user account
+ * Stored trimmed and lower case, so addresses differing only in case name the same account
+ */
+export class EmailAddress {
+  public static readonly MAX_LENGTH = 254;
+
+  private readonly _value: string;
+
+  constructor(value: string) {
+    this.validate(value);
+    this._value = value.trim().toLowerCase();
+  }
+
+  public get value(): string {
+    return this._value;
+  }
+
+  /**
+   * Validates the address has a local part, a domain and no whitespace
+   */
+  private validate(email: string): void {
+    if (!email || email.trim().length === 0) {
+      throw new ValidationError('Email address cannot be empty', 'email');
+    }
+
+    const trimmed = email.trim();
+
+    if (trimmed.length > EmailAddress.MAX_LENGTH) {
+      throw new ValidationError(`Email address cannot exceed ${EmailAddress.MAX_LENGTH} characters`, 'email');
+    }
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed)) {
+      throw new ValidationError('Email address is not valid', 'email');
+    }
+  }
+
+  /**
+   * Checks if two EmailAddress objects are equal
+   */
+  public equals(other: EmailAddress): boolean {
+    return this._value === other._value;
+  }
+
+  /**
+   * Returns the string representation
+   */
+  public toString(): string {
+    return this._value;
+  }
+
+  /**
+   * Creates an EmailAddress instance with validation
+   */
+  public static create(value: string): EmailAddress {
+    return new EmailAddress(value);
+  }
+}
\ No newline at end of file
@@ -1,12 +1,12 @@
+import { ValidationError } from '../errors';
+import { contentTypeRegistry } from '../services';
+
 /**
  * FileName value object that encapsulates filename validation logic
  */
 export class FileName {
   private readonly _value: string;
 
-  // Allowed file extensions for the application
-  private static readonly ALLOWED_EXTENSIONS = ['.txt', '.md', '.json'] as const;
-  
   constructor(value: string) {
     this.validate(value);
     this._value = value.trim();
@@ -21,34 +21,30 @@ export class FileName {
    */
   private validate(filename: string): void {
     if (!filename || filename.trim().length === 0) {
-      throw new Error('Filename cannot be empty');
+      throw new ValidationError('Filename cannot be empty');
     }
 
     const trimmed = filename.trim();
 
     // Check minimum length
     if (trimmed.length < 2) {
-      throw new Error('Filename must be at least 2 characters long');
+      throw new ValidationError('Filename must be at least 2 characters long');
     }
 
     // Check maximum length
     if (trimmed.length > 255) {
-      throw new Error('Filename cannot exceed 255 characters');
+      throw new ValidationError('Filename cannot exceed 255 characters');
     }
 
     // Check for allowed extensions
-    const hasAllowedExtension = FileName.ALLOWED_EXTENSIONS.some(ext => 
-      trimmed.toLowerCase().endsWith(ext)
-    );
-
-    if (!hasAllowedExtension) {
-      throw new Error(`File must have one of these extensions: ${FileName.ALLOWED_EXTENSIONS.join(', ')}`);
+    if (!contentTypeRegistry.findByFilename(trimmed)) {
+      throw new ValidationError(`File must have one of these extensions: ${FileName.getAllowedExtensions().join(', ')}`);
     }
 
     // Check for invalid characters (Windows and Unix)
     const invalidChars = /[<>:"/\\|?*\x00-\x1f]/;
     if (invalidChars.test(trimmed)) {
-      throw new Error('Filename contains invalid characters');
+      throw new ValidationError('Filename contains invalid characters');
     }
 
     // Check for reserved names (Windows)
@@ -60,12 +56,12 @@ export class FileName {
 
     const nameWithoutExtension = trimmed.substring(0, trimmed.lastIndexOf('.')).toUpperCase();
     if (reservedNames.includes(nameWithoutExtension)) {
-      throw new Error('Filename cannot use reserved system names');
+      throw new ValidationError('Filename cannot use reserved system names');
     }
 
     // Check for leading/trailing spaces or periods
     if (trimmed.startsWith(' ') || trimmed.endsWith(' ') || trimmed.endsWith('.')) {
-      throw new Error('Filename cannot start or end with spaces or periods');
+      throw new ValidationError('Filename cannot start or end with spaces or periods');
     }
   }
 
@@ -107,9 +103,9 @@ export class FileName {
   }
 
   /**
-   * Gets all allowed extensions
+   * Gets all allowed extensions, as registered in the content-type registry
    */
   public static getAllowedExtensions(): readonly string[] {
-    return FileName.ALLOWED_EXTENSIONS;
+    return contentTypeRegistry.getExtensions();
   }
 }
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { ValidationError } from '../errors';
+
+export type FileRoleName = 'viewer' | 'editor' | 'owner';
+
+/**
+ * FileRole value object: the access a user holds on a file
+ * Roles are ordered; each allows everything the roles before it allow
+ * - viewer: read the file
+ * - editor: also change its content
+ * - owner: also delete it and manage who has access
+ */
+export class FileRole {
+  private readonly _value: FileRoleName;
+
+  public static readonly NAMES: readonly FileRoleName[] = ['viewer', 'editor', 'owner'];
+
+  public static readonly VIEWER = new FileRole('viewer');
+  public static readonly EDITOR = new FileRole('editor');
+  public static readonly OWNER = new FileRole('owner');
+
+  constructor(value: string) {
+    if (!FileRole.NAMES.includes(value as FileRoleName)) {
+      throw new ValidationError(`Role must be one of: ${FileRole.NAMES.join(', ')}`, 'role');
+    }
+
+    this._value = value as FileRoleName;
+  }
+
+  public get value(): FileRoleName {
+    return this._value;
+  }
+
+  /**
+   * Checks whether this role allows everything the given role allows
+   */
+  public includes(role: FileRole): boolean {
+    return FileRole.NAMES.indexOf(this._value) >= FileRole.NAMES.indexOf(role._value);
+  }
+
+  public equals(other: FileRole): boolean {
+    return this._value === other._value;
+  }
+
+  public toString(): string {
+    return this._value;
+  }
+}
\ No newline at end of file
@@ -1,15 +1,24 @@
+import { PayloadTooLargeError, ValidationError } from '../errors';
+import { contentTypeRegistry } from '../services';
+
 /**
  * FileSize value object that encapsulates file size validation logic
  */
 export class FileSize {
   private readonly _value: number;
 
-  // Maximum allowed file size: 1MB in bytes
-  public static readonly MAX_SIZE_BYTES = 1048576; // 1MB
   public static readonly MIN_SIZE_BYTES = 1; // 1 byte
 
-  constructor(value: number) {
-    this.validate(value);
+  // Largest size any document type accepts, as configured in the size-limit policy
+  public static get MAX_SIZE_BYTES(): number {
+    return contentTypeRegistry.getLargestMaxSize();
+  }
+
+  /**
+   * @param contentType Content type whose limit applies; without one the largest limit of any type applies
+   */
+  constructor(value: number, contentType?: string) {
+    this.validate(value, FileSize.getMaxSize(contentType));
     this._value = value;
   }
 
@@ -20,22 +29,22 @@ export class FileSize {
   /**
    * Validates the file size according to business rules
    */
-  private validate(size: number): void {
+  private validate(size: number, maxSize: number): void {
     if (typeof size !== 'number' || isNaN(size) || !isFinite(size)) {
-      throw new Error('File size must be a valid number');
+      throw new ValidationError('File size must be a valid number');
     }
 
     if (size < FileSize.MIN_SIZE_BYTES) {
-      throw new Error(`File size must be at least ${FileSize.MIN_SIZE_BYTES} byte`);
+      throw new ValidationError(`File size must be at least ${FileSize.MIN_SIZE_BYTES} byte`);
     }
 
-    if (size > FileSize.MAX_SIZE_BYTES) {
-      throw new Error(`File size cannot exceed ${this.formatBytes(FileSize.MAX_SIZE_BYTES)}`);
+    if (size > maxSize) {
+      throw new PayloadTooLargeError(`File size cannot exceed ${this.formatBytes(maxSize)}`);
     }
 
     // Ensure it's a whole number (no decimals for bytes)
     if (!Number.isInteger(size)) {
-      throw new Error('File size must be a whole number of bytes');
+      throw new ValidationError('File size must be a whole number of bytes');
     }
   }
 
@@ -129,8 +138,8 @@ export class FileSize {
   /**
    * Creates a FileSize instance with validation
    */
-  public static create(value: number): FileSize {
-    return new FileSize(value);
+  public static create(value: number, contentType?: string): FileSize {
+    return new FileSize(value, contentType);
   }
 
   /**
@@ -139,16 +148,17 @@ export class FileSize {
   public static fromString(value: string): FileSize {
     const parsed = parseInt(value, 10);
     if (isNaN(parsed)) {
-      throw new Error('Invalid file size string');
+      throw new ValidationError('Invalid file size string');
     }
     return new FileSize(parsed);
   }
 
   /**
    * Gets the maximum allowed file size
+   * @param contentType Content type whose limit is wanted; without one the largest limit of any type
    */
-  public static getMaxSize(): number {
-    return FileSize.MAX_SIZE_BYTES;
+  public static getMaxSize(contentType?: string): number {
+    return contentType ? contentTypeRegistry.getSizeLimits().getMaxSize(contentType) : FileSize.MAX_SIZE_BYTES;
   }
 
   /**
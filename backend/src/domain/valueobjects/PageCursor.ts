@@ -0,0 +1,135 @@
+import { ValidationError } from '../errors';
+
+/**
+ * Sort fields a page cursor can be keyed on
+ */
+export type PageCursorSortField = 'filename' | 'created_at' | 'file_size';
+
+/**
+ * Direction a cursor points to, relative to the row it was built from
+ */
+export type PageCursorDirection = 'after' | 'before';
+
+/**
+ * A cursor position with every field checked
+ */
+interface PageCursorPosition {
+  sortBy: PageCursorSortField;
+  sortOrder: 'ASC' | 'DESC';
+  sortValue: string | number | Date;
+  id: string;
+  direction: PageCursorDirection;
+}
+
+/**
+ * PageCursor value object representing a position in a sorted listing
+ * Keyed on the sort column value plus the row id so positions stay stable while rows are inserted;
+ * serialized as an opaque base64url token
+ */
+export class PageCursor {
+  public readonly sortBy: PageCursorSortField;
+  public readonly sortOrder: 'ASC' | 'DESC';
+  public readonly sortValue: string | number | Date;
+  public readonly id: string;
+  public readonly direction: PageCursorDirection;
+
+  constructor(
+    sortBy: PageCursorSortField,
+    sortOrder: 'ASC' | 'DESC',
+    sortValue: string | number | Date,
+    id: string,
+    direction: PageCursorDirection
+  ) {
+    PageCursor.validate({ sortBy, sortOrder, sortValue, id, direction });
+
+    this.sortBy = sortBy;
+    this.sortOrder = sortOrder;
+    this.sortValue = sortValue;
+    this.id = id;
+    this.direction = direction;
+  }
+
+  /**
+   * Validates the cursor position; tokens come from clients, so every field may have been tampered with
+   */
+  private static validate(position: Record<string, unknown>): asserts position is PageCursorPosition & Record<string, unknown> {
+    const { sortBy, sortOrder, sortValue, id, direction } = position;
+
+    if (sortBy !== 'filename' && sortBy !== 'created_at' && sortBy !== 'file_size') {
+      throw new ValidationError('Invalid cursor: unknown sort field');
+    }
+
+    if (sortOrder !== 'ASC' && sortOrder !== 'DESC') {
+      throw new ValidationError('Invalid cursor: unknown sort order');
+    }
+
+    if (direction !== 'after' && direction !== 'before') {
+      throw new ValidationError('Invalid cursor: unknown direction');
+    }
+
+    // Basic UUID format validation; the id is compared against a uuid column
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (typeof id !== 'string' || !uuidRegex.test(id)) {
+      throw new ValidationError('Invalid cursor: row id is not a valid UUID');
+    }
+
+    const validValue =
+      (sortBy === 'filename' && typeof sortValue === 'string') ||
+      (sortBy === 'file_size' && typeof sortValue === 'number' && Number.isFinite(sortValue)) ||
+      (sortBy === 'created_at' && sortValue instanceof Date && !isNaN(sortValue.getTime()));
+
+    if (!validValue) {
+      throw new ValidationError('Invalid cursor: sort value does not match the sort field');
+    }
+  }
+
+  /**
+   * Serializes the cursor into an opaque URL-safe token
+   */
+  public encode(): string {
+    const payload = {
+      s: this.sortBy,
+      o: this.sortOrder,
+      v: this.sortValue instanceof Date ? this.sortValue.toISOString() : this.sortValue,
+      i: this.id,
+      d: this.direction
+    };
+
+    return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  }
+
+  /**
+   * Returns the string representation
+   */
+  public toString(): string {
+    return this.encode();
+  }
+
+  /**
+   * Parses a token produced by encode()
+   */
+  public static decode(token: string): PageCursor {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    } catch {
+      throw new ValidationError('Invalid cursor: malformed token');
+    }
+
+    if (!payload || typeof payload !== 'object') {
+      throw new ValidationError('Invalid cursor: malformed token');
+    }
+
+    const { s, o, v, i, d } = payload as Record<string, unknown>;
+    const position: Record<string, unknown> = {
+      sortBy: s,
+      sortOrder: o,
+      sortValue: s === 'created_at' && typeof v === 'string' ? new Date(v) : v,
+      id: i,
+      direction: d
+    };
+    PageCursor.validate(position);
+
+    return new PageCursor(position.sortBy, position.sortOrder, position.sortValue, position.id, position.direction);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { ValidationError } from '../errors';
+
+/**
+ * Password value object holding a plain-text password chosen by a user
+ * Only lives long enough to be hashed; never stored or logged
+ */
+export class Password {
+  public static readonly MIN_LENGTH = 8;
+  public static readonly MAX_LENGTH = 128;
+
+  private readonly _value: string;
+
+  constructor(value: string) {
+    this.validate(value);
+    this._value = value;
+  }
+
+  public get value(): string {
+    return this._value;
+  }
+
+  /**
+   * Validates the password is long enough to resist guessing and short enough to hash cheaply
+   */
+  private validate(password: string): void {
+    if (typeof password !== 'string' || password.length < Password.MIN_LENGTH) {
+      throw new ValidationError(`Password must be at least ${Password.MIN_LENGTH} characters long`, 'password');
+    }
+
+    if (password.length > Password.MAX_LENGTH) {
+      throw new ValidationError(`Password cannot exceed ${Password.MAX_LENGTH} characters`, 'password');
+    }
+
+    if (password.trim().length === 0) {
+      throw new ValidationError('Password cannot consist of whitespace only', 'password');
+    }
+  }
+
+  /**
+   * Keeps the password out of logs and error messages
+   */
+  public toString(): string {
+    return '********';
+  }
+
+  /**
+   * Creates a Password instance with validation
+   */
+  public static create(value: string): Password {
+    return new Password(value);
+  }
+}
\ No newline at end of file
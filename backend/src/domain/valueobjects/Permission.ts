@@ -0,0 +1,28 @@
+/**
+ * Everything a role can be allowed to do
+ * - files:read: list, search and read the files the caller has access to
+ * - files:write: upload, change, share, delete and restore files
+ * - admin:access: enter the administration API
+ * - storage:read: read storage statistics and reconciliation reports
+ * - storage:maintain: run storage maintenance such as reconciliation
+ * - users:read: list accounts and their roles
+ * - users:manage: change the role of accounts
+ */
+export const PERMISSIONS = [
+  'files:read',
+  'files:write',
+  'admin:access',
+  'storage:read',
+  'storage:maintain',
+  'users:read',
+  'users:manage'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+/**
+ * Tells whether a string names a known permission
+ */
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { ValidationError } from '../errors';
+
+/**
+ * TrashRetention value object: how long deleted files stay in the trash before they are purged
+ */
+export class TrashRetention {
+  private readonly _days: number;
+
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  constructor(days: number) {
+    if (!Number.isInteger(days) || days < 1) {
+      throw new ValidationError('Trash retention must be a whole number of days, at least 1');
+    }
+
+    this._days = days;
+  }
+
+  public get days(): number {
+    return this._days;
+  }
+
+  /**
+   * Gets when a file deleted at the given time becomes due for purging
+   */
+  public purgeDateFor(deletedAt: Date): Date {
+    return new Date(deletedAt.getTime() + this._days * TrashRetention.DAY_MS);
+  }
+
+  /**
+   * Gets the deletion time before which trashed files are due for purging
+   */
+  public cutoffAt(now: Date): Date {
+    return new Date(now.getTime() - this._days * TrashRetention.DAY_MS);
+  }
+}
\ No newline at end of file
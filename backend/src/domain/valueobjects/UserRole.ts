@@ -0,0 +1,40 @@
+import { ValidationError } from '../errors';
+
+export type UserRoleName = 'user' | 'auditor' | 'admin';
+
+/**
+ * UserRole value object: what an account may do beyond its own files
+ * - user: works with the files they own or that are shared with them
+ * - auditor: reads files, storage statistics, maintenance reports and accounts, but changes nothing
+ * - admin: also runs maintenance and manages accounts
+ * The permissions of each role are defined by the permission matrix
+ */
+export class UserRole {
+  private readonly _value: UserRoleName;
+
+  public static readonly NAMES: readonly UserRoleName[] = ['user', 'auditor', 'admin'];
+
+  public static readonly USER = new UserRole('user');
+  public static readonly AUDITOR = new UserRole('auditor');
+  public static readonly ADMIN = new UserRole('admin');
+
+  constructor(value: string) {
+    if (!UserRole.NAMES.includes(value as UserRoleName)) {
+      throw new ValidationError(`Role must be one of: ${UserRole.NAMES.join(', ')}`, 'role');
+    }
+
+    this._value = value as UserRoleName;
+  }
+
+  public get value(): UserRoleName {
+    return this._value;
+  }
+
+  public equals(other: UserRole): boolean {
+    return this._value === other._value;
+  }
+
+  public toString(): string {
+    return this._value;
+  }
+}
\ No newline at end of file
@@ -1,2 +1,10 @@
 export * from './FileName';
-export * from './FileSize';
\ No newline at end of file
+export * from './FileSize';
+export * from './ContentHash';
+export * from './PageCursor';
+export * from './TrashRetention';
+export * from './EmailAddress';
+export * from './Password';
+export * from './FileRole';
+export * from './UserRole';
+export * from './Permission';
\ No newline at end of file
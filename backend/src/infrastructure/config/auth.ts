@@ -0,0 +1,17 @@
+export interface AuthConfig {
+  jwtSecret: string;
+  issuer: string;
+  accessTokenTtlSeconds: number;
+  refreshTokenTtlSeconds: number;
+}
+
+export const authConfig: AuthConfig = {
+  // Key signing access and refresh tokens; required, and changing it signs everybody out
+  jwtSecret: process.env.JWT_SECRET || '',
+  // Issuer recorded in and required of every token
+  issuer: process.env.JWT_ISSUER || 'atilio-api',
+  // Access tokens cannot be revoked, so they are short-lived
+  accessTokenTtlSeconds: parseInt(process.env.JWT_ACCESS_TOKEN_TTL_SECONDS || '900'),
+  // How long a session lasts without being refreshed
+  refreshTokenTtlSeconds: parseInt(process.env.JWT_REFRESH_TOKEN_TTL_SECONDS || '604800'),
+};
\ No newline at end of file
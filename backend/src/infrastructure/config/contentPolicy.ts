@@ -0,0 +1,11 @@
+export interface ContentPolicyConfig {
+  allowedBinaryTypes: string[];
+}
+
+export const contentPolicyConfig: ContentPolicyConfig = {
+  // Binary document types accepted for upload, comma separated; leave empty to accept text documents only
+  allowedBinaryTypes: (process.env.ALLOWED_BINARY_CONTENT_TYPES ?? 'image/png,image/jpeg,image/gif,image/webp,application/pdf')
+    .split(',')
+    .map(contentType => contentType.trim())
+    .filter(contentType => contentType.length > 0),
+};
\ No newline at end of file
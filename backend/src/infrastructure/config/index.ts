@@ -1,2 +1,10 @@
 // Infrastructure configuration exports
-export * from './database';
\ No newline at end of file
+export * from './database';
+export * from './storage';
+export * from './trash';
+export * from './reconciliation';
+export * from './integrity';
+export * from './contentPolicy';
+export * from './sizeLimits';
+export * from './auth';
+export * from './shareLinks';
\ No newline at end of file
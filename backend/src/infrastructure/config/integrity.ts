@@ -0,0 +1,11 @@
+export interface IntegrityConfig {
+  scrubIntervalMinutes: number;
+  scrubBatchSize: number;
+}
+
+export const integrityConfig: IntegrityConfig = {
+  // How often the background scrub re-hashes a batch of stored content
+  scrubIntervalMinutes: parseInt(process.env.INTEGRITY_SCRUB_INTERVAL_MINUTES || '60'),
+  // How many blobs every scrub run verifies, least recently verified first
+  scrubBatchSize: parseInt(process.env.INTEGRITY_SCRUB_BATCH_SIZE || '100'),
+};
\ No newline at end of file
@@ -0,0 +1,17 @@
+export interface ReconciliationConfig {
+  scheduleEnabled: boolean;
+  intervalMinutes: number;
+  dryRun: boolean;
+  orphanGracePeriodMinutes: number;
+}
+
+export const reconciliationConfig: ReconciliationConfig = {
+  // Whether storage is reconciled with the database in the background
+  scheduleEnabled: process.env.STORAGE_RECONCILE_ENABLED === 'true',
+  // How often the background reconciliation runs
+  intervalMinutes: parseInt(process.env.STORAGE_RECONCILE_INTERVAL_MINUTES || '1440'),
+  // Scheduled runs only report unless explicitly allowed to delete orphaned files
+  dryRun: process.env.STORAGE_RECONCILE_DRY_RUN !== 'false',
+  // Stored files younger than this are never treated as orphans (uploads still in progress)
+  orphanGracePeriodMinutes: parseInt(process.env.STORAGE_RECONCILE_GRACE_MINUTES || '60'),
+};
\ No newline at end of file
@@ -0,0 +1,11 @@
+export interface ShareLinkConfig {
+  signingSecret: string;
+  publicBaseUrl: string;
+}
+
+export const shareLinkConfig: ShareLinkConfig = {
+  // Key signing share links; falls back to the JWT secret, and changing it breaks every link handed out
+  signingSecret: process.env.SHARE_LINK_SECRET || process.env.JWT_SECRET || '',
+  // Address of the API as seen by the people links are handed to, without a trailing slash
+  publicBaseUrl: (process.env.PUBLIC_API_URL || 'http://localhost:3001/api/v1').replace(/\/+$/, ''),
+};
\ No newline at end of file
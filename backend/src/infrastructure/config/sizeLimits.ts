@@ -0,0 +1,26 @@
+export interface SizeLimitConfig {
+  defaultMaxBytes: number;
+  maxBytesByType: Record<string, number>;
+}
+
+/**
+ * Parses comma separated content-type=bytes pairs
+ */
+const parseLimits = (value: string): Record<string, number> =>
+  Object.fromEntries(
+    value
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(entry => entry.length > 0)
+      .map(entry => {
+        const separator = entry.lastIndexOf('=');
+        return [entry.substring(0, separator).trim(), parseInt(entry.substring(separator + 1))];
+      })
+  );
+
+export const sizeLimitConfig: SizeLimitConfig = {
+  // Largest accepted file in bytes for document types without a limit of their own
+  defaultMaxBytes: parseInt(process.env.MAX_FILE_SIZE_BYTES || '1048576'),
+  // Limits of individual document types, e.g. "application/pdf=10485760,image/png=5242880"
+  maxBytesByType: parseLimits(process.env.MAX_FILE_SIZE_BYTES_BY_TYPE || ''),
+};
\ No newline at end of file
@@ -0,0 +1,32 @@
+export type StorageDriver = 'local' | 's3' | 'memory';
+
+export interface S3StorageConfig {
+  endpoint?: string;
+  region: string;
+  bucket: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+  keyPrefix: string;
+}
+
+export interface StorageConfig {
+  driver: StorageDriver;
+  localDirectory: string;
+  s3: S3StorageConfig;
+}
+
+export const storageConfig: StorageConfig = {
+  driver: (process.env.STORAGE_DRIVER || 'local') as StorageDriver,
+  localDirectory: process.env.UPLOAD_DIRECTORY || 'uploaded-files',
+  s3: {
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    region: process.env.S3_REGION || 'us-east-1',
+    bucket: process.env.S3_BUCKET || 'atilio-files',
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+    // MinIO and most S3-compatible servers need path-style addressing
+    forcePathStyle: (process.env.S3_FORCE_PATH_STYLE || 'true') === 'true',
+    keyPrefix: process.env.S3_KEY_PREFIX || 'uploaded-files/',
+  },
+};
\ No newline at end of file
@@ -0,0 +1,11 @@
+export interface TrashConfig {
+  retentionDays: number;
+  purgeIntervalMinutes: number;
+}
+
+export const trashConfig: TrashConfig = {
+  // Deleted files stay restorable for this many days before they are purged
+  retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30'),
+  // How often the background job looks for files past their retention period
+  purgeIntervalMinutes: parseInt(process.env.TRASH_PURGE_INTERVAL_MINUTES || '60'),
+};
\ No newline at end of file
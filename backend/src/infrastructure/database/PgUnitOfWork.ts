@@ -0,0 +1,78 @@
+import { Pool, PoolClient } from 'pg';
+import { IUnitOfWork, ITransaction } from '../../application/interfaces';
+import { FileRepository, FileVersionRepository, FileBlobRepository } from '../repositories';
+
+/**
+ * A transaction on one pooled client, with the compensating and deferred actions registered during it
+ */
+class PgTransaction implements ITransaction {
+  readonly files: FileRepository;
+  readonly fileVersions: FileVersionRepository;
+  readonly fileBlobs: FileBlobRepository;
+
+  readonly rollbackActions: Array<() => Promise<void>> = [];
+  readonly commitActions: Array<() => Promise<void>> = [];
+
+  constructor(client: PoolClient) {
+    this.files = new FileRepository(client);
+    this.fileVersions = new FileVersionRepository(client);
+    this.fileBlobs = new FileBlobRepository(client);
+  }
+
+  onRollback(action: () => Promise<void>): void {
+    this.rollbackActions.push(action);
+  }
+
+  afterCommit(action: () => Promise<void>): void {
+    this.commitActions.push(action);
+  }
+}
+
+/**
+ * PostgreSQL implementation of the unit of work
+ * Each run checks out a client, wraps the work in BEGIN/COMMIT and rolls back on failure.
+ * Failing compensating or deferred actions are logged rather than thrown: the database is consistent
+ * at that point and the stray content is left for the storage reconciliation to report
+ */
+export class PgUnitOfWork implements IUnitOfWork {
+  constructor(private pool: Pool) {}
+
+  async run<T>(work: (transaction: ITransaction) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    const transaction = new PgTransaction(client);
+
+    let result: T;
+    try {
+      await client.query('BEGIN');
+      result = await work(transaction);
+      await client.query('COMMIT');
+    } catch (error) {
+      // A client whose rollback failed may still be inside the aborted transaction,
+      // so it is released with the error and the pool discards it instead of handing it out again
+      const rollbackError = await client.query('ROLLBACK').then(() => undefined, (failure: Error) => failure);
+      if (rollbackError) {
+        console.error('Failed to roll back transaction:', rollbackError);
+      }
+      client.release(rollbackError);
+      await this.runAll('compensating', [...transaction.rollbackActions].reverse());
+      throw error;
+    }
+
+    client.release();
+    await this.runAll('post-commit', transaction.commitActions);
+    return result;
+  }
+
+  /**
+   * Runs actions one after another, logging the ones that fail
+   */
+  private async runAll(kind: string, actions: Array<() => Promise<void>>): Promise<void> {
+    for (const action of actions) {
+      try {
+        await action();
+      } catch (error) {
+        console.error(`A ${kind} action failed after the transaction ended:`, error);
+      }
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,6 @@
+import { Pool } from 'pg';
+
+/**
+ * Anything repositories can run queries on: the pool itself, or a client holding an open transaction
+ */
+export type Queryable = Pick<Pool, 'query'>;
\ No newline at end of file
@@ -1 +1,3 @@
-export * from './DatabaseService';
\ No newline at end of file
+export * from './DatabaseService';
+export * from './Queryable';
+export * from './PgUnitOfWork';
\ No newline at end of file
@@ -0,0 +1,63 @@
+/**
+ * Runs a background task at a fixed interval
+ * A run is skipped while the previous one is still in progress; failures are logged and retried by the next run
+ */
+export class PeriodicJob {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly intervalMs: number,
+    private readonly task: () => Promise<void>
+  ) {
+    if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+      throw new Error(`Invalid interval for job '${name}': ${intervalMs}`);
+    }
+  }
+
+  /**
+   * Schedules the task; the timer does not keep the process alive
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Cancels future runs; a run in progress is not interrupted
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Runs the task now unless a run is already in progress
+   * @returns Whether the task was run
+   */
+  async runOnce(): Promise<boolean> {
+    if (this.running) {
+      return false;
+    }
+
+    this.running = true;
+    try {
+      await this.task();
+    } catch (error) {
+      console.error(`Background job '${this.name}' failed:`, error);
+    } finally {
+      this.running = false;
+    }
+
+    return true;
+  }
+}
\ No newline at end of file
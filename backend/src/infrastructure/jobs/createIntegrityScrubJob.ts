@@ -0,0 +1,26 @@
+import { Pool } from 'pg';
+import { IFileStorage } from '../../application/interfaces';
+import { VerifyStoredContentUseCase } from '../../application/usecases';
+import { FileBlobRepository } from '../repositories';
+import { IntegrityConfig, integrityConfig } from '../config';
+import { PeriodicJob } from './PeriodicJob';
+
+/**
+ * Creates the background job that re-hashes stored content and flags corrupted blobs
+ */
+export function createIntegrityScrubJob(pool: Pool, fileStorage: IFileStorage, config: IntegrityConfig = integrityConfig): PeriodicJob {
+  const verifyStoredContentUseCase = new VerifyStoredContentUseCase(new FileBlobRepository(pool), fileStorage);
+
+  return new PeriodicJob('integrity-scrub', config.scrubIntervalMinutes * 60 * 1000, async () => {
+    const result = await verifyStoredContentUseCase.execute({ batchSize: config.scrubBatchSize });
+
+    for (const blob of result.corrupted) {
+      console.error(
+        `Stored content '${blob.storagePath}' of blob ${blob.hash} is corrupted ` +
+        (blob.reason === 'missing' ? '(missing)'
+          : blob.reason === 'unreadable' ? `(unreadable: ${blob.error})`
+            : `(hashes to ${blob.actualHash})`)
+      );
+    }
+  });
+}
\ No newline at end of file
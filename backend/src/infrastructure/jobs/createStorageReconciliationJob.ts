@@ -0,0 +1,34 @@
+import { Pool } from 'pg';
+import { IFileStorage } from '../../application/interfaces';
+import { ReconcileStorageUseCase } from '../../application/usecases';
+import { FileRepository, StorageReconciliationReportRepository } from '../repositories';
+import { ReconciliationConfig, reconciliationConfig } from '../config';
+import { PeriodicJob } from './PeriodicJob';
+
+/**
+ * Creates the background job that reconciles storage with the database and persists the report
+ */
+export function createStorageReconciliationJob(
+  pool: Pool,
+  fileStorage: IFileStorage,
+  config: ReconciliationConfig = reconciliationConfig
+): PeriodicJob {
+  const reconcileStorageUseCase = new ReconcileStorageUseCase(
+    new FileRepository(pool),
+    fileStorage,
+    new StorageReconciliationReportRepository(pool),
+    config.orphanGracePeriodMinutes
+  );
+
+  return new PeriodicJob('storage-reconciliation', config.intervalMinutes * 60 * 1000, async () => {
+    const report = await reconcileStorageUseCase.execute({ dryRun: config.dryRun, trigger: 'scheduled' });
+
+    if (!report.consistent) {
+      console.warn(
+        `Storage reconciliation ${report.id} found ${report.orphanedFiles.length} orphaned file(s) ` +
+        `(${report.deletedFileCount} deleted), ${report.danglingReferences.length} dangling reference(s) ` +
+        `and ${report.sizeMismatches.length} size mismatch(es)`
+      );
+    }
+  });
+}
\ No newline at end of file
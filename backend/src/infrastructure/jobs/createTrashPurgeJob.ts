@@ -0,0 +1,37 @@
+import { Pool } from 'pg';
+import { IFileStorage } from '../../application/interfaces';
+import { FileBlobService, FileAccessPolicy } from '../../application/services';
+import { PurgeExpiredFilesUseCase, PurgeFileUseCase } from '../../application/usecases';
+import { TrashRetention } from '../../domain/valueobjects';
+import { FileRepository, FileBlobRepository, FileGrantRepository } from '../repositories';
+import { PgUnitOfWork } from '../database';
+import { TrashConfig, trashConfig } from '../config';
+import { PeriodicJob } from './PeriodicJob';
+
+/**
+ * Creates the background job that purges trashed files once their retention period has passed
+ */
+export function createTrashPurgeJob(pool: Pool, fileStorage: IFileStorage, config: TrashConfig = trashConfig): PeriodicJob {
+  const fileRepository = new FileRepository(pool);
+  const purgeFileUseCase = new PurgeFileUseCase(
+    new FileBlobService(new FileBlobRepository(pool), fileStorage),
+    new PgUnitOfWork(pool),
+    new FileAccessPolicy(new FileGrantRepository(pool))
+  );
+  const purgeExpiredFilesUseCase = new PurgeExpiredFilesUseCase(
+    fileRepository,
+    purgeFileUseCase,
+    new TrashRetention(config.retentionDays)
+  );
+
+  return new PeriodicJob('trash-purge', config.purgeIntervalMinutes * 60 * 1000, async () => {
+    const result = await purgeExpiredFilesUseCase.execute();
+
+    if (result.purged.length > 0) {
+      console.log(`Purged ${result.purged.length} file(s) deleted before ${result.cutoff.toISOString()}`);
+    }
+    for (const failure of result.failed) {
+      console.error(`Failed to purge trashed file '${failure.filename}' (${failure.id}): ${failure.error}`);
+    }
+  });
+}
\ No newline at end of file
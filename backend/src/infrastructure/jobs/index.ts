@@ -0,0 +1,4 @@
+export * from './PeriodicJob';
+export * from './createTrashPurgeJob';
+export * from './createStorageReconciliationJob';
+export * from './createIntegrityScrubJob';
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { Queryable } from '../database/Queryable';
+import { IApiKeyRepository } from '../../domain/repositories';
+import { ApiKey } from '../../domain/entities';
+import { isPermission } from '../../domain/valueobjects';
+
+/**
+ * PostgreSQL implementation of the API key repository
+ * Keys are stored as hashes only; the keys themselves never touch the database
+ */
+export class ApiKeyRepository implements IApiKeyRepository {
+  private pool: Queryable;
+
+  constructor(pool: Queryable) {
+    this.pool = pool;
+  }
+
+  /**
+   * Inserts a newly created key
+   */
+  async save(apiKey: ApiKey): Promise<ApiKey> {
+    const query = `
+      INSERT INTO api_keys (id, user_id, name, prefix, key_hash, scopes, expires_at, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `;
+    const values = [
+      apiKey.id,
+      apiKey.userId,
+      apiKey.name,
+      apiKey.prefix,
+      apiKey.keyHash,
+      apiKey.scopes,
+      apiKey.expiresAt,
+      apiKey.createdAt
+    ];
+    const result = await this.pool.query(query, values);
+
+    return this.mapRowToApiKey(result.rows[0]);
+  }
+
+  /**
+   * Finds a key by the hash of the key
+   */
+  async findByHash(keyHash: string): Promise<ApiKey | null> {
+    const result = await this.pool.query('SELECT * FROM api_keys WHERE key_hash = $1', [keyHash]);
+
+    return result.rows.length > 0 ? this.mapRowToApiKey(result.rows[0]) : null;
+  }
+
+  /**
+   * Finds all keys of a user, newest first
+   */
+  async findByUserId(userId: string): Promise<ApiKey[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM api_keys WHERE user_id = $1 ORDER BY created_at DESC, id ASC',
+      [userId]
+    );
+
+    return result.rows.map(row => this.mapRowToApiKey(row));
+  }
+
+  /**
+   * Records when a key was last used
+   */
+  async recordUse(id: string, usedAt: Date): Promise<void> {
+    await this.pool.query('UPDATE api_keys SET last_used_at = $2 WHERE id = $1', [id, usedAt]);
+  }
+
+  /**
+   * Deletes a key, provided it belongs to the given user
+   */
+  async delete(id: string, userId: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM api_keys WHERE id = $1 AND user_id = $2', [id, userId]);
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Maps database row to ApiKey entity, dropping scopes that are no longer known
+   */
+  private mapRowToApiKey(row: any): ApiKey {
+    return new ApiKey(
+      row.id,
+      row.user_id,
+      row.name,
+      row.prefix,
+      row.key_hash,
+      (row.scopes as string[]).filter(isPermission),
+      row.expires_at,
+      row.created_at,
+      row.last_used_at ?? undefined
+    );
+  }
+}
\ No newline at end of file
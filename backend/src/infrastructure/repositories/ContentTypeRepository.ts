@@ -0,0 +1,32 @@
+import { Queryable } from '../database/Queryable';
+import { IContentTypeRepository } from '../../domain/repositories';
+import { ContentTypeDefinition, SizeLimitPolicy } from '../../domain/services';
+
+/**
+ * PostgreSQL implementation of the content type repository
+ * Rows of content_types are referenced by files and file_versions
+ */
+export class ContentTypeRepository implements IContentTypeRepository {
+  private pool: Queryable;
+
+  constructor(pool: Queryable) {
+    this.pool = pool;
+  }
+
+  /**
+   * Upserts every registered document type with its current size limit; there are only a handful
+   */
+  async synchronize(definitions: ContentTypeDefinition[], sizeLimits: SizeLimitPolicy): Promise<void> {
+    const query = `
+      INSERT INTO content_types (content_type, extensions, max_size_bytes)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (content_type) DO UPDATE
+      SET extensions = EXCLUDED.extensions,
+          max_size_bytes = EXCLUDED.max_size_bytes
+    `;
+
+    for (const definition of definitions) {
+      await this.pool.query(query, [definition.contentType, [...definition.extensions], sizeLimits.getMaxSize(definition.contentType)]);
+    }
+  }
+}
\ No newline at end of file
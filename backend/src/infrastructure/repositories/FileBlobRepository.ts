@@ -0,0 +1,113 @@
+import { Queryable } from '../database/Queryable';
+import { IFileBlobRepository } from '../../domain/repositories';
+import { FileBlob } from '../../domain/entities';
+
+/**
+ * PostgreSQL implementation of the file blob repository
+ * Keeps reference counts of content-addressed blobs
+ */
+export class FileBlobRepository implements IFileBlobRepository {
+  private pool: Queryable;
+
+  constructor(pool: Queryable) {
+    this.pool = pool;
+  }
+
+  /**
+   * Finds a blob by the hash of its content, locking its row until the transaction ends
+   */
+  async findByHashForUpdate(hash: string): Promise<FileBlob | null> {
+    const query = 'SELECT * FROM blobs WHERE hash = $1 FOR UPDATE';
+    const result = await this.pool.query(query, [hash]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToFileBlob(result.rows[0]);
+  }
+
+  /**
+   * Registers a new reference, inserting the blob on first use
+   */
+  async addReference(hash: string, storagePath: string, size: number): Promise<FileBlob> {
+    const query = `
+      INSERT INTO blobs (hash, storage_path, blob_size, ref_count)
+      VALUES ($1, $2, $3, 1)
+      ON CONFLICT (hash) DO UPDATE SET ref_count = blobs.ref_count + 1
+      RETURNING *
+    `;
+    const result = await this.pool.query(query, [hash, storagePath, size]);
+
+    return this.mapRowToFileBlob(result.rows[0]);
+  }
+
+  /**
+   * Drops a reference and returns the remaining count
+   */
+  async removeReference(hash: string): Promise<number> {
+    const query = `
+      UPDATE blobs SET ref_count = GREATEST(ref_count - 1, 0)
+      WHERE hash = $1
+      RETURNING ref_count
+    `;
+    const result = await this.pool.query(query, [hash]);
+
+    if (result.rows.length === 0) {
+      return 0;
+    }
+
+    return parseInt(result.rows[0].ref_count, 10);
+  }
+
+  /**
+   * Deletes the blob record when its reference count reached zero
+   */
+  async deleteIfUnreferenced(hash: string): Promise<FileBlob | null> {
+    const query = 'DELETE FROM blobs WHERE hash = $1 AND ref_count = 0 RETURNING *';
+    const result = await this.pool.query(query, [hash]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToFileBlob(result.rows[0]);
+  }
+
+  /**
+   * Finds the blobs verified longest ago, never verified ones first
+   */
+  async findLeastRecentlyVerified(limit: number): Promise<FileBlob[]> {
+    const query = 'SELECT * FROM blobs ORDER BY verified_at ASC NULLS FIRST, hash ASC LIMIT $1';
+    const result = await this.pool.query(query, [limit]);
+
+    return result.rows.map(row => this.mapRowToFileBlob(row));
+  }
+
+  /**
+   * Records a verification, keeping the first corruption time while the blob stays corrupted
+   */
+  async recordVerification(hash: string, verifiedAt: Date, corrupted: boolean): Promise<void> {
+    const query = `
+      UPDATE blobs
+      SET verified_at = $2, corrupted_at = CASE WHEN $3 THEN COALESCE(corrupted_at, $2) ELSE NULL END
+      WHERE hash = $1
+    `;
+    await this.pool.query(query, [hash, verifiedAt, corrupted]);
+  }
+
+  /**
+   * Maps a database row to a FileBlob entity
+   */
+  private mapRowToFileBlob(row: any): FileBlob {
+    return new FileBlob(
+      row.hash,
+      row.storage_path,
+      row.blob_size,
+      parseInt(row.ref_count, 10),
+      row.created_at,
+      row.verified_at ?? undefined,
+      row.corrupted_at ?? undefined
+    );
+  }
+}
\ No newline at end of file
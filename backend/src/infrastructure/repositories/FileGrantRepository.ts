@@ -0,0 +1,81 @@
+import { Queryable } from '../database/Queryable';
+import { IFileGrantRepository } from '../../domain/repositories';
+import { FileGrant } from '../../domain/entities';
+import { FileRole } from '../../domain/valueobjects';
+
+/**
+ * PostgreSQL implementation of the file grant repository
+ */
+export class FileGrantRepository implements IFileGrantRepository {
+  private pool: Queryable;
+
+  constructor(pool: Queryable) {
+    this.pool = pool;
+  }
+
+  /**
+   * Finds the grant of a user on a file
+   */
+  async findByFileAndUser(fileId: string, userId: string): Promise<FileGrant | null> {
+    const query = 'SELECT * FROM file_grants WHERE file_id = $1 AND user_id = $2';
+    const result = await this.pool.query(query, [fileId, userId]);
+
+    return result.rows.length > 0 ? this.mapRowToFileGrant(result.rows[0]) : null;
+  }
+
+  /**
+   * Finds all grants on a file
+   */
+  async findByFileId(fileId: string): Promise<FileGrant[]> {
+    const query = 'SELECT * FROM file_grants WHERE file_id = $1 ORDER BY created_at ASC';
+    const result = await this.pool.query(query, [fileId]);
+
+    return result.rows.map(row => this.mapRowToFileGrant(row));
+  }
+
+  /**
+   * Inserts a grant or, when the user already holds one on the file, replaces its role
+   */
+  async save(grant: FileGrant): Promise<FileGrant> {
+    const query = `
+      INSERT INTO file_grants (id, file_id, user_id, role, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (file_id, user_id) DO UPDATE SET role = EXCLUDED.role
+      RETURNING *
+    `;
+    const result = await this.pool.query(query, [
+      grant.id,
+      grant.fileId,
+      grant.userId,
+      grant.role.value,
+      grant.createdAt,
+      grant.updatedAt
+    ]);
+
+    return this.mapRowToFileGrant(result.rows[0]);
+  }
+
+  /**
+   * Deletes the grant of a user on a file
+   */
+  async delete(fileId: string, userId: string): Promise<boolean> {
+    const query = 'DELETE FROM file_grants WHERE file_id = $1 AND user_id = $2';
+    const result = await this.pool.query(query, [fileId, userId]);
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Maps database row to FileGrant entity
+   */
+  private mapRowToFileGrant(row: any): FileGrant {
+    return new FileGrant(
+      row.id,
+      row.file_id,
+      row.user_id,
+      new FileRole(row.role),
+      row.created_at,
+      row.updated_at
+    );
+  }
+}
\ No newline at end of file
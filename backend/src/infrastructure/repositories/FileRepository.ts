@@ -1,23 +1,40 @@
-import { Pool } from 'pg';
-import { IFileRepository } from '../../domain/repositories';
-import { File } from '../../domain/entities';
+import { Queryable } from '../database/Queryable';
+import {
+  IFileRepository,
+  FileListFilter,
+  FileListPage,
+  FileKeysetPage,
+  FileSearchCriteria,
+  FileSearchResult
+} from '../../domain/repositories';
+import { File, StoredContentReference } from '../../domain/entities';
+import { PageCursor } from '../../domain/valueobjects';
+import { ConcurrencyError, ConflictError } from '../../domain/errors';
+
+// PostgreSQL error code of unique constraint violations
+const UNIQUE_VIOLATION = '23505';
 
 /**
  * PostgreSQL implementation of the file repository
- * Handles database operations for file metadata
+ * Handles database operations for file metadata; rows with deleted_at set are in the trash
  */
 export class FileRepository implements IFileRepository {
-  private pool: Pool;
+  // Control characters ts_headline wraps matches in; they are stripped from the text first,
+  // so after escaping the snippet they can only mark matches
+  private static readonly MATCH_START = '\u0002';
+  private static readonly MATCH_END = '\u0003';
+
+  private pool: Queryable;
 
-  constructor(pool: Pool) {
+  constructor(pool: Queryable) {
     this.pool = pool;
   }
 
   /**
-   * Finds a file by ID
+   * Finds a live file by ID
    */
   async findById(id: string): Promise<File | null> {
-    const query = 'SELECT * FROM files WHERE id = $1';
+    const query = 'SELECT * FROM files WHERE id = $1 AND deleted_at IS NULL';
     const result = await this.pool.query(query, [id]);
     
     if (result.rows.length === 0) {
@@ -28,10 +45,10 @@ export class FileRepository implements IFileRepository {
   }
 
   /**
-   * Finds all files
+   * Finds all live files
    */
   async findAll(): Promise<File[]> {
-    const query = 'SELECT * FROM files ORDER BY created_at DESC';
+    const query = 'SELECT * FROM files WHERE deleted_at IS NULL ORDER BY created_at DESC';
     const result = await this.pool.query(query);
     
     return result.rows.map(row => this.mapRowToFile(row));
@@ -51,7 +68,7 @@ export class FileRepository implements IFileRepository {
   }
 
   /**
-   * Deletes a file by ID
+   * Permanently deletes a file by ID, whether live or trashed
    */
   async delete(id: string): Promise<void> {
     const query = 'DELETE FROM files WHERE id = $1';
@@ -59,11 +76,11 @@ export class FileRepository implements IFileRepository {
   }
 
   /**
-   * Finds a file by filename
+   * Finds a live file of an owner by filename; without an owner among the files that have none
    */
-  async findByFilename(filename: string): Promise<File | null> {
-    const query = 'SELECT * FROM files WHERE filename = $1';
-    const result = await this.pool.query(query, [filename]);
+  async findByFilename(filename: string, ownerId?: string): Promise<File | null> {
+    const query = 'SELECT * FROM files WHERE filename = $1 AND owner_id IS NOT DISTINCT FROM $2 AND deleted_at IS NULL';
+    const result = await this.pool.query(query, [filename, ownerId ?? null]);
     
     if (result.rows.length === 0) {
       return null;
@@ -76,7 +93,7 @@ export class FileRepository implements IFileRepository {
    * Finds files by content type
    */
   async findByContentType(contentType: string): Promise<File[]> {
-    const query = 'SELECT * FROM files WHERE content_type = $1 ORDER BY created_at DESC';
+    const query = 'SELECT * FROM files WHERE content_type = $1 AND deleted_at IS NULL ORDER BY created_at DESC';
     const result = await this.pool.query(query, [contentType]);
     
     return result.rows.map(row => this.mapRowToFile(row));
@@ -88,7 +105,7 @@ export class FileRepository implements IFileRepository {
   async findByDateRange(startDate: Date, endDate: Date): Promise<File[]> {
     const query = `
       SELECT * FROM files 
-      WHERE created_at >= $1 AND created_at <= $2 
+      WHERE created_at >= $1 AND created_at <= $2 AND deleted_at IS NULL
       ORDER BY created_at DESC
     `;
     const result = await this.pool.query(query, [startDate, endDate]);
@@ -102,7 +119,7 @@ export class FileRepository implements IFileRepository {
   async findBySizeRange(minSize: number, maxSize: number): Promise<File[]> {
     const query = `
       SELECT * FROM files 
-      WHERE file_size >= $1 AND file_size <= $2 
+      WHERE file_size >= $1 AND file_size <= $2 AND deleted_at IS NULL
       ORDER BY file_size DESC
     `;
     const result = await this.pool.query(query, [minSize, maxSize]);
@@ -114,7 +131,7 @@ export class FileRepository implements IFileRepository {
    * Gets the total count of files
    */
   async getTotalCount(): Promise<number> {
-    const query = 'SELECT COUNT(*) FROM files';
+    const query = 'SELECT COUNT(*) FROM files WHERE deleted_at IS NULL';
     const result = await this.pool.query(query);
     
     return parseInt(result.rows[0].count, 10);
@@ -124,7 +141,7 @@ export class FileRepository implements IFileRepository {
    * Gets the total size of all files in bytes
    */
   async getTotalSize(): Promise<number> {
-    const query = 'SELECT COALESCE(SUM(file_size), 0) as total_size FROM files';
+    const query = 'SELECT COALESCE(SUM(file_size), 0) as total_size FROM files WHERE deleted_at IS NULL';
     const result = await this.pool.query(query);
     
     return parseInt(result.rows[0].total_size, 10);
@@ -153,6 +170,7 @@ export class FileRepository implements IFileRepository {
 
     const query = `
       SELECT * FROM files 
+      WHERE deleted_at IS NULL
       ORDER BY ${sortBy} ${sortOrder}
       LIMIT $1 OFFSET $2
     `;
@@ -162,17 +180,110 @@ export class FileRepository implements IFileRepository {
   }
 
   /**
-   * Checks if a file with the given filename exists
+   * Finds a page of filtered files; the page and the filtered totals come from a single query
+   */
+  async findWithFilters(
+    filter: FileListFilter,
+    offset: number,
+    limit: number,
+    sortBy: 'filename' | 'created_at' | 'file_size' = 'created_at',
+    sortOrder: 'ASC' | 'DESC' = 'DESC'
+  ): Promise<FileListPage> {
+    this.validateSort(sortBy, sortOrder);
+
+    const params: unknown[] = [];
+    const conditions = ['deleted_at IS NULL', ...this.buildFilterConditions(filter, params)];
+    params.push(limit, offset);
+
+    // The totals row is always returned, even when the requested page is empty
+    const query = `
+      WITH filtered AS (
+        SELECT * FROM files WHERE ${conditions.join(' AND ')}
+      ),
+      totals AS (
+        SELECT COUNT(*) AS total_count, COALESCE(SUM(file_size), 0) AS total_size FROM filtered
+      )
+      SELECT totals.total_count, totals.total_size, page.*
+      FROM totals
+      LEFT JOIN LATERAL (
+        SELECT * FROM filtered
+        ORDER BY ${sortBy} ${sortOrder}, id ${sortOrder}
+        LIMIT $${params.length - 1} OFFSET $${params.length}
+      ) page ON true
+    `;
+    const result = await this.pool.query(query, params);
+    const totals = result.rows[0] ?? { total_count: '0', total_size: '0' };
+
+    return {
+      files: result.rows.filter(row => row.id !== null && row.id !== undefined).map(row => this.mapRowToFile(row)),
+      totalCount: parseInt(totals.total_count, 10),
+      totalSize: parseInt(totals.total_size, 10)
+    };
+  }
+
+  /**
+   * Finds the filtered page next to a cursor with a plain keyset query on (sort column, id),
+   * which the matching index can serve without visiting the rest of the filtered set
+   */
+  async findByCursor(filter: FileListFilter, limit: number, cursor: PageCursor): Promise<FileKeysetPage> {
+    const { sortBy, sortOrder } = cursor;
+    this.validateSort(sortBy, sortOrder);
+
+    // Paging backwards walks the index in reverse and flips the rows afterwards
+    const backwards = cursor.direction === 'before';
+    const scanOrder = backwards ? (sortOrder === 'ASC' ? 'DESC' : 'ASC') : sortOrder;
+    const comparison = scanOrder === 'ASC' ? '>' : '<';
+
+    const params: unknown[] = [];
+    const conditions = ['deleted_at IS NULL', ...this.buildFilterConditions(filter, params)];
+    params.push(cursor.sortValue, cursor.id);
+    conditions.push(`(${sortBy}, id) ${comparison} ($${params.length - 1}, $${params.length})`);
+    // One extra row tells whether another page follows
+    params.push(limit + 1);
+
+    const query = `
+      SELECT * FROM files
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${sortBy} ${scanOrder}, id ${scanOrder}
+      LIMIT $${params.length}
+    `;
+    const result = await this.pool.query(query, params);
+    const files = result.rows.slice(0, limit).map(row => this.mapRowToFile(row));
+
+    return {
+      files: backwards ? files.reverse() : files,
+      hasMore: result.rows.length > limit
+    };
+  }
+
+  /**
+   * Validates sort parameters to prevent SQL injection
    */
-  async existsByFilename(filename: string): Promise<boolean> {
-    const query = 'SELECT 1 FROM files WHERE filename = $1 LIMIT 1';
-    const result = await this.pool.query(query, [filename]);
+  private validateSort(sortBy: string, sortOrder: string): void {
+    const allowedSortFields = ['filename', 'created_at', 'file_size'];
+    const allowedSortOrders = ['ASC', 'DESC'];
+
+    if (!allowedSortFields.includes(sortBy)) {
+      throw new Error(`Invalid sort field: ${sortBy}`);
+    }
+
+    if (!allowedSortOrders.includes(sortOrder)) {
+      throw new Error(`Invalid sort order: ${sortOrder}`);
+    }
+  }
+
+  /**
+   * Checks if an owner has a live file with the given filename; without an owner among the files that have none
+   */
+  async existsByFilename(filename: string, ownerId?: string): Promise<boolean> {
+    const query = 'SELECT 1 FROM files WHERE filename = $1 AND owner_id IS NOT DISTINCT FROM $2 AND deleted_at IS NULL LIMIT 1';
+    const result = await this.pool.query(query, [filename, ownerId ?? null]);
     
     return result.rows.length > 0;
   }
 
   /**
-   * Checks if a file with the given file path exists
+   * Checks if a file with the given file path exists (trashed files still own their path)
    */
   async existsByFilePath(filePath: string): Promise<boolean> {
     const query = 'SELECT 1 FROM files WHERE file_path = $1 LIMIT 1';
@@ -181,37 +292,215 @@ export class FileRepository implements IFileRepository {
     return result.rows.length > 0;
   }
 
+  /**
+   * Stores the searchable text of a file (the search vector is generated from it)
+   */
+  async updateSearchText(id: string, searchText: string): Promise<void> {
+    const query = 'UPDATE files SET search_text = $2 WHERE id = $1';
+    await this.pool.query(query, [id, searchText]);
+  }
+
+  /**
+   * Full-text search over file names and contents, ranked by relevance
+   */
+  async searchByContent(criteria: FileSearchCriteria): Promise<FileSearchResult> {
+    const params: unknown[] = [criteria.query];
+    const conditions = [
+      'search_vector @@ search_query',
+      'deleted_at IS NULL',
+      ...this.buildFilterConditions(
+        {
+          contentType: criteria.contentType,
+          createdFrom: criteria.startDate,
+          createdTo: criteria.endDate,
+          accessibleBy: criteria.accessibleBy
+        },
+        params
+      )
+    ];
+
+    params.push(criteria.limit, criteria.offset);
+
+    const query = `
+      SELECT files.*,
+        ts_rank_cd(search_vector, search_query) AS rank,
+        ts_headline('english', translate(COALESCE(search_text, filename), chr(2) || chr(3), ''), search_query,
+          'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "') AS snippet,
+        COUNT(*) OVER() AS total_count
+      FROM files, websearch_to_tsquery('english', $1) AS search_query
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY rank DESC, created_at DESC
+      LIMIT $${params.length - 1} OFFSET $${params.length}
+    `;
+    const result = await this.pool.query(query, params);
+
+    return {
+      hits: result.rows.map(row => ({
+        file: this.mapRowToFile(row),
+        rank: parseFloat(row.rank),
+        snippet: this.highlightSnippet(row.snippet)
+      })),
+      totalCount: result.rows.length > 0 ? parseInt(result.rows[0].total_count, 10) : 0
+    };
+  }
+
+  /**
+   * Escapes the stored text of a snippet as HTML, so uploaded markup is shown rather than rendered,
+   * and only then wraps the matched terms in <mark></mark>
+   */
+  private highlightSnippet(snippet: string): string {
+    return snippet
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;')
+      .split(FileRepository.MATCH_START).join('<mark>')
+      .split(FileRepository.MATCH_END).join('</mark>');
+  }
+
+  /**
+   * Moves a live file to the trash (row_version changes, so pending updates based on it fail)
+   */
+  async moveToTrash(id: string, deletedAt: Date): Promise<File | null> {
+    const query = `
+      UPDATE files SET deleted_at = $2, row_version = row_version + 1
+      WHERE id = $1 AND deleted_at IS NULL
+      RETURNING *
+    `;
+    const result = await this.pool.query(query, [id, deletedAt]);
+
+    return result.rows.length > 0 ? this.mapRowToFile(result.rows[0]) : null;
+  }
+
+  /**
+   * Moves a trashed file back to the live files
+   * Throws a ConflictError when its owner has a live file with the same name
+   */
+  async restoreFromTrash(id: string): Promise<File | null> {
+    const query = `
+      UPDATE files SET deleted_at = NULL, row_version = row_version + 1
+      WHERE id = $1 AND deleted_at IS NOT NULL
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.pool.query(query, [id]);
+
+      return result.rows.length > 0 ? this.mapRowToFile(result.rows[0]) : null;
+    } catch (error) {
+      // The owner uploaded a file with the same name after the use case checked it
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        throw new ConflictError('A file with the same name already exists. Rename or delete it before restoring this file.');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Finds a trashed file by ID
+   */
+  async findTrashedById(id: string): Promise<File | null> {
+    const query = 'SELECT * FROM files WHERE id = $1 AND deleted_at IS NOT NULL';
+    const result = await this.pool.query(query, [id]);
+
+    return result.rows.length > 0 ? this.mapRowToFile(result.rows[0]) : null;
+  }
+
+  /**
+   * Finds a page of trashed files; the page and the trash totals come from a single query
+   */
+  async findTrashed(offset: number, limit: number, accessibleBy?: string): Promise<FileListPage> {
+    const params: unknown[] = [];
+    const conditions = ['deleted_at IS NOT NULL', ...this.buildFilterConditions({ accessibleBy }, params)];
+    params.push(limit, offset);
+
+    // The totals row is always returned, even when the requested page is empty
+    const query = `
+      WITH trashed AS (
+        SELECT * FROM files WHERE ${conditions.join(' AND ')}
+      ),
+      totals AS (
+        SELECT COUNT(*) AS total_count, COALESCE(SUM(file_size), 0) AS total_size FROM trashed
+      )
+      SELECT totals.total_count, totals.total_size, page.*
+      FROM totals
+      LEFT JOIN LATERAL (
+        SELECT * FROM trashed
+        ORDER BY deleted_at DESC, id DESC
+        LIMIT $${params.length - 1} OFFSET $${params.length}
+      ) page ON true
+    `;
+    const result = await this.pool.query(query, params);
+    const totals = result.rows[0] ?? { total_count: '0', total_size: '0' };
+
+    return {
+      files: result.rows.filter(row => row.id !== null && row.id !== undefined).map(row => this.mapRowToFile(row)),
+      totalCount: parseInt(totals.total_count, 10),
+      totalSize: parseInt(totals.total_size, 10)
+    };
+  }
+
+  /**
+   * Finds trashed files deleted before a cutoff, oldest first
+   */
+  async findTrashedBefore(cutoff: Date, limit: number): Promise<File[]> {
+    const query = `
+      SELECT * FROM files
+      WHERE deleted_at IS NOT NULL AND deleted_at < $1
+      ORDER BY deleted_at ASC
+      LIMIT $2
+    `;
+    const result = await this.pool.query(query, [cutoff, limit]);
+
+    return result.rows.map(row => this.mapRowToFile(row));
+  }
+
   /**
    * Creates a new file record
    */
   private async createFile(file: File): Promise<File> {
     const query = `
-      INSERT INTO files (id, filename, file_path, file_size, content_type, created_at, updated_at)
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      INSERT INTO files (id, filename, file_path, file_size, content_type, created_at, updated_at, current_version, content_hash, deleted_at, owner_id)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
       RETURNING *
     `;
     
-    const result = await this.pool.query(query, [
-      file.id,
-      file.filename,
-      file.filePath,
-      file.fileSize,
-      file.contentType,
-      file.createdAt,
-      file.updatedAt
-    ]);
-    
-    return this.mapRowToFile(result.rows[0]);
+    try {
+      const result = await this.pool.query(query, [
+        file.id,
+        file.filename,
+        file.filePath,
+        file.fileSize,
+        file.contentType,
+        file.createdAt,
+        file.updatedAt,
+        file.currentVersion,
+        file.contentHash ?? null,
+        file.deletedAt ?? null,
+        file.ownerId ?? null
+      ]);
+
+      return this.mapRowToFile(result.rows[0]);
+    } catch (error) {
+      // Another upload of the same owner took the name after the use case checked it
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        throw new ConflictError(`A file with the name '${file.filename}' already exists`);
+      }
+      throw error;
+    }
   }
 
   /**
    * Updates an existing file record
    */
   private async updateFile(file: File): Promise<File> {
+    // Only applies while the row is still at the version the entity was loaded at
     const query = `
       UPDATE files 
-      SET filename = $2, file_path = $3, file_size = $4, content_type = $5, updated_at = $6
-      WHERE id = $1
+      SET filename = $2, file_path = $3, file_size = $4, content_type = $5, updated_at = $6, current_version = $7, content_hash = $8,
+        row_version = row_version + 1
+      WHERE id = $1 AND row_version = $9
       RETURNING *
     `;
     
@@ -221,12 +510,65 @@ export class FileRepository implements IFileRepository {
       file.filePath,
       file.fileSize,
       file.contentType,
-      new Date()
+      new Date(),
+      file.currentVersion,
+      file.contentHash ?? null,
+      file.rowVersion
     ]);
+
+    if (result.rows.length === 0) {
+      throw new ConcurrencyError('File', file.id);
+    }
     
     return this.mapRowToFile(result.rows[0]);
   }
 
+  /**
+   * Translates a list filter into SQL conditions, appending their values to params
+   */
+  private buildFilterConditions(filter: FileListFilter, params: unknown[]): string[] {
+    const conditions: string[] = [];
+    const addCondition = (sql: (placeholder: string) => string, value: unknown): void => {
+      params.push(value);
+      conditions.push(sql(`$${params.length}`));
+    };
+
+    if (filter.contentType) {
+      addCondition(p => `content_type = ${p}`, filter.contentType);
+    }
+    if (filter.createdFrom) {
+      addCondition(p => `created_at >= ${p}`, filter.createdFrom);
+    }
+    if (filter.createdTo) {
+      addCondition(p => `created_at <= ${p}`, filter.createdTo);
+    }
+    if (filter.updatedFrom) {
+      addCondition(p => `updated_at >= ${p}`, filter.updatedFrom);
+    }
+    if (filter.updatedTo) {
+      addCondition(p => `updated_at <= ${p}`, filter.updatedTo);
+    }
+    if (filter.minSize !== undefined) {
+      addCondition(p => `file_size >= ${p}`, filter.minSize);
+    }
+    if (filter.maxSize !== undefined) {
+      addCondition(p => `file_size <= ${p}`, filter.maxSize);
+    }
+    if (filter.nameContains) {
+      // Escape LIKE wildcards so the value is matched literally
+      const escaped = filter.nameContains.replace(/[\\%_]/g, match => `\\${match}`);
+      addCondition(p => `filename ILIKE ${p}`, `%${escaped}%`);
+    }
+    if (filter.accessibleBy) {
+      addCondition(
+        p => `(owner_id IS NULL OR owner_id = ${p} OR EXISTS (SELECT 1 FROM file_grants WHERE file_grants.file_id = files.id AND file_grants.user_id = ${p}))`,
+        filter.accessibleBy
+      );
+    }
+
+    return conditions;
+  }
+
   /**
    * Maps a database row to a File entity
    */
@@ -238,18 +580,37 @@ export class FileRepository implements IFileRepository {
       row.file_size,
       row.content_type,
       row.created_at,
-      row.updated_at
+      row.updated_at,
+      row.current_version ?? 1,
+      row.content_hash ?? undefined,
+      row.row_version ?? 1,
+      row.deleted_at ?? undefined,
+      row.owner_id ?? undefined
     );
   }
 
   /**
-   * Gets all file paths for cleanup operations
+   * Lists every row pointing at stored content, for reconciling storage with the database
    */
-  async getAllFilePaths(): Promise<string[]> {
-    const query = 'SELECT file_path FROM files';
+  async findStoredContentReferences(): Promise<StoredContentReference[]> {
+    const query = `
+      SELECT file_path AS storage_path, file_size AS expected_size, 'file' AS referenced_by, id::text AS reference_id
+      FROM files
+      UNION ALL
+      SELECT file_path, file_size, 'version', id::text
+      FROM file_versions
+      UNION ALL
+      SELECT storage_path, blob_size, 'blob', hash
+      FROM blobs
+    `;
     const result = await this.pool.query(query);
-    
-    return result.rows.map(row => row.file_path);
+
+    return result.rows.map(row => ({
+      storagePath: row.storage_path,
+      expectedSize: parseInt(row.expected_size, 10),
+      referencedBy: row.referenced_by,
+      referenceId: row.reference_id
+    }));
   }
 
   /**
@@ -270,7 +631,7 @@ export class FileRepository implements IFileRepository {
   async searchByFilename(pattern: string): Promise<File[]> {
     const query = `
       SELECT * FROM files 
-      WHERE filename ILIKE $1 
+      WHERE filename ILIKE $1 AND deleted_at IS NULL
       ORDER BY created_at DESC
     `;
     const result = await this.pool.query(query, [`%${pattern}%`]);
@@ -0,0 +1,79 @@
+import { Queryable } from '../database/Queryable';
+import { IFileVersionRepository } from '../../domain/repositories';
+import { FileVersion } from '../../domain/entities';
+
+/**
+ * PostgreSQL implementation of the file version repository
+ * Handles database operations for file revision history
+ */
+export class FileVersionRepository implements IFileVersionRepository {
+  private pool: Queryable;
+
+  constructor(pool: Queryable) {
+    this.pool = pool;
+  }
+
+  /**
+   * Persists a new file revision
+   */
+  async save(version: FileVersion): Promise<FileVersion> {
+    const query = `
+      INSERT INTO file_versions (id, file_id, version_number, file_path, file_size, content_type, created_at, content_hash)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [
+      version.id,
+      version.fileId,
+      version.versionNumber,
+      version.filePath,
+      version.fileSize,
+      version.contentType,
+      version.createdAt,
+      version.contentHash ?? null
+    ]);
+
+    return this.mapRowToFileVersion(result.rows[0]);
+  }
+
+  /**
+   * Finds every revision of a file, newest first
+   */
+  async findByFileId(fileId: string): Promise<FileVersion[]> {
+    const query = 'SELECT * FROM file_versions WHERE file_id = $1 ORDER BY version_number DESC';
+    const result = await this.pool.query(query, [fileId]);
+
+    return result.rows.map(row => this.mapRowToFileVersion(row));
+  }
+
+  /**
+   * Finds a single revision of a file by its version number
+   */
+  async findByFileIdAndVersion(fileId: string, versionNumber: number): Promise<FileVersion | null> {
+    const query = 'SELECT * FROM file_versions WHERE file_id = $1 AND version_number = $2';
+    const result = await this.pool.query(query, [fileId, versionNumber]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToFileVersion(result.rows[0]);
+  }
+
+  /**
+   * Maps a database row to a FileVersion entity
+   */
+  private mapRowToFileVersion(row: any): FileVersion {
+    return new FileVersion(
+      row.id,
+      row.file_id,
+      row.version_number,
+      row.file_path,
+      row.file_size,
+      row.content_type,
+      row.created_at,
+      row.content_hash ?? undefined
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { Queryable } from '../database/Queryable';
+import { IRefreshTokenRepository } from '../../domain/repositories';
+import { RefreshToken } from '../../domain/entities';
+
+/**
+ * PostgreSQL implementation of the refresh token repository
+ * Only token IDs are stored; the signed tokens never touch the database
+ */
+export class RefreshTokenRepository implements IRefreshTokenRepository {
+  private pool: Queryable;
+
+  constructor(pool: Queryable) {
+    this.pool = pool;
+  }
+
+  /**
+   * Inserts a newly issued token
+   */
+  async save(token: RefreshToken): Promise<RefreshToken> {
+    const query = `
+      INSERT INTO refresh_tokens (id, user_id, expires_at, created_at)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *
+    `;
+    const result = await this.pool.query(query, [token.id, token.userId, token.expiresAt, token.createdAt]);
+
+    return this.mapRowToRefreshToken(result.rows[0]);
+  }
+
+  /**
+   * Finds a token by its ID
+   */
+  async findById(id: string): Promise<RefreshToken | null> {
+    const result = await this.pool.query('SELECT * FROM refresh_tokens WHERE id = $1', [id]);
+
+    return result.rows.length > 0 ? this.mapRowToRefreshToken(result.rows[0]) : null;
+  }
+
+  /**
+   * Revokes a token; the condition on revoked_at lets only one of several concurrent calls succeed
+   */
+  async revoke(id: string): Promise<boolean> {
+    const query = 'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE id = $1 AND revoked_at IS NULL';
+    const result = await this.pool.query(query, [id]);
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Revokes all tokens of a user that are neither revoked nor expired
+   */
+  async revokeAllForUser(userId: string): Promise<number> {
+    const query = `
+      UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP
+      WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+    `;
+    const result = await this.pool.query(query, [userId]);
+
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Maps database row to RefreshToken entity
+   */
+  private mapRowToRefreshToken(row: any): RefreshToken {
+    return new RefreshToken(
+      row.id,
+      row.user_id,
+      row.expires_at,
+      row.created_at,
+      row.revoked_at ?? undefined
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { Queryable } from '../database/Queryable';
+import { IShareLinkRepository } from '../../domain/repositories';
+import { ShareLink } from '../../domain/entities';
+
+/**
+ * PostgreSQL implementation of the share link repository
+ */
+export class ShareLinkRepository implements IShareLinkRepository {
+  // Condition met by links that can still be used
+  private static readonly ACTIVE = `
+    revoked_at IS NULL
+    AND expires_at > CURRENT_TIMESTAMP
+    AND (max_downloads IS NULL OR download_count < max_downloads)
+  `;
+
+  private pool: Queryable;
+
+  constructor(pool: Queryable) {
+    this.pool = pool;
+  }
+
+  /**
+   * Inserts a newly created link
+   */
+  async save(shareLink: ShareLink): Promise<ShareLink> {
+    const query = `
+      INSERT INTO share_links (id, file_id, created_by, expires_at, password_hash, max_downloads, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `;
+    const values = [
+      shareLink.id,
+      shareLink.fileId,
+      shareLink.createdBy,
+      shareLink.expiresAt,
+      shareLink.passwordHash ?? null,
+      shareLink.maxDownloads ?? null,
+      shareLink.createdAt
+    ];
+    const result = await this.pool.query(query, values);
+
+    return this.mapRowToShareLink(result.rows[0]);
+  }
+
+  /**
+   * Finds a link by its ID
+   */
+  async findById(id: string): Promise<ShareLink | null> {
+    const result = await this.pool.query('SELECT * FROM share_links WHERE id = $1', [id]);
+
+    return result.rows.length > 0 ? this.mapRowToShareLink(result.rows[0]) : null;
+  }
+
+  /**
+   * Finds the links of a file that are neither revoked, expired nor used up
+   */
+  async findActiveByFileId(fileId: string): Promise<ShareLink[]> {
+    const query = `
+      SELECT * FROM share_links
+      WHERE file_id = $1 AND ${ShareLinkRepository.ACTIVE}
+      ORDER BY created_at DESC, id ASC
+    `;
+    const result = await this.pool.query(query, [fileId]);
+
+    return result.rows.map(row => this.mapRowToShareLink(row));
+  }
+
+  /**
+   * Counts a download; the conditions are checked in the same statement, so concurrent
+   * downloads cannot push the count past the limit
+   */
+  async recordDownload(id: string): Promise<ShareLink | null> {
+    const query = `
+      UPDATE share_links SET download_count = download_count + 1
+      WHERE id = $1 AND ${ShareLinkRepository.ACTIVE}
+      RETURNING *
+    `;
+    const result = await this.pool.query(query, [id]);
+
+    return result.rows.length > 0 ? this.mapRowToShareLink(result.rows[0]) : null;
+  }
+
+  /**
+   * Revokes a link of a file; the condition on revoked_at lets only one of several concurrent calls succeed
+   */
+  async revoke(id: string, fileId: string): Promise<boolean> {
+    const query = 'UPDATE share_links SET revoked_at = CURRENT_TIMESTAMP WHERE id = $1 AND file_id = $2 AND revoked_at IS NULL';
+    const result = await this.pool.query(query, [id, fileId]);
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Maps database row to ShareLink entity
+   */
+  private mapRowToShareLink(row: any): ShareLink {
+    return new ShareLink(
+      row.id,
+      row.file_id,
+      row.created_by,
+      row.expires_at,
+      row.password_hash ?? undefined,
+      row.max_downloads ?? undefined,
+      row.download_count,
+      row.created_at,
+      row.revoked_at ?? undefined
+    );
+  }
+}
\ No newline at end of file
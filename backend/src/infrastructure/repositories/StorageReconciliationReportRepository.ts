@@ -0,0 +1,91 @@
+import { Queryable } from '../database/Queryable';
+import { IStorageReconciliationReportRepository } from '../../domain/repositories';
+import { StorageReconciliationReport, OrphanedStorageFile } from '../../domain/entities';
+
+/**
+ * PostgreSQL implementation of the storage reconciliation report repository
+ * Findings are kept in JSONB columns and read back whole
+ */
+export class StorageReconciliationReportRepository implements IStorageReconciliationReportRepository {
+  private pool: Queryable;
+
+  constructor(pool: Queryable) {
+    this.pool = pool;
+  }
+
+  /**
+   * Inserts a finished report
+   */
+  async save(report: StorageReconciliationReport): Promise<StorageReconciliationReport> {
+    const query = `
+      INSERT INTO storage_reconciliation_reports (
+        id, trigger, dry_run, started_at, finished_at, stored_file_count, reference_count,
+        orphaned_files, dangling_references, size_mismatches
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *
+    `;
+    const values = [
+      report.id,
+      report.trigger,
+      report.dryRun,
+      report.startedAt,
+      report.finishedAt,
+      report.storedFileCount,
+      report.referenceCount,
+      JSON.stringify(report.orphanedFiles),
+      JSON.stringify(report.danglingReferences),
+      JSON.stringify(report.sizeMismatches)
+    ];
+    const result = await this.pool.query(query, values);
+
+    return this.mapRowToReport(result.rows[0]);
+  }
+
+  /**
+   * Finds a report by its ID
+   */
+  async findById(id: string): Promise<StorageReconciliationReport | null> {
+    const query = 'SELECT * FROM storage_reconciliation_reports WHERE id = $1';
+    const result = await this.pool.query(query, [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToReport(result.rows[0]);
+  }
+
+  /**
+   * Finds the most recent reports, newest first
+   */
+  async findRecent(limit: number): Promise<StorageReconciliationReport[]> {
+    const query = 'SELECT * FROM storage_reconciliation_reports ORDER BY started_at DESC LIMIT $1';
+    const result = await this.pool.query(query, [limit]);
+
+    return result.rows.map(row => this.mapRowToReport(row));
+  }
+
+  /**
+   * Maps database row to StorageReconciliationReport entity
+   */
+  private mapRowToReport(row: any): StorageReconciliationReport {
+    const orphanedFiles: OrphanedStorageFile[] = (row.orphaned_files ?? []).map((file: any) => ({
+      ...file,
+      modifiedAt: new Date(file.modifiedAt)
+    }));
+
+    return new StorageReconciliationReport(
+      row.id,
+      row.trigger,
+      row.dry_run,
+      row.started_at,
+      row.finished_at,
+      row.stored_file_count,
+      row.reference_count,
+      orphanedFiles,
+      row.dangling_references ?? [],
+      row.size_mismatches ?? []
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { Queryable } from '../database/Queryable';
+import { IUserRepository, UserListPage } from '../../domain/repositories';
+import { User } from '../../domain/entities';
+import { UserRole } from '../../domain/valueobjects';
+import { ConflictError } from '../../domain/errors';
+
+// PostgreSQL error code of unique constraint violations
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * PostgreSQL implementation of the user repository
+ */
+export class UserRepository implements IUserRepository {
+  private pool: Queryable;
+
+  constructor(pool: Queryable) {
+    this.pool = pool;
+  }
+
+  /**
+   * Finds a user by ID
+   */
+  async findById(id: string): Promise<User | null> {
+    const result = await this.pool.query('SELECT * FROM users WHERE id = $1', [id]);
+
+    return result.rows.length > 0 ? this.mapRowToUser(result.rows[0]) : null;
+  }
+
+  /**
+   * Finds a user by normalized email address
+   */
+  async findByEmail(email: string): Promise<User | null> {
+    const result = await this.pool.query('SELECT * FROM users WHERE email = $1', [email]);
+
+    return result.rows.length > 0 ? this.mapRowToUser(result.rows[0]) : null;
+  }
+
+  /**
+   * Inserts a new user; a concurrent registration of the same address loses on the unique constraint
+   */
+  async save(user: User): Promise<User> {
+    const query = `
+      INSERT INTO users (id, email, password_hash, display_name, role, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.pool.query(query, [
+        user.id,
+        user.email,
+        user.passwordHash,
+        user.displayName ?? null,
+        user.role.value,
+        user.createdAt,
+        user.updatedAt
+      ]);
+
+      return this.mapRowToUser(result.rows[0]);
+    } catch (error) {
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        throw new ConflictError(`An account with the email address '${user.email}' already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Finds a page of users; the page and the number of all users come from a single query
+   */
+  async findAll(offset: number, limit: number): Promise<UserListPage> {
+    const query = `
+      SELECT users.*, COUNT(*) OVER() AS total_count
+      FROM users
+      ORDER BY created_at ASC, id ASC
+      LIMIT $1 OFFSET $2
+    `;
+    const result = await this.pool.query(query, [limit, offset]);
+
+    // Past the last page no row carries the count, so it is looked up on its own
+    const totalCount = result.rows.length > 0
+      ? parseInt(result.rows[0].total_count, 10)
+      : parseInt((await this.pool.query('SELECT COUNT(*) FROM users')).rows[0].count, 10);
+
+    return {
+      users: result.rows.map(row => this.mapRowToUser(row)),
+      totalCount
+    };
+  }
+
+  /**
+   * Changes the role of a user
+   */
+  async updateRole(id: string, role: UserRole): Promise<User | null> {
+    const result = await this.pool.query('UPDATE users SET role = $2 WHERE id = $1 RETURNING *', [id, role.value]);
+
+    return result.rows.length > 0 ? this.mapRowToUser(result.rows[0]) : null;
+  }
+
+  /**
+   * Maps database row to User entity
+   */
+  private mapRowToUser(row: any): User {
+    return new User(
+      row.id,
+      row.email,
+      row.password_hash,
+      row.display_name ?? undefined,
+      row.created_at,
+      row.updated_at,
+      new UserRole(row.role ?? 'user')
+    );
+  }
+}
\ No newline at end of file
@@ -1 +1,10 @@
-export * from './FileRepository';
\ No newline at end of file
+export * from './FileRepository';
+export * from './FileVersionRepository';
+export * from './FileBlobRepository';
+export * from './StorageReconciliationReportRepository';
+export * from './ContentTypeRepository';
+export * from './UserRepository';
+export * from './RefreshTokenRepository';
+export * from './FileGrantRepository';
+export * from './ApiKeyRepository';
+export * from './ShareLinkRepository';
\ No newline at end of file
@@ -1,12 +1,17 @@
 import * as fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
 import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { v4 as uuidv4 } from 'uuid';
+import { IFileStorage, FileStats, ByteRange } from '../../application/interfaces';
+import { NotFoundError } from '../../domain/errors';
 
 /**
- * Service responsible for physical file storage operations
+ * Local disk implementation of the file storage port
  * Handles file system interactions for the uploaded files
  */
-export class FileStorageService {
+export class FileStorageService implements IFileStorage {
   private readonly uploadDirectory: string;
 
   constructor(uploadDirectory: string = 'uploaded-files') {
@@ -14,6 +19,13 @@ export class FileStorageService {
     this.uploadDirectory = path.resolve(process.cwd(), uploadDirectory);
   }
 
+  /**
+   * Prepares the upload directory
+   */
+  public async initialize(): Promise<void> {
+    await this.ensureDirectoryExists();
+  }
+
   /**
    * Ensures the upload directory exists
    */
@@ -32,7 +44,7 @@ export class FileStorageService {
    * @param originalFilename The original filename for extension detection
    * @returns Promise that resolves to the generated file path
    */
-  public async storeFile(content: string, originalFilename: string): Promise<string> {
+  public async storeFile(content: Buffer, originalFilename: string): Promise<string> {
     await this.ensureDirectoryExists();
 
     // Generate unique filename while preserving extension
@@ -41,31 +53,71 @@ export class FileStorageService {
     const filePath = path.join(this.uploadDirectory, uniqueFilename);
 
     // Write content to file
-    await fs.writeFile(filePath, content, 'utf8');
+    await fs.writeFile(filePath, content);
 
     // Return relative path for database storage
     return path.relative(process.cwd(), filePath);
   }
 
+  /**
+   * Streams content to disk as it arrives and returns the file path
+   * A partially written file is removed when the stream fails
+   * @param source The content stream
+   * @param originalFilename The original filename for extension detection
+   * @returns Promise that resolves to the generated file path
+   */
+  public async storeStream(source: Readable, originalFilename: string): Promise<string> {
+    await this.ensureDirectoryExists();
+
+    const uniqueFilename = `${uuidv4()}${path.extname(originalFilename)}`;
+    const filePath = path.join(this.uploadDirectory, uniqueFilename);
+
+    try {
+      await pipeline(source, createWriteStream(filePath));
+    } catch (error) {
+      await fs.rm(filePath, { force: true });
+      throw error;
+    }
+
+    return path.relative(process.cwd(), filePath);
+  }
+
   /**
    * Reads file content from disk
    * @param filePath The relative file path
    * @returns Promise that resolves to the file content
    */
-  public async readFile(filePath: string): Promise<string> {
+  public async readFile(filePath: string): Promise<Buffer> {
     const absolutePath = path.resolve(process.cwd(), filePath);
     
     try {
-      const content = await fs.readFile(absolutePath, 'utf8');
+      const content = await fs.readFile(absolutePath);
       return content;
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        throw new Error(`File not found: ${filePath}`);
+        throw new NotFoundError(`File not found: ${filePath}`);
       }
       throw new Error(`Failed to read file: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * Opens a read stream over a file on disk
+   * @param filePath The relative file path
+   * @returns Promise that resolves to the stream once the file is known to exist
+   */
+  public async createReadStream(filePath: string, range?: ByteRange): Promise<Readable> {
+    const absolutePath = path.resolve(process.cwd(), filePath);
+
+    try {
+      await fs.access(absolutePath);
+    } catch {
+      throw new NotFoundError(`File not found: ${filePath}`);
+    }
+
+    return createReadStream(absolutePath, range ? { start: range.start, end: range.end } : undefined);
+  }
+
   /**
    * Deletes a file from disk
    * @param filePath The relative file path
@@ -106,12 +158,7 @@ export class FileStorageService {
    * @param filePath The relative file path
    * @returns Promise that resolves to file stats
    */
-  public async getFileStats(filePath: string): Promise<{
-    size: number;
-    created: Date;
-    modified: Date;
-    isFile: boolean;
-  }> {
+  public async getFileStats(filePath: string): Promise<FileStats> {
     const absolutePath = path.resolve(process.cwd(), filePath);
     
     try {
@@ -127,52 +174,6 @@ export class FileStorageService {
     }
   }
 
-  /**
-   * Validates file content based on content type
-   * @param content The file content
-   * @param contentType The expected content type
-   * @returns boolean indicating if content is valid
-   */
-  public validateFileContent(content: string, contentType: string): boolean {
-    try {
-      switch (contentType) {
-        case 'application/json':
-          // Validate JSON by parsing it
-          JSON.parse(content);
-          return true;
-          
-        case 'text/plain':
-        case 'text/markdown':
-          // For text files, just check if it's valid UTF-8 string
-          return typeof content === 'string';
-          
-        default:
-          return false;
-      }
-    } catch {
-      return false;
-    }
-  }
-
-  /**
-   * Gets the content type based on file extension
-   * @param filename The filename with extension
-   * @returns The appropriate content type
-   */
-  public getContentType(filename: string): string {
-    const extension = path.extname(filename).toLowerCase();
-    
-    switch (extension) {
-      case '.json':
-        return 'application/json';
-      case '.md':
-        return 'text/markdown';
-      case '.txt':
-      default:
-        return 'text/plain';
-    }
-  }
-
   /**
    * Gets the upload directory path
    * @returns The absolute path to upload directory
@@ -182,32 +183,20 @@ export class FileStorageService {
   }
 
   /**
-   * Cleans up orphaned files (files on disk not in database)
-   * This should be called periodically to maintain storage cleanliness
-   * @param validFilePaths Array of file paths that should exist
-   * @returns Promise that resolves to array of cleaned up file paths
+   * Lists the relative paths of every file in the upload directory
+   * @returns Promise that resolves to the stored file paths
    */
-  public async cleanupOrphanedFiles(validFilePaths: string[]): Promise<string[]> {
+  public async listFiles(): Promise<string[]> {
     await this.ensureDirectoryExists();
-    
-    const cleanedFiles: string[] = [];
-    
+
     try {
-      const files = await fs.readdir(this.uploadDirectory);
-      
-      for (const file of files) {
-        const filePath = path.join('uploaded-files', file);
-        
-        // Check if this file path is in the valid list
-        if (!validFilePaths.includes(filePath)) {
-          await this.deleteFile(filePath);
-          cleanedFiles.push(filePath);
-        }
-      }
+      const entries = await fs.readdir(this.uploadDirectory, { withFileTypes: true });
+
+      return entries
+        .filter(entry => entry.isFile())
+        .map(entry => path.relative(process.cwd(), path.join(this.uploadDirectory, entry.name)));
     } catch (error) {
-      throw new Error(`Failed to cleanup orphaned files: ${(error as Error).message}`);
+      throw new Error(`Failed to list files: ${(error as Error).message}`);
     }
-    
-    return cleanedFiles;
   }
 }
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { IShareLinkSigner } from '../../application/interfaces';
+import { ShareLinkConfig } from '../config';
+
+/**
+ * HMAC-SHA256 implementation of the share link signing port
+ * The expiry is signed in whole seconds, the precision it has in share URLs
+ */
+export class HmacShareLinkSigner implements IShareLinkSigner {
+  /**
+   * @throws Error when no signing secret is configured
+   */
+  constructor(private readonly config: ShareLinkConfig) {
+    if (!config.signingSecret) {
+      throw new Error('SHARE_LINK_SECRET or JWT_SECRET must be set to sign share links');
+    }
+  }
+
+  sign(linkId: string, expiresAt: Date): string {
+    return createHmac('sha256', this.config.signingSecret)
+      .update(`${linkId}.${Math.floor(expiresAt.getTime() / 1000)}`)
+      .digest('base64url');
+  }
+
+  verify(linkId: string, expiresAt: Date, signature: string): boolean {
+    const expected = Buffer.from(this.sign(linkId, expiresAt));
+    const actual = Buffer.from(signature);
+
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,115 @@
+import * as path from 'path';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { IFileStorage, FileStats, ByteRange } from '../../application/interfaces';
+import { NotFoundError } from '../../domain/errors';
+
+interface StoredBlob {
+  content: Buffer;
+  created: Date;
+  modified: Date;
+}
+
+/**
+ * In-memory implementation of the file storage port
+ * Content is lost on restart; intended for tests and local experiments
+ */
+export class InMemoryFileStorageService implements IFileStorage {
+  private readonly blobs = new Map<string, StoredBlob>();
+
+  /**
+   * Nothing to prepare for in-memory storage
+   */
+  public async initialize(): Promise<void> {}
+
+  /**
+   * Stores file content in memory and returns the generated key
+   */
+  public async storeFile(content: Buffer, originalFilename: string): Promise<string> {
+    const filePath = `memory/${uuidv4()}${path.extname(originalFilename)}`;
+    const now = new Date();
+
+    this.blobs.set(filePath, { content: Buffer.from(content), created: now, modified: now });
+
+    return filePath;
+  }
+
+  /**
+   * Collects a stream into memory and returns the generated key
+   */
+  public async storeStream(source: Readable, originalFilename: string): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of source) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+
+    const filePath = `memory/${uuidv4()}${path.extname(originalFilename)}`;
+    const now = new Date();
+
+    this.blobs.set(filePath, { content: Buffer.concat(chunks), created: now, modified: now });
+
+    return filePath;
+  }
+
+  /**
+   * Reads file content from memory
+   */
+  public async readFile(filePath: string): Promise<Buffer> {
+    const blob = this.blobs.get(filePath);
+    if (!blob) {
+      throw new NotFoundError(`File not found: ${filePath}`);
+    }
+
+    return Buffer.from(blob.content);
+  }
+
+  /**
+   * Opens a stream over content held in memory
+   */
+  public async createReadStream(filePath: string, range?: ByteRange): Promise<Readable> {
+    const blob = this.blobs.get(filePath);
+    if (!blob) {
+      throw new NotFoundError(`File not found: ${filePath}`);
+    }
+
+    return Readable.from([range ? blob.content.subarray(range.start, range.end + 1) : blob.content]);
+  }
+
+  /**
+   * Deletes a file from memory
+   */
+  public async deleteFile(filePath: string): Promise<void> {
+    this.blobs.delete(filePath);
+  }
+
+  /**
+   * Checks if a file exists in memory
+   */
+  public async fileExists(filePath: string): Promise<boolean> {
+    return this.blobs.has(filePath);
+  }
+
+  /**
+   * Gets file stats (size, dates, etc.)
+   */
+  public async getFileStats(filePath: string): Promise<FileStats> {
+    const blob = this.blobs.get(filePath);
+    if (!blob) {
+      throw new Error(`Failed to get file stats: File not found: ${filePath}`);
+    }
+
+    return {
+      size: blob.content.length,
+      created: blob.created,
+      modified: blob.modified,
+      isFile: true
+    };
+  }
+
+  /**
+   * Lists the keys of every stored file
+   */
+  public async listFiles(): Promise<string[]> {
+    return [...this.blobs.keys()];
+  }
+}
\ No newline at end of file
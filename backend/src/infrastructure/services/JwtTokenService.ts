@@ -0,0 +1,91 @@
+import jwt from 'jsonwebtoken';
+import { ITokenService, AuthenticatedUser, RefreshTokenClaims, IssuedToken } from '../../application/interfaces';
+import { UnauthorizedError } from '../../domain/errors';
+import { UserRole } from '../../domain/valueobjects';
+import { AuthConfig } from '../config';
+
+// Tells access and refresh tokens apart, since both are signed with the same key
+type TokenType = 'access' | 'refresh';
+
+/**
+ * JSON Web Token implementation of the token port, signed with HMAC-SHA256
+ */
+export class JwtTokenService implements ITokenService {
+  private static readonly ALGORITHM = 'HS256';
+
+  /**
+   * @throws Error when no signing secret is configured
+   */
+  constructor(private readonly config: AuthConfig) {
+    if (!config.jwtSecret) {
+      throw new Error('JWT_SECRET must be set to sign authentication tokens');
+    }
+  }
+
+  issueAccessToken(user: AuthenticatedUser): IssuedToken {
+    return this.sign({ type: 'access', email: user.email, role: user.role }, user.id, this.config.accessTokenTtlSeconds);
+  }
+
+  verifyAccessToken(token: string): AuthenticatedUser {
+    const payload = this.verify(token, 'access');
+    // Tokens issued before roles existed carry none and stand for plain users
+    const role = payload.role ?? UserRole.USER.value;
+    if (typeof payload.email !== 'string' || !UserRole.NAMES.includes(role)) {
+      throw new UnauthorizedError('Access token is not valid');
+    }
+
+    return { id: payload.sub as string, email: payload.email, role };
+  }
+
+  issueRefreshToken(claims: RefreshTokenClaims): IssuedToken {
+    return this.sign({ type: 'refresh' }, claims.userId, this.config.refreshTokenTtlSeconds, claims.tokenId);
+  }
+
+  verifyRefreshToken(token: string): RefreshTokenClaims {
+    const payload = this.verify(token, 'refresh');
+    if (typeof payload.jti !== 'string') {
+      throw new UnauthorizedError('Refresh token is not valid');
+    }
+
+    return { userId: payload.sub as string, tokenId: payload.jti };
+  }
+
+  /**
+   * Signs a token for a subject that expires after the given number of seconds
+   */
+  private sign(claims: Record<string, unknown>, subject: string, ttlSeconds: number, tokenId?: string): IssuedToken {
+    const token = jwt.sign(claims, this.config.jwtSecret, {
+      algorithm: JwtTokenService.ALGORITHM,
+      issuer: this.config.issuer,
+      subject,
+      expiresIn: ttlSeconds,
+      ...(tokenId ? { jwtid: tokenId } : {})
+    });
+    const { exp } = jwt.decode(token) as jwt.JwtPayload;
+
+    return { token, expiresAt: new Date((exp as number) * 1000) };
+  }
+
+  /**
+   * Checks signature, issuer, expiry and type of a token
+   */
+  private verify(token: string, type: TokenType): jwt.JwtPayload {
+    const label = type === 'access' ? 'Access token' : 'Refresh token';
+
+    let payload: string | jwt.JwtPayload;
+    try {
+      payload = jwt.verify(token, this.config.jwtSecret, {
+        algorithms: [JwtTokenService.ALGORITHM],
+        issuer: this.config.issuer
+      });
+    } catch (error) {
+      throw new UnauthorizedError(error instanceof jwt.TokenExpiredError ? `${label} has expired` : `${label} is not valid`);
+    }
+
+    if (typeof payload === 'string' || payload.type !== type || typeof payload.sub !== 'string') {
+      throw new UnauthorizedError(`${label} is not valid`);
+    }
+
+    return payload;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,274 @@
+import * as path from 'path';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  S3Client,
+  PutObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  CompletedPart,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  HeadBucketCommand,
+  CreateBucketCommand,
+  ListObjectsV2Command
+} from '@aws-sdk/client-s3';
+import { IFileStorage, FileStats, ByteRange } from '../../application/interfaces';
+import { NotFoundError } from '../../domain/errors';
+import { S3StorageConfig } from '../config';
+
+/**
+ * S3-compatible implementation of the file storage port
+ * Works against AWS S3 as well as self-hosted servers such as MinIO
+ */
+export class S3FileStorageService implements IFileStorage {
+  // Multipart part size; S3 requires at least 5 MiB for every part but the last
+  public static readonly PART_SIZE = 5 * 1024 * 1024;
+
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly keyPrefix: string;
+
+  constructor(config: S3StorageConfig, client?: S3Client) {
+    this.bucket = config.bucket;
+    this.keyPrefix = config.keyPrefix;
+    this.client = client || new S3Client({
+      endpoint: config.endpoint,
+      region: config.region,
+      forcePathStyle: config.forcePathStyle,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined
+    });
+  }
+
+  /**
+   * Ensures the bucket exists, creating it when missing
+   */
+  public async initialize(): Promise<void> {
+    try {
+      await this.client.send(new HeadBucketCommand({ Bucket: this.bucket }));
+    } catch (error) {
+      if (!this.isNotFound(error)) {
+        throw new Error(`Failed to access bucket '${this.bucket}': ${(error as Error).message}`);
+      }
+      await this.client.send(new CreateBucketCommand({ Bucket: this.bucket }));
+    }
+  }
+
+  /**
+   * Uploads file content as an object and returns its key
+   */
+  public async storeFile(content: Buffer, originalFilename: string): Promise<string> {
+    const key = `${this.keyPrefix}${uuidv4()}${path.extname(originalFilename)}`;
+
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: content
+    }));
+
+    return key;
+  }
+
+  /**
+   * Uploads a stream as it arrives and returns the object key
+   * Content that fits in one part is sent with a single PUT; larger content uses a multipart upload,
+   * so at most one part is held in memory. A failed multipart upload is aborted.
+   */
+  public async storeStream(source: Readable, originalFilename: string): Promise<string> {
+    const key = `${this.keyPrefix}${uuidv4()}${path.extname(originalFilename)}`;
+    const parts: CompletedPart[] = [];
+    let uploadId: string | undefined;
+    let pending: Buffer[] = [];
+    let pendingBytes = 0;
+
+    const uploadPendingPart = async (): Promise<void> => {
+      if (!uploadId) {
+        const created = await this.client.send(new CreateMultipartUploadCommand({ Bucket: this.bucket, Key: key }));
+        uploadId = created.UploadId;
+      }
+
+      const partNumber = parts.length + 1;
+      const body = Buffer.concat(pending);
+      pending = [];
+      pendingBytes = 0;
+
+      const result = await this.client.send(new UploadPartCommand({
+        Bucket: this.bucket,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+        Body: body
+      }));
+      parts.push({ ETag: result.ETag, PartNumber: partNumber });
+    };
+
+    try {
+      for await (const chunk of source) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        pending.push(buffer);
+        pendingBytes += buffer.length;
+
+        if (pendingBytes >= S3FileStorageService.PART_SIZE) {
+          await uploadPendingPart();
+        }
+      }
+
+      if (!uploadId) {
+        await this.client.send(new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+          Body: Buffer.concat(pending)
+        }));
+        return key;
+      }
+
+      if (pendingBytes > 0) {
+        await uploadPendingPart();
+      }
+
+      await this.client.send(new CompleteMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: { Parts: parts }
+      }));
+
+      return key;
+    } catch (error) {
+      if (uploadId) {
+        await this.client
+          .send(new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: key, UploadId: uploadId }))
+          .catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Downloads object content
+   */
+  public async readFile(filePath: string): Promise<Buffer> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: filePath }));
+      if (!result.Body) {
+        throw new Error('Empty response body');
+      }
+      return Buffer.from(await result.Body.transformToByteArray());
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        throw new NotFoundError(`File not found: ${filePath}`);
+      }
+      throw new Error(`Failed to read file: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Opens a stream over object content
+   */
+  public async createReadStream(filePath: string, range?: ByteRange): Promise<Readable> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: filePath,
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined
+      }));
+      if (!(result.Body instanceof Readable)) {
+        throw new Error('Response body is not a stream');
+      }
+      return result.Body;
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        throw new NotFoundError(`File not found: ${filePath}`);
+      }
+      throw new Error(`Failed to read file: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Deletes an object; S3 treats deleting a missing key as success
+   */
+  public async deleteFile(filePath: string): Promise<void> {
+    try {
+      await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: filePath }));
+    } catch (error) {
+      throw new Error(`Failed to delete file: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Checks if an object exists
+   */
+  public async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: filePath }));
+      return true;
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets object stats; S3 does not track creation separately from last modification
+   */
+  public async getFileStats(filePath: string): Promise<FileStats> {
+    try {
+      const result = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: filePath }));
+      const modified = result.LastModified || new Date(0);
+      return {
+        size: result.ContentLength ?? 0,
+        created: modified,
+        modified,
+        isFile: true
+      };
+    } catch (error) {
+      throw new Error(`Failed to get file stats: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Lists the keys of every object under the key prefix, following continuation tokens
+   */
+  public async listFiles(): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+
+    try {
+      do {
+        const result = await this.client.send(new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: this.keyPrefix,
+          ContinuationToken: continuationToken
+        }));
+        for (const object of result.Contents ?? []) {
+          if (object.Key) {
+            keys.push(object.Key);
+          }
+        }
+        continuationToken = result.IsTruncated ? result.NextContinuationToken : undefined;
+      } while (continuationToken);
+    } catch (error) {
+      throw new Error(`Failed to list files: ${(error as Error).message}`);
+    }
+
+    return keys;
+  }
+
+  /**
+   * Checks whether an S3 error means the bucket or key does not exist
+   */
+  private isNotFound(error: unknown): boolean {
+    const s3Error = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+    return s3Error?.name === 'NoSuchKey'
+      || s3Error?.name === 'NotFound'
+      || s3Error?.name === 'NoSuchBucket'
+      || s3Error?.$metadata?.httpStatusCode === 404;
+  }
+}
\ No newline at end of file
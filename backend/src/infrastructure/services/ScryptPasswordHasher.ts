@@ -0,0 +1,60 @@
+import { randomBytes, scrypt, timingSafeEqual, ScryptOptions } from 'crypto';
+import { IPasswordHasher } from '../../application/interfaces';
+
+/**
+ * Cost parameters of a scrypt hash
+ */
+export interface ScryptParameters {
+  N: number;
+  r: number;
+  p: number;
+}
+
+/**
+ * Derives a key with scrypt without blocking the event loop
+ */
+function deriveKey(password: string, salt: Buffer, keyLength: number, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, options, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+/**
+ * Password hasher using Node's built-in scrypt
+ * Hashes are encoded as scrypt$N$r$p$salt$key (salt and key base64), so stored hashes keep working
+ * when the cost parameters are raised
+ */
+export class ScryptPasswordHasher implements IPasswordHasher {
+  private static readonly SALT_LENGTH = 16;
+  private static readonly KEY_LENGTH = 64;
+
+  constructor(private readonly parameters: ScryptParameters = { N: 16384, r: 8, p: 1 }) {}
+
+  async hash(password: string): Promise<string> {
+    const { N, r, p } = this.parameters;
+    const salt = randomBytes(ScryptPasswordHasher.SALT_LENGTH);
+    const key = await deriveKey(password, salt, ScryptPasswordHasher.KEY_LENGTH, this.optionsFor(this.parameters));
+
+    return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+  }
+
+  async verify(password: string, hash: string): Promise<boolean> {
+    const [scheme, N, r, p, salt, key] = hash.split('$');
+    if (scheme !== 'scrypt' || !salt || !key) {
+      return false;
+    }
+
+    const expected = Buffer.from(key, 'base64');
+    const parameters = { N: parseInt(N, 10), r: parseInt(r, 10), p: parseInt(p, 10) };
+    const actual = await deriveKey(password, Buffer.from(salt, 'base64'), expected.length, this.optionsFor(parameters));
+
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  /**
+   * Allows the memory the cost parameters need, which exceeds Node's default for larger N
+   */
+  private optionsFor({ N, r, p }: ScryptParameters): ScryptOptions {
+    return { N, r, p, maxmem: 256 * N * r };
+  }
+}
\ No newline at end of file
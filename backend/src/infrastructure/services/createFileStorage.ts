@@ -0,0 +1,21 @@
+import { IFileStorage } from '../../application/interfaces';
+import { StorageConfig, storageConfig } from '../config';
+import { FileStorageService } from './FileStorageService';
+import { S3FileStorageService } from './S3FileStorageService';
+import { InMemoryFileStorageService } from './InMemoryFileStorageService';
+
+/**
+ * Creates the file storage backend selected through configuration
+ */
+export function createFileStorage(config: StorageConfig = storageConfig): IFileStorage {
+  switch (config.driver) {
+    case 'local':
+      return new FileStorageService(config.localDirectory);
+    case 's3':
+      return new S3FileStorageService(config.s3);
+    case 'memory':
+      return new InMemoryFileStorageService();
+    default:
+      throw new Error(`Unsupported storage driver: ${config.driver}`);
+  }
+}
\ No newline at end of file
@@ -1 +1,7 @@
-export * from './FileStorageService';
\ No newline at end of file
+export * from './FileStorageService';
+export * from './S3FileStorageService';
+export * from './InMemoryFileStorageService';
+export * from './createFileStorage';
+export * from './JwtTokenService';
+export * from './ScryptPasswordHasher';
+export * from './HmacShareLinkSigner';
\ No newline at end of file
@@ -122,6 +122,15 @@ describe('Clean Architecture Validation', () => {
       );
     });
 
+    it('should not have application layer importing from infrastructure layer', async () => {
+      const applicationPath = path.join(srcPath, 'application');
+      const violations = await checkImportViolations(applicationPath, ['../infrastructure']);
+      
+      expect(violations.length).to.equal(0,
+        `Application layer should depend on infrastructure only through ports in application/interfaces. Violations: ${violations.join(', ')}`
+      );
+    });
+
     it('should not have infrastructure layer importing from api layer', async () => {
       const infrastructurePath = path.join(srcPath, 'infrastructure');
       const violations = await checkImportViolations(infrastructurePath, ['../api']);
@@ -4,6 +4,7 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import { Pool } from 'pg';
 import { createRoutes } from '../../src/api/routes';
+import { assignRequestId, notFoundHandler, errorHandler } from '../../src/api/middleware';
 
 /**
  * Create test app with mocked database for basic testing
@@ -12,6 +13,7 @@ export function createTestApp(): express.Application {
   const app = express();
 
   // Middleware setup
+  app.use(assignRequestId);
   app.use(helmet());
   app.use(cors());
   app.use(morgan('combined'));
@@ -22,11 +24,13 @@ export function createTestApp(): express.Application {
   const mockPool = {
     query: async () => ({ rows: [] }),
     end: async () => {},
-    connect: async () => ({ release: () => {} }),
+    connect: async () => ({ query: async () => ({ rows: [] }), release: () => {} }),
   } as unknown as Pool;
   
   // Setup routes with mock pool
   app.use('/api/v1', createRoutes(mockPool));
+  app.use(notFoundHandler);
+  app.use(errorHandler);
   
   return app;
 }
@@ -0,0 +1,216 @@
+import request from 'supertest';
+import { expect } from 'chai';
+import { Pool } from 'pg';
+import { stub, SinonStub, restore } from 'sinon';
+import express from 'express';
+import { createAdminRoutes } from '../../../../src/api/routes/admin';
+import { errorHandler } from '../../../../src/api/middleware';
+import { InMemoryFileStorageService } from '../../../../src/infrastructure/services';
+import { AuthenticatedUser } from '../../../../src/application/interfaces';
+
+/**
+ * Echoes an inserted storage_reconciliation_reports row back like RETURNING * would
+ */
+function createReportRow(params: unknown[]): Record<string, unknown> {
+  return {
+    id: params[0],
+    trigger: params[1],
+    dry_run: params[2],
+    started_at: params[3],
+    finished_at: params[4],
+    stored_file_count: params[5],
+    reference_count: params[6],
+    orphaned_files: JSON.parse(params[7] as string),
+    dangling_references: JSON.parse(params[8] as string),
+    size_mismatches: JSON.parse(params[9] as string)
+  };
+}
+
+describe('Admin API Routes', () => {
+  const longAgo = new Date('2025-01-01T00:00:00.000Z');
+  const admin: AuthenticatedUser = { id: '9b2f1e3a-5c4d-4e6f-8a7b-0c1d2e3f4a5b', email: 'admin@example.com', role: 'admin' };
+  const userRow = {
+    id: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+    email: 'ada@example.com',
+    password_hash: 'hash',
+    display_name: 'Ada',
+    role: 'user',
+    created_at: longAgo,
+    updated_at: longAgo,
+    total_count: '1'
+  };
+
+  let app: express.Application;
+  let poolQueryStub: SinonStub;
+  let storage: InMemoryFileStorageService;
+  let referencedPath: string;
+  let orphanPath: string;
+  let caller: AuthenticatedUser;
+
+  beforeEach(async () => {
+    storage = new InMemoryFileStorageService();
+    referencedPath = await storage.storeFile(Buffer.from('Hello'), 'notes.txt');
+    orphanPath = await storage.storeFile(Buffer.from('stray'), 'stray.txt');
+    // Both files were written long before the grace period
+    const getFileStats = storage.getFileStats.bind(storage);
+    stub(storage, 'getFileStats').callsFake(async filePath => ({
+      ...(await getFileStats(filePath)),
+      created: longAgo,
+      modified: longAgo
+    }));
+
+    // Mock database pool
+    poolQueryStub = stub().resolves({ rows: [] });
+
+    caller = admin;
+    app = express();
+    app.use(express.json());
+    // Stands in for the authentication middleware
+    app.use((req, res, next) => {
+      req.user = caller;
+      next();
+    });
+    app.use('/api/v1/admin', createAdminRoutes({ query: poolQueryStub } as unknown as Pool, storage));
+    app.use(errorHandler);
+  });
+
+  afterEach(() => {
+    restore();
+  });
+
+  /**
+   * Answers the reads of a reconciliation: the stored content references, then the report echoed back on insert
+   */
+  const reconcilesWith = () => poolQueryStub
+    .onCall(0).resolves({
+      rows: [
+        { storage_path: referencedPath, expected_size: 5, referenced_by: 'file', reference_id: 'file-1' },
+        { storage_path: 'memory/missing.txt', expected_size: 3, referenced_by: 'version', reference_id: 'version-1' }
+      ]
+    })
+    .onCall(1).callsFake(async (_sql: string, params: unknown[]) => ({ rows: [createReportRow(params)] }));
+
+  describe('POST /api/v1/admin/storage/reconcile', () => {
+    it('should report findings without deleting anything on a dry run', async () => {
+      reconcilesWith();
+
+      const response = await request(app).post('/api/v1/admin/storage/reconcile?dryRun=true');
+
+      expect(response.status).to.equal(200);
+      expect(response.body).to.include({ trigger: 'manual', dryRun: true, consistent: false, storedFileCount: 2, referenceCount: 2 });
+      expect(response.body.orphanedFiles).to.deep.equal([
+        { storagePath: orphanPath, size: 5, modifiedAt: longAgo.toISOString(), deleted: false }
+      ]);
+      expect(response.body.danglingReferences).to.deep.equal([
+        { storagePath: 'memory/missing.txt', expectedSize: 3, referencedBy: 'version', referenceId: 'version-1' }
+      ]);
+      expect(await storage.fileExists(orphanPath)).to.be.true;
+    });
+
+    it('should delete orphaned files and persist the report otherwise', async () => {
+      reconcilesWith();
+
+      const response = await request(app).post('/api/v1/admin/storage/reconcile');
+
+      expect(response.status).to.equal(200);
+      expect(response.body.dryRun).to.be.false;
+      expect(response.body.deletedFileCount).to.equal(1);
+      expect(await storage.fileExists(orphanPath)).to.be.false;
+      expect(await storage.fileExists(referencedPath)).to.be.true;
+      expect(poolQueryStub.getCall(1).args[0]).to.include('INSERT INTO storage_reconciliation_reports');
+    });
+
+    it('should return 400 for an invalid dryRun value', async () => {
+      const response = await request(app).post('/api/v1/admin/storage/reconcile?dryRun=maybe');
+
+      expect(response.status).to.equal(400);
+      expect(response.body.detail).to.equal('Query parameter dryRun must be true or false');
+    });
+  });
+
+  describe('GET /api/v1/admin/storage/reports', () => {
+    it('should return 404 for an unknown report', async () => {
+      const response = await request(app).get('/api/v1/admin/storage/reports/123e4567-e89b-12d3-a456-426614174000');
+
+      expect(response.status).to.equal(404);
+    });
+
+    it('should return 400 for an invalid report ID', async () => {
+      const response = await request(app).get('/api/v1/admin/storage/reports/not-a-uuid');
+
+      expect(response.status).to.equal(400);
+    });
+  });
+
+  describe('permissions', () => {
+    it('should turn away plain users from every admin route', async () => {
+      caller = { ...admin, role: 'user' };
+
+      const response = await request(app).get('/api/v1/admin/storage/reports');
+
+      expect(response.status).to.equal(403);
+      expect(response.body.detail).to.equal("This action requires the 'admin:access' permission, which the user role does not have");
+    });
+
+    it('should let auditors read but not reconcile', async () => {
+      caller = { ...admin, role: 'auditor' };
+
+      const reports = await request(app).get('/api/v1/admin/storage/reports');
+      const reconcile = await request(app).post('/api/v1/admin/storage/reconcile?dryRun=true');
+
+      expect(reports.status).to.equal(200);
+      expect(reconcile.status).to.equal(403);
+      expect(reconcile.body.detail).to.include("'storage:maintain'");
+      expect(poolQueryStub.callCount).to.equal(1); // only the reports were read
+    });
+  });
+
+  describe('/api/v1/admin/users', () => {
+    it('should list accounts with their roles', async () => {
+      poolQueryStub.onCall(0).resolves({ rows: [userRow] });
+
+      const response = await request(app).get('/api/v1/admin/users?page=1&limit=10');
+
+      expect(response.status).to.equal(200);
+      expect(response.body).to.include({ totalCount: 1, page: 1, limit: 10, hasNextPage: false });
+      expect(response.body.users[0]).to.deep.equal({
+        id: userRow.id,
+        email: 'ada@example.com',
+        displayName: 'Ada',
+        role: 'user',
+        createdAt: longAgo.toISOString()
+      });
+    });
+
+    it('should change the role of another account', async () => {
+      poolQueryStub.onCall(0).resolves({ rows: [{ ...userRow, role: 'auditor' }] });
+
+      const response = await request(app).put(`/api/v1/admin/users/${userRow.id}/role`).send({ role: 'auditor' });
+
+      expect(response.status).to.equal(200);
+      expect(response.body.role).to.equal('auditor');
+      expect(poolQueryStub.getCall(0).args[1]).to.deep.equal([userRow.id, 'auditor']);
+    });
+
+    it('should reject unknown roles, unknown users and changing your own role', async () => {
+      const unknownRole = await request(app).put(`/api/v1/admin/users/${userRow.id}/role`).send({ role: 'root' });
+      const unknownUser = await request(app).put('/api/v1/admin/users/123e4567-e89b-12d3-a456-426614174000/role').send({ role: 'admin' });
+      const ownRole = await request(app).put(`/api/v1/admin/users/${admin.id}/role`).send({ role: 'user' });
+
+      expect(unknownRole.status).to.equal(400);
+      expect(unknownUser.status).to.equal(404);
+      expect(ownRole.status).to.equal(403);
+      expect(ownRole.body.detail).to.equal('You cannot change your own role');
+      expect(poolQueryStub.callCount).to.equal(1); // only the unknown user was looked up
+    });
+
+    it('should not let auditors change roles', async () => {
+      caller = { ...admin, role: 'auditor' };
+
+      const response = await request(app).put(`/api/v1/admin/users/${userRow.id}/role`).send({ role: 'admin' });
+
+      expect(response.status).to.equal(403);
+      expect(poolQueryStub.called).to.be.false;
+    });
+  });
+});
\ No newline at end of file
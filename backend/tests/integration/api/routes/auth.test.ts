@@ -0,0 +1,219 @@
+import request from 'supertest';
+import { expect } from 'chai';
+import { Pool } from 'pg';
+import { stub, SinonStub, restore } from 'sinon';
+import express from 'express';
+import { createRoutes } from '../../../../src/api/routes';
+import { createAuthRoutes } from '../../../../src/api/routes/auth';
+import { errorHandler } from '../../../../src/api/middleware';
+import { JwtTokenService, ScryptPasswordHasher } from '../../../../src/infrastructure/services';
+
+/**
+ * Builds a refresh_tokens row for a session of the given user
+ */
+function createRefreshTokenRow(id: string, userId: string, overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id,
+    user_id: userId,
+    expires_at: new Date(Date.now() + 60 * 60 * 1000),
+    created_at: new Date(),
+    revoked_at: null,
+    ...overrides
+  };
+}
+
+describe('Auth API Routes', () => {
+  const tokenService = new JwtTokenService({ jwtSecret: 'test-secret', issuer: 'test', accessTokenTtlSeconds: 900, refreshTokenTtlSeconds: 3600 });
+  const passwordHasher = new ScryptPasswordHasher({ N: 1024, r: 8, p: 1 });
+  const credentials = { email: 'Ada@Example.com', password: 'correct horse battery staple' };
+  const userRow = {
+    id: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+    email: 'ada@example.com',
+    password_hash: '',
+    display_name: 'Ada',
+    role: 'user',
+    created_at: new Date('2025-09-01T00:00:00.000Z'),
+    updated_at: new Date('2025-09-01T00:00:00.000Z')
+  };
+  const tokenId = '3d2c1b0a-9f8e-4d7c-a6b5-c4d3e2f1a0b9';
+
+  let app: express.Application;
+  let poolQueryStub: SinonStub;
+
+  before(async () => {
+    userRow.password_hash = await passwordHasher.hash(credentials.password);
+  });
+
+  beforeEach(() => {
+    // Mock database pool
+    poolQueryStub = stub();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/v1/auth', createAuthRoutes({ query: poolQueryStub } as unknown as Pool, tokenService, passwordHasher));
+    app.use(errorHandler);
+  });
+
+  afterEach(() => {
+    restore(); // Restore all sinon stubs
+  });
+
+  const register = () => request(app).post('/api/v1/auth/register').send({ ...credentials, displayName: 'Ada' });
+  const login = () => request(app).post('/api/v1/auth/login').send(credentials);
+  const refreshTokenOf = (id: string) => tokenService.issueRefreshToken({ userId: userRow.id, tokenId: id }).token;
+
+  describe('POST /api/v1/auth/register', () => {
+    it('should create an account without exposing the password hash', async () => {
+      poolQueryStub
+        .onCall(0).resolves({ rows: [] }) // findByEmail: the address is free
+        .onCall(1).resolves({ rows: [userRow] }); // INSERT
+
+      const response = await register();
+
+      const [, email, passwordHash, displayName, role] = poolQueryStub.getCall(1).args[1];
+      expect(response.status).to.equal(201);
+      expect(response.body).to.include({ email: 'ada@example.com', displayName: 'Ada', role: 'user' });
+      expect(response.body).to.have.all.keys('id', 'email', 'displayName', 'role', 'createdAt');
+      expect(poolQueryStub.getCall(0).args[1]).to.deep.equal(['ada@example.com']);
+      expect([email, displayName, role]).to.deep.equal(['ada@example.com', 'Ada', 'user']);
+      expect(passwordHash).to.match(/^scrypt\$/);
+      expect(passwordHash).to.not.include(credentials.password);
+    });
+
+    it('should reject an address that is already registered', async () => {
+      poolQueryStub
+        .onCall(0).resolves({ rows: [userRow] }) // findByEmail: already registered
+        .onCall(1).resolves({ rows: [] }) // findByEmail: registered concurrently after the check
+        .onCall(2).rejects(Object.assign(new Error('duplicate key value violates unique constraint "users_email_key"'), { code: '23505' }));
+
+      const registered = await request(app).post('/api/v1/auth/register').send({ ...credentials, email: 'ada@example.com' });
+      const raced = await request(app).post('/api/v1/auth/register').send({ ...credentials, email: 'ada@example.com' });
+
+      for (const response of [registered, raced]) {
+        expect(response.status).to.equal(409);
+        expect(response.body.detail).to.equal("An account with the email address 'ada@example.com' already exists");
+      }
+    });
+
+    it('should reject weak passwords', async () => {
+      const response = await request(app).post('/api/v1/auth/register').send({ email: 'ada@example.com', password: 'short' });
+
+      expect(response.status).to.equal(400);
+      expect(response.body.errors).to.deep.equal([{ field: 'password', message: 'Password must be at least 8 characters long' }]);
+      expect(poolQueryStub.called).to.be.false;
+    });
+  });
+
+  describe('POST /api/v1/auth/login', () => {
+    it('should issue an access and a refresh token', async () => {
+      poolQueryStub
+        .onCall(0).resolves({ rows: [userRow] }) // findByEmail
+        .onCall(1).resolves({ rows: [createRefreshTokenRow(tokenId, userRow.id)] }); // refresh token INSERT
+
+      const response = await login();
+
+      expect(response.status).to.equal(200);
+      expect(response.body).to.include({ tokenType: 'Bearer', expiresIn: 900 });
+      expect(response.body.user.email).to.equal('ada@example.com');
+      expect(tokenService.verifyAccessToken(response.body.accessToken).email).to.equal('ada@example.com');
+      // The stored session is the one the refresh token names
+      const claims = tokenService.verifyRefreshToken(response.body.refreshToken);
+      expect(poolQueryStub.getCall(1).args[1].slice(0, 2)).to.deep.equal([claims.tokenId, userRow.id]);
+    });
+
+    it('should answer wrong passwords and unknown addresses alike', async () => {
+      poolQueryStub
+        .onCall(0).resolves({ rows: [userRow] }) // findByEmail of the registered address
+        .onCall(1).resolves({ rows: [] }); // findByEmail of the unknown address
+
+      const wrongPassword = await request(app).post('/api/v1/auth/login').send({ ...credentials, password: 'wrong password' });
+      const unknownAddress = await request(app).post('/api/v1/auth/login').send({ ...credentials, email: 'bob@example.com' });
+
+      for (const response of [wrongPassword, unknownAddress]) {
+        expect(response.status).to.equal(401);
+        expect(response.headers['www-authenticate']).to.equal('Bearer');
+        expect(response.body).to.include({ type: '/problems/unauthorized', detail: 'Invalid email address or password' });
+      }
+      expect(poolQueryStub.callCount).to.equal(2); // no session was started
+    });
+  });
+
+  describe('POST /api/v1/auth/refresh and /logout', () => {
+    it('should rotate refresh tokens and refuse used ones', async () => {
+      const refreshToken = refreshTokenOf(tokenId);
+      const row = createRefreshTokenRow(tokenId, userRow.id);
+      poolQueryStub
+        .onCall(0).resolves({ rows: [row] }) // findById
+        .onCall(1).resolves({ rows: [], rowCount: 1 }) // revoke
+        .onCall(2).resolves({ rows: [userRow] }) // user findById
+        .onCall(3).resolves({ rows: [createRefreshTokenRow('8a7b6c5d-4e3f-4a1b-9c8d-7e6f5a4b3c2d', userRow.id)] }) // INSERT
+        .onCall(4).resolves({ rows: [{ ...row, revoked_at: new Date() }] }) // findById of the used token
+        .onCall(5).resolves({ rows: [], rowCount: 1 }); // revokeAllForUser
+
+      const refreshed = await request(app).post('/api/v1/auth/refresh').send({ refreshToken });
+      const reused = await request(app).post('/api/v1/auth/refresh').send({ refreshToken });
+
+      expect(refreshed.status).to.equal(200);
+      expect(refreshed.body.refreshToken).to.not.equal(refreshToken);
+      expect(poolQueryStub.getCall(1).args[1]).to.deep.equal([tokenId]);
+      expect(reused.status).to.equal(401);
+      expect(reused.body.detail).to.equal('Refresh token has already been used; sign in again');
+      expect(poolQueryStub.getCall(5).args[1]).to.deep.equal([userRow.id]); // every session of the user ends
+    });
+
+    it('should end the session on logout', async () => {
+      poolQueryStub
+        .onCall(0).resolves({ rows: [createRefreshTokenRow(tokenId, userRow.id)] }) // findById
+        .onCall(1).resolves({ rows: [], rowCount: 1 }); // revoke
+
+      const logout = await request(app).post('/api/v1/auth/logout').send({ refreshToken: refreshTokenOf(tokenId) });
+
+      expect(logout.status).to.equal(204);
+      expect(poolQueryStub.getCall(1).args[0]).to.include('UPDATE refresh_tokens SET revoked_at');
+      expect(poolQueryStub.getCall(1).args[1]).to.deep.equal([tokenId]);
+    });
+  });
+
+  describe('GET /api/v1/auth/me', () => {
+    it('should return the user of the access token', async () => {
+      poolQueryStub.onCall(0).resolves({ rows: [userRow] }); // findById
+      const accessToken = tokenService.issueAccessToken({ id: userRow.id, email: userRow.email, role: 'user' }).token;
+
+      const response = await request(app).get('/api/v1/auth/me').set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).to.equal(200);
+      expect(response.body).to.include({ email: 'ada@example.com', displayName: 'Ada' });
+      expect(poolQueryStub.getCall(0).args[1]).to.deep.equal([userRow.id]);
+    });
+
+    it('should require an access token', async () => {
+      const missing = await request(app).get('/api/v1/auth/me');
+      const malformed = await request(app).get('/api/v1/auth/me').set('Authorization', 'Basic YWRhOnNlY3JldA==');
+      const invalid = await request(app).get('/api/v1/auth/me').set('Authorization', 'Bearer not-a-token');
+
+      expect(missing.status).to.equal(401);
+      expect(missing.body.detail).to.equal('No access token provided. Send it as "Authorization: Bearer <token>".');
+      expect(malformed.body.detail).to.equal('Authorization header must use the Bearer scheme');
+      expect(invalid.body.detail).to.equal('Access token is not valid');
+    });
+  });
+
+  describe('protected routes', () => {
+    it('should only serve files and administration to signed-in users', async () => {
+      const api = express();
+      api.use('/api/v1', createRoutes({ query: poolQueryStub.resolves({ rows: [] }) } as unknown as Pool, undefined, tokenService));
+      api.use(errorHandler);
+      const accessToken = tokenService.issueAccessToken({ id: 'user-1', email: 'ada@example.com', role: 'user' }).token;
+
+      const anonymousFiles = await request(api).get('/api/v1/files/types');
+      const anonymousAdmin = await request(api).get('/api/v1/admin/storage/reports');
+      const signedIn = await request(api).get('/api/v1/files/types').set('Authorization', `Bearer ${accessToken}`);
+      const health = await request(api).get('/api/v1/health');
+
+      expect(anonymousFiles.status).to.equal(401);
+      expect(anonymousAdmin.status).to.equal(401);
+      expect(signedIn.status).to.equal(200);
+      expect(health.status).to.equal(200);
+    });
+  });
+});
\ No newline at end of file
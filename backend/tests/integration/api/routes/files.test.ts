@@ -1,40 +1,87 @@
 import request from 'supertest';
 import { expect } from 'chai';
+import { Readable } from 'stream';
 import { Pool } from 'pg';
 import { stub, SinonStub, restore } from 'sinon';
 import express from 'express';
 import { createFileRoutes } from '../../../../src/api/routes/files';
+import { errorHandler } from '../../../../src/api/middleware';
 import { FileStorageService } from '../../../../src/infrastructure/services/FileStorageService';
+import { FileContentService, SizeLimitPolicy, contentTypeRegistry } from '../../../../src/domain/services';
+
+/**
+ * Builds a file_versions row matching a files row
+ */
+function createVersionRow(fileRow: any, versionNumber: number): any {
+  return {
+    id: `version-${versionNumber}`,
+    file_id: fileRow.id,
+    version_number: versionNumber,
+    file_path: fileRow.file_path,
+    file_size: fileRow.file_size,
+    content_type: fileRow.content_type,
+    created_at: fileRow.updated_at
+  };
+}
+
+/**
+ * Builds a blobs row for newly stored content
+ */
+function createBlobRow(filePath: string, size: number): any {
+  return {
+    hash: 'a'.repeat(64),
+    storage_path: filePath,
+    blob_size: size,
+    ref_count: 1,
+    created_at: new Date()
+  };
+}
 
 describe('Files API Routes', () => {
+  const caller = { id: '7c9e6679-7425-40de-944b-e07fc1f90ae7', email: 'owner@example.com', role: 'user' as const };
   let app: express.Application;
   let mockPool: Partial<Pool>;
   let poolQueryStub: SinonStub;
+  let transactionStatements: string[];
   let fileStorageStub: SinonStub;
 
   beforeEach(() => {
     // Mock database pool
     poolQueryStub = stub();
+    transactionStatements = [];
     mockPool = {
-      query: poolQueryStub
+      query: poolQueryStub,
+      // Transactions run on a client sharing the pool stub; only transaction control is kept apart
+      connect: stub().callsFake(async () => ({
+        query: async (sql: string, params?: unknown[]) => {
+          if (['BEGIN', 'COMMIT', 'ROLLBACK'].includes(sql)) {
+            transactionStatements.push(sql);
+            return { rows: [] };
+          }
+          return poolQueryStub(sql, params);
+        },
+        release: () => {}
+      })) as unknown as Pool['connect']
     };
 
     // Mock file storage service
     fileStorageStub = stub(FileStorageService.prototype, 'storeFile')
       .resolves('uploaded-files/test-uuid.txt');
     stub(FileStorageService.prototype, 'ensureDirectoryExists').resolves();
-    stub(FileStorageService.prototype, 'validateFileContent').returns(true);
-    stub(FileStorageService.prototype, 'getContentType').returns('text/plain');
+    stub(FileContentService.prototype, 'validateFileContent').returns(true);
+    stub(FileContentService.prototype, 'getContentType').returns('text/plain');
 
-    // Create express app with file routes
+    // Create express app with file routes, called by a signed-in user
     app = express();
     app.use(express.json());
+    app.use((req, _res, next) => {
+      req.user = caller;
+      next();
+    });
     app.use('/api/v1/files', createFileRoutes(mockPool as Pool));
     
-    // Add error handling middleware
-    app.use((error: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-      res.status(500).json({ error: error.message });
-    });
+    // Add the application's error handling middleware
+    app.use(errorHandler);
   });
 
   afterEach(() => {
@@ -56,12 +103,18 @@ describe('Files API Routes', () => {
 
       // Mock repository calls for the complete flow:
       // 1. findByFilename (check if file exists by name) -> not found
-      // 2. findById (check if file exists by id in save method) -> not found  
-      // 3. createFile INSERT -> returns the created file row
+      // 2. findByHashForUpdate (check if the content is already stored) -> not found
+      // 3. addReference (register the new blob) -> returns the blob row
+      // 4. findById (check if file exists by id in save method) -> not found  
+      // 5. createFile INSERT -> returns the created file row
+      // 6. file_versions INSERT -> returns the initial revision row
       poolQueryStub
         .onCall(0).resolves({ rows: [] }) // findByFilename returns empty (file doesn't exist)
-        .onCall(1).resolves({ rows: [] }) // findById returns empty (file doesn't exist)
-        .onCall(2).resolves({ rows: [mockFileRow] }) // createFile INSERT returns the created file
+        .onCall(1).resolves({ rows: [] }) // findByHashForUpdate returns empty (content not stored yet)
+        .onCall(2).resolves({ rows: [createBlobRow('uploaded-files/test-uuid.txt', 13)] }) // blob upsert
+        .onCall(3).resolves({ rows: [] }) // findById returns empty (file doesn't exist)
+        .onCall(4).resolves({ rows: [mockFileRow] }) // createFile INSERT returns the created file
+        .onCall(5).resolves({ rows: [createVersionRow(mockFileRow, 1)] }) // initial revision INSERT
         .resolves({ rows: [] }); // Default return for any other calls
 
       const response = await request(app)
@@ -74,16 +127,101 @@ describe('Files API Routes', () => {
       expect(response.body).to.have.property('fileSize', 13);
       expect(response.body).to.have.property('contentType', 'text/plain');
       expect(response.body).to.have.property('formattedSize');
+      expect(response.body.contentHash).to.match(/^[0-9a-f]{64}$/);
+      expect(transactionStatements).to.deep.equal(['BEGIN', 'COMMIT']);
+      expect(poolQueryStub.getCall(0).args[1]).to.deep.equal(['test.txt', caller.id]); // names are unique per owner
+      expect(poolQueryStub.getCall(1).args[0]).to.include('FOR UPDATE'); // a concurrent release cannot delete the blob meanwhile
+      expect(poolQueryStub.getCall(4).args[1]).to.include(caller.id); // the uploader owns the file
+    });
+
+    it('should roll back and remove the stored content when the upload cannot be recorded', async () => {
+      const deleteFileStub = stub(FileStorageService.prototype, 'deleteFile').resolves();
+      poolQueryStub
+        .onCall(0).resolves({ rows: [] }) // findByFilename
+        .onCall(1).resolves({ rows: [] }) // findByHashForUpdate
+        .onCall(2).resolves({ rows: [createBlobRow('uploaded-files/test-uuid.txt', 13)] }) // blob upsert
+        .onCall(3).resolves({ rows: [] }) // findById
+        .onCall(4).rejects(new Error('connection lost')); // createFile INSERT fails
+
+      const response = await request(app)
+        .post('/api/v1/files/upload')
+        .attach('file', Buffer.from('Hello, World!'), 'test.txt');
+
+      expect(response.status).to.equal(500);
+      expect(transactionStatements).to.deep.equal(['BEGIN', 'ROLLBACK']);
+      expect(deleteFileStub.calledOnceWith('uploaded-files/test-uuid.txt')).to.be.true;
+    });
+
+    it('should answer 409 when another upload of the caller took the name first', async () => {
+      const deleteFileStub = stub(FileStorageService.prototype, 'deleteFile').resolves();
+      poolQueryStub
+        .onCall(0).resolves({ rows: [] }) // findByFilename
+        .onCall(1).resolves({ rows: [] }) // findByHashForUpdate
+        .onCall(2).resolves({ rows: [createBlobRow('uploaded-files/test-uuid.txt', 13)] }) // blob upsert
+        .onCall(3).resolves({ rows: [] }) // findById
+        .onCall(4).rejects(Object.assign(new Error('duplicate key value'), { code: '23505' })); // owner and name taken
+
+      const response = await request(app)
+        .post('/api/v1/files/upload')
+        .attach('file', Buffer.from('Hello, World!'), 'test.txt');
+
+      expect(response.status).to.equal(409);
+      expect(response.body.detail).to.equal("A file with the name 'test.txt' already exists");
+      expect(transactionStatements).to.deep.equal(['BEGIN', 'ROLLBACK']);
+      expect(deleteFileStub.calledOnceWith('uploaded-files/test-uuid.txt')).to.be.true;
+    });
+
+    it('should detect binary content from its magic bytes and store the bytes unchanged', async () => {
+      const png = Buffer.concat([Buffer.from('89504e470d0a1a0a', 'hex'), Buffer.from([0, 0, 0, 13, 0xff])]);
+      const mockFileRow = {
+        id: 'test-id',
+        filename: 'pixel.png',
+        file_path: 'uploaded-files/test-uuid.txt',
+        file_size: png.length,
+        content_type: 'image/png',
+        created_at: new Date(),
+        updated_at: new Date()
+      };
+      poolQueryStub
+        .onCall(0).resolves({ rows: [] }) // findByFilename
+        .onCall(1).resolves({ rows: [] }) // findByHashForUpdate
+        .onCall(2).resolves({ rows: [createBlobRow('uploaded-files/test-uuid.txt', png.length)] }) // blob upsert
+        .onCall(3).resolves({ rows: [] }) // findById
+        .onCall(4).resolves({ rows: [mockFileRow] }) // createFile INSERT
+        .onCall(5).resolves({ rows: [createVersionRow(mockFileRow, 1)] }) // initial revision INSERT
+        .resolves({ rows: [] });
+
+      // The MIME type the client declares is not trusted
+      const response = await request(app)
+        .post('/api/v1/files/upload')
+        .attach('file', png, { filename: 'pixel.png', contentType: 'application/octet-stream' });
+
+      expect(response.status).to.equal(201);
+      expect(response.body).to.have.property('contentType', 'image/png');
+      expect(fileStorageStub.calledWith(png, 'pixel.png')).to.be.true;
+      expect(poolQueryStub.getCall(4).args[1]).to.include('image/png');
+    });
+
+    it('should return 400 when the content does not match the file extension', async () => {
+      const png = Buffer.concat([Buffer.from('89504e470d0a1a0a', 'hex'), Buffer.from([0, 0, 0, 13])]);
+
+      const response = await request(app)
+        .post('/api/v1/files/upload')
+        .attach('file', png, 'photo.jpg');
+
+      expect(response.status).to.equal(400);
+      expect(response.body.detail).to.include('image/png, which does not match the extension');
+      expect(fileStorageStub.called).to.be.false;
     });
 
     it('should return 400 for invalid file extension', async () => {
       const response = await request(app)
         .post('/api/v1/files/upload')
-        .attach('file', Buffer.from('content'), 'test.pdf');
+        .attach('file', Buffer.from('content'), 'test.exe');
 
       expect(response.status).to.equal(400);
-      expect(response.body).to.have.property('error');
-      expect(response.body.error).to.include('files are allowed');
+      expect(response.body).to.have.property('detail');
+      expect(response.body.detail).to.include('files are allowed');
     });
 
     it('should return 409 if file already exists', async () => {
@@ -105,8 +243,8 @@ describe('Files API Routes', () => {
         .attach('file', Buffer.from('content'), 'existing.txt');
 
       expect(response.status).to.equal(409);
-      expect(response.body).to.have.property('error');
-      expect(response.body.error).to.include('already exists');
+      expect(response.body).to.have.property('detail');
+      expect(response.body.detail).to.include('already exists');
     });
 
     it('should return 413 for oversized files', async () => {
@@ -117,8 +255,24 @@ describe('Files API Routes', () => {
         .attach('file', largeContent, 'large.txt');
 
       expect(response.status).to.equal(413);
-      expect(response.body).to.have.property('error');
-      expect(response.body.error).to.include('too large');
+      expect(response.body).to.have.property('detail');
+      expect(response.body.detail).to.include('too large');
+    });
+
+    it('should apply the configured limit of the content type', async () => {
+      const defaultLimits = contentTypeRegistry.getSizeLimits();
+      contentTypeRegistry.configureSizeLimits(new SizeLimitPolicy(1048576, { 'text/markdown': 2048 }));
+
+      try {
+        const response = await request(app)
+          .post('/api/v1/files/upload')
+          .attach('file', Buffer.alloc(2049, 'x'), 'notes.md');
+
+        expect(response.status).to.equal(413);
+        expect(response.body.detail).to.equal('File too large. Maximum size for text/markdown is 2048 bytes (0MB)');
+      } finally {
+        contentTypeRegistry.configureSizeLimits(defaultLimits);
+      }
     });
 
     it('should upload a valid JSON file', async () => {
@@ -135,8 +289,11 @@ describe('Files API Routes', () => {
 
       poolQueryStub
         .onCall(0).resolves({ rows: [] }) // findByFilename
-        .onCall(1).resolves({ rows: [] }) // findById  
-        .onCall(2).resolves({ rows: [mockFileRow] }) // createFile
+        .onCall(1).resolves({ rows: [] }) // findByHashForUpdate
+        .onCall(2).resolves({ rows: [createBlobRow('uploaded-files/test-uuid.txt', 17)] }) // blob upsert
+        .onCall(3).resolves({ rows: [] }) // findById  
+        .onCall(4).resolves({ rows: [mockFileRow] }) // createFile
+        .onCall(5).resolves({ rows: [createVersionRow(mockFileRow, 1)] }) // initial revision
         .resolves({ rows: [] });
 
       const jsonContent = '{"test": "value"}';
@@ -164,8 +321,11 @@ describe('Files API Routes', () => {
 
       poolQueryStub
         .onCall(0).resolves({ rows: [] }) // findByFilename
-        .onCall(1).resolves({ rows: [] }) // findById
-        .onCall(2).resolves({ rows: [mockFileRow] }) // createFile
+        .onCall(1).resolves({ rows: [] }) // findByHashForUpdate
+        .onCall(2).resolves({ rows: [createBlobRow('uploaded-files/test-uuid.txt', 15)] }) // blob upsert
+        .onCall(3).resolves({ rows: [] }) // findById
+        .onCall(4).resolves({ rows: [mockFileRow] }) // createFile
+        .onCall(5).resolves({ rows: [createVersionRow(mockFileRow, 1)] }) // initial revision
         .resolves({ rows: [] });
 
       const mdContent = '# Test Markdown';
@@ -184,16 +344,18 @@ describe('Files API Routes', () => {
         .send({});
 
       expect(response.status).to.equal(400);
-      expect(response.body).to.have.property('error');
+      expect(response.body).to.have.property('detail');
     });
   });
 
   describe('GET /api/v1/files', () => {
     it('should return list of files', async () => {
-      // Mock database calls for pagination
+      // Page and totals come back from a single query
       poolQueryStub
         .onFirstCall().resolves({ 
           rows: [{
+            total_count: '1',
+            total_size: '100',
             id: 'file1',
             filename: 'test1.txt',
             file_path: 'path1',
@@ -202,9 +364,7 @@ describe('Files API Routes', () => {
             created_at: new Date(),
             updated_at: new Date()
           }]
-        }) // findWithPagination
-        .onSecondCall().resolves({ rows: [{ count: '1' }] }) // getTotalCount
-        .onThirdCall().resolves({ rows: [{ total_size: '100' }] }); // getTotalSize
+        }); // findWithFilters
 
       const response = await request(app)
         .get('/api/v1/files');
@@ -219,9 +379,7 @@ describe('Files API Routes', () => {
 
     it('should support pagination parameters', async () => {
       poolQueryStub
-        .onFirstCall().resolves({ rows: [] })
-        .onSecondCall().resolves({ rows: [{ count: '0' }] })
-        .onThirdCall().resolves({ rows: [{ total_size: '0' }] });
+        .onFirstCall().resolves({ rows: [{ total_count: '0', total_size: '0', id: null }] }); // empty page
 
       const response = await request(app)
         .get('/api/v1/files')
@@ -236,6 +394,228 @@ describe('Files API Routes', () => {
       expect(response.body).to.have.property('page', 2);
       expect(response.body).to.have.property('limit', 10);
     });
+
+    it('should apply filters in the query and report filtered totals', async () => {
+      poolQueryStub.onFirstCall().resolves({
+        rows: [{
+          total_count: '1',
+          total_size: '2048',
+          id: 'file2',
+          filename: 'Report_50%.md',
+          file_path: 'path2',
+          file_size: 2048,
+          content_type: 'text/markdown',
+          created_at: new Date(),
+          updated_at: new Date()
+        }]
+      });
+
+      const response = await request(app)
+        .get('/api/v1/files')
+        .query({
+          contentType: 'text/markdown',
+          createdFrom: '2025-01-01T00:00:00.000Z',
+          minSize: 1024,
+          maxSize: 4096,
+          nameContains: '50%'
+        });
+
+      expect(response.status).to.equal(200);
+      expect(response.body).to.have.property('totalCount', 1);
+      expect(response.body).to.have.property('totalSize', 2048);
+      expect(response.body.files).to.have.lengthOf(1);
+      expect(poolQueryStub.calledOnce).to.be.true;
+
+      const [sql, params] = poolQueryStub.firstCall.args;
+      expect(sql).to.include('content_type = $1');
+      expect(sql).to.include('created_at >= $2');
+      expect(sql).to.include('file_size >= $3');
+      expect(sql).to.include('file_size <= $4');
+      expect(sql).to.include('filename ILIKE $5');
+      expect(sql).to.include('owner_id = $6');
+      expect(params).to.deep.equal([
+        'text/markdown',
+        new Date('2025-01-01T00:00:00.000Z'),
+        1024,
+        4096,
+        '%50\\%%',
+        caller.id,
+        20,
+        0
+      ]);
+    });
+
+    it('should page by cursor keyed on the sort column and id', async () => {
+      const createdAt = new Date('2025-09-06T10:30:00.000Z');
+      const row = (id: string, filename: string) => ({
+        total_count: '3',
+        total_size: '300',
+        id,
+        filename,
+        file_path: `uploaded-files/${id}.txt`,
+        file_size: 100,
+        content_type: 'text/plain',
+        created_at: createdAt,
+        updated_at: createdAt
+      });
+
+      // First page in offset mode hands out a cursor
+      poolQueryStub.onFirstCall().resolves({ rows: [row('123e4567-e89b-12d3-a456-42661417400a', 'a.txt'), row('123e4567-e89b-12d3-a456-42661417400b', 'b.txt')] });
+      const firstPage = await request(app)
+        .get('/api/v1/files')
+        .query({ limit: 2, sortBy: 'filename', sortOrder: 'ASC' });
+
+      expect(firstPage.status).to.equal(200);
+      expect(firstPage.body.hasNextPage).to.be.true;
+      expect(firstPage.body).to.have.property('nextCursor').that.is.a('string');
+      expect(firstPage.body).to.not.have.property('prevCursor');
+
+      // Following the cursor continues after the last row of the first page
+      poolQueryStub.onSecondCall().resolves({ rows: [row('123e4567-e89b-12d3-a456-42661417400c', 'c.txt')] });
+      const secondPage = await request(app)
+        .get('/api/v1/files')
+        .query({ limit: 2, cursor: firstPage.body.nextCursor });
+
+      expect(secondPage.status).to.equal(200);
+      expect(secondPage.body.files.map((file: any) => file.filename)).to.deep.equal(['c.txt']);
+      expect(secondPage.body).to.not.have.property('page');
+      expect(secondPage.body.hasNextPage).to.be.false;
+      expect(secondPage.body.hasPreviousPage).to.be.true;
+      expect(secondPage.body).to.have.property('prevCursor').that.is.a('string');
+      expect(secondPage.body).to.not.have.property('nextCursor');
+      expect(secondPage.body).to.not.have.any.keys('totalCount', 'totalSize');
+
+      // The keyset query runs on its own, without counting the filtered set
+      const [sql, params] = poolQueryStub.secondCall.args;
+      expect(sql).to.include('(filename, id) > ($2, $3)');
+      expect(sql).to.include('ORDER BY filename ASC, id ASC');
+      expect(sql).to.not.include('COUNT(');
+      expect(params).to.deep.equal([caller.id, 'b.txt', '123e4567-e89b-12d3-a456-42661417400b', 3]);
+    });
+
+    it('should return 400 for a cursor whose row id is not a UUID', async () => {
+      const cursor = Buffer.from(JSON.stringify({ s: 'filename', o: 'ASC', v: 'b.txt', i: 'x', d: 'after' })).toString('base64url');
+
+      const response = await request(app).get('/api/v1/files').query({ cursor });
+
+      expect(response.status).to.equal(400);
+      expect(response.body.detail).to.equal('Invalid cursor: row id is not a valid UUID');
+      expect(poolQueryStub.called).to.be.false;
+    });
+  });
+
+  describe('GET /api/v1/files/search', () => {
+    it('should return ranked hits with highlighted snippets', async () => {
+      const createdAt = new Date('2025-09-06T10:30:00.000Z');
+      poolQueryStub.resolves({
+        rows: [{
+          id: '123e4567-e89b-12d3-a456-426614174000',
+          filename: 'report.md',
+          file_path: 'uploaded-files/report.md',
+          file_size: 120,
+          content_type: 'text/markdown',
+          created_at: createdAt,
+          updated_at: createdAt,
+          rank: '0.6',
+          snippet: 'Summary of the \u0002quarterly\u0003 results',
+          total_count: '1'
+        }]
+      });
+
+      const response = await request(app)
+        .get('/api/v1/files/search')
+        .query({ q: 'quarterly', contentType: 'text/markdown', startDate: '2025-09-01', endDate: '2025-09-30' });
+
+      expect(response.status).to.equal(200);
+      expect(response.body).to.deep.include({ query: 'quarterly', totalCount: 1, page: 1, hasNextPage: false });
+      expect(response.body.results).to.have.lengthOf(1);
+      expect(response.body.results[0]).to.deep.include({
+        filename: 'report.md',
+        rank: 0.6,
+        snippet: 'Summary of the <mark>quarterly</mark> results'
+      });
+
+      const [sql, params] = poolQueryStub.firstCall.args;
+      expect(sql).to.include('websearch_to_tsquery');
+      expect(sql).to.include('content_type = $2');
+      expect(params.slice(0, 2)).to.deep.equal(['quarterly', 'text/markdown']);
+      expect(params[2]).to.be.instanceOf(Date);
+      expect(params[3]).to.be.instanceOf(Date);
+    });
+
+    it('should escape markup from the content and mark only the matched terms', async () => {
+      poolQueryStub.resolves({
+        rows: [{
+          id: '123e4567-e89b-12d3-a456-426614174000',
+          filename: 'page.html',
+          file_path: 'uploaded-files/page.html',
+          file_size: 120,
+          content_type: 'text/html',
+          created_at: new Date('2025-09-06T10:30:00.000Z'),
+          updated_at: new Date('2025-09-06T10:30:00.000Z'),
+          rank: '0.4',
+          snippet: '<script>alert("\u0002quarterly\u0003")</script> & <mark>more</mark>',
+          total_count: '1'
+        }]
+      });
+
+      const response = await request(app)
+        .get('/api/v1/files/search')
+        .query({ q: 'quarterly' });
+
+      expect(response.status).to.equal(200);
+      expect(response.body.results[0].snippet).to.equal(
+        '&lt;script&gt;alert(&quot;<mark>quarterly</mark>&quot;)&lt;/script&gt; &amp; &lt;mark&gt;more&lt;/mark&gt;'
+      );
+    });
+
+    it('should return an empty result when nothing matches', async () => {
+      poolQueryStub.resolves({ rows: [] });
+
+      const response = await request(app)
+        .get('/api/v1/files/search')
+        .query({ q: 'missing' });
+
+      expect(response.status).to.equal(200);
+      expect(response.body).to.deep.include({ results: [], totalCount: 0 });
+    });
+  });
+
+  describe('GET /api/v1/files/types', () => {
+    it('should list the registered document types with their limits', async () => {
+      const response = await request(app).get('/api/v1/files/types');
+
+      expect(response.status).to.equal(200);
+      expect(response.body.contentTypes.map((type: { contentType: string }) => type.contentType))
+        .to.deep.equal([
+          'text/plain', 'text/markdown', 'application/json', 'application/yaml', 'text/csv', 'application/xml', 'text/html',
+          'image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf'
+        ]);
+      expect(response.body.contentTypes[1]).to.deep.equal({
+        contentType: 'text/markdown',
+        extensions: ['.md'],
+        mimeAliases: ['text/x-markdown'],
+        maxSizeBytes: 1048576,
+        binary: false
+      });
+      expect(response.body.maxUploadSizeBytes).to.equal(1048576);
+    });
+
+    it('should publish the configured limits', async () => {
+      const defaultLimits = contentTypeRegistry.getSizeLimits();
+      contentTypeRegistry.configureSizeLimits(new SizeLimitPolicy(2048, { 'application/pdf': 10485760 }));
+
+      try {
+        const response = await request(app).get('/api/v1/files/types');
+
+        expect(response.status).to.equal(200);
+        expect(response.body.contentTypes[0].maxSizeBytes).to.equal(2048);
+        expect(response.body.contentTypes[11]).to.include({ contentType: 'application/pdf', maxSizeBytes: 10485760 });
+        expect(response.body.maxUploadSizeBytes).to.equal(10485760);
+      } finally {
+        contentTypeRegistry.configureSizeLimits(defaultLimits);
+      }
+    });
   });
 
   describe('GET /api/v1/files/:fileId', () => {
@@ -269,8 +649,8 @@ describe('Files API Routes', () => {
         .get('/api/v1/files/nonexistent-id');
 
       expect(response.status).to.equal(404);
-      expect(response.body).to.have.property('error');
-      expect(response.body.error).to.include('not found');
+      expect(response.body).to.have.property('detail');
+      expect(response.body.detail).to.include('not found');
     });
 
     it('should return 400 for invalid UUID format', async () => {
@@ -278,27 +658,542 @@ describe('Files API Routes', () => {
         .get('/api/v1/files/invalid-uuid');
 
       expect(response.status).to.equal(400);
-      expect(response.body).to.have.property('error');
-      expect(response.body.error).to.include('UUID');
+      expect(response.body).to.have.property('detail');
+      expect(response.body.detail).to.include('UUID');
+    });
+
+    it('should return 500 with an integrity problem when the content does not match its checksum', async () => {
+      poolQueryStub.resolves({
+        rows: [{
+          id: 'test-id',
+          filename: 'test.txt',
+          file_path: 'uploaded-files/test.txt',
+          file_size: 13,
+          content_type: 'text/plain',
+          content_hash: 'dffd6021bb2bd5b0af676290809ec3a53191dd81c7f70a4b28688a362182986f',
+          created_at: new Date(),
+          updated_at: new Date()
+        }]
+      });
+      stub(FileStorageService.prototype, 'readFile').resolves(Buffer.from('Hello, W0rld!'));
+
+      const response = await request(app)
+        .get('/api/v1/files/123e4567-e89b-12d3-a456-426614174000');
+
+      expect(response.status).to.equal(500);
+      expect(response.body.type).to.equal('/problems/integrity-error');
+      expect(response.body.detail).to.include('does not match its checksum');
+    });
+
+    it('should return binary content base64 encoded', async () => {
+      const png = Buffer.concat([Buffer.from('89504e470d0a1a0a', 'hex'), Buffer.from([0, 0, 0, 13, 0xff])]);
+      poolQueryStub.resolves({
+        rows: [{
+          id: 'test-id',
+          filename: 'pixel.png',
+          file_path: 'uploaded-files/pixel.png',
+          file_size: png.length,
+          content_type: 'image/png',
+          created_at: new Date(),
+          updated_at: new Date()
+        }]
+      });
+      stub(FileStorageService.prototype, 'readFile').resolves(png);
+
+      const response = await request(app)
+        .get('/api/v1/files/123e4567-e89b-12d3-a456-426614174000');
+
+      expect(response.status).to.equal(200);
+      expect(response.body.encoding).to.equal('base64');
+      expect(Buffer.from(response.body.content, 'base64').equals(png)).to.be.true;
     });
   });
 
-  describe('DELETE /api/v1/files/:fileId', () => {
-    it('should delete existing file', async () => {
-      // Mock findById then delete
-      poolQueryStub
-        .onFirstCall().resolves({ 
+  describe('GET /api/v1/files/:fileId/raw', () => {
+    it('should stream the stored bytes with download headers', async () => {
+      const updatedAt = new Date('2024-01-02T03:04:05Z');
+      poolQueryStub.resolves({
+        rows: [{
+          id: '123e4567-e89b-12d3-a456-426614174000',
+          filename: 'résumé.txt',
+          file_path: 'uploaded-files/test.txt',
+          file_size: 13,
+          content_type: 'text/plain',
+          created_at: updatedAt,
+          updated_at: updatedAt
+        }]
+      });
+      const readStreamStub = stub(FileStorageService.prototype, 'createReadStream')
+        .callsFake(async () => Readable.from([Buffer.from('Hello, '), Buffer.from('World!')]));
+
+      const response = await request(app)
+        .get('/api/v1/files/123e4567-e89b-12d3-a456-426614174000/raw');
+
+      expect(response.status).to.equal(200);
+      expect(readStreamStub.calledOnceWith('uploaded-files/test.txt')).to.be.true;
+      expect(response.text).to.equal('Hello, World!');
+      expect(response.headers['content-type']).to.equal('text/plain; charset=utf-8');
+      expect(response.headers['content-length']).to.equal('13');
+      expect(response.headers['content-disposition'])
+        .to.equal(`attachment; filename="r_sum_.txt"; filename*=UTF-8''r%C3%A9sum%C3%A9.txt`);
+      expect(response.headers['last-modified']).to.equal(updatedAt.toUTCString());
+      expect(response.headers['accept-ranges']).to.equal('bytes');
+    });
+
+    it('should send binary types without a charset', async () => {
+      poolQueryStub.resolves({
+        rows: [{
+          id: '123e4567-e89b-12d3-a456-426614174000',
+          filename: 'pixel.png',
+          file_path: 'uploaded-files/pixel.png',
+          file_size: 4,
+          content_type: 'image/png',
+          created_at: new Date('2024-01-02T03:04:05Z'),
+          updated_at: new Date('2024-01-02T03:04:05Z')
+        }]
+      });
+      stub(FileStorageService.prototype, 'createReadStream')
+        .callsFake(async () => Readable.from([Buffer.from([0x89, 0x50, 0x4e, 0x47])]));
+
+      const response = await request(app)
+        .get('/api/v1/files/123e4567-e89b-12d3-a456-426614174000/raw');
+
+      expect(response.status).to.equal(200);
+      expect(response.headers['content-type']).to.equal('image/png');
+    });
+
+    describe('conditional and range requests', () => {
+      const fileId = '123e4567-e89b-12d3-a456-426614174000';
+      const contentHash = 'dffd6021bb2bd5b0af676290809ec3a53191dd81c7f70a4b28688a362182986f';
+      const etag = `"2-${contentHash}"`;
+      const updatedAt = new Date('2024-01-02T03:04:05Z');
+      let readStreamStub: SinonStub;
+
+      beforeEach(() => {
+        poolQueryStub.resolves({
           rows: [{
-            id: 'test-id',
+            id: fileId,
             filename: 'test.txt',
             file_path: 'uploaded-files/test.txt',
             file_size: 13,
             content_type: 'text/plain',
-            created_at: new Date(),
-            updated_at: new Date()
+            current_version: 2,
+            content_hash: contentHash,
+            created_at: updatedAt,
+            updated_at: updatedAt
           }]
-        })
-        .onSecondCall().resolves({ rows: [] }); // delete success
+        });
+        readStreamStub = stub(FileStorageService.prototype, 'createReadStream')
+          .callsFake(async (_filePath: string, range?: { start: number; end: number }) => {
+            const content = Buffer.from('Hello, World!');
+            return Readable.from([range ? content.subarray(range.start, range.end + 1) : content]);
+          });
+      });
+
+      it('should use the revision and its content hash as a strong ETag', async () => {
+        const response = await request(app).get(`/api/v1/files/${fileId}/raw`);
+
+        expect(response.status).to.equal(200);
+        expect(response.headers.etag).to.equal(etag);
+        expect(response.headers['cache-control']).to.equal('private, no-cache');
+      });
+
+      it('should answer 304 without reading storage when the ETag matches', async () => {
+        const response = await request(app)
+          .get(`/api/v1/files/${fileId}/raw`)
+          .set('If-None-Match', `"other", ${etag}`);
+
+        expect(response.status).to.equal(304);
+        expect(readStreamStub.called).to.be.false;
+      });
+
+      it('should answer 304 when the content was not modified since the given date', async () => {
+        const response = await request(app)
+          .get(`/api/v1/files/${fileId}/raw`)
+          .set('If-Modified-Since', updatedAt.toUTCString());
+
+        expect(response.status).to.equal(304);
+      });
+
+      it('should send the content again when the ETag no longer matches', async () => {
+        const response = await request(app)
+          .get(`/api/v1/files/${fileId}/raw`)
+          .set('If-None-Match', '"stale"')
+          .set('If-Modified-Since', updatedAt.toUTCString());
+
+        expect(response.status).to.equal(200);
+        expect(response.text).to.equal('Hello, World!');
+      });
+
+      it('should serve a single byte range as 206 partial content', async () => {
+        const response = await request(app)
+          .get(`/api/v1/files/${fileId}/raw`)
+          .set('Range', 'bytes=7-');
+
+        expect(response.status).to.equal(206);
+        expect(response.text).to.equal('World!');
+        expect(response.headers['content-range']).to.equal('bytes 7-12/13');
+        expect(response.headers['content-length']).to.equal('6');
+        expect(readStreamStub.firstCall.args[1]).to.deep.equal({ start: 7, end: 12 });
+      });
+
+      it('should answer 416 for a range beyond the content', async () => {
+        const response = await request(app)
+          .get(`/api/v1/files/${fileId}/raw`)
+          .set('Range', 'bytes=50-60');
+
+        expect(response.status).to.equal(416);
+        expect(response.headers['content-range']).to.equal('bytes */13');
+        expect(readStreamStub.called).to.be.false;
+      });
+
+      it('should ignore the range when If-Range names an older version', async () => {
+        const response = await request(app)
+          .get(`/api/v1/files/${fileId}/raw`)
+          .set('Range', 'bytes=0-4')
+          .set('If-Range', '"stale"');
+
+        expect(response.status).to.equal(200);
+        expect(response.text).to.equal('Hello, World!');
+      });
+
+      it('should answer 304 for the JSON content route when the ETag matches', async () => {
+        stub(FileStorageService.prototype, 'readFile').resolves(Buffer.from('Hello, World!'));
+
+        const fresh = await request(app).get(`/api/v1/files/${fileId}`);
+        const cached = await request(app)
+          .get(`/api/v1/files/${fileId}`)
+          .set('If-None-Match', fresh.headers.etag);
+
+        expect(fresh.status).to.equal(200);
+        expect(fresh.headers.etag).to.equal(etag);
+        expect(fresh.headers['last-modified']).to.equal(updatedAt.toUTCString());
+        expect(cached.status).to.equal(304);
+      });
+    });
+  });
+
+  describe('POST /api/v1/files/upload/stream', () => {
+    it('should store the request body as it arrives and compute size and hash', async () => {
+      const mockDate = new Date();
+      const mockFileRow = {
+        id: 'test-id',
+        filename: 'test.txt',
+        file_path: 'uploaded-files/streamed.txt',
+        file_size: 13,
+        content_type: 'text/plain',
+        created_at: mockDate,
+        updated_at: mockDate
+      };
+      const storeStreamStub = stub(FileStorageService.prototype, 'storeStream')
+        .callsFake(async (source: Readable) => {
+          for await (const _chunk of source) {
+            // drain like a real backend
+          }
+          return 'uploaded-files/streamed.txt';
+        });
+
+      // findByFilename, findByHashForUpdate, blob upsert, findById, INSERT, version INSERT, search text
+      poolQueryStub
+        .onCall(0).resolves({ rows: [] })
+        .onCall(1).resolves({ rows: [] })
+        .onCall(2).resolves({ rows: [createBlobRow('uploaded-files/streamed.txt', 13)] })
+        .onCall(3).resolves({ rows: [] })
+        .onCall(4).resolves({ rows: [mockFileRow] })
+        .onCall(5).resolves({ rows: [createVersionRow(mockFileRow, 1)] })
+        .resolves({ rows: [] });
+
+      const response = await request(app)
+        .post('/api/v1/files/upload/stream?filename=test.txt')
+        .set('Content-Type', 'application/octet-stream')
+        .send(Buffer.from('Hello, World!'));
+
+      expect(response.status).to.equal(201);
+      expect(storeStreamStub.calledOnce).to.be.true;
+      expect(response.body).to.have.property('filename', 'test.txt');
+      expect(response.body).to.have.property('fileSize', 13);
+      expect(response.body.contentHash)
+        .to.equal('dffd6021bb2bd5b0af676290809ec3a53191dd81c7f70a4b28688a362182986f');
+    });
+
+    it('should return 400 when the filename is missing', async () => {
+      const response = await request(app)
+        .post('/api/v1/files/upload/stream')
+        .set('Content-Type', 'application/octet-stream')
+        .send(Buffer.from('Hello'));
+
+      expect(response.status).to.equal(400);
+      expect(response.body.detail).to.include('filename');
+    });
+
+    it('should return 415 for bodies that are not raw bytes', async () => {
+      const response = await request(app)
+        .post('/api/v1/files/upload/stream?filename=test.txt')
+        .set('Content-Type', 'text/plain')
+        .send('Hello');
+
+      expect(response.status).to.equal(415);
+    });
+  });
+
+  describe('PUT /api/v1/files/:fileId/content', () => {
+    const fileId = '123e4567-e89b-12d3-a456-426614174000';
+
+    it('should store a new revision of an existing file', async () => {
+      const createdAt = new Date('2025-09-06T10:30:00.000Z');
+      const existingRow = {
+        id: fileId,
+        filename: 'notes.txt',
+        file_path: 'uploaded-files/revision-1.txt',
+        file_size: 5,
+        content_type: 'text/plain',
+        current_version: 1,
+        content_hash: 'b'.repeat(64),
+        row_version: 3,
+        created_at: createdAt,
+        updated_at: createdAt
+      };
+      const updatedRow = {
+        ...existingRow,
+        file_path: 'uploaded-files/test-uuid.txt',
+        file_size: 13,
+        current_version: 2,
+        content_hash: 'a'.repeat(64),
+        row_version: 4,
+        updated_at: new Date()
+      };
+
+      poolQueryStub
+        .onCall(0).resolves({ rows: [existingRow] }) // findById in use case
+        .onCall(1).resolves({ rows: [] }) // findByHashForUpdate
+        .onCall(2).resolves({ rows: [createBlobRow('uploaded-files/test-uuid.txt', 13)] }) // blob upsert
+        .onCall(3).resolves({ rows: [existingRow] }) // findById in save
+        .onCall(4).resolves({ rows: [updatedRow] }) // updateFile
+        .onCall(5).resolves({ rows: [createVersionRow(updatedRow, 2)] }) // revision INSERT
+        .resolves({ rows: [] });
+
+      const response = await request(app)
+        .put(`/api/v1/files/${fileId}/content`)
+        .set('If-Match', `"1-${'b'.repeat(64)}"`)
+        .attach('file', Buffer.from('Hello, World!'), 'notes.txt');
+
+      expect(response.status).to.equal(200);
+      expect(response.body).to.deep.include({
+        fileId,
+        version: 2,
+        fileSize: 13,
+        contentType: 'text/plain',
+        isCurrent: true
+      });
+      expect(response.headers.etag).to.equal(`"2-${'dffd6021bb2bd5b0af676290809ec3a53191dd81c7f70a4b28688a362182986f'}"`);
+      expect(fileStorageStub.calledWith(Buffer.from('Hello, World!'), 'notes.txt')).to.be.true;
+
+      // The update only applies while the row is still at the version that was read
+      const [updateSql, updateParams] = poolQueryStub.getCall(4).args;
+      expect(updateSql).to.include('row_version = $9');
+      expect(updateParams[8]).to.equal(3);
+    });
+
+    it('should return 412 when the file changed since the version named in If-Match', async () => {
+      poolQueryStub.resolves({
+        rows: [{
+          id: fileId,
+          filename: 'notes.txt',
+          file_path: 'uploaded-files/revision-2.txt',
+          file_size: 5,
+          content_type: 'text/plain',
+          current_version: 2,
+          content_hash: 'b'.repeat(64),
+          created_at: new Date(),
+          updated_at: new Date()
+        }]
+      });
+
+      const response = await request(app)
+        .put(`/api/v1/files/${fileId}/content`)
+        .set('If-Match', `"1-${'c'.repeat(64)}"`)
+        .attach('file', Buffer.from('Hello, World!'), 'notes.txt');
+
+      expect(response.status).to.equal(412);
+      expect(response.body.detail).to.include('has changed since it was read');
+      expect(fileStorageStub.called).to.be.false;
+    });
+
+    it('should return 412 for the ETag of content that was changed and then changed back', async () => {
+      const revision = (version: number, hash: string) => ({
+        id: fileId,
+        filename: 'notes.txt',
+        file_path: `uploaded-files/revision-${version}.txt`,
+        file_size: 5,
+        content_type: 'text/plain',
+        current_version: version,
+        content_hash: hash,
+        created_at: new Date(),
+        updated_at: new Date()
+      });
+      // A client read revision 1 (content A); revision 2 held B and revision 3 holds A again
+      poolQueryStub.resolves({ rows: [revision(3, 'a'.repeat(64))] });
+      const staleEtag = `"1-${'a'.repeat(64)}"`;
+
+      const response = await request(app)
+        .put(`/api/v1/files/${fileId}/content`)
+        .set('If-Match', staleEtag)
+        .attach('file', Buffer.from('Hello, World!'), 'notes.txt');
+
+      expect(response.status).to.equal(412);
+      expect(fileStorageStub.called).to.be.false;
+    });
+
+    it('should return 428 when the If-Match header is missing', async () => {
+      const response = await request(app)
+        .put(`/api/v1/files/${fileId}/content`)
+        .attach('file', Buffer.from('Hello, World!'), 'notes.txt');
+
+      expect(response.status).to.equal(428);
+      expect(response.body.detail).to.include('If-Match');
+      expect(poolQueryStub.called).to.be.false;
+    });
+
+    it('should return 400 when no file is provided', async () => {
+      const response = await request(app)
+        .put(`/api/v1/files/${fileId}/content`)
+        .set('If-Match', '*')
+        .send({});
+
+      expect(response.status).to.equal(400);
+      expect(response.body).to.have.property('detail');
+    });
+  });
+
+  describe('GET /api/v1/files/:fileId/versions', () => {
+    const fileId = '123e4567-e89b-12d3-a456-426614174000';
+    const fileRow = {
+      id: fileId,
+      filename: 'notes.txt',
+      file_path: 'uploaded-files/revision-2.txt',
+      file_size: 13,
+      content_type: 'text/plain',
+      current_version: 2,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+
+    it('should list every revision of a file, newest first', async () => {
+      poolQueryStub
+        .onCall(0).resolves({ rows: [fileRow] }) // findById
+        .onCall(1).resolves({ rows: [createVersionRow(fileRow, 2), createVersionRow(fileRow, 1)] }); // findByFileId
+
+      const response = await request(app)
+        .get(`/api/v1/files/${fileId}/versions`);
+
+      expect(response.status).to.equal(200);
+      expect(response.body).to.have.property('currentVersion', 2);
+      expect(response.body.versions).to.have.length(2);
+      expect(response.body.versions[0]).to.deep.include({ version: 2, isCurrent: true });
+      expect(response.body.versions[1]).to.deep.include({ version: 1, isCurrent: false });
+    });
+
+    it('should return the content of a specific revision', async () => {
+      stub(FileStorageService.prototype, 'readFile').resolves(Buffer.from('Hello'));
+
+      poolQueryStub
+        .onCall(0).resolves({ rows: [fileRow] }) // findById
+        .onCall(1).resolves({ rows: [{ ...createVersionRow(fileRow, 1), file_path: 'uploaded-files/revision-1.txt' }] }); // findByFileIdAndVersion
+
+      const response = await request(app)
+        .get(`/api/v1/files/${fileId}/versions/1`);
+
+      expect(response.status).to.equal(200);
+      expect(response.body).to.deep.include({
+        fileId,
+        filename: 'notes.txt',
+        version: 1,
+        content: 'Hello',
+        isCurrent: false
+      });
+      expect(poolQueryStub.secondCall.args[1]).to.deep.equal([fileId, 1]);
+    });
+  });
+
+  describe('GET /api/v1/files/:fileId/diff', () => {
+    const fileId = '123e4567-e89b-12d3-a456-426614174000';
+
+    const createFileRow = (filename: string, contentType: string) => ({
+      id: fileId,
+      filename,
+      file_path: `uploaded-files/revision-2${filename.substring(filename.lastIndexOf('.'))}`,
+      file_size: 20,
+      content_type: contentType,
+      current_version: 2,
+      created_at: new Date(),
+      updated_at: new Date()
+    });
+
+    it('should return a unified diff between the previous and current revision', async () => {
+      const fileRow = createFileRow('notes.txt', 'text/plain');
+      const readFileStub = stub(FileStorageService.prototype, 'readFile');
+      readFileStub.withArgs('uploaded-files/revision-1.txt').resolves(Buffer.from('Hello\nWorld\n'));
+      readFileStub.withArgs('uploaded-files/revision-2.txt').resolves(Buffer.from('Hello\nThere\n'));
+
+      poolQueryStub
+        .onCall(0).resolves({ rows: [fileRow] }) // findById
+        .onCall(1).resolves({ rows: [{ ...createVersionRow(fileRow, 1), file_path: 'uploaded-files/revision-1.txt' }] })
+        .onCall(2).resolves({ rows: [createVersionRow(fileRow, 2)] });
+
+      const response = await request(app)
+        .get(`/api/v1/files/${fileId}/diff`);
+
+      expect(response.status).to.equal(200);
+      expect(response.body).to.deep.include({
+        mode: 'text',
+        fromVersion: 1,
+        toVersion: 2,
+        identical: false,
+        additions: 1,
+        deletions: 1
+      });
+      expect(response.body.unifiedDiff).to.include('-World');
+      expect(response.body.hunks[0].lines).to.deep.equal([' Hello', '-World', '+There']);
+    });
+
+    it('should return structural changes for JSON files in json mode', async () => {
+      const fileRow = createFileRow('config.json', 'application/json');
+      const readFileStub = stub(FileStorageService.prototype, 'readFile');
+      readFileStub.withArgs('uploaded-files/revision-1.json').resolves(Buffer.from('{"debug": false}'));
+      readFileStub.withArgs('uploaded-files/revision-2.json').resolves(Buffer.from('{"debug": true, "port": 80}'));
+
+      poolQueryStub
+        .onCall(0).resolves({ rows: [fileRow] })
+        .onCall(1).resolves({ rows: [{ ...createVersionRow(fileRow, 1), file_path: 'uploaded-files/revision-1.json' }] })
+        .onCall(2).resolves({ rows: [createVersionRow(fileRow, 2)] });
+
+      const response = await request(app)
+        .get(`/api/v1/files/${fileId}/diff`)
+        .query({ from: 1, to: 2, mode: 'json' });
+
+      expect(response.status).to.equal(200);
+      expect(response.body.mode).to.equal('json');
+      expect(response.body.changes).to.deep.equal([
+        { op: 'changed', path: '/debug', oldValue: false, newValue: true },
+        { op: 'added', path: '/port', newValue: 80 }
+      ]);
+    });
+  });
+
+  describe('DELETE /api/v1/files/:fileId', () => {
+    it('should delete existing file', async () => {
+      const fileRow = {
+        id: 'test-id',
+        filename: 'test.txt',
+        file_path: 'uploaded-files/test.txt',
+        file_size: 13,
+        content_type: 'text/plain',
+        created_at: new Date(),
+        updated_at: new Date()
+      };
+      poolQueryStub
+        .onFirstCall().resolves({ rows: [fileRow] }) // findById
+        .onSecondCall().resolves({ rows: [fileRow] }); // moved to the trash
 
       const response = await request(app)
         .delete('/api/v1/files/123e4567-e89b-12d3-a456-426614174000');
@@ -308,6 +1203,43 @@ describe('Files API Routes', () => {
       expect(response.body).to.have.property('message');
     });
 
+    it('should move the file to the trash instead of removing it', async () => {
+      const deletedAt = new Date();
+      poolQueryStub.resolves({
+        rows: [{
+          id: '123e4567-e89b-12d3-a456-426614174000',
+          filename: 'test.txt',
+          file_path: 'uploaded-files/test.txt',
+          file_size: 13,
+          content_type: 'text/plain',
+          created_at: new Date(),
+          updated_at: new Date(),
+          deleted_at: deletedAt
+        }]
+      });
+      const deleteFileStub = stub(FileStorageService.prototype, 'deleteFile').resolves();
+
+      const response = await request(app)
+        .delete('/api/v1/files/123e4567-e89b-12d3-a456-426614174000');
+
+      expect(response.status).to.equal(200);
+      expect(poolQueryStub.calledTwice).to.be.true;
+      expect(poolQueryStub.secondCall.args[0]).to.include('SET deleted_at = $2');
+      expect(poolQueryStub.secondCall.args[0]).to.include('deleted_at IS NULL');
+      expect(deleteFileStub.called).to.be.false;
+      expect(new Date(response.body.purgeAt).getTime()).to.be.greaterThan(new Date(response.body.deletedAt).getTime());
+    });
+
+    it('should return 404 when the file is already in the trash', async () => {
+      poolQueryStub.resolves({ rows: [] });
+
+      const response = await request(app)
+        .delete('/api/v1/files/123e4567-e89b-12d3-a456-426614174000');
+
+      expect(response.status).to.equal(404);
+      expect(response.body.detail).to.include('not found');
+    });
+
     it('should return 404 when deleting non-existent file', async () => {
       poolQueryStub.resolves({ rows: [] }); // File not found
 
@@ -315,8 +1247,272 @@ describe('Files API Routes', () => {
         .delete('/api/v1/files/nonexistent-id');
 
       expect(response.status).to.equal(404);
-      expect(response.body).to.have.property('error');
-      expect(response.body.error).to.include('not found');
+      expect(response.body).to.have.property('detail');
+      expect(response.body.detail).to.include('not found');
+    });
+  });
+
+  describe('file access', () => {
+    const fileId = '123e4567-e89b-12d3-a456-426614174000';
+    const otherUserId = '9b2f1e3a-5c4d-4e6f-8a7b-0c1d2e3f4a5b';
+    const fileRow = (ownerId: string) => ({
+      id: fileId,
+      filename: 'report.txt',
+      file_path: 'uploaded-files/report.txt',
+      file_size: 13,
+      content_type: 'text/plain',
+      created_at: new Date(),
+      updated_at: new Date(),
+      owner_id: ownerId
+    });
+    const grantRow = (userId: string, role: string) => ({
+      id: 'grant-1',
+      file_id: fileId,
+      user_id: userId,
+      role,
+      created_at: new Date('2025-09-06T10:30:00.000Z'),
+      updated_at: new Date('2025-09-06T10:30:00.000Z')
+    });
+
+    it('should answer 404 for a file that is not shared with the caller', async () => {
+      poolQueryStub
+        .onFirstCall().resolves({ rows: [fileRow(otherUserId)] }) // findById
+        .onSecondCall().resolves({ rows: [] }); // no grant
+
+      const response = await request(app).get(`/api/v1/files/${fileId}`);
+
+      expect(response.status).to.equal(404);
+      expect(poolQueryStub.secondCall.args).to.deep.equal([
+        'SELECT * FROM file_grants WHERE file_id = $1 AND user_id = $2',
+        [fileId, caller.id]
+      ]);
+    });
+
+    it('should refuse to delete a file the caller may only view', async () => {
+      poolQueryStub
+        .onFirstCall().resolves({ rows: [fileRow(otherUserId)] }) // findById
+        .onSecondCall().resolves({ rows: [grantRow(caller.id, 'viewer')] });
+
+      const response = await request(app).delete(`/api/v1/files/${fileId}`);
+
+      expect(response.status).to.equal(403);
+      expect(response.body.detail).to.equal("Deleting file 'report.txt' requires the owner role; you hold the viewer role");
+      expect(poolQueryStub.calledTwice).to.be.true; // never moved to the trash
+    });
+
+    describe('on content, history and trash routes', () => {
+      const routes: Record<string, () => request.Test> = {
+        'GET raw': () => request(app).get(`/api/v1/files/${fileId}/raw`),
+        'PUT content': () => request(app)
+          .put(`/api/v1/files/${fileId}/content`)
+          .set('If-Match', '*')
+          .attach('file', Buffer.from('Hello, World!'), 'report.txt'),
+        'GET versions': () => request(app).get(`/api/v1/files/${fileId}/versions`),
+        'GET version': () => request(app).get(`/api/v1/files/${fileId}/versions/1`),
+        'GET diff': () => request(app).get(`/api/v1/files/${fileId}/diff?from=1&to=2`),
+        'POST restore': () => request(app).post(`/api/v1/files/${fileId}/restore`),
+        'DELETE purge': () => request(app).delete(`/api/v1/files/trash/${fileId}`)
+      };
+
+      const serveFileOfOtherUser = (role?: string) => {
+        poolQueryStub.callsFake(async (sql: string) => {
+          if (sql.startsWith('SELECT * FROM files WHERE id')) {
+            const trashed = sql.includes('deleted_at IS NOT NULL');
+            return { rows: [{ ...fileRow(otherUserId), deleted_at: trashed ? new Date() : null }] };
+          }
+          if (sql.startsWith('SELECT * FROM file_grants')) {
+            return { rows: role ? [grantRow(caller.id, role)] : [] };
+          }
+          return { rows: [] };
+        });
+      };
+
+      for (const [name, send] of Object.entries(routes)) {
+        it(`should answer 404 on ${name} for a file that is not shared with the caller`, async () => {
+          serveFileOfOtherUser();
+
+          const response = await send();
+
+          expect(response.status).to.equal(404);
+          expect(poolQueryStub.calledWith('SELECT * FROM file_grants WHERE file_id = $1 AND user_id = $2', [fileId, caller.id])).to.be.true;
+        });
+      }
+
+      for (const name of ['PUT content', 'POST restore', 'DELETE purge']) {
+        it(`should answer 403 on ${name} for a file the caller may only view`, async () => {
+          serveFileOfOtherUser('viewer');
+
+          const response = await routes[name]();
+
+          expect(response.status).to.equal(403);
+          expect(response.body.detail).to.include("file 'report.txt' requires the");
+          expect(fileStorageStub.called).to.be.false;
+        });
+      }
+
+      it('should refuse to purge a file the caller may only edit', async () => {
+        serveFileOfOtherUser('editor');
+        const deleteFileStub = stub(FileStorageService.prototype, 'deleteFile').resolves();
+
+        const response = await routes['DELETE purge']();
+
+        expect(response.status).to.equal(403);
+        expect(response.body.detail).to.equal("Deleting file 'report.txt' requires the owner role; you hold the editor role");
+        expect(deleteFileStub.called).to.be.false;
+      });
+
+      it('should only list trashed files the caller may read', async () => {
+        poolQueryStub.resolves({ rows: [{ total_count: '0', total_size: '0', id: null }] });
+
+        const response = await request(app).get('/api/v1/files/trash');
+
+        expect(response.status).to.equal(200);
+        const [sql, params] = poolQueryStub.firstCall.args;
+        expect(sql).to.include('owner_id IS NULL OR owner_id = $1');
+        expect(params[0]).to.equal(caller.id);
+      });
+    });
+
+    it('should share a file with another user by email address', async () => {
+      poolQueryStub
+        .onFirstCall().resolves({ rows: [fileRow(caller.id)] }) // findById
+        .onSecondCall().resolves({ rows: [{ id: otherUserId, email: 'grace@example.com', password_hash: 'hash', created_at: new Date(), updated_at: new Date() }] })
+        .onThirdCall().resolves({ rows: [grantRow(otherUserId, 'editor')] }); // grant upsert
+
+      const response = await request(app)
+        .put(`/api/v1/files/${fileId}/grants`)
+        .send({ email: 'Grace@Example.com', role: 'editor' });
+
+      expect(response.status).to.equal(200);
+      expect(response.body).to.deep.equal({
+        userId: otherUserId,
+        role: 'editor',
+        createdAt: '2025-09-06T10:30:00.000Z',
+        updatedAt: '2025-09-06T10:30:00.000Z'
+      });
+      expect(poolQueryStub.secondCall.args[1]).to.deep.equal(['grace@example.com']);
+      expect(poolQueryStub.thirdCall.args[0]).to.include('ON CONFLICT (file_id, user_id) DO UPDATE');
+    });
+
+    it('should reject unknown roles', async () => {
+      const response = await request(app)
+        .put(`/api/v1/files/${fileId}/grants`)
+        .send({ email: 'grace@example.com', role: 'admin' });
+
+      expect(response.status).to.equal(400);
+      expect(response.body.errors).to.deep.equal([{ field: 'role', message: 'Role must be one of: viewer, editor, owner' }]);
+      expect(poolQueryStub.called).to.be.false;
+    });
+
+    it('should stop sharing a file with a user', async () => {
+      poolQueryStub
+        .onFirstCall().resolves({ rows: [fileRow(caller.id)] }) // findById
+        .onSecondCall().resolves({ rows: [], rowCount: 1 }); // grant removed
+
+      const response = await request(app).delete(`/api/v1/files/${fileId}/grants/${otherUserId}`);
+
+      expect(response.status).to.equal(204);
+      expect(poolQueryStub.secondCall.args[1]).to.deep.equal([fileId, otherUserId]);
+    });
+  });
+
+  describe('trash', () => {
+    const trashedRow = (overrides: Record<string, unknown> = {}) => ({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      filename: 'test.txt',
+      file_path: 'uploaded-files/test.txt',
+      file_size: 13,
+      content_type: 'text/plain',
+      created_at: new Date('2025-09-01T08:00:00.000Z'),
+      updated_at: new Date('2025-09-01T08:00:00.000Z'),
+      deleted_at: new Date('2025-09-06T10:30:00.000Z'),
+      ...overrides
+    });
+
+    it('should list trashed files with their purge date', async () => {
+      poolQueryStub.resolves({ rows: [{ total_count: '1', total_size: '13', ...trashedRow() }] });
+
+      const response = await request(app).get('/api/v1/files/trash');
+
+      expect(response.status).to.equal(200);
+      expect(poolQueryStub.firstCall.args[0]).to.include('deleted_at IS NOT NULL');
+      expect(response.body.totalCount).to.equal(1);
+      expect(response.body.files[0]).to.include({
+        filename: 'test.txt',
+        deletedAt: '2025-09-06T10:30:00.000Z',
+        purgeAt: '2025-10-06T10:30:00.000Z'
+      });
+    });
+
+    it('should exclude trashed files from the file list', async () => {
+      poolQueryStub.resolves({ rows: [{ total_count: '0', total_size: '0', id: null }] });
+
+      const response = await request(app).get('/api/v1/files');
+
+      expect(response.status).to.equal(200);
+      expect(poolQueryStub.firstCall.args[0]).to.include('deleted_at IS NULL');
+    });
+
+    it('should restore a trashed file', async () => {
+      poolQueryStub
+        .onFirstCall().resolves({ rows: [trashedRow()] }) // findTrashedById
+        .onSecondCall().resolves({ rows: [] }) // existsByFilename
+        .onThirdCall().resolves({ rows: [trashedRow({ deleted_at: null })] }); // restoreFromTrash
+
+      const response = await request(app).post('/api/v1/files/123e4567-e89b-12d3-a456-426614174000/restore');
+
+      expect(response.status).to.equal(200);
+      expect(poolQueryStub.secondCall.args[1]).to.deep.equal(['test.txt', null]); // among the files without an owner
+      expect(response.body).to.include({ id: '123e4567-e89b-12d3-a456-426614174000', filename: 'test.txt' });
+      expect(poolQueryStub.thirdCall.args[0]).to.include('SET deleted_at = NULL');
+    });
+
+    it('should refuse to restore over a live file with the same name', async () => {
+      poolQueryStub
+        .onFirstCall().resolves({ rows: [trashedRow()] })
+        .onSecondCall().resolves({ rows: [{ '?column?': 1 }] });
+
+      const response = await request(app).post('/api/v1/files/123e4567-e89b-12d3-a456-426614174000/restore');
+
+      expect(response.status).to.equal(409);
+      expect(response.body.detail).to.include('already exists');
+      expect(poolQueryStub.calledTwice).to.be.true;
+    });
+
+    it('should answer 409 when a file with the same name went live while restoring', async () => {
+      poolQueryStub
+        .onFirstCall().resolves({ rows: [trashedRow()] }) // findTrashedById
+        .onSecondCall().resolves({ rows: [] }) // existsByFilename
+        .onThirdCall().rejects(Object.assign(new Error('duplicate key value'), { code: '23505' })); // restoreFromTrash
+
+      const response = await request(app).post('/api/v1/files/123e4567-e89b-12d3-a456-426614174000/restore');
+
+      expect(response.status).to.equal(409);
+      expect(response.body.detail).to.include('already exists');
+    });
+
+    it('should purge a trashed file and release its content', async () => {
+      poolQueryStub
+        .onFirstCall().resolves({ rows: [trashedRow()] }) // findTrashedById
+        .onSecondCall().resolves({ rows: [] }) // file versions
+        .onThirdCall().resolves({ rows: [] }); // delete
+      const deleteFileStub = stub(FileStorageService.prototype, 'deleteFile').resolves();
+
+      const response = await request(app).delete('/api/v1/files/trash/123e4567-e89b-12d3-a456-426614174000');
+
+      expect(response.status).to.equal(200);
+      expect(response.body).to.include({ purged: true, filename: 'test.txt' });
+      expect(poolQueryStub.thirdCall.args[0]).to.include('DELETE FROM files');
+      expect(deleteFileStub.calledOnceWith('uploaded-files/test.txt')).to.be.true;
+    });
+
+    it('should only purge files that are in the trash', async () => {
+      poolQueryStub.resolves({ rows: [] });
+
+      const response = await request(app).delete('/api/v1/files/trash/123e4567-e89b-12d3-a456-426614174000');
+
+      expect(response.status).to.equal(404);
+      expect(response.body.detail).to.include('not found in the trash');
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,217 @@
+import request from 'supertest';
+import { expect } from 'chai';
+import { Pool } from 'pg';
+import { stub, SinonStub, restore } from 'sinon';
+import express from 'express';
+import { createRoutes } from '../../../../src/api/routes';
+import { errorHandler } from '../../../../src/api/middleware';
+import { JwtTokenService } from '../../../../src/infrastructure/services';
+import { ApiKeyService } from '../../../../src/application/services';
+
+/**
+ * Builds an api_keys row for a key of the given user
+ */
+function createApiKeyRow(key: string, userId: string, overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: '1e6f0a2b-3c4d-4e5f-8a9b-0c1d2e3f4a5b',
+    user_id: userId,
+    name: 'ci',
+    prefix: key.slice(0, 12),
+    key_hash: new ApiKeyService().hashOf(key),
+    scopes: ['files:read'],
+    expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    created_at: new Date('2025-09-01T00:00:00.000Z'),
+    last_used_at: null,
+    ...overrides
+  };
+}
+
+describe('Me API Routes', () => {
+  const tokenService = new JwtTokenService({ jwtSecret: 'test-secret', issuer: 'test', accessTokenTtlSeconds: 900, refreshTokenTtlSeconds: 3600 });
+  const userRow = {
+    id: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+    email: 'ada@example.com',
+    password_hash: 'hash',
+    display_name: 'Ada',
+    role: 'user',
+    created_at: new Date('2025-09-01T00:00:00.000Z'),
+    updated_at: new Date('2025-09-01T00:00:00.000Z')
+  };
+  const accessToken = tokenService.issueAccessToken({ id: userRow.id, email: userRow.email, role: 'user' }).token;
+  const key = 'atl_key-used-only-by-these-tests-0000000000000000000';
+
+  let app: express.Application;
+  let poolQueryStub: SinonStub;
+
+  beforeEach(() => {
+    // Mock database pool
+    poolQueryStub = stub();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/v1', createRoutes({ query: poolQueryStub } as unknown as Pool, undefined, tokenService));
+    app.use(errorHandler);
+  });
+
+  afterEach(() => {
+    restore(); // Restore all sinon stubs
+  });
+
+  /**
+   * Answers the lookups of authenticating with the key: the key itself, its owner, then recording the use
+   */
+  const authenticatesWith = (apiKeyRow: Record<string, unknown>, from = 0) => poolQueryStub
+    .onCall(from).resolves({ rows: [apiKeyRow] }) // findByHash
+    .onCall(from + 1).resolves({ rows: [userRow] }) // owner findById
+    .onCall(from + 2).resolves({ rows: [], rowCount: 1 }); // recordUse
+
+  const createKey = (body: object) => request(app)
+    .post('/api/v1/me/api-keys')
+    .set('Authorization', `Bearer ${accessToken}`)
+    .send(body);
+
+  describe('POST /api/v1/me/api-keys', () => {
+    it('should show the key once and store only its hash', async () => {
+      poolQueryStub
+        .onCall(0).resolves({ rows: [] }) // findByUserId: no key of that name yet
+        .onCall(1).resolves({ rows: [createApiKeyRow(key, userRow.id, { name: 'nightly-reports' })] }); // INSERT
+
+      const response = await createKey({ name: 'nightly-reports', scopes: ['files:read'], expiresInDays: 7 });
+
+      const [, userId, name, prefix, keyHash, scopes, expiresAt] = poolQueryStub.getCall(1).args[1];
+      expect(response.status).to.equal(201);
+      expect(response.body.key).to.match(/^atl_[A-Za-z0-9_-]{43}$/);
+      expect(response.body).to.include({ name: 'nightly-reports' });
+      expect(userId).to.equal(userRow.id);
+      expect(name).to.equal('nightly-reports');
+      expect(prefix).to.equal(response.body.key.slice(0, 12));
+      expect(keyHash).to.equal(new ApiKeyService().hashOf(response.body.key));
+      expect(scopes).to.deep.equal(['files:read']);
+      expect(expiresAt.getTime() - Date.now()).to.be.closeTo(7 * 24 * 60 * 60 * 1000, 60000);
+      expect(JSON.stringify(poolQueryStub.getCall(1).args[1])).to.not.include(response.body.key);
+    });
+
+    it('should reject unknown scopes, scopes beyond the role and duplicate names', async () => {
+      poolQueryStub.resolves({ rows: [createApiKeyRow(key, userRow.id, { name: 'ci' })] }); // findByUserId
+
+      const unknownScope = await createKey({ name: 'ci', scopes: ['files:delete'] });
+      const beyondRole = await createKey({ name: 'ci', scopes: ['storage:maintain'] });
+      const duplicate = await createKey({ name: 'ci', scopes: ['files:write'] });
+
+      expect(unknownScope.status).to.equal(400);
+      expect(beyondRole.status).to.equal(403);
+      expect(beyondRole.body.detail).to.equal("The user role does not have the 'storage:maintain' permission, so no key can be scoped for it");
+      expect(duplicate.status).to.equal(409);
+      expect(poolQueryStub.callCount).to.equal(1); // only the duplicate got as far as the database
+    });
+
+    it('should not let an API key create further keys', async () => {
+      authenticatesWith(createApiKeyRow(key, userRow.id, { scopes: ['files:read', 'files:write'] }));
+
+      const response = await request(app)
+        .post('/api/v1/me/api-keys')
+        .set('X-API-Key', key)
+        .send({ name: 'another', scopes: ['files:read'] });
+
+      expect(response.status).to.equal(403);
+      expect(poolQueryStub.callCount).to.equal(3); // nothing beyond authentication
+    });
+  });
+
+  describe('GET /api/v1/me/api-keys', () => {
+    it('should list the keys without the keys themselves', async () => {
+      const usedAt = new Date('2025-09-02T00:00:00.000Z');
+      poolQueryStub.onCall(0).resolves({ rows: [createApiKeyRow(key, userRow.id, { last_used_at: usedAt })] }); // findByUserId
+
+      const response = await request(app).get('/api/v1/me/api-keys').set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).to.equal(200);
+      expect(response.body.apiKeys).to.have.length(1);
+      expect(response.body.apiKeys[0]).to.not.have.property('key');
+      expect(response.body.apiKeys[0]).to.not.have.property('keyHash');
+      expect(response.body.apiKeys[0].lastUsedAt).to.equal(usedAt.toISOString());
+      expect(poolQueryStub.getCall(0).args[1]).to.deep.equal([userRow.id]);
+    });
+  });
+
+  describe('X-API-Key authentication', () => {
+    it('should authenticate as the key owner and record the use', async () => {
+      const apiKeyRow = createApiKeyRow(key, userRow.id);
+      authenticatesWith(apiKeyRow);
+
+      const response = await request(app).get('/api/v1/files/types').set('X-API-Key', key);
+
+      expect(response.status).to.equal(200);
+      expect(poolQueryStub.getCall(0).args[1]).to.deep.equal([new ApiKeyService().hashOf(key)]);
+      expect(poolQueryStub.getCall(1).args[1]).to.deep.equal([userRow.id]);
+      expect(poolQueryStub.getCall(2).args[0]).to.include('UPDATE api_keys SET last_used_at');
+      expect(poolQueryStub.getCall(2).args[1][0]).to.equal(apiKeyRow.id);
+    });
+
+    it('should limit the key to its scopes', async () => {
+      authenticatesWith(createApiKeyRow(key, userRow.id, { scopes: ['files:read'] }));
+
+      const response = await request(app)
+        .post('/api/v1/files/upload')
+        .set('X-API-Key', key)
+        .attach('file', Buffer.from('Hello'), 'report.txt');
+
+      expect(response.status).to.equal(403);
+      expect(response.body.detail).to.equal("This action requires the 'files:write' permission, which this API key is not scoped for");
+    });
+
+    it('should reject unknown and expired keys', async () => {
+      poolQueryStub
+        .onCall(0).resolves({ rows: [] }) // findByHash of the unknown key
+        .onCall(1).resolves({ rows: [createApiKeyRow(key, userRow.id, { name: 'old', expires_at: new Date(Date.now() - 1000) })] });
+
+      const unknown = await request(app).get('/api/v1/files/types').set('X-API-Key', 'atl_unknown');
+      const expired = await request(app).get('/api/v1/files/types').set('X-API-Key', key);
+
+      expect(unknown.status).to.equal(401);
+      expect(unknown.body.detail).to.equal('API key is not valid');
+      expect(expired.status).to.equal(401);
+      expect(expired.body.detail).to.equal("API key 'old' has expired");
+      expect(poolQueryStub.callCount).to.equal(2); // neither use is recorded
+    });
+
+    it('should not let an API key list or delete keys', async () => {
+      const apiKeyRow = createApiKeyRow(key, userRow.id);
+      authenticatesWith(apiKeyRow, 0);
+      authenticatesWith(apiKeyRow, 3);
+
+      const list = await request(app).get('/api/v1/me/api-keys').set('X-API-Key', key);
+      const deletion = await request(app)
+        .delete('/api/v1/me/api-keys/123e4567-e89b-12d3-a456-426614174000')
+        .set('X-API-Key', key);
+
+      expect(list.status).to.equal(403);
+      expect(list.body.detail).to.equal('API keys cannot list API keys; sign in to see them');
+      expect(deletion.status).to.equal(403);
+      expect(poolQueryStub.callCount).to.equal(6); // nothing beyond authentication
+    });
+  });
+
+  describe('DELETE /api/v1/me/api-keys/:keyId', () => {
+    it('should delete a key of the caller', async () => {
+      poolQueryStub.onCall(0).resolves({ rows: [], rowCount: 1 });
+
+      const response = await request(app)
+        .delete('/api/v1/me/api-keys/1e6f0a2b-3c4d-4e5f-8a9b-0c1d2e3f4a5b')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).to.equal(204);
+      expect(poolQueryStub.getCall(0).args[1]).to.deep.equal(['1e6f0a2b-3c4d-4e5f-8a9b-0c1d2e3f4a5b', userRow.id]);
+    });
+
+    it('should return 404 for keys the caller does not have', async () => {
+      poolQueryStub.onCall(0).resolves({ rows: [], rowCount: 0 });
+
+      const response = await request(app)
+        .delete('/api/v1/me/api-keys/123e4567-e89b-12d3-a456-426614174000')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).to.equal(404);
+    });
+  });
+});
\ No newline at end of file
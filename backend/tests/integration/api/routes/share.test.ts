@@ -0,0 +1,292 @@
+import request from 'supertest';
+import { expect } from 'chai';
+import { Pool } from 'pg';
+import { Readable } from 'stream';
+import { stub, SinonStub, restore } from 'sinon';
+import express from 'express';
+import { createRoutes } from '../../../../src/api/routes';
+import { errorHandler } from '../../../../src/api/middleware';
+import { JwtTokenService, HmacShareLinkSigner, ScryptPasswordHasher } from '../../../../src/infrastructure/services';
+import { shareLinkConfig } from '../../../../src/infrastructure/config';
+import { IFileStorage } from '../../../../src/application/interfaces';
+
+/**
+ * Builds a share_links row for a file, expiring in an hour unless overridden
+ */
+function createShareLinkRow(fileId: string, createdBy: string, overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: '5f0c1e2d-3b4a-4c5d-9e6f-7a8b9c0d1e2f',
+    file_id: fileId,
+    created_by: createdBy,
+    expires_at: new Date(Math.floor(Date.now() / 1000 + 60 * 60) * 1000),
+    password_hash: null,
+    max_downloads: null,
+    download_count: 0,
+    revoked_at: null,
+    created_at: new Date('2025-09-01T00:00:00.000Z'),
+    ...overrides
+  };
+}
+
+describe('Share Link API Routes', () => {
+  const tokenService = new JwtTokenService({ jwtSecret: 'test-secret', issuer: 'test', accessTokenTtlSeconds: 900, refreshTokenTtlSeconds: 3600 });
+  const shareLinkSigner = new HmacShareLinkSigner(shareLinkConfig);
+  const ownerId = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+  const fileRow = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    filename: 'report.txt',
+    file_path: 'uploaded-files/report.txt',
+    file_size: 5,
+    content_type: 'text/plain',
+    owner_id: ownerId,
+    created_at: new Date('2025-09-01T00:00:00.000Z'),
+    updated_at: new Date('2025-09-01T00:00:00.000Z')
+  };
+  const accessToken = tokenService.issueAccessToken({ id: ownerId, email: 'owner@example.com', role: 'user' }).token;
+  const strangerToken = tokenService.issueAccessToken({ id: '9b2e4f1a-6c3d-4e8f-a1b2-c3d4e5f6a7b8', email: 'eve@example.com', role: 'user' }).token;
+  const fileStorage = {
+    createReadStream: async () => Readable.from([Buffer.from('Hello')])
+  } as unknown as IFileStorage;
+
+  let app: express.Application;
+  let poolQueryStub: SinonStub;
+
+  beforeEach(() => {
+    // Mock database pool
+    poolQueryStub = stub();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/v1', createRoutes({ query: poolQueryStub } as unknown as Pool, fileStorage, tokenService));
+    app.use(errorHandler);
+  });
+
+  afterEach(() => {
+    restore(); // Restore all sinon stubs
+  });
+
+  const createLink = (body: object, token = accessToken) => request(app)
+    .post(`/api/v1/files/${fileRow.id}/share-links`)
+    .set('Authorization', `Bearer ${token}`)
+    .send(body);
+
+  // Path and query of a link's URL, to request it from the test app
+  const pathOf = (url: string) => url.slice(url.indexOf('/api/v1/'));
+
+  // Path and query of the signed URL of a stored link
+  const signedPathOf = (row: Record<string, unknown>) => {
+    const expiresAt = row.expires_at as Date;
+    const signature = shareLinkSigner.sign(row.id as string, expiresAt);
+    return `/api/v1/share/${row.id}?expires=${expiresAt.getTime() / 1000}&signature=${signature}`;
+  };
+
+  describe('POST /api/v1/files/:fileId/share-links', () => {
+    it('should hand out a signed URL that downloads the file without an account', async () => {
+      const row = createShareLinkRow(fileRow.id, ownerId);
+      poolQueryStub
+        .onCall(0).resolves({ rows: [fileRow] }) // file findById
+        .onCall(1).resolves({ rows: [row] }) // share link INSERT
+        .onCall(2).resolves({ rows: [row] }) // share link findById
+        .onCall(3).resolves({ rows: [fileRow] }) // file findById
+        .onCall(4).resolves({ rows: [{ ...row, download_count: 1 }] }); // recordDownload
+
+      const { status, body: link } = await createLink({ expiresInHours: 2 });
+      const response = await request(app).get(pathOf(link.url));
+
+      expect(status).to.equal(201);
+      expect(link.url).to.match(/\/share\/[0-9a-f-]{36}\?expires=\d+&signature=[A-Za-z0-9_-]+$/);
+      expect(link).to.include({ fileId: fileRow.id, passwordProtected: false, downloadCount: 0 });
+      expect(poolQueryStub.getCall(1).args[1][3].getTime() - Date.now()).to.be.closeTo(2 * 60 * 60 * 1000, 60000);
+      expect(response.status).to.equal(200);
+      expect(response.text).to.equal('Hello');
+      expect(response.headers['cache-control']).to.equal('no-store');
+      expect(response.headers['content-disposition']).to.include('report.txt');
+      expect(poolQueryStub.getCall(4).args[1]).to.deep.equal([row.id]);
+      expect(poolQueryStub.getCall(4).args[0]).to.include('download_count = download_count + 1');
+    });
+
+    it('should reject links beyond the longest lifetime and callers who cannot share the file', async () => {
+      poolQueryStub
+        .onCall(0).resolves({ rows: [fileRow] }) // file findById
+        .onCall(1).resolves({ rows: [] }); // the stranger holds no grant on it
+
+      const tooLong = await createLink({ expiresInHours: 721 });
+      const stranger = await createLink({}, strangerToken);
+
+      expect(tooLong.status).to.equal(400);
+      expect(stranger.status).to.equal(404);
+      expect(poolQueryStub.callCount).to.equal(2); // nothing was stored
+    });
+
+    it('should store only a hash of the password', async () => {
+      poolQueryStub
+        .onCall(0).resolves({ rows: [fileRow] }) // file findById
+        .onCall(1).resolves({ rows: [createShareLinkRow(fileRow.id, ownerId, { password_hash: 'scrypt$hash' })] }); // INSERT
+
+      const response = await createLink({ password: 'correct horse battery' });
+
+      expect(response.status).to.equal(201);
+      expect(response.body.passwordProtected).to.be.true;
+      expect(poolQueryStub.getCall(1).args[1][4]).to.match(/^scrypt\$/);
+      expect(poolQueryStub.getCall(1).args[1][4]).to.not.include('correct horse battery');
+    });
+  });
+
+  describe('GET /api/v1/files/:fileId/share-links', () => {
+    it('should list the active links with their signed URLs', async () => {
+      const row = createShareLinkRow(fileRow.id, ownerId);
+      poolQueryStub
+        .onCall(0).resolves({ rows: [fileRow] }) // file findById
+        .onCall(1).resolves({ rows: [row] }); // findActiveByFileId
+
+      const response = await request(app)
+        .get(`/api/v1/files/${fileRow.id}/share-links`)
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).to.equal(200);
+      expect(response.body.shareLinks).to.have.length(1);
+      expect(pathOf(response.body.shareLinks[0].url)).to.equal(signedPathOf(row));
+      expect(poolQueryStub.getCall(1).args[1]).to.deep.equal([fileRow.id]);
+    });
+  });
+
+  describe('GET /api/v1/share/:linkId', () => {
+    it('should not tell tampered links from unknown ones', async () => {
+      const row = createShareLinkRow(fileRow.id, ownerId);
+      const url = new URL(signedPathOf(row), 'http://localhost');
+      const laterExpiry = Number(url.searchParams.get('expires')) + 3600;
+
+      const tampered = await request(app).get(`/api/v1/share/${row.id}?expires=${laterExpiry}&signature=${url.searchParams.get('signature')}`);
+      const unsigned = await request(app).get(`/api/v1/share/${row.id}`);
+
+      expect(tampered.status).to.equal(404);
+      expect(unsigned.status).to.equal(404);
+      expect(poolQueryStub.called).to.be.false; // rejected before any lookup
+    });
+
+    it('should ask for the password of protected links', async () => {
+      const row = createShareLinkRow(fileRow.id, ownerId, {
+        password_hash: await new ScryptPasswordHasher({ N: 1024, r: 8, p: 1 }).hash('correct horse battery')
+      });
+      poolQueryStub
+        .onCall(0).resolves({ rows: [row] }) // findById, no password
+        .onCall(1).resolves({ rows: [row] }) // findById, wrong password
+        .onCall(2).resolves({ rows: [row] }) // findById, right password
+        .onCall(3).resolves({ rows: [fileRow] }) // file findById
+        .onCall(4).resolves({ rows: [{ ...row, download_count: 1 }] }); // recordDownload
+
+      const missing = await request(app).get(signedPathOf(row));
+      const wrong = await request(app).get(signedPathOf(row)).set('X-Share-Password', 'wrong password');
+      const right = await request(app).get(signedPathOf(row)).set('X-Share-Password', 'correct horse battery');
+
+      expect(missing.status).to.equal(403);
+      expect(missing.body.detail).to.equal('This share link is protected by a password. POST it to the link as the password form field, or send it in the X-Share-Password header.');
+      expect(wrong.status).to.equal(403);
+      expect(wrong.body.detail).to.equal('The password of this share link is incorrect');
+      expect(right.status).to.equal(200);
+      expect(right.text).to.equal('Hello');
+    });
+
+    it('should show browsers a password form that posts back to the link', async () => {
+      const row = createShareLinkRow(fileRow.id, ownerId, { password_hash: 'scrypt$hash' });
+      poolQueryStub.onCall(0).resolves({ rows: [row] }); // findById
+
+      const response = await request(app).get(signedPathOf(row)).set('Accept', 'text/html,application/xhtml+xml,*/*;q=0.8');
+
+      expect(response.status).to.equal(403);
+      expect(response.headers['content-type']).to.match(/^text\/html/);
+      expect(response.headers['cache-control']).to.equal('no-store');
+      expect(response.text).to.include('<form method="post">');
+      expect(response.text).to.include('name="password"');
+      expect(response.text).to.include('This file is protected by a password.');
+    });
+
+      it('should answer 410 once the download limit is reached', async () => {
+      const row = createShareLinkRow(fileRow.id, ownerId, { max_downloads: 1 });
+      poolQueryStub
+        .onCall(0).resolves({ rows: [{ ...row, download_count: 1 }] }) // findById, already used up
+        .onCall(1).resolves({ rows: [row] }) // findById, one download left
+        .onCall(2).resolves({ rows: [fileRow] }) // file findById
+        .onCall(3).resolves({ rows: [] }); // recordDownload: a concurrent download used it up
+
+      const exhausted = await request(app).get(signedPathOf(row));
+      const raced = await request(app).get(signedPathOf(row));
+
+      expect(exhausted.status).to.equal(410);
+      expect(exhausted.body.detail).to.equal('This share link has reached its download limit');
+      expect(raced.status).to.equal(410);
+      expect(raced.body.detail).to.equal('This share link has reached its download limit');
+    });
+  });
+
+  describe('POST /api/v1/share/:linkId', () => {
+    it('should take the password from a form or JSON body', async () => {
+      const row = createShareLinkRow(fileRow.id, ownerId, {
+        password_hash: await new ScryptPasswordHasher({ N: 1024, r: 8, p: 1 }).hash('correct horse battery')
+      });
+      poolQueryStub
+        .onCall(0).resolves({ rows: [row] }) // findById, password as form field
+        .onCall(1).resolves({ rows: [fileRow] }) // file findById
+        .onCall(2).resolves({ rows: [{ ...row, download_count: 1 }] }) // recordDownload
+        .onCall(3).resolves({ rows: [row] }); // findById, wrong password as JSON
+
+      const form = await request(app).post(signedPathOf(row)).type('form').send({ password: 'correct horse battery' });
+      const json = await request(app).post(signedPathOf(row)).send({ password: 'wrong password' });
+
+      expect(form.status).to.equal(200);
+      expect(form.text).to.equal('Hello');
+      expect(form.headers['cache-control']).to.equal('no-store');
+      expect(json.status).to.equal(403);
+      expect(json.body.detail).to.equal('The password of this share link is incorrect');
+    });
+
+    it('should ask browsers again after a wrong password', async () => {
+      const row = createShareLinkRow(fileRow.id, ownerId, {
+        password_hash: await new ScryptPasswordHasher({ N: 1024, r: 8, p: 1 }).hash('correct horse battery')
+      });
+      poolQueryStub.onCall(0).resolves({ rows: [row] }); // findById
+
+      const response = await request(app)
+        .post(signedPathOf(row))
+        .set('Accept', 'text/html')
+        .type('form')
+        .send({ password: 'wrong password' });
+
+      expect(response.status).to.equal(403);
+      expect(response.headers['cache-control']).to.equal('no-store');
+      expect(response.text).to.include('The password is incorrect. Please try again.');
+    });
+  });
+
+  describe('DELETE /api/v1/files/:fileId/share-links/:linkId', () => {
+    it('should revoke the link so it no longer downloads', async () => {
+      const row = createShareLinkRow(fileRow.id, ownerId);
+      poolQueryStub
+        .onCall(0).resolves({ rows: [fileRow] }) // file findById
+        .onCall(1).resolves({ rows: [], rowCount: 1 }) // revoke
+        .onCall(2).resolves({ rows: [{ ...row, revoked_at: new Date() }] }); // findById
+
+      const revocation = await request(app)
+        .delete(`/api/v1/files/${fileRow.id}/share-links/${row.id}`)
+        .set('Authorization', `Bearer ${accessToken}`);
+      const download = await request(app).get(signedPathOf(row));
+
+      expect(revocation.status).to.equal(204);
+      expect(poolQueryStub.getCall(1).args[1]).to.deep.equal([row.id, fileRow.id]);
+      expect(download.status).to.equal(410);
+      expect(download.body.detail).to.equal('This share link has been revoked');
+    });
+
+    it('should return 404 for links that are not active', async () => {
+      poolQueryStub
+        .onCall(0).resolves({ rows: [fileRow] }) // file findById
+        .onCall(1).resolves({ rows: [], rowCount: 0 }); // revoke
+
+      const response = await request(app)
+        .delete(`/api/v1/files/${fileRow.id}/share-links/5f0c1e2d-3b4a-4c5d-9e6f-7a8b9c0d1e2f`)
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).to.equal(404);
+    });
+  });
+});
\ No newline at end of file
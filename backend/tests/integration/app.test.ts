@@ -54,6 +54,24 @@ describe('Express App Integration', () => {
         .expect(404);
     });
 
+    it('should describe unknown routes as problem details', async () => {
+      const response = await request(app)
+        .get('/api/v1/non-existent')
+        .set('X-Request-Id', 'trace-123')
+        .expect(404);
+
+      expect(response.headers['content-type']).to.include('application/problem+json');
+      expect(response.headers['x-request-id']).to.equal('trace-123');
+      expect(response.body).to.deep.equal({
+        type: '/problems/not-found',
+        title: 'Resource not found',
+        status: 404,
+        detail: 'No route matches GET /api/v1/non-existent',
+        instance: '/api/v1/non-existent',
+        requestId: 'trace-123'
+      });
+    });
+
     it('should return 404 for root path', async () => {
       await request(app)
         .get('/')
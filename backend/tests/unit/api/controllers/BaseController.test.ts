@@ -51,16 +51,23 @@ describe('BaseController', () => {
     statusStub = sinon.stub();
     typeStub = sinon.stub();
 
-    statusStub.returns({ json: jsonStub });
-    
+    req = {
+      originalUrl: '/api/v1/test',
+      get: sinon.stub().returns(undefined) as any
+    };
+
     res = {
       status: statusStub,
       json: jsonStub,
       sendStatus: sendStatusStub,
-      type: typeStub
+      type: typeStub,
+      set: sinon.stub(),
+      locals: {},
+      req: req as Request
     };
 
-    req = {};
+    statusStub.returns(res);
+    typeStub.returns(res);
   });
 
   afterEach(() => {
@@ -102,14 +109,14 @@ describe('BaseController', () => {
       controller.testClientError(res as Response, customMessage);
 
       expect(statusStub.calledWith(400)).to.be.true;
-      expect(jsonStub.calledWith({ message: customMessage })).to.be.true;
+      expect(jsonStub.calledWith(sinon.match({ detail: customMessage }))).to.be.true;
     });
 
     it('should return 400 with default message when no message provided', () => {
       controller.testClientError(res as Response);
 
       expect(statusStub.calledWith(400)).to.be.true;
-      expect(jsonStub.calledWith({ message: 'Bad request' })).to.be.true;
+      expect(jsonStub.calledWith(sinon.match({ detail: 'Bad request' }))).to.be.true;
     });
   });
 
@@ -120,14 +127,14 @@ describe('BaseController', () => {
       controller.testUnauthorized(res as Response, customMessage);
 
       expect(statusStub.calledWith(401)).to.be.true;
-      expect(jsonStub.calledWith({ message: customMessage })).to.be.true;
+      expect(jsonStub.calledWith(sinon.match({ detail: customMessage }))).to.be.true;
     });
 
     it('should return 401 with default message when no message provided', () => {
       controller.testUnauthorized(res as Response);
 
       expect(statusStub.calledWith(401)).to.be.true;
-      expect(jsonStub.calledWith({ message: 'Unauthorized' })).to.be.true;
+      expect(jsonStub.calledWith(sinon.match({ detail: 'Unauthorized' }))).to.be.true;
     });
   });
 
@@ -138,14 +145,14 @@ describe('BaseController', () => {
       controller.testForbidden(res as Response, customMessage);
 
       expect(statusStub.calledWith(403)).to.be.true;
-      expect(jsonStub.calledWith({ message: customMessage })).to.be.true;
+      expect(jsonStub.calledWith(sinon.match({ detail: customMessage }))).to.be.true;
     });
 
     it('should return 403 with default message when no message provided', () => {
       controller.testForbidden(res as Response);
 
       expect(statusStub.calledWith(403)).to.be.true;
-      expect(jsonStub.calledWith({ message: 'Forbidden' })).to.be.true;
+      expect(jsonStub.calledWith(sinon.match({ detail: 'Forbidden' }))).to.be.true;
     });
   });
 
@@ -156,14 +163,14 @@ describe('BaseController', () => {
       controller.testNotFound(res as Response, customMessage);
 
       expect(statusStub.calledWith(404)).to.be.true;
-      expect(jsonStub.calledWith({ message: customMessage })).to.be.true;
+      expect(jsonStub.calledWith(sinon.match({ detail: customMessage }))).to.be.true;
     });
 
     it('should return 404 with default message when no message provided', () => {
       controller.testNotFound(res as Response);
 
       expect(statusStub.calledWith(404)).to.be.true;
-      expect(jsonStub.calledWith({ message: 'Not found' })).to.be.true;
+      expect(jsonStub.calledWith(sinon.match({ detail: 'Not found' }))).to.be.true;
     });
   });
 
@@ -185,7 +192,7 @@ describe('BaseController', () => {
 
       expect(consoleStub.calledWith(error)).to.be.true;
       expect(statusStub.calledWith(500)).to.be.true;
-      expect(jsonStub.calledWith({ message: 'Internal server error' })).to.be.true;
+      expect(jsonStub.calledWith(sinon.match({ status: 500, title: 'Internal server error' }))).to.be.true;
     });
 
     it('should return 500 and log error when string is provided', () => {
@@ -195,7 +202,7 @@ describe('BaseController', () => {
 
       expect(consoleStub.calledWith(errorMessage)).to.be.true;
       expect(statusStub.calledWith(500)).to.be.true;
-      expect(jsonStub.calledWith({ message: 'Internal server error' })).to.be.true;
+      expect(jsonStub.calledWith(sinon.match({ status: 500, title: 'Internal server error' }))).to.be.true;
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { expect } from 'chai';
+import express from 'express';
+import request from 'supertest';
+import { stub, restore } from 'sinon';
+import { ValidateError } from 'tsoa';
+import { errorHandler, statusForError } from '../../../../src/api/middleware';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  ConcurrencyError,
+  PayloadTooLargeError,
+  PreconditionRequiredError,
+  IntegrityError
+} from '../../../../src/domain/errors';
+
+describe('ErrorHandlingMiddleware', () => {
+  afterEach(() => {
+    restore();
+  });
+
+  describe('statusForError', () => {
+    it('should map every error type to its status', () => {
+      expect(statusForError(new ValidationError('bad input'))).to.equal(400);
+      expect(statusForError(new ValidateError({}, 'bad parameter'))).to.equal(400);
+      expect(statusForError(new NotFoundError('missing'))).to.equal(404);
+      expect(statusForError(new ConflictError('duplicate'))).to.equal(409);
+      expect(statusForError(new ConcurrencyError('File', 'id'))).to.equal(412);
+      expect(statusForError(new PayloadTooLargeError('too big'))).to.equal(413);
+      expect(statusForError(new PreconditionRequiredError('no If-Match'))).to.equal(428);
+    });
+
+    it('should keep the client error status of body parser errors', () => {
+      expect(statusForError(Object.assign(new Error('request entity too large'), { status: 413 }))).to.equal(413);
+      expect(statusForError(Object.assign(new Error('socket hang up'), { status: 502 }))).to.equal(500);
+    });
+
+    it('should not depend on the wording of the message', () => {
+      expect(statusForError(new Error('File with ID x not found'))).to.equal(500);
+      expect(statusForError(new NotFoundError('Nothing here'))).to.equal(404);
+    });
+  });
+
+  describe('errorHandler', () => {
+    const appThrowing = (error: Error): express.Application => {
+      const app = express();
+      app.get('/files', () => {
+        throw error;
+      });
+      app.use(errorHandler);
+      return app;
+    };
+
+    it('should answer typed errors with problem details', async () => {
+      const response = await request(appThrowing(new ConflictError("A file with the name 'a.txt' already exists")))
+        .get('/files?page=2');
+
+      expect(response.status).to.equal(409);
+      expect(response.headers['content-type']).to.include('application/problem+json');
+      expect(response.body).to.deep.include({
+        type: '/problems/conflict',
+        title: 'Resource already exists',
+        status: 409,
+        detail: "A file with the name 'a.txt' already exists",
+        instance: '/files?page=2'
+      });
+      expect(response.body.requestId).to.be.a('string').and.equal(response.headers['x-request-id']);
+      expect(response.body).to.not.have.property('errors');
+    });
+
+    it('should list the invalid fields of validation errors', async () => {
+      const domainResponse = await request(appThrowing(new ValidationError('File ID must be a valid UUID', 'fileId'))).get('/files');
+      const tsoaResponse = await request(appThrowing(new ValidateError({ limit: { message: 'invalid float number', value: 'x' } }, '')))
+        .get('/files');
+
+      expect(domainResponse.body.errors).to.deep.equal([{ field: 'fileId', message: 'File ID must be a valid UUID' }]);
+      expect(tsoaResponse.status).to.equal(400);
+      expect(tsoaResponse.body.errors).to.deep.equal([{ field: 'limit', message: 'invalid float number' }]);
+    });
+
+    it('should reuse a well-formed caller request ID only', async () => {
+      const app = appThrowing(new NotFoundError('missing'));
+
+      const kept = await request(app).get('/files').set('X-Request-Id', 'abc-123');
+      const replaced = await request(app).get('/files').set('X-Request-Id', 'not allowed; spaces');
+
+      expect(kept.body.requestId).to.equal('abc-123');
+      expect(replaced.body.requestId).to.match(/^[0-9a-f-]{36}$/);
+    });
+
+    it('should hide the details of unexpected errors', async () => {
+      const consoleStub = stub(console, 'error');
+
+      const response = await request(appThrowing(new Error('connection refused'))).get('/files');
+
+      expect(response.status).to.equal(500);
+      expect(response.body).to.include({ title: 'Internal server error', detail: 'An unexpected error occurred' });
+      expect(consoleStub.calledOnce).to.be.true;
+    });
+
+    it('should answer integrity failures with their own problem type', async () => {
+      const consoleStub = stub(console, 'error');
+      const error = new IntegrityError('Content of file \'notes.txt\' does not match its checksum', 'a'.repeat(64), 'b'.repeat(64));
+
+      const response = await request(appThrowing(error)).get('/files');
+
+      expect(response.status).to.equal(500);
+      expect(response.body).to.include({
+        type: '/problems/integrity-error',
+        title: 'Stored content is corrupted',
+        detail: 'Content of file \'notes.txt\' does not match its checksum'
+      });
+      expect(consoleStub.calledOnce).to.be.true;
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { expect } from 'chai';
+import { FileAccessPolicy } from '../../../../src/application/services';
+import { IFileGrantRepository } from '../../../../src/domain/repositories';
+import { File, FileGrant } from '../../../../src/domain/entities';
+import { FileRole } from '../../../../src/domain/valueobjects';
+import { ForbiddenError, NotFoundError } from '../../../../src/domain/errors';
+
+describe('FileAccessPolicy', () => {
+  const ownerId = 'owner-1';
+  const ownedFile = new File('file-1', 'report.txt', 'uploaded-files/report.txt', 100, 'text/plain', undefined, undefined, 1, undefined, 1, undefined, ownerId);
+  const unownedFile = new File('file-2', 'legacy.txt', 'uploaded-files/legacy.txt', 100, 'text/plain');
+
+  let policy: FileAccessPolicy;
+
+  beforeEach(() => {
+    const grants = [
+      new FileGrant('grant-1', ownedFile.id, 'viewer-1', FileRole.VIEWER),
+      new FileGrant('grant-2', ownedFile.id, 'editor-1', FileRole.EDITOR)
+    ];
+    const fileGrantRepository = {
+      findByFileAndUser: async (fileId: string, userId: string) =>
+        grants.find(grant => grant.fileId === fileId && grant.userId === userId) ?? null
+    } as Partial<IFileGrantRepository> as IFileGrantRepository;
+
+    policy = new FileAccessPolicy(fileGrantRepository);
+  });
+
+  describe('roleOf', () => {
+    it('should make the uploader the owner', async () => {
+      expect((await policy.roleOf(ownedFile, ownerId))?.value).to.equal('owner');
+    });
+
+    it('should give other users the role granted to them', async () => {
+      expect((await policy.roleOf(ownedFile, 'viewer-1'))?.value).to.equal('viewer');
+      expect((await policy.roleOf(ownedFile, 'editor-1'))?.value).to.equal('editor');
+      expect(await policy.roleOf(ownedFile, 'stranger')).to.be.null;
+    });
+
+    it('should leave files without an owner open to every user', async () => {
+      expect((await policy.roleOf(unownedFile, 'stranger'))?.value).to.equal('owner');
+    });
+  });
+
+  describe('authorize', () => {
+    it('should allow actions the role includes', async () => {
+      await policy.authorize(ownedFile, 'viewer-1', 'read');
+      await policy.authorize(ownedFile, 'editor-1', 'edit');
+      await policy.authorize(ownedFile, ownerId, 'delete');
+    });
+
+    it('should refuse actions beyond the role', async () => {
+      try {
+        await policy.authorize(ownedFile, 'editor-1', 'delete');
+        expect.fail('Expected authorization to be refused');
+      } catch (error) {
+        expect(error).to.be.instanceOf(ForbiddenError);
+        expect((error as Error).message).to.equal("Deleting file 'report.txt' requires the owner role; you hold the editor role");
+      }
+    });
+
+    it('should hide files from users without access', async () => {
+      try {
+        await policy.authorize(ownedFile, 'stranger', 'read');
+        expect.fail('Expected authorization to be refused');
+      } catch (error) {
+        expect(error).to.be.instanceOf(NotFoundError);
+        expect((error as Error).message).to.equal("File with ID 'file-1' not found");
+      }
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { expect } from 'chai';
+import { FileBlobService } from '../../../../src/application/services';
+import { IFileBlobRepository } from '../../../../src/domain/repositories';
+import { FileBlob } from '../../../../src/domain/entities';
+import { ContentHash } from '../../../../src/domain/valueobjects';
+import { InMemoryFileStorageService } from '../../../../src/infrastructure/services';
+
+/**
+ * Blob repository keeping reference counts in memory
+ */
+class InMemoryFileBlobRepository implements IFileBlobRepository {
+  public readonly blobs = new Map<string, FileBlob>();
+
+  async findByHashForUpdate(hash: string): Promise<FileBlob | null> {
+    return this.blobs.get(hash) ?? null;
+  }
+
+  async addReference(hash: string, storagePath: string, size: number): Promise<FileBlob> {
+    const existing = this.blobs.get(hash);
+    const blob = existing
+      ? new FileBlob(hash, existing.storagePath, existing.size, existing.referenceCount + 1)
+      : new FileBlob(hash, storagePath, size, 1);
+    this.blobs.set(hash, blob);
+    return blob;
+  }
+
+  async removeReference(hash: string): Promise<number> {
+    const existing = this.blobs.get(hash);
+    if (!existing) {
+      return 0;
+    }
+    const blob = new FileBlob(hash, existing.storagePath, existing.size, Math.max(existing.referenceCount - 1, 0));
+    this.blobs.set(hash, blob);
+    return blob.referenceCount;
+  }
+
+  async deleteIfUnreferenced(hash: string): Promise<FileBlob | null> {
+    const existing = this.blobs.get(hash);
+    if (!existing || existing.isReferenced()) {
+      return null;
+    }
+    this.blobs.delete(hash);
+    return existing;
+  }
+
+  async findLeastRecentlyVerified(limit: number): Promise<FileBlob[]> {
+    return [...this.blobs.values()].slice(0, limit);
+  }
+
+  async recordVerification(): Promise<void> {}
+}
+
+describe('FileBlobService', () => {
+  let blobRepository: InMemoryFileBlobRepository;
+  let storage: InMemoryFileStorageService;
+  let service: FileBlobService;
+
+  beforeEach(async () => {
+    blobRepository = new InMemoryFileBlobRepository();
+    storage = new InMemoryFileStorageService();
+    await storage.initialize();
+    service = new FileBlobService(blobRepository, storage);
+  });
+
+  describe('store', () => {
+    it('should store new content under its SHA-256 hash', async () => {
+      const stored = await service.store(Buffer.from('Hello, World!'), 'notes.txt');
+
+      expect(stored.contentHash).to.equal(ContentHash.fromContent('Hello, World!').value);
+      expect(stored.size).to.equal(13);
+      expect(stored.deduplicated).to.be.false;
+      expect((await storage.readFile(stored.storagePath)).toString('utf8')).to.equal('Hello, World!');
+      expect(blobRepository.blobs.get(stored.contentHash)?.referenceCount).to.equal(1);
+    });
+
+    it('should reuse the stored blob for identical content', async () => {
+      const first = await service.store(Buffer.from('same content'), 'a.txt');
+      const second = await service.store(Buffer.from('same content'), 'b.txt');
+
+      expect(second.deduplicated).to.be.true;
+      expect(second.storagePath).to.equal(first.storagePath);
+      expect(blobRepository.blobs.get(first.contentHash)?.referenceCount).to.equal(2);
+    });
+  });
+
+  describe('release', () => {
+    it('should keep shared content until the last reference is released', async () => {
+      const first = await service.store(Buffer.from('shared'), 'a.txt');
+      await service.store(Buffer.from('shared'), 'b.txt');
+
+      expect(await service.release(first.contentHash, first.storagePath)).to.be.false;
+      expect(await storage.fileExists(first.storagePath)).to.be.true;
+
+      expect(await service.release(first.contentHash, first.storagePath)).to.be.true;
+      expect(await storage.fileExists(first.storagePath)).to.be.false;
+      expect(blobRepository.blobs.has(first.contentHash)).to.be.false;
+    });
+
+    it('should delete content stored before content addressing directly', async () => {
+      const legacyPath = await storage.storeFile(Buffer.from('legacy'), 'legacy.txt');
+
+      expect(await service.release(undefined, legacyPath)).to.be.true;
+      expect(await storage.fileExists(legacyPath)).to.be.false;
+    });
+  });
+});
\ No newline at end of file
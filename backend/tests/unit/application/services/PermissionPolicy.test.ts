@@ -0,0 +1,30 @@
+import { expect } from 'chai';
+import { PermissionPolicy } from '../../../../src/application/services';
+import { ForbiddenError } from '../../../../src/domain/errors';
+
+describe('PermissionPolicy', () => {
+  const policy = new PermissionPolicy();
+  const auditor = { id: 'user-1', email: 'ada@example.com', role: 'auditor' as const };
+
+  it('should let callers through whose role holds every permission', () => {
+    expect(() => policy.authorize(auditor, ['admin:access', 'storage:read'])).to.not.throw();
+    expect(() => policy.authorize({ ...auditor, role: 'user' }, [])).to.not.throw();
+  });
+
+  it('should name the first permission the role lacks', () => {
+    expect(() => policy.authorize(auditor, ['storage:read', 'storage:maintain']))
+      .to.throw(ForbiddenError, "This action requires the 'storage:maintain' permission, which the auditor role does not have");
+    expect(() => policy.authorize({ ...auditor, role: 'user' }, ['admin:access']))
+      .to.throw(ForbiddenError, "requires the 'admin:access' permission, which the user role");
+  });
+
+  it('should limit callers using an API key to its scopes', () => {
+    const scripted = { ...auditor, apiKeyId: 'key-1', scopes: ['files:read', 'storage:read'] as const };
+
+    expect(() => policy.authorize(scripted, ['files:read'])).to.not.throw();
+    expect(() => policy.authorize(scripted, ['users:read']))
+      .to.throw(ForbiddenError, "This action requires the 'users:read' permission, which this API key is not scoped for");
+    expect(() => policy.authorize({ ...scripted, scopes: ['storage:maintain'] }, ['storage:maintain']))
+      .to.throw(ForbiddenError, 'which the auditor role does not have');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import { stub, SinonStub } from 'sinon';
+import { LoginUseCase } from '../../../../src/application/usecases';
+import { IUserRepository, IRefreshTokenRepository } from '../../../../src/domain/repositories';
+import { User, RefreshToken } from '../../../../src/domain/entities';
+import { IPasswordHasher } from '../../../../src/application/interfaces';
+import { JwtTokenService } from '../../../../src/infrastructure/services';
+import { UnauthorizedError } from '../../../../src/domain/errors';
+
+describe('LoginUseCase', () => {
+  const user = new User('user-1', 'ada@example.com', 'scrypt$hash');
+  const tokenService = new JwtTokenService({ jwtSecret: 'test-secret', issuer: 'test', accessTokenTtlSeconds: 60, refreshTokenTtlSeconds: 3600 });
+
+  let hashStub: SinonStub;
+  let verifyStub: SinonStub;
+  let useCase: LoginUseCase;
+
+  beforeEach(() => {
+    const userRepository = {
+      findByEmail: async (email: string) => (email === user.email ? user : null)
+    } as Partial<IUserRepository> as IUserRepository;
+    const refreshTokenRepository = {
+      save: async (token: RefreshToken) => token
+    } as Partial<IRefreshTokenRepository> as IRefreshTokenRepository;
+    hashStub = stub().resolves('scrypt$dummy');
+    verifyStub = stub().callsFake(async (password: string, hash: string) => hash === user.passwordHash && password === 'right password');
+    const passwordHasher: IPasswordHasher = { hash: hashStub, verify: verifyStub };
+
+    useCase = new LoginUseCase(userRepository, refreshTokenRepository, passwordHasher, tokenService);
+  });
+
+  const signIn = (email: string, password: string) => useCase.execute({ email, password }).then(
+    () => expect.fail('Should have thrown error'),
+    (error: Error) => error
+  );
+
+  describe('execute', () => {
+    it('should sign in with the right password', async () => {
+      const session = await useCase.execute({ email: 'Ada@Example.com', password: 'right password' });
+
+      expect(session.user.id).to.equal(user.id);
+      expect(hashStub.called).to.be.false;
+    });
+
+    it('should answer unknown addresses and wrong passwords alike', async () => {
+      const wrongPassword = await signIn('ada@example.com', 'wrong password');
+      const unknownAddress = await signIn('eve@example.com', 'wrong password');
+
+      expect(wrongPassword).to.be.instanceOf(UnauthorizedError);
+      expect(unknownAddress).to.be.instanceOf(UnauthorizedError);
+      expect(unknownAddress.message).to.equal(wrongPassword.message);
+    });
+
+    it('should check the password of unknown addresses against a dummy hash made once', async () => {
+      await signIn('eve@example.com', 'some password');
+      await signIn('mallory@example.com', 'another password');
+
+      expect(hashStub.calledOnce).to.be.true;
+      expect(verifyStub.calledTwice).to.be.true;
+      expect(verifyStub.firstCall.args).to.deep.equal(['some password', 'scrypt$dummy']);
+      expect(verifyStub.secondCall.args).to.deep.equal(['another password', 'scrypt$dummy']);
+    });
+  });
+});
\ No newline at end of file
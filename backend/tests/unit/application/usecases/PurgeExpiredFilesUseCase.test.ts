@@ -0,0 +1,51 @@
+import { expect } from 'chai';
+import { stub, SinonStub } from 'sinon';
+import { PurgeExpiredFilesUseCase, PurgeFileUseCase } from '../../../../src/application/usecases';
+import { IFileRepository } from '../../../../src/domain/repositories';
+import { File } from '../../../../src/domain/entities';
+import { TrashRetention } from '../../../../src/domain/valueobjects';
+
+describe('PurgeExpiredFilesUseCase', () => {
+  const trashedFile = (id: string, filename: string) =>
+    new File(id, filename, `uploaded-files/${filename}`, 10, 'text/plain', undefined, undefined, 1, undefined, 1, new Date('2025-08-01T00:00:00.000Z'));
+
+  let useCase: PurgeExpiredFilesUseCase;
+  let findTrashedBeforeStub: SinonStub;
+  let purgeStub: SinonStub;
+
+  beforeEach(() => {
+    findTrashedBeforeStub = stub();
+    purgeStub = stub().resolves();
+
+    useCase = new PurgeExpiredFilesUseCase(
+      { findTrashedBefore: findTrashedBeforeStub } as Partial<IFileRepository> as IFileRepository,
+      { execute: purgeStub } as Partial<PurgeFileUseCase> as PurgeFileUseCase,
+      new TrashRetention(30)
+    );
+  });
+
+  describe('execute', () => {
+    it('should purge files deleted before the retention cutoff', async () => {
+      findTrashedBeforeStub.resolves([trashedFile('id-1', 'a.txt'), trashedFile('id-2', 'b.txt')]);
+
+      const result = await useCase.execute({ now: new Date('2025-09-30T00:00:00.000Z'), batchSize: 50 });
+
+      expect(findTrashedBeforeStub.calledOnce).to.be.true;
+      expect(findTrashedBeforeStub.firstCall.args[0].toISOString()).to.equal('2025-08-31T00:00:00.000Z');
+      expect(findTrashedBeforeStub.firstCall.args[1]).to.equal(50);
+      expect(purgeStub.firstCall.args[0]).to.deep.equal({ fileId: 'id-1' });
+      expect(result.purged).to.deep.equal([{ id: 'id-1', filename: 'a.txt' }, { id: 'id-2', filename: 'b.txt' }]);
+      expect(result.failed).to.be.empty;
+    });
+
+    it('should report files that fail and keep purging the rest', async () => {
+      findTrashedBeforeStub.resolves([trashedFile('id-1', 'a.txt'), trashedFile('id-2', 'b.txt')]);
+      purgeStub.onFirstCall().rejects(new Error('storage unavailable'));
+
+      const result = await useCase.execute();
+
+      expect(result.failed).to.deep.equal([{ id: 'id-1', filename: 'a.txt', error: 'storage unavailable' }]);
+      expect(result.purged).to.deep.equal([{ id: 'id-2', filename: 'b.txt' }]);
+    });
+  });
+});
\ No newline at end of file
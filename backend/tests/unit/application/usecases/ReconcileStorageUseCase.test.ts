@@ -0,0 +1,93 @@
+import { expect } from 'chai';
+import { stub, SinonStub } from 'sinon';
+import { ReconcileStorageUseCase } from '../../../../src/application/usecases';
+import { IFileRepository, IStorageReconciliationReportRepository } from '../../../../src/domain/repositories';
+import { StoredContentReference } from '../../../../src/domain/entities';
+import { InMemoryFileStorageService } from '../../../../src/infrastructure/services';
+
+describe('ReconcileStorageUseCase', () => {
+  let storage: InMemoryFileStorageService;
+  let findReferencesStub: SinonStub;
+  let saveReportStub: SinonStub;
+
+  const reference = (storagePath: string, expectedSize: number, referencedBy: StoredContentReference['referencedBy'] = 'file'): StoredContentReference =>
+    ({ storagePath, expectedSize, referencedBy, referenceId: `${referencedBy}-${storagePath}` });
+
+  const createUseCase = (gracePeriodMinutes: number) => new ReconcileStorageUseCase(
+    { findStoredContentReferences: findReferencesStub } as Partial<IFileRepository> as IFileRepository,
+    storage,
+    { save: saveReportStub } as Partial<IStorageReconciliationReportRepository> as IStorageReconciliationReportRepository,
+    gracePeriodMinutes
+  );
+
+  beforeEach(() => {
+    storage = new InMemoryFileStorageService();
+    findReferencesStub = stub().resolves([]);
+    saveReportStub = stub().callsFake(async report => report);
+  });
+
+  describe('execute', () => {
+    it('should report a consistent storage when every file is referenced with its size', async () => {
+      const filePath = await storage.storeFile(Buffer.from('Hello'), 'notes.txt');
+      findReferencesStub.resolves([reference(filePath, 5), reference(filePath, 5, 'version'), reference(filePath, 5, 'blob')]);
+
+      const result = await createUseCase(0).execute({ dryRun: true });
+
+      expect(result.consistent).to.be.true;
+      expect(result.storedFileCount).to.equal(1);
+      expect(result.referenceCount).to.equal(3);
+      expect(saveReportStub.calledOnce).to.be.true;
+    });
+
+    it('should report dangling references and size mismatches', async () => {
+      const filePath = await storage.storeFile(Buffer.from('Hello'), 'notes.txt');
+      findReferencesStub.resolves([reference(filePath, 7, 'blob'), reference('memory/missing.txt', 3, 'version')]);
+
+      const result = await createUseCase(0).execute({ dryRun: true });
+
+      expect(result.consistent).to.be.false;
+      expect(result.danglingReferences).to.deep.equal([reference('memory/missing.txt', 3, 'version')]);
+      expect(result.sizeMismatches).to.deep.equal([{ reference: reference(filePath, 7, 'blob'), actualSize: 5 }]);
+    });
+
+    it('should only report orphaned files on a dry run', async () => {
+      const orphanPath = await storage.storeFile(Buffer.from('stray'), 'stray.txt');
+
+      const result = await createUseCase(0).execute({ dryRun: true });
+
+      expect(result.orphanedFiles).to.have.lengthOf(1);
+      expect(result.orphanedFiles[0]).to.include({ storagePath: orphanPath, size: 5, deleted: false });
+      expect(result.deletedFileCount).to.equal(0);
+      expect(await storage.fileExists(orphanPath)).to.be.true;
+    });
+
+    it('should delete orphaned files when not dry-running', async () => {
+      const orphanPath = await storage.storeFile(Buffer.from('stray'), 'stray.txt');
+
+      const result = await createUseCase(0).execute({ dryRun: false, trigger: 'scheduled' });
+
+      expect(result.trigger).to.equal('scheduled');
+      expect(result.orphanedFiles[0].deleted).to.be.true;
+      expect(result.deletedFileCount).to.equal(1);
+      expect(await storage.fileExists(orphanPath)).to.be.false;
+    });
+
+    it('should leave files written within the grace period alone', async () => {
+      const recentPath = await storage.storeFile(Buffer.from('uploading'), 'upload.txt');
+
+      const result = await createUseCase(60).execute({ dryRun: false });
+
+      expect(result.orphanedFiles).to.be.empty;
+      expect(await storage.fileExists(recentPath)).to.be.true;
+    });
+
+    it('should reject a request without a dry-run flag', async () => {
+      try {
+        await createUseCase(0).execute({} as any);
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect((error as Error).message).to.equal('dryRun must be a boolean');
+      }
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { expect } from 'chai';
+import { stub, SinonStub } from 'sinon';
+import { RefreshSessionUseCase, LoginUseCase } from '../../../../src/application/usecases';
+import { IUserRepository, IRefreshTokenRepository } from '../../../../src/domain/repositories';
+import { User, RefreshToken } from '../../../../src/domain/entities';
+import { IPasswordHasher } from '../../../../src/application/interfaces';
+import { JwtTokenService } from '../../../../src/infrastructure/services';
+import { UnauthorizedError } from '../../../../src/domain/errors';
+
+describe('RefreshSessionUseCase', () => {
+  const user = new User('user-1', 'ada@example.com', 'scrypt$hash');
+  const tokenService = new JwtTokenService({ jwtSecret: 'test-secret', issuer: 'test', accessTokenTtlSeconds: 60, refreshTokenTtlSeconds: 3600 });
+
+  let tokens: Map<string, RefreshToken>;
+  let revokeAllForUserStub: SinonStub;
+  let refreshTokenRepository: IRefreshTokenRepository;
+  let useCase: RefreshSessionUseCase;
+  let login: LoginUseCase;
+
+  beforeEach(() => {
+    tokens = new Map();
+    revokeAllForUserStub = stub().callsFake(async (userId: string) => {
+      tokens.forEach((token, id) => {
+        if (token.userId === userId && !token.isRevoked()) {
+          tokens.set(id, new RefreshToken(id, userId, token.expiresAt, token.createdAt, new Date()));
+        }
+      });
+      return 1;
+    });
+    refreshTokenRepository = {
+      save: async (token: RefreshToken) => {
+        tokens.set(token.id, token);
+        return token;
+      },
+      findById: async (id: string) => tokens.get(id) ?? null,
+      revoke: async (id: string) => {
+        const token = tokens.get(id);
+        if (!token || token.isRevoked()) {
+          return false;
+        }
+        tokens.set(id, new RefreshToken(id, token.userId, token.expiresAt, token.createdAt, new Date()));
+        return true;
+      },
+      revokeAllForUser: revokeAllForUserStub
+    };
+    const userRepository = {
+      findById: async (id: string) => (id === user.id ? user : null),
+      findByEmail: async (email: string) => (email === user.email ? user : null)
+    } as Partial<IUserRepository> as IUserRepository;
+    const passwordHasher: IPasswordHasher = { hash: async () => 'hash', verify: async password => password === 'right password' };
+
+    useCase = new RefreshSessionUseCase(userRepository, refreshTokenRepository, tokenService);
+    login = new LoginUseCase(userRepository, refreshTokenRepository, passwordHasher, tokenService);
+  });
+
+  describe('execute', () => {
+    it('should exchange a refresh token for new tokens and use it up', async () => {
+      const session = await login.execute({ email: 'Ada@Example.com', password: 'right password' });
+
+      const refreshed = await useCase.execute({ refreshToken: session.refreshToken.token });
+
+      expect(refreshed.user.id).to.equal('user-1');
+      expect(refreshed.refreshToken.token).to.not.equal(session.refreshToken.token);
+      expect(tokenService.verifyAccessToken(refreshed.accessToken.token)).to.deep.equal({ id: 'user-1', email: 'ada@example.com', role: 'user' });
+      expect(tokens.get(tokenService.verifyRefreshToken(session.refreshToken.token).tokenId)?.isRevoked()).to.be.true;
+      expect(tokens.get(tokenService.verifyRefreshToken(refreshed.refreshToken.token).tokenId)?.isRevoked()).to.be.false;
+    });
+
+    it('should end every session when a used refresh token comes back', async () => {
+      const session = await login.execute({ email: 'ada@example.com', password: 'right password' });
+      const refreshed = await useCase.execute({ refreshToken: session.refreshToken.token });
+
+      try {
+        await useCase.execute({ refreshToken: session.refreshToken.token });
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect(error).to.be.instanceOf(UnauthorizedError);
+        expect((error as Error).message).to.equal('Refresh token has already been used; sign in again');
+      }
+
+      expect(revokeAllForUserStub.calledOnceWith('user-1')).to.be.true;
+      expect(tokens.get(tokenService.verifyRefreshToken(refreshed.refreshToken.token).tokenId)?.isRevoked()).to.be.true;
+    });
+
+    it('should reject refresh tokens nobody recorded', async () => {
+      const stray = tokenService.issueRefreshToken({ userId: 'user-1', tokenId: 'unknown-token' });
+
+      try {
+        await useCase.execute({ refreshToken: stray.token });
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect(error).to.be.instanceOf(UnauthorizedError);
+        expect((error as Error).message).to.equal('Refresh token is not valid');
+      }
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,199 @@
+import { expect } from 'chai';
+import { stub, SinonStub } from 'sinon';
+import { UpdateFileContentUseCase } from '../../../../src/application/usecases';
+import { IFileRepository, IFileVersionRepository, IFileBlobRepository, IFileGrantRepository } from '../../../../src/domain/repositories';
+import { File, FileBlob, FileGrant } from '../../../../src/domain/entities';
+import { FileContentService } from '../../../../src/domain/services';
+import { IFileStorage } from '../../../../src/application/interfaces';
+import { FileBlobService, FileAccessPolicy } from '../../../../src/application/services';
+import { FileRole } from '../../../../src/domain/valueobjects';
+import { ConcurrencyError, ForbiddenError } from '../../../../src/domain/errors';
+import { UnitOfWorkTestUtils } from '../../../utils/test-helpers';
+
+describe('UpdateFileContentUseCase', () => {
+  const fileId = '123e4567-e89b-12d3-a456-426614174000';
+  const userId = 'user-1';
+
+  let useCase: UpdateFileContentUseCase;
+  let repositoryFindByIdStub: SinonStub;
+  let repositorySaveStub: SinonStub;
+  let storageDetectContentTypeStub: SinonStub;
+  let storageValidateContentStub: SinonStub;
+  let storageStoreFileStub: SinonStub;
+  let versionRepositorySaveStub: SinonStub;
+  let storageDeleteFileStub: SinonStub;
+
+  beforeEach(() => {
+    repositoryFindByIdStub = stub();
+    repositorySaveStub = stub().callsFake(async file => file);
+    storageDetectContentTypeStub = stub().callsFake((filename: string) => filename.endsWith('.json') ? 'application/json' : 'text/plain');
+    storageValidateContentStub = stub().returns(true);
+    storageStoreFileStub = stub().resolves('uploaded-files/revision-2.txt');
+    storageDeleteFileStub = stub().resolves();
+    versionRepositorySaveStub = stub().callsFake(async version => version);
+    const fileRepository: Partial<IFileRepository> = {
+      findById: repositoryFindByIdStub,
+      save: repositorySaveStub,
+      updateSearchText: stub().resolves()
+    };
+    const blobRepository: Partial<IFileBlobRepository> = {
+      findByHashForUpdate: stub().resolves(null),
+      addReference: stub().callsFake(async (hash, storagePath, size) => new FileBlob(hash, storagePath, size, 1))
+    };
+
+    useCase = new UpdateFileContentUseCase(
+      fileRepository as IFileRepository,
+      new FileBlobService(
+        blobRepository as IFileBlobRepository,
+        { storeFile: storageStoreFileStub, deleteFile: storageDeleteFileStub } as Partial<IFileStorage> as IFileStorage
+      ),
+      UnitOfWorkTestUtils.createFakeUnitOfWork({
+        files: fileRepository,
+        fileVersions: { save: versionRepositorySaveStub } as Partial<IFileVersionRepository>,
+        fileBlobs: blobRepository
+      }),
+      new FileAccessPolicy({
+        findByFileAndUser: async (grantFileId: string, grantUserId: string) =>
+          grantUserId === 'viewer-1' ? new FileGrant('grant-1', grantFileId, grantUserId, FileRole.VIEWER) : null
+      } as Partial<IFileGrantRepository> as IFileGrantRepository),
+      {
+        detectContentType: storageDetectContentTypeStub,
+        validateFileContent: storageValidateContentStub,
+        sanitizeContent: (content: Buffer) => content,
+        isBinary: () => false
+      } as Partial<FileContentService> as FileContentService
+    );
+  });
+
+  describe('execute', () => {
+    it('should store a new revision and advance the current version', async () => {
+      // Arrange
+      const existingFile = new File(fileId, 'notes.txt', 'uploaded-files/revision-1.txt', 5, 'text/plain');
+      repositoryFindByIdStub.resolves(existingFile);
+
+      // Act
+      const result = await useCase.execute({ fileId, userId, content: Buffer.from('Hello, World!') });
+
+      // Assert
+      expect(result).to.deep.include({
+        id: fileId,
+        filename: 'notes.txt',
+        version: 2,
+        fileSize: 13,
+        contentType: 'text/plain'
+      });
+      expect(storageStoreFileStub.calledWith(Buffer.from('Hello, World!'), 'notes.txt')).to.be.true;
+
+      const savedFile: File = repositorySaveStub.firstCall.args[0];
+      expect(savedFile.filePath).to.equal('uploaded-files/revision-2.txt');
+      expect(savedFile.currentVersion).to.equal(2);
+      expect(savedFile.createdAt).to.equal(existingFile.createdAt);
+
+      const savedVersion = versionRepositorySaveStub.firstCall.args[0];
+      expect(savedVersion.fileId).to.equal(fileId);
+      expect(savedVersion.versionNumber).to.equal(2);
+      expect(savedVersion.contentHash).to.equal(savedFile.contentHash).and.to.have.lengthOf(64);
+    });
+
+    it('should reject updates for unknown files', async () => {
+      repositoryFindByIdStub.resolves(null);
+
+      try {
+        await useCase.execute({ fileId, userId, content: Buffer.from('content') });
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect((error as Error).message).to.include('not found');
+      }
+    });
+
+    it('should reject content that doesnt match the file content type', async () => {
+      repositoryFindByIdStub.resolves(new File(fileId, 'data.json', 'uploaded-files/data.json', 2, 'application/json'));
+      storageValidateContentStub.returns(false);
+
+      try {
+        await useCase.execute({ fileId, userId, content: Buffer.from('not json') });
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect((error as Error).message).to.include('File content is not valid for content type: application/json');
+      }
+      expect(storageStoreFileStub.called).to.be.false;
+    });
+
+    it('should reject content of another type than the file', async () => {
+      repositoryFindByIdStub.resolves(new File(fileId, 'notes.txt', 'uploaded-files/revision-1.txt', 5, 'text/plain'));
+      storageDetectContentTypeStub.returns('image/png');
+
+      try {
+        await useCase.execute({ fileId, userId, content: Buffer.from('89504e470d0a1a0a', 'hex') });
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect((error as Error).message).to.equal("File content is image/png, but 'notes.txt' is text/plain");
+      }
+      expect(storageStoreFileStub.called).to.be.false;
+    });
+
+    it('should only let editors and owners change a file', async () => {
+      repositoryFindByIdStub.resolves(
+        new File(fileId, 'notes.txt', 'uploaded-files/revision-1.txt', 5, 'text/plain', undefined, undefined, 1, undefined, 1, undefined, 'owner-1')
+      );
+
+      try {
+        await useCase.execute({ fileId, userId: 'viewer-1', content: Buffer.from('Hello, World!') });
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect(error).to.be.instanceOf(ForbiddenError);
+      }
+      expect(storageStoreFileStub.called).to.be.false;
+    });
+
+    it('should reject updates based on a revision that has since been replaced, even by the same content', async () => {
+      // Revision 1 held this content, revision 2 other content and revision 3 this content again
+      repositoryFindByIdStub.resolves(
+        new File(fileId, 'notes.txt', 'uploaded-files/revision-1.txt', 5, 'text/plain', undefined, undefined, 3, 'b'.repeat(64))
+      );
+
+      try {
+        await useCase.execute({ fileId, userId, content: Buffer.from('Hello, World!'), expectedVersions: [1] });
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect(error).to.be.instanceOf(ConcurrencyError);
+        expect((error as Error).message).to.include('has changed since it was read');
+      }
+      expect(storageStoreFileStub.called).to.be.false;
+    });
+
+    it('should save against the row version that was read and remove the new content when it lost a race', async () => {
+      repositoryFindByIdStub.resolves(
+        new File(fileId, 'notes.txt', 'uploaded-files/revision-1.txt', 5, 'text/plain', undefined, undefined, 1, 'b'.repeat(64), 7)
+      );
+      repositorySaveStub.rejects(new ConcurrencyError('File', fileId));
+
+      try {
+        await useCase.execute({ fileId, userId, content: Buffer.from('Hello, World!'), expectedVersions: [1] });
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect(error).to.be.instanceOf(ConcurrencyError);
+      }
+
+      expect((repositorySaveStub.firstCall.args[0] as File).rowVersion).to.equal(7);
+      expect(storageDeleteFileStub.calledOnceWith('uploaded-files/revision-2.txt')).to.be.true;
+      expect(versionRepositorySaveStub.called).to.be.false;
+    });
+
+    it('should reject invalid request data', async () => {
+      try {
+        await useCase.execute({ fileId: 'invalid-uuid', userId, content: Buffer.from('content') });
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect((error as Error).message).to.equal('File ID must be a valid UUID');
+      }
+
+      try {
+        await useCase.execute({ fileId, userId, content: Buffer.from('') });
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect((error as Error).message).to.equal('File content cannot be empty');
+      }
+    });
+  });
+});
\ No newline at end of file
@@ -1,19 +1,27 @@
 import { expect } from 'chai';
 import { stub, SinonStub } from 'sinon';
 import { UploadFileUseCase, UploadFileRequest } from '../../../../src/application/usecases';
-import { IFileRepository } from '../../../../src/domain/repositories';
-import { File } from '../../../../src/domain/entities';
-import { FileStorageService } from '../../../../src/infrastructure/services';
+import { IFileRepository, IFileVersionRepository, IFileBlobRepository } from '../../../../src/domain/repositories';
+import { File, FileBlob } from '../../../../src/domain/entities';
+import { FileContentService } from '../../../../src/domain/services';
+import { ValidationError } from '../../../../src/domain/errors';
+import { IFileStorage } from '../../../../src/application/interfaces';
+import { FileBlobService } from '../../../../src/application/services';
+import { UnitOfWorkTestUtils } from '../../../utils/test-helpers';
 
 describe('UploadFileUseCase', () => {
   let useCase: UploadFileUseCase;
   let mockFileRepository: Partial<IFileRepository>;
-  let mockStorageService: Partial<FileStorageService>;
+  let mockStorageService: Partial<IFileStorage>;
+  let mockContentService: Partial<FileContentService>;
+  let mockVersionRepository: Partial<IFileVersionRepository>;
+  let mockBlobRepository: Partial<IFileBlobRepository>;
   let repositoryFindByFilenameStub: SinonStub;
   let repositorySaveStub: SinonStub;
-  let storageGetContentTypeStub: SinonStub;
+  let storageDetectContentTypeStub: SinonStub;
   let storageValidateContentStub: SinonStub;
   let storageStoreFileStub: SinonStub;
+  let versionRepositorySaveStub: SinonStub;
 
   beforeEach(() => {
     // Mock repository
@@ -21,22 +29,46 @@ describe('UploadFileUseCase', () => {
     repositorySaveStub = stub();
     mockFileRepository = {
       findByFilename: repositoryFindByFilenameStub,
-      save: repositorySaveStub
+      save: repositorySaveStub,
+      updateSearchText: stub().resolves()
     };
 
-    // Mock storage service
-    storageGetContentTypeStub = stub();
+    // Mock storage and content services
+    storageDetectContentTypeStub = stub().returns('text/plain');
     storageValidateContentStub = stub();
     storageStoreFileStub = stub();
     mockStorageService = {
-      getContentType: storageGetContentTypeStub,
+      storeFile: storageStoreFileStub,
+      deleteFile: stub().resolves()
+    };
+    mockContentService = {
+      detectContentType: storageDetectContentTypeStub,
       validateFileContent: storageValidateContentStub,
-      storeFile: storageStoreFileStub
+      sanitizeContent: (content: Buffer) => content,
+      isBinary: () => false
+    };
+
+    // Mock version repository
+    versionRepositorySaveStub = stub().callsFake(async version => version);
+    mockVersionRepository = {
+      save: versionRepositorySaveStub
+    };
+
+    // Mock blob repository (no content stored yet)
+    mockBlobRepository = {
+      findByHashForUpdate: stub().resolves(null),
+      addReference: stub().callsFake(async (hash, storagePath, size) => new FileBlob(hash, storagePath, size, 1))
     };
 
     useCase = new UploadFileUseCase(
       mockFileRepository as IFileRepository,
-      mockStorageService as FileStorageService
+      new FileBlobService(mockBlobRepository as IFileBlobRepository, mockStorageService as IFileStorage),
+      UnitOfWorkTestUtils.createFakeUnitOfWork({
+        files: mockFileRepository,
+        fileVersions: mockVersionRepository,
+        fileBlobs: mockBlobRepository
+      }),
+      mockContentService as FileContentService
     );
   });
 
@@ -45,8 +77,7 @@ describe('UploadFileUseCase', () => {
       // Arrange
       const request: UploadFileRequest = {
         filename: 'test.txt',
-        content: 'Hello, World!',
-        contentType: 'text/plain'
+        content: Buffer.from('Hello, World!')
       };
 
       repositoryFindByFilenameStub.resolves(null); // File doesn't exist
@@ -72,18 +103,57 @@ describe('UploadFileUseCase', () => {
         contentType: 'text/plain'
       });
       expect(result.id).to.be.a('string');
+      expect(result.version).to.equal(1);
       expect(result.createdAt).to.be.instanceOf(Date);
     });
 
-    it('should auto-detect content type when not provided', async () => {
+    it('should record the initial revision of the uploaded file', async () => {
+      // Arrange
+      repositoryFindByFilenameStub.resolves(null);
+      storageValidateContentStub.returns(true);
+      storageStoreFileStub.resolves('uploaded-files/uuid-file.txt');
+      repositorySaveStub.resolves(new File('test-id', 'test.txt', 'uploaded-files/uuid-file.txt', 13, 'text/plain'));
+
+      // Act
+      await useCase.execute({ filename: 'test.txt', content: Buffer.from('Hello, World!') });
+
+      // Assert
+      expect(versionRepositorySaveStub.calledOnce).to.be.true;
+      const version = versionRepositorySaveStub.firstCall.args[0];
+      expect(version.fileId).to.equal('test-id');
+      expect(version.versionNumber).to.equal(1);
+      expect(version.filePath).to.equal('uploaded-files/uuid-file.txt');
+    });
+
+    it('should remove the stored content when the upload cannot be committed', async () => {
+      // Arrange
+      repositoryFindByFilenameStub.resolves(null);
+      storageValidateContentStub.returns(true);
+      storageStoreFileStub.resolves('uploaded-files/uuid-file.txt');
+      repositorySaveStub.resolves(new File('test-id', 'test.txt', 'uploaded-files/uuid-file.txt', 13, 'text/plain'));
+      versionRepositorySaveStub.rejects(new Error('connection lost'));
+
+      // Act
+      try {
+        await useCase.execute({ filename: 'test.txt', content: Buffer.from('Hello, World!') });
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect((error as Error).message).to.equal('Failed to upload file: connection lost');
+      }
+
+      // Assert
+      expect((mockStorageService.deleteFile as SinonStub).calledOnceWith('uploaded-files/uuid-file.txt')).to.be.true;
+    });
+
+    it('should detect the content type from the filename and content', async () => {
       // Arrange
       const request: UploadFileRequest = {
         filename: 'test.json',
-        content: '{"key": "value"}'
+        content: Buffer.from('{"key": "value"}')
       };
 
       repositoryFindByFilenameStub.resolves(null);
-      storageGetContentTypeStub.returns('application/json');
+      storageDetectContentTypeStub.returns('application/json');
       storageValidateContentStub.returns(true);
       storageStoreFileStub.resolves('uploaded-files/uuid-file.json');
       
@@ -100,14 +170,14 @@ describe('UploadFileUseCase', () => {
       await useCase.execute(request);
 
       // Assert
-      expect(storageGetContentTypeStub).to.have.been.calledWith('test.json');
+      expect(storageDetectContentTypeStub).to.have.been.calledWith('test.json');
     });
 
     it('should reject upload if file with same name exists', async () => {
       // Arrange
       const request: UploadFileRequest = {
         filename: 'existing.txt',
-        content: 'content'
+        content: Buffer.from('content')
       };
 
       const existingFile = new File('existing-id', 'existing.txt', '/path', 100, 'text/plain');
@@ -133,55 +203,56 @@ describe('UploadFileUseCase', () => {
 
       // Test empty filename
       try {
-        await useCase.execute({ filename: '', content: 'test' });
+        await useCase.execute({ filename: '', content: Buffer.from('test') });
         expect.fail('Should have thrown error');
       } catch (error) {
         expect((error as Error).message).to.equal('Filename is required');
       }
 
-      // Test non-string content
+      // Test non-buffer content
       try {
         await useCase.execute({ filename: 'test.txt', content: 123 as any });
         expect.fail('Should have thrown error');
       } catch (error) {
-        expect((error as Error).message).to.equal('File content must be a string');
+        expect((error as Error).message).to.equal('File content must be a buffer');
       }
 
       // Test empty content
       try {
-        await useCase.execute({ filename: 'test.txt', content: '' });
+        await useCase.execute({ filename: 'test.txt', content: Buffer.from('') });
         expect.fail('Should have thrown error');
       } catch (error) {
         expect((error as Error).message).to.equal('File content cannot be empty');
       }
     });
 
-    it('should reject invalid content type', async () => {
+    it('should reject content whose detected type does not match its extension', async () => {
       // Arrange
       const request: UploadFileRequest = {
-        filename: 'test.txt',
-        content: 'content',
-        contentType: 'application/pdf' as any
+        filename: 'photo.jpg',
+        content: Buffer.from('89504e470d0a1a0a', 'hex')
       };
+      storageDetectContentTypeStub.throws(new ValidationError('File content is image/png, which does not match the extension of \'photo.jpg\''));
 
       // Act & Assert
       try {
         await useCase.execute(request);
         expect.fail('Should have thrown error');
       } catch (error) {
-        expect((error as Error).message).to.include('Content type must be one of');
+        expect((error as Error).message).to.include('does not match the extension');
       }
+      expect(storageStoreFileStub.called).to.be.false;
     });
 
     it('should reject content that doesnt match content type', async () => {
       // Arrange
       const request: UploadFileRequest = {
         filename: 'test.json',
-        content: 'invalid json content',
-        contentType: 'application/json'
+        content: Buffer.from('invalid json content')
       };
 
       repositoryFindByFilenameStub.resolves(null);
+      storageDetectContentTypeStub.returns('application/json');
       storageValidateContentStub.returns(false); // Content validation fails
 
       // Act & Assert
@@ -196,8 +267,8 @@ describe('UploadFileUseCase', () => {
     it('should reject files with invalid extensions', async () => {
       // Arrange
       const request: UploadFileRequest = {
-        filename: 'test.pdf',
-        content: 'content'
+        filename: 'test.exe',
+        content: Buffer.from('content')
       };
 
       // Act & Assert
@@ -211,7 +282,7 @@ describe('UploadFileUseCase', () => {
 
     it('should reject oversized files', async () => {
       // Arrange
-      const largeContent = 'x'.repeat(1048577); // 1MB + 1 byte
+      const largeContent = Buffer.alloc(1048577, 'x'); // 1MB + 1 byte
       const request: UploadFileRequest = {
         filename: 'large.txt',
         content: largeContent
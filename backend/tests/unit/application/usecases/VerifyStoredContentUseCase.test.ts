@@ -0,0 +1,99 @@
+import { expect } from 'chai';
+import { stub, SinonStub, restore } from 'sinon';
+import { VerifyStoredContentUseCase } from '../../../../src/application/usecases';
+import { IFileBlobRepository } from '../../../../src/domain/repositories';
+import { FileBlob } from '../../../../src/domain/entities';
+import { ContentHash } from '../../../../src/domain/valueobjects';
+import { InMemoryFileStorageService } from '../../../../src/infrastructure/services';
+
+describe('VerifyStoredContentUseCase', () => {
+  let storage: InMemoryFileStorageService;
+  let findLeastRecentlyVerifiedStub: SinonStub;
+  let recordVerificationStub: SinonStub;
+  let useCase: VerifyStoredContentUseCase;
+
+  const storeBlob = async (content: string, hash = ContentHash.fromContent(content).value): Promise<FileBlob> => {
+    const storagePath = await storage.storeFile(Buffer.from(content), 'notes.txt');
+    return new FileBlob(hash, storagePath, Buffer.byteLength(content), 1);
+  };
+
+  beforeEach(() => {
+    storage = new InMemoryFileStorageService();
+    findLeastRecentlyVerifiedStub = stub().resolves([]);
+    recordVerificationStub = stub().resolves();
+    useCase = new VerifyStoredContentUseCase(
+      {
+        findLeastRecentlyVerified: findLeastRecentlyVerifiedStub,
+        recordVerification: recordVerificationStub
+      } as Partial<IFileBlobRepository> as IFileBlobRepository,
+      storage
+    );
+  });
+
+  afterEach(() => {
+    restore();
+  });
+
+  describe('execute', () => {
+    it('should record intact blobs as verified', async () => {
+      const blob = await storeBlob('Hello, World!');
+      findLeastRecentlyVerifiedStub.resolves([blob]);
+
+      const result = await useCase.execute({ batchSize: 10 });
+
+      expect(findLeastRecentlyVerifiedStub.calledOnceWith(10)).to.be.true;
+      expect(result).to.deep.equal({ checked: 1, corrupted: [] });
+      expect(recordVerificationStub.firstCall.args[0]).to.equal(blob.hash);
+      expect(recordVerificationStub.firstCall.args[2]).to.be.false;
+    });
+
+    it('should flag blobs whose content no longer matches their hash', async () => {
+      const blob = await storeBlob('Hello, World!', 'a'.repeat(64));
+      findLeastRecentlyVerifiedStub.resolves([blob]);
+
+      const result = await useCase.execute();
+
+      expect(result.corrupted).to.deep.equal([{
+        hash: blob.hash,
+        storagePath: blob.storagePath,
+        reason: 'mismatch',
+        actualHash: ContentHash.fromContent('Hello, World!').value
+      }]);
+      expect(recordVerificationStub.firstCall.args[2]).to.be.true;
+    });
+
+    it('should flag blobs whose content is missing from storage', async () => {
+      const blob = new FileBlob('b'.repeat(64), 'memory/missing.txt', 5, 1);
+      findLeastRecentlyVerifiedStub.resolves([blob]);
+
+      const result = await useCase.execute();
+
+      expect(result.corrupted).to.deep.equal([{ hash: blob.hash, storagePath: blob.storagePath, reason: 'missing' }]);
+      expect(recordVerificationStub.firstCall.args[2]).to.be.true;
+    });
+
+    it('should flag blobs that cannot be read and go on with the rest of the batch', async () => {
+      const unreadable = new FileBlob('c'.repeat(64), 'memory/unreadable.txt', 5, 1);
+      const intact = await storeBlob('Hello, World!');
+      findLeastRecentlyVerifiedStub.resolves([unreadable, intact]);
+      const createReadStream = storage.createReadStream.bind(storage);
+      stub(storage, 'createReadStream').callsFake(async (storagePath, range) => {
+        if (storagePath === unreadable.storagePath) {
+          throw new Error('EIO: i/o error');
+        }
+        return createReadStream(storagePath, range);
+      });
+
+      const result = await useCase.execute();
+
+      expect(result.checked).to.equal(2);
+      expect(result.corrupted).to.deep.equal([
+        { hash: unreadable.hash, storagePath: unreadable.storagePath, reason: 'unreadable', error: 'EIO: i/o error' }
+      ]);
+      expect(recordVerificationStub.firstCall.args[0]).to.equal(unreadable.hash);
+      expect(recordVerificationStub.firstCall.args[2]).to.be.true;
+      expect(recordVerificationStub.secondCall.args[0]).to.equal(intact.hash);
+      expect(recordVerificationStub.secondCall.args[2]).to.be.false;
+    });
+  });
+});
\ No newline at end of file
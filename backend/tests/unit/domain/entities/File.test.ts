@@ -26,7 +26,7 @@ describe('File Entity', () => {
     });
 
     it('should reject filename with invalid extensions', () => {
-      expect(() => new File('id', 'test.pdf', '/path', 100, 'application/pdf'))
+      expect(() => new File('id', 'test.exe', '/path', 100, 'application/x-msdownload'))
         .to.throw('File must have one of these extensions: .txt, .md, .json');
     });
 
@@ -49,8 +49,14 @@ describe('File Entity', () => {
       expect(() => new File('id', 'test.txt', '/path', 0, 'text/plain'))
         .to.throw('File size must be greater than 0');
       
-      expect(() => new File('id', 'test.txt', '/path', File.MAX_FILE_SIZE + 1, 'text/plain'))
+      expect(() => File.create('id', 'test.txt', '/path', File.MAX_FILE_SIZE + 1, 'text/plain'))
         .to.throw('File size cannot exceed 1048576 bytes (1MB)');
+      expect(() => new File('id', 'test.txt', '/path', 100, 'text/plain').withNewVersion('/path-v2', File.MAX_FILE_SIZE + 1))
+        .to.throw('File size cannot exceed 1048576 bytes (1MB)');
+    });
+
+    it('should load files stored under an earlier, larger limit', () => {
+      expect(() => new File('id', 'test.txt', '/path', File.MAX_FILE_SIZE + 1, 'text/plain')).to.not.throw();
     });
 
     it('should validate content type', () => {
@@ -60,7 +66,7 @@ describe('File Entity', () => {
     });
 
     it('should reject invalid content type', () => {
-      expect(() => new File('id', 'test.txt', '/path', 100, 'application/pdf'))
+      expect(() => new File('id', 'test.txt', '/path', 100, 'application/zip'))
         .to.throw('Content type must be one of: text/plain, text/markdown, application/json');
     });
   });
@@ -103,6 +109,33 @@ describe('File Entity', () => {
       expect(textFile.isJsonFile()).to.be.false;
       expect(jsonFile.isJsonFile()).to.be.true;
     });
+
+    it('should start at version 1 and reject invalid versions', () => {
+      expect(file.currentVersion).to.equal(1);
+      expect(() => new File('id', 'test.txt', '/path', 100, 'text/plain', undefined, undefined, 0))
+        .to.throw('File version must be a positive integer');
+    });
+
+    it('should create the next revision keeping identity and creation date', () => {
+      const next = file.withNewVersion('/path/test-v2.txt', 2048);
+
+      expect(next.id).to.equal(file.id);
+      expect(next.filename).to.equal(file.filename);
+      expect(next.createdAt).to.equal(file.createdAt);
+      expect(next.filePath).to.equal('/path/test-v2.txt');
+      expect(next.fileSize).to.equal(2048);
+      expect(next.currentVersion).to.equal(2);
+      expect(file.currentVersion).to.equal(1);
+    });
+
+    it('should tell trashed files apart', () => {
+      const deletedAt = new Date('2025-09-01T00:00:00.000Z');
+      const trashed = new File('id', 'test.txt', '/path', 100, 'text/plain', undefined, undefined, 1, undefined, 1, deletedAt);
+
+      expect(file.isInTrash()).to.be.false;
+      expect(trashed.isInTrash()).to.be.true;
+      expect(trashed.deletedAt).to.equal(deletedAt);
+    });
   });
 
   describe('static methods', () => {
@@ -117,12 +150,33 @@ describe('File Entity', () => {
       expect(File.ALLOWED_CONTENT_TYPES).to.deep.equal([
         'text/plain',
         'text/markdown',
-        'application/json'
+        'application/json',
+        'application/yaml',
+        'text/csv',
+        'application/xml',
+        'text/html',
+        'image/png',
+        'image/jpeg',
+        'image/gif',
+        'image/webp',
+        'application/pdf'
       ]);
       expect(File.ALLOWED_EXTENSIONS).to.deep.equal([
         '.txt',
         '.md',
-        '.json'
+        '.json',
+        '.yaml',
+        '.yml',
+        '.csv',
+        '.xml',
+        '.html',
+        '.htm',
+        '.png',
+        '.jpg',
+        '.jpeg',
+        '.gif',
+        '.webp',
+        '.pdf'
       ]);
     });
   });
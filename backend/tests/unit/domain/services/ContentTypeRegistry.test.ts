@@ -0,0 +1,91 @@
+import { expect } from 'chai';
+import {
+  ContentTypeRegistry,
+  ContentTypeDefinition,
+  DEFAULT_CONTENT_TYPES,
+  AcceptingContentValidator,
+  FileContentService,
+  SizeLimitPolicy
+} from '../../../../src/domain/services';
+
+describe('ContentTypeRegistry', () => {
+  const tsv: ContentTypeDefinition = {
+    contentType: 'text/tab-separated-values',
+    extensions: ['.tsv'],
+    mimeAliases: ['text/tsv'],
+    createValidator: () => new AcceptingContentValidator()
+  };
+
+  let registry: ContentTypeRegistry;
+
+  beforeEach(() => {
+    registry = new ContentTypeRegistry(DEFAULT_CONTENT_TYPES);
+  });
+
+  it('should list the default types in registration order', () => {
+    expect(registry.getContentTypes()).to.deep.equal([
+      'text/plain', 'text/markdown', 'application/json', 'application/yaml', 'text/csv', 'application/xml', 'text/html',
+      'image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf'
+    ]);
+    expect(registry.getExtensions()).to.deep.equal([
+      '.txt', '.md', '.json', '.yaml', '.yml', '.csv', '.xml', '.html', '.htm',
+      '.png', '.jpg', '.jpeg', '.gif', '.webp', '.pdf'
+    ]);
+  });
+
+  it('should find types by extension, filename and MIME alias', () => {
+    expect(registry.findByExtension('JSON')?.contentType).to.equal('application/json');
+    expect(registry.findByFilename('notes.final.MD')?.contentType).to.equal('text/markdown');
+    expect(registry.findByFilename('README')).to.be.undefined;
+    expect(registry.findByMimeType('text/x-markdown')?.contentType).to.equal('text/markdown');
+    expect(registry.findByMimeType('application/json; charset=utf-8')?.contentType).to.equal('application/json');
+    expect(registry.findByMimeType('application/zip')).to.be.undefined;
+  });
+
+  it('should find binary types by their magic bytes', () => {
+    expect(registry.findBySignature(Buffer.from('89504e470d0a1a0a0000000d', 'hex'))?.contentType).to.equal('image/png');
+    expect(registry.findBySignature(Buffer.from('GIF89a'))?.contentType).to.equal('image/gif');
+    expect(registry.findBySignature(Buffer.from('RIFF\x24\x00\x00\x00WEBPVP8 ', 'latin1'))?.contentType).to.equal('image/webp');
+    expect(registry.findBySignature(Buffer.from('RIFF\x24\x00\x00\x00WAVEfmt ', 'latin1'))).to.be.undefined;
+    expect(registry.findBySignature(Buffer.from('%PDF-1.7\n'))?.contentType).to.equal('application/pdf');
+    expect(registry.findBySignature(Buffer.from('ffd8', 'hex'))).to.be.undefined;
+    expect(registry.findBySignature(Buffer.from('plain text'))).to.be.undefined;
+  });
+
+  it('should accept newly registered types', () => {
+    registry.register(tsv);
+
+    expect(registry.findByFilename('export.tsv')).to.equal(tsv);
+    expect(registry.getLargestMaxSize()).to.equal(1048576);
+  });
+
+  it('should size types by the configured limits', () => {
+    registry.register(tsv);
+    registry.configureSizeLimits(new SizeLimitPolicy(4096, { 'text/tab-separated-values': 2048, 'application/pdf': 8192 }));
+
+    expect(registry.getMaxSize('text/plain')).to.equal(4096);
+    expect(registry.getMaxSize('text/tab-separated-values')).to.equal(2048);
+    expect(registry.getMaxSize('application/zip')).to.equal(0);
+    expect(registry.getLargestMaxSize()).to.equal(8192);
+  });
+
+  it('should reject types whose extensions or aliases are already taken', () => {
+    expect(() => registry.register({ ...tsv, extensions: ['.txt'] })).to.throw("Extension '.txt' is already registered");
+    expect(() => registry.register({ ...tsv, mimeAliases: ['application/x-json'] }))
+      .to.throw("MIME type 'application/x-json' is already registered");
+    expect(() => registry.register({ ...tsv, contentType: 'text/plain' })).to.throw("Content type 'text/plain' is already registered");
+  });
+
+  it('should drive the content rules of FileContentService', () => {
+    registry.register({ ...tsv, createValidator: () => ({ update: () => undefined, finish: () => false }) });
+    registry.configureSizeLimits(new SizeLimitPolicy(1048576, { 'text/tab-separated-values': 2048 }));
+    const service = new FileContentService(registry);
+
+    expect(service.getContentType('export.tsv')).to.equal('text/tab-separated-values');
+    expect(service.getMaxSize('text/tab-separated-values')).to.equal(2048);
+    expect(service.validateFileContent(Buffer.from('a\tb'), 'text/tab-separated-values')).to.be.false;
+    expect(service.validateFileContent(Buffer.from('{"a": 1}'), 'application/json')).to.be.true;
+    expect(service.validateFileContent(Buffer.from('{"a": 1'), 'application/json')).to.be.false;
+    expect(service.validateFileContent(Buffer.from('anything'), 'application/zip')).to.be.false;
+  });
+});
\ No newline at end of file
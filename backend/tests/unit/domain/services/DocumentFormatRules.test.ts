@@ -0,0 +1,71 @@
+import { expect } from 'chai';
+import {
+  isValidYaml,
+  isValidCsv,
+  isValidXml,
+  isWellFormedHtml,
+  sanitizeHtmlDocument,
+  FileContentService
+} from '../../../../src/domain/services';
+
+describe('DocumentFormatRules', () => {
+  describe('isValidYaml', () => {
+    it('should accept single and multi-document YAML', () => {
+      expect(isValidYaml('server:\n  port: 8080\n  hosts: [a, b]\n')).to.be.true;
+      expect(isValidYaml('---\nname: first\n---\nname: second\n')).to.be.true;
+    });
+
+    it('should reject malformed YAML', () => {
+      expect(isValidYaml('server:\n  port: 8080\n hosts: [a, b\n')).to.be.false;
+      expect(isValidYaml('key: value\nkey: again\n')).to.be.false;
+    });
+  });
+
+  describe('isValidCsv', () => {
+    it('should accept rectangular CSV with quoted fields', () => {
+      expect(isValidCsv('name,amount\n"Smith, J.",12\n"Doe ""Jr""",7\n')).to.be.true;
+    });
+
+    it('should reject rows with a different number of columns and broken quoting', () => {
+      expect(isValidCsv('name,amount\nSmith,12,extra\n')).to.be.false;
+      expect(isValidCsv('name,amount\n"Smith,12\n')).to.be.false;
+    });
+  });
+
+  describe('isValidXml', () => {
+    it('should accept well-formed XML and reject mismatched tags', () => {
+      expect(isValidXml('<?xml version="1.0"?><report year="2025"><title>Budget</title></report>')).to.be.true;
+      expect(isValidXml('<report><title>Budget</report>')).to.be.false;
+    });
+  });
+
+  describe('isWellFormedHtml', () => {
+    it('should accept void elements and end tags HTML lets omit', () => {
+      expect(isWellFormedHtml('<p>First<br>line<img src="a.png"><ul><li>one<li>two</ul>')).to.be.true;
+    });
+
+    it('should reject elements that are never closed', () => {
+      expect(isWellFormedHtml('<div><span>text</div>')).to.be.false;
+      expect(isWellFormedHtml('<section>unfinished')).to.be.false;
+    });
+  });
+
+  describe('sanitizeHtmlDocument', () => {
+    it('should remove scripts, event handlers and unsafe links but keep the markup', () => {
+      const html = '<h1 onclick="steal()">Title</h1><script>alert(1)</script><a href="javascript:alert(1)">x</a><p class="lead">Text</p>';
+
+      expect(sanitizeHtmlDocument(html)).to.equal('<h1>Title</h1><a>x</a><p class="lead">Text</p>');
+    });
+  });
+
+  it('should be applied by FileContentService for the registered types', () => {
+    const service = new FileContentService();
+
+    expect(service.getContentType('config.yml')).to.equal('application/yaml');
+    expect(service.validateFileContent(Buffer.from('a,b\n1,2\n'), 'text/csv')).to.be.true;
+    expect(service.validateFileContent(Buffer.from('a,b\n1\n'), 'text/csv')).to.be.false;
+    expect(service.requiresSanitizing('text/html')).to.be.true;
+    expect(service.requiresSanitizing('application/xml')).to.be.false;
+    expect(service.sanitizeContent(Buffer.from('<p onmouseover="x()">Hi</p>'), 'text/html').toString('utf8')).to.equal('<p>Hi</p>');
+  });
+});
\ No newline at end of file
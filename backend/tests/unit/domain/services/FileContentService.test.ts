@@ -0,0 +1,68 @@
+import { expect } from 'chai';
+import { FileContentService, ContentTypePolicy, contentTypeRegistry } from '../../../../src/domain/services';
+import { ValidationError } from '../../../../src/domain/errors';
+
+describe('FileContentService', () => {
+  const png = Buffer.concat([Buffer.from('89504e470d0a1a0a', 'hex'), Buffer.from([0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52])]);
+  const pdf = Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1');
+
+  let service: FileContentService;
+
+  beforeEach(() => {
+    service = new FileContentService();
+  });
+
+  describe('detectContentType', () => {
+    it('should detect binary types from their magic bytes', () => {
+      expect(service.detectContentType('pixel.png', png)).to.equal('image/png');
+      expect(service.detectContentType('report.PDF', pdf)).to.equal('application/pdf');
+    });
+
+    it('should use the extension for text content', () => {
+      expect(service.detectContentType('notes.md', Buffer.from('# Notes'))).to.equal('text/markdown');
+      expect(service.detectContentType('data.json', Buffer.from('{"a": 1}'))).to.equal('application/json');
+    });
+
+    it('should reject binary content named like another type', () => {
+      expect(() => service.detectContentType('photo.jpg', png))
+        .to.throw(ValidationError, "File content is image/png, which does not match the extension of 'photo.jpg'");
+      expect(() => service.detectContentType('notes.txt', pdf))
+        .to.throw(ValidationError, 'File content is application/pdf');
+    });
+
+    it('should reject content without the magic bytes of its binary type', () => {
+      expect(() => service.detectContentType('pixel.png', Buffer.from('not an image')))
+        .to.throw(ValidationError, 'File content is not valid for content type: image/png');
+    });
+
+    it('should reject unrecognized binary data in text types', () => {
+      expect(() => service.detectContentType('notes.txt', Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03])))
+        .to.throw(ValidationError, 'File content is binary data, not text/plain');
+    });
+
+    it('should reject binary types the policy does not allow', () => {
+      const imagesOnly = new FileContentService(contentTypeRegistry, new ContentTypePolicy(['image/png']));
+
+      expect(imagesOnly.detectContentType('pixel.png', png)).to.equal('image/png');
+      expect(imagesOnly.detectContentType('notes.txt', Buffer.from('text'))).to.equal('text/plain');
+      expect(() => imagesOnly.detectContentType('report.pdf', pdf))
+        .to.throw(ValidationError, 'Files of type application/pdf are not accepted');
+    });
+  });
+
+  describe('getSupportedTypes', () => {
+    it('should list text types and the allowed binary types', () => {
+      const textOnly = new FileContentService(contentTypeRegistry, new ContentTypePolicy([]));
+
+      expect(service.getSupportedTypes().map(definition => definition.contentType)).to.include('application/pdf');
+      expect(textOnly.getSupportedTypes().every(definition => !definition.binary)).to.be.true;
+      expect(textOnly.getSupportedTypes().map(definition => definition.contentType)).to.include('text/plain');
+    });
+  });
+
+  it('should tell binary content types apart and leave their bytes untouched', () => {
+    expect(service.isBinary('image/png')).to.be.true;
+    expect(service.isBinary('text/html')).to.be.false;
+    expect(service.sanitizeContent(png, 'image/png')).to.equal(png);
+  });
+});
\ No newline at end of file
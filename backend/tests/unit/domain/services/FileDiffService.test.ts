@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import { FileDiffService } from '../../../../src/domain/services';
+
+describe('FileDiffService', () => {
+  let service: FileDiffService;
+
+  beforeEach(() => {
+    service = new FileDiffService();
+  });
+
+  describe('diffText', () => {
+    it('should produce a unified diff with structured hunks', () => {
+      const result = service.diffText('Hello\nWorld\n', 'Hello\nThere\n', 'notes.txt@v1', 'notes.txt@v2');
+
+      expect(result.unifiedDiff).to.include('--- notes.txt@v1');
+      expect(result.unifiedDiff).to.include('+++ notes.txt@v2');
+      expect(result.unifiedDiff).to.include('@@ -1,2 +1,2 @@');
+      expect(result.hunks).to.deep.equal([
+        {
+          oldStart: 1,
+          oldLines: 2,
+          newStart: 1,
+          newLines: 2,
+          lines: [' Hello', '-World', '+There']
+        }
+      ]);
+      expect(result.additions).to.equal(1);
+      expect(result.deletions).to.equal(1);
+    });
+
+    it('should return an empty diff for identical texts', () => {
+      const result = service.diffText('same\n', 'same\n', 'a', 'b');
+
+      expect(result.unifiedDiff).to.equal('');
+      expect(result.hunks).to.be.empty;
+      expect(result.additions).to.equal(0);
+      expect(result.deletions).to.equal(0);
+    });
+  });
+
+  describe('diffJson', () => {
+    it('should report added, removed and changed keys by JSON pointer', () => {
+      const changes = service.diffJson(
+        '{"name": "app", "version": 1, "tags": ["a"], "old": true}',
+        '{"name": "app", "version": 2, "tags": ["a", "b"], "new": null}'
+      );
+
+      expect(changes).to.deep.equal([
+        { op: 'changed', path: '/version', oldValue: 1, newValue: 2 },
+        { op: 'added', path: '/tags/1', newValue: 'b' },
+        { op: 'removed', path: '/old', oldValue: true },
+        { op: 'added', path: '/new', newValue: null }
+      ]);
+    });
+
+    it('should escape special characters in JSON pointer tokens', () => {
+      const changes = service.diffJson('{"a/b": {"c~d": 1}}', '{"a/b": {"c~d": 2}}');
+
+      expect(changes).to.deep.equal([
+        { op: 'changed', path: '/a~1b/c~0d', oldValue: 1, newValue: 2 }
+      ]);
+    });
+
+    it('should treat a type change as a change of the whole value', () => {
+      const changes = service.diffJson('{"value": [1]}', '{"value": {"0": 1}}');
+
+      expect(changes).to.deep.equal([
+        { op: 'changed', path: '/value', oldValue: [1], newValue: { '0': 1 } }
+      ]);
+    });
+
+    it('should return no changes for equivalent documents', () => {
+      expect(service.diffJson('{"a": 1, "b": 2}', '{ "b": 2, "a": 1 }')).to.be.empty;
+    });
+  });
+});
\ No newline at end of file
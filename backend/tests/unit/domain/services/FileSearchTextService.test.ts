@@ -0,0 +1,59 @@
+import { expect } from 'chai';
+import { FileSearchTextService } from '../../../../src/domain/services';
+
+describe('FileSearchTextService', () => {
+  let service: FileSearchTextService;
+
+  beforeEach(() => {
+    service = new FileSearchTextService();
+  });
+
+  describe('extractSearchText', () => {
+    it('should strip Markdown syntax and keep the readable text', () => {
+      const markdown = [
+        '# Quarterly **report**',
+        '',
+        '> Summary of [the results](https://example.com/results)',
+        '',
+        '- item _one_',
+        '1. item `two`',
+        '',
+        '```ts',
+        'const snake_case = true;',
+        '```',
+        '![chart](chart.png)'
+      ].join('\n');
+
+      expect(service.extractSearchText(markdown, 'text/markdown')).to.equal([
+        'Quarterly report',
+        'Summary of the results',
+        'item one',
+        'item two',
+        'const snake_case = true;',
+        'chart'
+      ].join('\n'));
+    });
+
+    it('should flatten JSON documents to their values', () => {
+      const json = JSON.stringify({ title: 'Budget', tags: ['finance', 'q3'], meta: { year: 2025, draft: false, owner: null } });
+
+      expect(service.extractSearchText(json, 'application/json')).to.equal('Budget\nfinance\nq3\n2025\nfalse');
+    });
+
+    it('should fall back to the raw text for invalid JSON', () => {
+      expect(service.extractSearchText('{ not json', 'application/json')).to.equal('{ not json');
+    });
+
+    it('should keep only the text of HTML and XML documents', () => {
+      const html = '<html><head><style>p { color: red; }</style></head><body><h1>Budget</h1><!-- draft --><p>Q3 <b>numbers</b></p></body></html>';
+      const xml = '<?xml version="1.0"?><report year="2025"><title>Budget</title><notes><![CDATA[raw & ready]]></notes></report>';
+
+      expect(service.extractSearchText(html, 'text/html')).to.equal('Budget\nQ3\nnumbers');
+      expect(service.extractSearchText(xml, 'application/xml')).to.equal('Budget\nraw & ready');
+    });
+
+    it('should normalize whitespace of plain text', () => {
+      expect(service.extractSearchText('  Hello   World  \n\n\n second\tline ', 'text/plain')).to.equal('Hello World\nsecond line');
+    });
+  });
+});
\ No newline at end of file
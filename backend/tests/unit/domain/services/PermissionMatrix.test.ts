@@ -0,0 +1,30 @@
+import { expect } from 'chai';
+import { PermissionMatrix } from '../../../../src/domain/services';
+import { UserRole, PERMISSIONS, isPermission } from '../../../../src/domain/valueobjects';
+
+describe('PermissionMatrix', () => {
+  const matrix = new PermissionMatrix();
+
+  it('should give plain users their files and no administrative permissions', () => {
+    expect(matrix.permissionsOf(UserRole.USER)).to.deep.equal(['files:read', 'files:write']);
+  });
+
+  it('should let auditors read but not change anything', () => {
+    expect(matrix.allows(UserRole.AUDITOR, 'files:read')).to.be.true;
+    expect(matrix.allows(UserRole.AUDITOR, 'files:write')).to.be.false;
+    expect(matrix.allows(UserRole.AUDITOR, 'admin:access')).to.be.true;
+    expect(matrix.allows(UserRole.AUDITOR, 'storage:read')).to.be.true;
+    expect(matrix.allows(UserRole.AUDITOR, 'users:read')).to.be.true;
+    expect(matrix.allows(UserRole.AUDITOR, 'storage:maintain')).to.be.false;
+    expect(matrix.allows(UserRole.AUDITOR, 'users:manage')).to.be.false;
+  });
+
+  it('should give admins every permission', () => {
+    expect(matrix.permissionsOf(UserRole.ADMIN)).to.have.members([...PERMISSIONS]);
+  });
+
+  it('should tell known permissions apart', () => {
+    expect(isPermission('storage:read')).to.be.true;
+    expect(isPermission('storage:delete')).to.be.false;
+  });
+});
\ No newline at end of file
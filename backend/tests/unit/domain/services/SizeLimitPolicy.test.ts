@@ -0,0 +1,29 @@
+import { expect } from 'chai';
+import { SizeLimitPolicy } from '../../../../src/domain/services';
+
+describe('SizeLimitPolicy', () => {
+  it('should limit every type to 1MB by default', () => {
+    const policy = new SizeLimitPolicy();
+
+    expect(policy.getDefaultMaxSize()).to.equal(1048576);
+    expect(policy.getMaxSize('text/plain')).to.equal(1048576);
+    expect(policy.getLargestMaxSize(['text/plain', 'image/png'])).to.equal(1048576);
+  });
+
+  it('should prefer the limit configured for a type over the default', () => {
+    const policy = new SizeLimitPolicy(2048, { 'Application/PDF ': 10485760, 'text/csv': 1024 });
+
+    expect(policy.getMaxSize('application/pdf')).to.equal(10485760);
+    expect(policy.getMaxSize('text/csv')).to.equal(1024);
+    expect(policy.getMaxSize('text/plain')).to.equal(2048);
+    expect(policy.getLargestMaxSize(['text/plain', 'text/csv'])).to.equal(2048);
+    expect(policy.getLargestMaxSize(['text/plain', 'application/pdf'])).to.equal(10485760);
+    expect(policy.getLargestMaxSize([])).to.equal(0);
+  });
+
+  it('should reject limits that are not a positive whole number of bytes', () => {
+    expect(() => new SizeLimitPolicy(0)).to.throw('Size limit for the default must be a positive whole number of bytes, got 0');
+    expect(() => new SizeLimitPolicy(NaN)).to.throw('got NaN');
+    expect(() => new SizeLimitPolicy(1024, { 'image/png': 1.5 })).to.throw('Size limit for image/png must be');
+  });
+});
\ No newline at end of file
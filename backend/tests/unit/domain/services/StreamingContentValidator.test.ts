@@ -0,0 +1,61 @@
+import { expect } from 'chai';
+import { StreamingJsonValidator, FileContentService } from '../../../../src/domain/services';
+
+/**
+ * Feeds content to a fresh validator in chunks of the given size
+ */
+function validateInChunks(content: string, chunkSize: number): boolean {
+  const validator = new StreamingJsonValidator();
+  const bytes = Buffer.from(content, 'utf8');
+
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    validator.update(bytes.subarray(offset, offset + chunkSize));
+  }
+
+  return validator.finish();
+}
+
+describe('StreamingJsonValidator', () => {
+  const samples = [
+    '{"name": "test", "values": [1, -2.5, 3e10, true, false, null]}',
+    '[]',
+    '{}',
+    '"plain string with \\"escapes\\" and \\u00e9"',
+    '  42  ',
+    '{"nested": {"deep": [{"a": "ünïcödé"}]}}',
+    '{"a": 1,}',
+    '[1, 2',
+    '{"a" 1}',
+    '01',
+    'tru',
+    '"unterminated',
+    '{"a": 1} {"b": 2}',
+    '"bad \\x escape"',
+    '',
+    '   '
+  ];
+
+  it('should agree with JSON.parse regardless of chunk boundaries', () => {
+    for (const sample of samples) {
+      let expected = true;
+      try {
+        JSON.parse(sample);
+      } catch {
+        expected = false;
+      }
+
+      for (const chunkSize of [1, 2, 7, 1024]) {
+        expect(validateInChunks(sample, chunkSize), `${JSON.stringify(sample)} in chunks of ${chunkSize}`)
+          .to.equal(expected);
+      }
+    }
+  });
+
+  it('should be selected for JSON content by FileContentService', () => {
+    const service = new FileContentService();
+
+    expect(service.createStreamingValidator('application/json')).to.be.instanceOf(StreamingJsonValidator);
+    expect(service.createStreamingValidator('text/plain').finish()).to.be.true;
+    expect(service.createStreamingValidator('image/bmp').finish()).to.be.false;
+  });
+});
\ No newline at end of file
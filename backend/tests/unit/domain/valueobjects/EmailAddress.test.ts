@@ -0,0 +1,17 @@
+import { expect } from 'chai';
+import { EmailAddress } from '../../../../src/domain/valueobjects';
+
+describe('EmailAddress Value Object', () => {
+  it('should normalize addresses so case does not matter', () => {
+    expect(EmailAddress.create('  Ada.Lovelace@Example.COM ').value).to.equal('ada.lovelace@example.com');
+    expect(EmailAddress.create('ada@example.com').equals(EmailAddress.create('ADA@example.com'))).to.be.true;
+  });
+
+  it('should reject malformed addresses', () => {
+    expect(() => EmailAddress.create('')).to.throw('Email address cannot be empty');
+    expect(() => EmailAddress.create('ada')).to.throw('Email address is not valid');
+    expect(() => EmailAddress.create('ada@example')).to.throw('Email address is not valid');
+    expect(() => EmailAddress.create('ada lovelace@example.com')).to.throw('Email address is not valid');
+    expect(() => EmailAddress.create(`${'a'.repeat(250)}@example.com`)).to.throw('Email address cannot exceed 254 characters');
+  });
+});
\ No newline at end of file
@@ -15,9 +15,9 @@ describe('FileName Value Object', () => {
     });
 
     it('should reject disallowed extensions', () => {
-      expect(() => new FileName('document.pdf'))
+      expect(() => new FileName('document.docx'))
         .to.throw('File must have one of these extensions: .txt, .md, .json');
-      expect(() => new FileName('image.png'))
+      expect(() => new FileName('image.bmp'))
         .to.throw('File must have one of these extensions: .txt, .md, .json');
     });
 
@@ -116,7 +116,10 @@ describe('FileName Value Object', () => {
 
     it('should get allowed extensions', () => {
       const extensions = FileName.getAllowedExtensions();
-      expect(extensions).to.deep.equal(['.txt', '.md', '.json']);
+      expect(extensions).to.deep.equal([
+        '.txt', '.md', '.json', '.yaml', '.yml', '.csv', '.xml', '.html', '.htm',
+        '.png', '.jpg', '.jpeg', '.gif', '.webp', '.pdf'
+      ]);
     });
   });
 });
\ No newline at end of file
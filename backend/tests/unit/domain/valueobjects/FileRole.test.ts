@@ -0,0 +1,22 @@
+import { expect } from 'chai';
+import { FileRole } from '../../../../src/domain/valueobjects';
+import { ValidationError } from '../../../../src/domain/errors';
+
+describe('FileRole Value Object', () => {
+  it('should let every role include the roles below it', () => {
+    expect(FileRole.OWNER.includes(FileRole.EDITOR)).to.be.true;
+    expect(FileRole.OWNER.includes(FileRole.VIEWER)).to.be.true;
+    expect(FileRole.EDITOR.includes(FileRole.VIEWER)).to.be.true;
+    expect(FileRole.EDITOR.includes(FileRole.EDITOR)).to.be.true;
+  });
+
+  it('should not let a role include the roles above it', () => {
+    expect(FileRole.VIEWER.includes(FileRole.EDITOR)).to.be.false;
+    expect(FileRole.EDITOR.includes(FileRole.OWNER)).to.be.false;
+  });
+
+  it('should reject unknown roles', () => {
+    expect(() => new FileRole('admin')).to.throw(ValidationError, 'Role must be one of: viewer, editor, owner');
+    expect(new FileRole('editor').equals(FileRole.EDITOR)).to.be.true;
+  });
+});
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { expect } from 'chai';
+import { PageCursor } from '../../../../src/domain/valueobjects';
+
+describe('PageCursor Value Object', () => {
+  describe('encode/decode', () => {
+    it('should round-trip every sort field', () => {
+      const createdAt = new Date('2025-09-06T10:30:00.000Z');
+      const cursors = [
+        new PageCursor('filename', 'ASC', 'notes.txt', '123e4567-e89b-12d3-a456-426614174001', 'after'),
+        new PageCursor('file_size', 'DESC', 1024, '123e4567-e89b-12d3-a456-426614174002', 'before'),
+        new PageCursor('created_at', 'DESC', createdAt, '123e4567-e89b-12d3-a456-426614174003', 'after')
+      ];
+
+      for (const cursor of cursors) {
+        const decoded = PageCursor.decode(cursor.encode());
+        expect(decoded).to.deep.equal(cursor);
+      }
+    });
+
+    it('should produce URL-safe tokens', () => {
+      const token = new PageCursor('filename', 'ASC', 'a/b+c?.txt', '123e4567-e89b-12d3-a456-426614174001', 'after').encode();
+
+      expect(token).to.match(/^[A-Za-z0-9_-]+$/);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject malformed tokens', () => {
+      expect(() => PageCursor.decode('not-a-cursor')).to.throw('Invalid cursor');
+      expect(() => PageCursor.decode(Buffer.from('"text"').toString('base64url'))).to.throw('Invalid cursor');
+    });
+
+    it('should reject sort values that do not match the sort field', () => {
+      expect(() => new PageCursor('file_size', 'ASC', 'large', '123e4567-e89b-12d3-a456-426614174001', 'after')).to.throw('sort value');
+      expect(() => new PageCursor('created_at', 'ASC', new Date('invalid'), '123e4567-e89b-12d3-a456-426614174001', 'after')).to.throw('sort value');
+    });
+
+    it('should reject unknown sort fields and directions', () => {
+      const tamperedField = Buffer.from(JSON.stringify({ s: 'id; DROP TABLE files', o: 'ASC', v: 'x', i: '123e4567-e89b-12d3-a456-426614174001', d: 'after' })).toString('base64url');
+      const tamperedDirection = Buffer.from(JSON.stringify({ s: 'filename', o: 'ASC', v: 'x', i: '123e4567-e89b-12d3-a456-426614174001', d: 'sideways' })).toString('base64url');
+
+      expect(() => PageCursor.decode(tamperedField)).to.throw('unknown sort field');
+      expect(() => PageCursor.decode(tamperedDirection)).to.throw('unknown direction');
+    });
+
+    it('should reject row ids that are not UUIDs', () => {
+      const tamperedId = Buffer.from(JSON.stringify({ s: 'filename', o: 'ASC', v: 'x', i: 'x', d: 'after' })).toString('base64url');
+
+      expect(() => PageCursor.decode(tamperedId)).to.throw('row id is not a valid UUID');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { expect } from 'chai';
+import { Password } from '../../../../src/domain/valueobjects';
+
+describe('Password Value Object', () => {
+  it('should accept passwords between 8 and 128 characters', () => {
+    expect(Password.create('12345678').value).to.equal('12345678');
+    expect(() => Password.create('x'.repeat(128))).to.not.throw();
+  });
+
+  it('should reject short, long and blank passwords', () => {
+    expect(() => Password.create('1234567')).to.throw('Password must be at least 8 characters long');
+    expect(() => Password.create('x'.repeat(129))).to.throw('Password cannot exceed 128 characters');
+    expect(() => Password.create('          ')).to.throw('Password cannot consist of whitespace only');
+  });
+
+  it('should not reveal itself when printed', () => {
+    expect(`${Password.create('secret password')}`).to.equal('********');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { expect } from 'chai';
+import { TrashRetention } from '../../../../src/domain/valueobjects';
+import { ValidationError } from '../../../../src/domain/errors';
+
+describe('TrashRetention Value Object', () => {
+  it('should compute the purge date of a deleted file', () => {
+    const retention = new TrashRetention(30);
+
+    expect(retention.purgeDateFor(new Date('2025-09-01T00:00:00.000Z')).toISOString()).to.equal('2025-10-01T00:00:00.000Z');
+  });
+
+  it('should compute the deletion cutoff for purging', () => {
+    const retention = new TrashRetention(7);
+
+    expect(retention.cutoffAt(new Date('2025-09-08T12:00:00.000Z')).toISOString()).to.equal('2025-09-01T12:00:00.000Z');
+  });
+
+  it('should reject retention periods that are not whole positive days', () => {
+    expect(() => new TrashRetention(0)).to.throw(ValidationError);
+    expect(() => new TrashRetention(1.5)).to.throw(ValidationError);
+    expect(() => new TrashRetention(NaN)).to.throw(ValidationError);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { expect } from 'chai';
+import { stub, restore, SinonStub } from 'sinon';
+import { Pool } from 'pg';
+import { PgUnitOfWork } from '../../../../src/infrastructure/database';
+
+describe('PgUnitOfWork', () => {
+  let clientQueryStub: SinonStub;
+  let releaseStub: SinonStub;
+  let unitOfWork: PgUnitOfWork;
+
+  beforeEach(() => {
+    clientQueryStub = stub().resolves({ rows: [] });
+    releaseStub = stub();
+    const pool = { connect: stub().resolves({ query: clientQueryStub, release: releaseStub }) };
+    unitOfWork = new PgUnitOfWork(pool as unknown as Pool);
+    stub(console, 'error');
+  });
+
+  afterEach(() => {
+    restore();
+  });
+
+  const statements = (): string[] => clientQueryStub.getCalls().map(call => call.args[0]);
+
+  it('should commit the work and run deferred actions afterwards', async () => {
+    const deferred = stub().resolves();
+
+    const result = await unitOfWork.run(async transaction => {
+      await transaction.files.delete('123e4567-e89b-12d3-a456-426614174000');
+      transaction.afterCommit(deferred);
+      expect(deferred.called).to.be.false;
+      return 'done';
+    });
+
+    expect(result).to.equal('done');
+    expect(statements()[0]).to.equal('BEGIN');
+    expect(statements()[1]).to.include('DELETE FROM files');
+    expect(statements()[2]).to.equal('COMMIT');
+    expect(deferred.calledOnce).to.be.true;
+    expect(releaseStub.calledOnce).to.be.true;
+  });
+
+  it('should roll back and run compensating actions newest first when the work fails', async () => {
+    const order: string[] = [];
+    const deferred = stub().resolves();
+
+    try {
+      await unitOfWork.run(async transaction => {
+        transaction.onRollback(async () => { order.push('first'); });
+        transaction.onRollback(async () => { order.push('second'); });
+        transaction.afterCommit(deferred);
+        throw new Error('insert failed');
+      });
+      expect.fail('Should have thrown error');
+    } catch (error) {
+      expect((error as Error).message).to.equal('insert failed');
+    }
+
+    expect(statements()).to.deep.equal(['BEGIN', 'ROLLBACK']);
+    expect(order).to.deep.equal(['second', 'first']);
+    expect(deferred.called).to.be.false;
+    expect(releaseStub.calledOnce).to.be.true;
+  });
+
+  it('should have the pool discard the client when the rollback fails', async () => {
+    const rollbackError = new Error('connection terminated');
+    clientQueryStub.withArgs('ROLLBACK').rejects(rollbackError);
+
+    try {
+      await unitOfWork.run(async () => {
+        throw new Error('insert failed');
+      });
+      expect.fail('Should have thrown error');
+    } catch (error) {
+      expect((error as Error).message).to.equal('insert failed');
+    }
+
+    expect(releaseStub.calledOnceWithExactly(rollbackError)).to.be.true;
+  });
+
+  it('should keep running compensating actions when one of them fails', async () => {
+    const remaining = stub().resolves();
+
+    try {
+      await unitOfWork.run(async transaction => {
+        transaction.onRollback(remaining);
+        transaction.onRollback(() => Promise.reject(new Error('storage unavailable')));
+        throw new Error('insert failed');
+      });
+      expect.fail('Should have thrown error');
+    } catch (error) {
+      expect((error as Error).message).to.equal('insert failed');
+    }
+
+    expect(remaining.calledOnce).to.be.true;
+  });
+
+  it('should not fail a committed transaction when a deferred action fails', async () => {
+    const result = await unitOfWork.run(async transaction => {
+      transaction.afterCommit(() => Promise.reject(new Error('storage unavailable')));
+      return 'done';
+    });
+
+    expect(result).to.equal('done');
+    expect(statements()).to.deep.equal(['BEGIN', 'COMMIT']);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { expect } from 'chai';
+import { stub, restore, useFakeTimers } from 'sinon';
+import { PeriodicJob } from '../../../../src/infrastructure/jobs';
+
+describe('PeriodicJob', () => {
+  afterEach(() => {
+    restore();
+  });
+
+  it('should run the task at every interval until stopped', async () => {
+    const clock = useFakeTimers();
+    const task = stub().resolves();
+    const job = new PeriodicJob('test', 1000, task);
+
+    job.start();
+    await clock.tickAsync(3000);
+    job.stop();
+    await clock.tickAsync(3000);
+
+    expect(task.callCount).to.equal(3);
+    clock.restore();
+  });
+
+  it('should skip a run while the previous one is in progress', async () => {
+    let finish: () => void = () => {};
+    const task = stub().callsFake(() => new Promise<void>(resolve => { finish = resolve; }));
+    const job = new PeriodicJob('test', 1000, task);
+
+    const first = job.runOnce();
+    const second = await job.runOnce();
+    finish();
+
+    expect(second).to.be.false;
+    expect(await first).to.be.true;
+    expect(task.calledOnce).to.be.true;
+  });
+
+  it('should log failures and keep running', async () => {
+    const consoleStub = stub(console, 'error');
+    const task = stub().onFirstCall().rejects(new Error('database unavailable')).onSecondCall().resolves();
+    const job = new PeriodicJob('test', 1000, task);
+
+    expect(await job.runOnce()).to.be.true;
+    expect(await job.runOnce()).to.be.true;
+    expect(consoleStub.calledOnce).to.be.true;
+  });
+});
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { expect } from 'chai';
+import { HmacShareLinkSigner } from '../../../../src/infrastructure/services';
+import { ShareLinkConfig } from '../../../../src/infrastructure/config';
+
+describe('HmacShareLinkSigner', () => {
+  const config: ShareLinkConfig = { signingSecret: 'test-secret', publicBaseUrl: 'http://localhost:3001/api/v1' };
+  const linkId = '3f2b8c1e-5d4a-4e6f-9a7b-8c9d0e1f2a3b';
+  const expiresAt = new Date('2025-09-08T12:00:00.000Z');
+
+  let signer: HmacShareLinkSigner;
+
+  beforeEach(() => {
+    signer = new HmacShareLinkSigner(config);
+  });
+
+  it('should refuse to work without a secret', () => {
+    expect(() => new HmacShareLinkSigner({ ...config, signingSecret: '' })).to.throw('SHARE_LINK_SECRET or JWT_SECRET must be set');
+  });
+
+  it('should sign deterministically, to the second', () => {
+    const signature = signer.sign(linkId, expiresAt);
+
+    expect(signature).to.match(/^[A-Za-z0-9_-]{43}$/);
+    expect(signer.sign(linkId, new Date(expiresAt.getTime() + 999))).to.equal(signature);
+    expect(signer.verify(linkId, expiresAt, signature)).to.be.true;
+  });
+
+  it('should reject signatures of another link, expiry or secret', () => {
+    const signature = signer.sign(linkId, expiresAt);
+    const otherSecret = new HmacShareLinkSigner({ ...config, signingSecret: 'other-secret' });
+
+    expect(signer.verify('0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d', expiresAt, signature)).to.be.false;
+    expect(signer.verify(linkId, new Date(expiresAt.getTime() + 1000), signature)).to.be.false;
+    expect(otherSecret.verify(linkId, expiresAt, signature)).to.be.false;
+    expect(signer.verify(linkId, expiresAt, signature.slice(1))).to.be.false;
+  });
+});
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { expect } from 'chai';
+import { Readable } from 'stream';
+import {
+  InMemoryFileStorageService,
+  FileStorageService,
+  S3FileStorageService,
+  createFileStorage
+} from '../../../../src/infrastructure/services';
+import { storageConfig } from '../../../../src/infrastructure/config';
+
+describe('InMemoryFileStorageService', () => {
+  let storage: InMemoryFileStorageService;
+
+  beforeEach(async () => {
+    storage = new InMemoryFileStorageService();
+    await storage.initialize();
+  });
+
+  it('should store and read back content', async () => {
+    const filePath = await storage.storeFile(Buffer.from('Hello, World!'), 'notes.txt');
+
+    expect(filePath).to.match(/\.txt$/);
+    expect((await storage.readFile(filePath)).toString('utf8')).to.equal('Hello, World!');
+    expect(await storage.fileExists(filePath)).to.be.true;
+  });
+
+  it('should generate a unique path for every stored file', async () => {
+    const first = await storage.storeFile(Buffer.from('a'), 'same.txt');
+    const second = await storage.storeFile(Buffer.from('b'), 'same.txt');
+
+    expect(first).to.not.equal(second);
+  });
+
+  it('should report byte size in file stats', async () => {
+    const filePath = await storage.storeFile(Buffer.from('héllo'), 'notes.txt');
+    const stats = await storage.getFileStats(filePath);
+
+    expect(stats.size).to.equal(6);
+    expect(stats.isFile).to.be.true;
+  });
+
+  it('should reject reads of missing files with a not found error', async () => {
+    try {
+      await storage.readFile('memory/missing.txt');
+      expect.fail('Should have thrown error');
+    } catch (error) {
+      expect((error as Error).message).to.equal('File not found: memory/missing.txt');
+    }
+  });
+
+  it('should store a stream and stream it back byte for byte', async () => {
+    const filePath = await storage.storeStream(Readable.from([Buffer.from('hé'), Buffer.from('llo')]), 'notes.txt');
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of await storage.createReadStream(filePath)) {
+      chunks.push(chunk);
+    }
+
+    expect(Buffer.concat(chunks).toString('utf8')).to.equal('héllo');
+    expect((await storage.getFileStats(filePath)).size).to.equal(6);
+  });
+
+  it('should stream only the requested byte range', async () => {
+    const filePath = await storage.storeFile(Buffer.from('Hello, World!'), 'notes.txt');
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of await storage.createReadStream(filePath, { start: 7, end: 11 })) {
+      chunks.push(chunk);
+    }
+
+    expect(Buffer.concat(chunks).toString('utf8')).to.equal('World');
+  });
+
+  it('should reject streams of missing files with a not found error', async () => {
+    try {
+      await storage.createReadStream('memory/missing.txt');
+      expect.fail('Should have thrown error');
+    } catch (error) {
+      expect((error as Error).message).to.equal('File not found: memory/missing.txt');
+    }
+  });
+
+  it('should treat deleting a missing file as success', async () => {
+    const filePath = await storage.storeFile(Buffer.from('content'), 'notes.txt');
+
+    await storage.deleteFile(filePath);
+    await storage.deleteFile(filePath);
+
+    expect(await storage.fileExists(filePath)).to.be.false;
+  });
+
+  it('should list the paths of stored files', async () => {
+    const first = await storage.storeFile(Buffer.from('a'), 'a.txt');
+    const second = await storage.storeFile(Buffer.from('b'), 'b.txt');
+    await storage.deleteFile(first);
+
+    expect(await storage.listFiles()).to.deep.equal([second]);
+  });
+});
+
+describe('createFileStorage', () => {
+  it('should create the backend selected by the driver', () => {
+    expect(createFileStorage({ ...storageConfig, driver: 'local' })).to.be.instanceOf(FileStorageService);
+    expect(createFileStorage({ ...storageConfig, driver: 'memory' })).to.be.instanceOf(InMemoryFileStorageService);
+    expect(createFileStorage({ ...storageConfig, driver: 's3' })).to.be.instanceOf(S3FileStorageService);
+  });
+
+  it('should reject unknown drivers', () => {
+    expect(() => createFileStorage({ ...storageConfig, driver: 'ftp' as any }))
+      .to.throw('Unsupported storage driver: ftp');
+  });
+});
\ No newline at end of file
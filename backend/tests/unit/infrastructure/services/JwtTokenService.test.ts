@@ -0,0 +1,69 @@
+import { expect } from 'chai';
+import jwt from 'jsonwebtoken';
+import { useFakeTimers, SinonFakeTimers } from 'sinon';
+import { JwtTokenService } from '../../../../src/infrastructure/services';
+import { AuthConfig } from '../../../../src/infrastructure/config';
+
+describe('JwtTokenService', () => {
+  const config: AuthConfig = { jwtSecret: 'test-secret', issuer: 'test-issuer', accessTokenTtlSeconds: 60, refreshTokenTtlSeconds: 3600 };
+  const user = { id: 'user-1', email: 'ada@example.com', role: 'user' as const };
+
+  let service: JwtTokenService;
+  let clock: SinonFakeTimers | undefined;
+
+  beforeEach(() => {
+    service = new JwtTokenService(config);
+  });
+
+  afterEach(() => {
+    clock?.restore();
+    clock = undefined;
+  });
+
+  it('should refuse to work without a secret', () => {
+    expect(() => new JwtTokenService({ ...config, jwtSecret: '' })).to.throw('JWT_SECRET must be set');
+  });
+
+  it('should round-trip access and refresh tokens', () => {
+    const access = service.issueAccessToken(user);
+    const refresh = service.issueRefreshToken({ userId: 'user-1', tokenId: 'token-1' });
+
+    expect(service.verifyAccessToken(access.token)).to.deep.equal(user);
+    expect(service.verifyRefreshToken(refresh.token)).to.deep.equal({ userId: 'user-1', tokenId: 'token-1' });
+    expect(refresh.expiresAt.getTime() - access.expiresAt.getTime()).to.be.closeTo(3540000, 1000);
+  });
+
+  it('should not accept one kind of token as the other', () => {
+    const access = service.issueAccessToken(user);
+    const refresh = service.issueRefreshToken({ userId: 'user-1', tokenId: 'token-1' });
+
+    expect(() => service.verifyAccessToken(refresh.token)).to.throw('Access token is not valid');
+    expect(() => service.verifyRefreshToken(access.token)).to.throw('Refresh token is not valid');
+  });
+
+  it('should carry the role, treating tokens without one as a plain user', () => {
+    const auditor = { ...user, role: 'auditor' as const };
+    const roleless = jwt.sign({ type: 'access', email: user.email }, config.jwtSecret, { subject: user.id, issuer: config.issuer });
+    const unknownRole = jwt.sign({ type: 'access', email: user.email, role: 'root' }, config.jwtSecret, { subject: user.id, issuer: config.issuer });
+
+    expect(service.verifyAccessToken(service.issueAccessToken(auditor).token)).to.deep.equal(auditor);
+    expect(service.verifyAccessToken(roleless)).to.deep.equal(user);
+    expect(() => service.verifyAccessToken(unknownRole)).to.throw('Access token is not valid');
+  });
+
+  it('should reject forged, foreign and expired tokens', () => {
+    const forged = jwt.sign({ type: 'access', email: user.email }, 'other-secret', { subject: user.id, issuer: config.issuer });
+    const foreign = new JwtTokenService({ ...config, issuer: 'someone-else' }).issueAccessToken(user);
+    const unsigned = jwt.sign({ type: 'access', email: user.email }, '', { subject: user.id, issuer: config.issuer, algorithm: 'none' });
+
+    expect(() => service.verifyAccessToken(forged)).to.throw('Access token is not valid');
+    expect(() => service.verifyAccessToken(foreign.token)).to.throw('Access token is not valid');
+    expect(() => service.verifyAccessToken(unsigned)).to.throw('Access token is not valid');
+    expect(() => service.verifyAccessToken('not-a-token')).to.throw('Access token is not valid');
+
+    clock = useFakeTimers(Date.now());
+    const access = service.issueAccessToken(user);
+    clock.tick(61000);
+    expect(() => service.verifyAccessToken(access.token)).to.throw('Access token has expired');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,204 @@
+import { expect } from 'chai';
+import { Readable } from 'stream';
+import { S3Client } from '@aws-sdk/client-s3';
+import { S3FileStorageService } from '../../../../src/infrastructure/services';
+import { S3StorageConfig } from '../../../../src/infrastructure/config';
+
+/**
+ * Minimal MinIO-style stand-in: keeps buckets and objects in memory
+ * and answers the commands the storage service sends like an S3 server would
+ */
+class FakeS3Server {
+  public readonly buckets = new Map<string, Map<string, { body: Buffer; lastModified: Date }>>();
+  public readonly uploads = new Map<string, Buffer[]>();
+  public readonly commands: string[] = [];
+
+  async send(command: { constructor: { name: string }; input: any }): Promise<any> {
+    const { Bucket, Key, Body, UploadId } = command.input;
+    this.commands.push(command.constructor.name);
+    const bucket = this.buckets.get(Bucket);
+
+    if (command.constructor.name === 'CreateBucketCommand') {
+      this.buckets.set(Bucket, new Map());
+      return {};
+    }
+    if (!bucket) {
+      throw this.notFound('NoSuchBucket');
+    }
+
+    switch (command.constructor.name) {
+      case 'HeadBucketCommand':
+        return {};
+      case 'PutObjectCommand':
+        bucket.set(Key, { body: Buffer.from(Body), lastModified: new Date() });
+        return {};
+      case 'CreateMultipartUploadCommand': {
+        const uploadId = `upload-${this.uploads.size + 1}`;
+        this.uploads.set(uploadId, []);
+        return { UploadId: uploadId };
+      }
+      case 'UploadPartCommand':
+        this.uploads.get(UploadId)![command.input.PartNumber - 1] = Buffer.from(Body);
+        return { ETag: `"part-${command.input.PartNumber}"` };
+      case 'CompleteMultipartUploadCommand':
+        bucket.set(Key, { body: Buffer.concat(this.uploads.get(UploadId)!), lastModified: new Date() });
+        this.uploads.delete(UploadId);
+        return {};
+      case 'AbortMultipartUploadCommand':
+        this.uploads.delete(UploadId);
+        return {};
+      case 'GetObjectCommand': {
+        const object = bucket.get(Key);
+        if (!object) throw this.notFound('NoSuchKey');
+        return {
+          Body: Object.assign(Readable.from([object.body]), {
+            transformToByteArray: async () => new Uint8Array(object.body)
+          })
+        };
+      }
+      case 'HeadObjectCommand': {
+        const object = bucket.get(Key);
+        if (!object) throw this.notFound('NotFound');
+        return { ContentLength: object.body.length, LastModified: object.lastModified };
+      }
+      case 'DeleteObjectCommand':
+        bucket.delete(Key);
+        return {};
+      case 'ListObjectsV2Command': {
+        // Pages of two keys, to exercise continuation
+        const keys = [...bucket.keys()].filter(key => key.startsWith(command.input.Prefix ?? '')).sort();
+        const start = command.input.ContinuationToken ? Number(command.input.ContinuationToken) : 0;
+        const page = keys.slice(start, start + 2);
+        const hasMore = start + 2 < keys.length;
+        return {
+          Contents: page.map(key => ({ Key: key })),
+          IsTruncated: hasMore,
+          NextContinuationToken: hasMore ? String(start + 2) : undefined
+        };
+      }
+      default:
+        throw new Error(`Unsupported command: ${command.constructor.name}`);
+    }
+  }
+
+  private notFound(name: string): Error {
+    return Object.assign(new Error(name), { name, $metadata: { httpStatusCode: 404 } });
+  }
+}
+
+describe('S3FileStorageService', () => {
+  const config: S3StorageConfig = {
+    endpoint: 'http://localhost:9000',
+    region: 'us-east-1',
+    bucket: 'test-bucket',
+    forcePathStyle: true,
+    keyPrefix: 'uploaded-files/'
+  };
+
+  let server: FakeS3Server;
+  let storage: S3FileStorageService;
+
+  beforeEach(async () => {
+    server = new FakeS3Server();
+    storage = new S3FileStorageService(config, server as unknown as S3Client);
+    await storage.initialize();
+  });
+
+  it('should create the bucket on initialize when missing', () => {
+    expect(server.buckets.has('test-bucket')).to.be.true;
+  });
+
+  it('should store objects under the key prefix and read them back', async () => {
+    const key = await storage.storeFile(Buffer.from('{"a": 1}'), 'data.json');
+
+    expect(key).to.match(/^uploaded-files\/.+\.json$/);
+    expect((await storage.readFile(key)).toString('utf8')).to.equal('{"a": 1}');
+  });
+
+  it('should report object existence and stats', async () => {
+    const key = await storage.storeFile(Buffer.from('Hello'), 'notes.txt');
+
+    expect(await storage.fileExists(key)).to.be.true;
+    expect(await storage.fileExists('uploaded-files/missing.txt')).to.be.false;
+    expect((await storage.getFileStats(key)).size).to.equal(5);
+  });
+
+  it('should map missing objects to a not found error', async () => {
+    try {
+      await storage.readFile('uploaded-files/missing.txt');
+      expect.fail('Should have thrown error');
+    } catch (error) {
+      expect((error as Error).message).to.equal('File not found: uploaded-files/missing.txt');
+    }
+  });
+
+  it('should store a small stream with a single PUT and stream it back', async () => {
+    const key = await storage.storeStream(Readable.from([Buffer.from('Hello, '), Buffer.from('world')]), 'notes.txt');
+
+    expect(key).to.match(/^uploaded-files\/.+\.txt$/);
+    expect(server.commands).to.include('PutObjectCommand');
+    expect(server.commands).to.not.include('CreateMultipartUploadCommand');
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of await storage.createReadStream(key)) {
+      chunks.push(chunk);
+    }
+    expect(Buffer.concat(chunks).toString('utf8')).to.equal('Hello, world');
+  });
+
+  it('should use a multipart upload for streams larger than one part', async () => {
+    const chunk = Buffer.alloc(1024 * 1024, 'a');
+    const chunks = Array.from({ length: 6 }, () => chunk);
+
+    const key = await storage.storeStream(Readable.from(chunks), 'large.txt');
+
+    expect(server.commands.filter(name => name === 'UploadPartCommand')).to.have.length(2);
+    expect(server.commands).to.include('CompleteMultipartUploadCommand');
+    expect((await storage.getFileStats(key)).size).to.equal(6 * 1024 * 1024);
+  });
+
+  it('should abort the multipart upload when the stream fails', async () => {
+    const chunk = Buffer.alloc(S3FileStorageService.PART_SIZE, 'a');
+    const source = Readable.from((async function* () {
+      yield chunk;
+      throw new Error('Client disconnected');
+    })());
+
+    try {
+      await storage.storeStream(source, 'large.txt');
+      expect.fail('Should have thrown error');
+    } catch (error) {
+      expect((error as Error).message).to.equal('Client disconnected');
+    }
+
+    expect(server.commands).to.include('AbortMultipartUploadCommand');
+    expect(server.uploads.size).to.equal(0);
+  });
+
+  it('should map missing objects to a not found error when streaming', async () => {
+    try {
+      await storage.createReadStream('uploaded-files/missing.txt');
+      expect.fail('Should have thrown error');
+    } catch (error) {
+      expect((error as Error).message).to.equal('File not found: uploaded-files/missing.txt');
+    }
+  });
+
+  it('should delete objects', async () => {
+    const key = await storage.storeFile(Buffer.from('Hello'), 'notes.txt');
+
+    await storage.deleteFile(key);
+
+    expect(await storage.fileExists(key)).to.be.false;
+  });
+
+  it('should list every object under the key prefix across pages', async () => {
+    const keys = await Promise.all(['a.txt', 'b.txt', 'c.txt'].map(name => storage.storeFile(Buffer.from('x'), name)));
+    server.buckets.get('test-bucket')!.set('other/unrelated.txt', { body: Buffer.from('x'), lastModified: new Date() });
+
+    const listed = await storage.listFiles();
+
+    expect(listed.sort()).to.deep.equal(keys.sort());
+    expect(server.commands.filter(name => name === 'ListObjectsV2Command')).to.have.lengthOf(2);
+  });
+});
\ No newline at end of file
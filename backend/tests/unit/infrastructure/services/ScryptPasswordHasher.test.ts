@@ -0,0 +1,30 @@
+import { expect } from 'chai';
+import { ScryptPasswordHasher } from '../../../../src/infrastructure/services';
+
+describe('ScryptPasswordHasher', () => {
+  // Cheap parameters keep the tests fast; the encoding is the same
+  const hasher = new ScryptPasswordHasher({ N: 1024, r: 8, p: 1 });
+
+  it('should verify the hashed password and nothing else', async () => {
+    const hash = await hasher.hash('correct horse battery staple');
+
+    expect(hash).to.match(/^scrypt\$1024\$8\$1\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$/);
+    expect(await hasher.verify('correct horse battery staple', hash)).to.be.true;
+    expect(await hasher.verify('Correct horse battery staple', hash)).to.be.false;
+  });
+
+  it('should salt every hash', async () => {
+    expect(await hasher.hash('same password')).to.not.equal(await hasher.hash('same password'));
+  });
+
+  it('should keep verifying hashes made with other cost parameters', async () => {
+    const hash = await new ScryptPasswordHasher({ N: 2048, r: 8, p: 1 }).hash('secret password');
+
+    expect(await hasher.verify('secret password', hash)).to.be.true;
+  });
+
+  it('should reject hashes it does not understand', async () => {
+    expect(await hasher.verify('secret password', 'bcrypt$2b$10$abc')).to.be.false;
+    expect(await hasher.verify('secret password', '')).to.be.false;
+  });
+});
\ No newline at end of file
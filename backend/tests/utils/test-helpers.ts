@@ -1,5 +1,7 @@
 import { Response } from 'express';
 import sinon from 'sinon';
+import { IUnitOfWork, ITransaction } from '../../src/application/interfaces';
+import { IFileRepository, IFileVersionRepository, IFileBlobRepository } from '../../src/domain/repositories';
 
 /**
  * Creates a mock Express Response object for testing controllers
@@ -205,4 +207,48 @@ export class DatabaseTestUtils {
       throw new Error('Database port must be between 1 and 65535');
     }
   }
+}
+
+/**
+ * Unit of work test utilities
+ */
+export class UnitOfWorkTestUtils {
+  /**
+   * Creates a unit of work handing the given repositories to the work and running
+   * compensating actions on failure (newest first) and deferred actions on success
+   */
+  static createFakeUnitOfWork(repositories: {
+    files?: Partial<IFileRepository>;
+    fileVersions?: Partial<IFileVersionRepository>;
+    fileBlobs?: Partial<IFileBlobRepository>;
+  }): IUnitOfWork {
+    return {
+      async run<T>(work: (transaction: ITransaction) => Promise<T>): Promise<T> {
+        const rollbackActions: Array<() => Promise<void>> = [];
+        const commitActions: Array<() => Promise<void>> = [];
+        const transaction: ITransaction = {
+          files: repositories.files as IFileRepository,
+          fileVersions: repositories.fileVersions as IFileVersionRepository,
+          fileBlobs: repositories.fileBlobs as IFileBlobRepository,
+          onRollback: action => { rollbackActions.push(action); },
+          afterCommit: action => { commitActions.push(action); }
+        };
+
+        let result: T;
+        try {
+          result = await work(transaction);
+        } catch (error) {
+          for (const action of rollbackActions.reverse()) {
+            await action();
+          }
+          throw error;
+        }
+
+        for (const action of commitActions) {
+          await action();
+        }
+        return result;
+      }
+    };
+  }
 }
\ No newline at end of file
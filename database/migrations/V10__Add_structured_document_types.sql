@@ -0,0 +1,10 @@
+-- YAML, CSV, XML and HTML documents
+-- Migration: V10__Add_structured_document_types.sql
+
+-- Registered up front so files of these types are accepted even before the backend synchronizes its registry
+INSERT INTO content_types (content_type, extensions, max_size_bytes) VALUES
+    ('application/yaml', ARRAY['.yaml', '.yml'], 1048576),
+    ('text/csv', ARRAY['.csv'], 1048576),
+    ('application/xml', ARRAY['.xml'], 1048576),
+    ('text/html', ARRAY['.html', '.htm'], 1048576)
+ON CONFLICT (content_type) DO NOTHING;
\ No newline at end of file
@@ -0,0 +1,12 @@
+-- Images and PDF documents
+-- Migration: V11__Add_binary_document_types.sql
+
+-- Registered up front so files of these types are accepted even before the backend synchronizes its registry;
+-- which of them can actually be uploaded is decided by the backend's content-type policy
+INSERT INTO content_types (content_type, extensions, max_size_bytes) VALUES
+    ('image/png', ARRAY['.png'], 1048576),
+    ('image/jpeg', ARRAY['.jpg', '.jpeg'], 1048576),
+    ('image/gif', ARRAY['.gif'], 1048576),
+    ('image/webp', ARRAY['.webp'], 1048576),
+    ('application/pdf', ARRAY['.pdf'], 1048576)
+ON CONFLICT (content_type) DO NOTHING;
\ No newline at end of file
@@ -0,0 +1,10 @@
+-- File size limits are configured per content type in the backend instead of fixed at 1MB
+-- Migration: V12__Relax_file_size_limits.sql
+
+-- The backend records the limit in effect for each type in content_types.max_size_bytes on startup;
+-- files stored under an earlier, larger limit stay valid, so only positive sizes are enforced here
+ALTER TABLE files DROP CONSTRAINT files_file_size_check;
+ALTER TABLE files ADD CONSTRAINT files_file_size_check CHECK (file_size > 0);
+
+ALTER TABLE file_versions DROP CONSTRAINT file_versions_file_size_check;
+ALTER TABLE file_versions ADD CONSTRAINT file_versions_file_size_check CHECK (file_size > 0);
\ No newline at end of file
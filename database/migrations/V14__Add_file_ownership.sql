@@ -0,0 +1,27 @@
+-- File owners and the access they grant to other users
+-- Migration: V14__Add_file_ownership.sql
+
+-- Files belong to the user who uploaded them; files uploaded before accounts existed have no owner
+-- and stay open to every user
+ALTER TABLE files ADD COLUMN owner_id UUID REFERENCES users(id);
+
+CREATE INDEX idx_files_owner_id ON files(owner_id);
+
+-- Access a file's owners give other users, one role per user and file
+CREATE TABLE file_grants (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(10) NOT NULL CHECK (role IN ('viewer', 'editor', 'owner')),
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (file_id, user_id)
+);
+
+CREATE TRIGGER update_file_grants_updated_at
+    BEFORE UPDATE ON file_grants
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Listings look up the files shared with the caller
+CREATE INDEX idx_file_grants_user_id ON file_grants(user_id);
\ No newline at end of file
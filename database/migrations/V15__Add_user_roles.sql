@@ -0,0 +1,7 @@
+-- Roles deciding what an account may do beyond its own files
+-- Migration: V15__Add_user_roles.sql
+
+-- Every existing and new account starts as a plain user; promote the first admin by hand:
+-- UPDATE users SET role = 'admin' WHERE email = 'you@example.com';
+ALTER TABLE users ADD COLUMN role VARCHAR(10) NOT NULL DEFAULT 'user'
+    CHECK (role IN ('user', 'auditor', 'admin'));
\ No newline at end of file
@@ -0,0 +1,18 @@
+-- Signed links sharing a file with people without an account
+-- Migration: V17__Add_share_links.sql
+
+-- The signed URL is never stored; it is derived from the link's ID and expiry. Passwords are stored hashed
+CREATE TABLE share_links (
+    id UUID PRIMARY KEY,
+    file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+    created_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    expires_at TIMESTAMP NOT NULL,
+    password_hash TEXT,
+    max_downloads INTEGER CHECK (max_downloads > 0),
+    download_count INTEGER NOT NULL DEFAULT 0 CHECK (download_count >= 0),
+    revoked_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Owners list the links of a file
+CREATE INDEX idx_share_links_file_id ON share_links(file_id);
\ No newline at end of file
@@ -0,0 +1,10 @@
+-- Keyset pagination: indexes matching the (sort column, id) order of cursor pages over live files
+-- Migration: V18__Add_file_keyset_indexes.sql
+
+-- Every sort field of the listing, with id breaking ties, so a page next to a cursor is read straight off an index
+CREATE INDEX idx_files_live_created_at_id ON files(created_at, id) WHERE deleted_at IS NULL;
+CREATE INDEX idx_files_live_filename_id ON files(filename, id) WHERE deleted_at IS NULL;
+CREATE INDEX idx_files_live_file_size_id ON files(file_size, id) WHERE deleted_at IS NULL;
+
+-- Superseded by the index above, which serves the same lookups
+DROP INDEX idx_files_live_created_at;
\ No newline at end of file
@@ -0,0 +1,6 @@
+-- Filenames are unique per owner: different users may each keep a file with the same name
+-- Migration: V19__Scope_filenames_to_owners.sql
+
+-- One live file per owner and name; files without an owner share a single namespace, and trashed files
+-- may keep a name that has since been reused
+CREATE UNIQUE INDEX idx_files_live_owner_filename ON files(owner_id, filename) NULLS NOT DISTINCT WHERE deleted_at IS NULL;
\ No newline at end of file
@@ -0,0 +1,24 @@
+-- File revision history
+-- Migration: V2__Add_file_versions.sql
+
+-- Track which revision the files row currently points at
+ALTER TABLE files ADD COLUMN current_version INTEGER NOT NULL DEFAULT 1 CHECK (current_version > 0);
+
+-- Create file_versions table holding every stored revision of a file
+CREATE TABLE file_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL CHECK (version_number > 0),
+    file_path VARCHAR(500) NOT NULL UNIQUE,
+    file_size INTEGER NOT NULL CHECK (file_size > 0 AND file_size <= 1048576), -- Max 1MB
+    content_type VARCHAR(50) NOT NULL CHECK (content_type IN ('text/plain', 'text/markdown', 'application/json')),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(file_id, version_number)
+);
+
+-- Create indexes for optimal query performance
+CREATE INDEX idx_file_versions_file_id ON file_versions(file_id);
+
+-- Existing files become their own first revision
+INSERT INTO file_versions (file_id, version_number, file_path, file_size, content_type, created_at)
+SELECT id, 1, file_path, file_size, content_type, created_at FROM files;
\ No newline at end of file
@@ -0,0 +1,26 @@
+-- Content-addressed blob storage with deduplication
+-- Migration: V3__Add_content_addressed_blobs.sql
+
+-- Create blobs table: one row per distinct content, keyed by its SHA-256 hash
+CREATE TABLE blobs (
+    hash CHAR(64) PRIMARY KEY CHECK (hash ~ '^[0-9a-f]{64}$'),
+    storage_path VARCHAR(500) NOT NULL UNIQUE,
+    blob_size INTEGER NOT NULL CHECK (blob_size > 0),
+    ref_count INTEGER NOT NULL DEFAULT 0 CHECK (ref_count >= 0),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Files and revisions point at the blob holding their content
+-- Rows stored before this migration keep a NULL hash and their own storage path
+ALTER TABLE files ADD COLUMN content_hash CHAR(64) REFERENCES blobs(hash);
+ALTER TABLE file_versions ADD COLUMN content_hash CHAR(64) REFERENCES blobs(hash);
+
+-- Identical content is now shared, so storage paths are no longer unique per row
+ALTER TABLE files DROP CONSTRAINT files_file_path_key;
+DROP INDEX idx_files_file_path;
+CREATE INDEX idx_files_file_path ON files(file_path);
+ALTER TABLE file_versions DROP CONSTRAINT file_versions_file_path_key;
+
+-- Create indexes for optimal query performance
+CREATE INDEX idx_files_content_hash ON files(content_hash);
+CREATE INDEX idx_file_versions_content_hash ON file_versions(content_hash);
\ No newline at end of file
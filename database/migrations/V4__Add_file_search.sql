@@ -0,0 +1,15 @@
+-- Full-text search across file contents
+-- Migration: V4__Add_file_search.sql
+
+-- Plain text extracted from the current content at upload time (Markdown stripped, JSON values flattened)
+-- Rows stored before this migration stay NULL until their content is updated
+ALTER TABLE files ADD COLUMN search_text TEXT;
+
+-- Search vector combining the filename (highest weight) with the extracted text
+ALTER TABLE files ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', regexp_replace(filename, '[._-]+', ' ', 'g')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(search_text, '')), 'B')
+) STORED;
+
+-- Create indexes for optimal query performance
+CREATE INDEX idx_files_search_vector ON files USING GIN (search_vector);
\ No newline at end of file
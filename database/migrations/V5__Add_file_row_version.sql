@@ -0,0 +1,6 @@
+-- Optimistic concurrency control for file updates
+-- Migration: V5__Add_file_row_version.sql
+
+-- Incremented by every UPDATE of a files row; updates only apply while the row still has the
+-- version they were based on, so concurrent writers cannot silently overwrite each other
+ALTER TABLE files ADD COLUMN row_version INTEGER NOT NULL DEFAULT 1 CHECK (row_version >= 1);
\ No newline at end of file
@@ -0,0 +1,9 @@
+-- Soft delete: deleted files stay in a trash bin until they are restored or purged
+-- Migration: V6__Add_file_soft_delete.sql
+
+-- Set when a file is moved to the trash; NULL for live files
+ALTER TABLE files ADD COLUMN deleted_at TIMESTAMP;
+
+-- Listings only read live files; the trash and the retention purge only read trashed ones
+CREATE INDEX idx_files_live_created_at ON files(created_at) WHERE deleted_at IS NULL;
+CREATE INDEX idx_files_deleted_at ON files(deleted_at) WHERE deleted_at IS NOT NULL;
\ No newline at end of file
@@ -0,0 +1,19 @@
+-- Reports of storage/database reconciliation runs, kept for later inspection
+-- Migration: V7__Add_storage_reconciliation_reports.sql
+
+-- One row per run; findings are stored as JSON arrays since they are only ever read back whole
+CREATE TABLE storage_reconciliation_reports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('manual', 'scheduled')),
+    dry_run BOOLEAN NOT NULL,
+    started_at TIMESTAMP NOT NULL,
+    finished_at TIMESTAMP NOT NULL CHECK (finished_at >= started_at),
+    stored_file_count INTEGER NOT NULL CHECK (stored_file_count >= 0),
+    reference_count INTEGER NOT NULL CHECK (reference_count >= 0),
+    orphaned_files JSONB NOT NULL DEFAULT '[]',
+    dangling_references JSONB NOT NULL DEFAULT '[]',
+    size_mismatches JSONB NOT NULL DEFAULT '[]'
+);
+
+-- Reports are listed newest first
+CREATE INDEX idx_storage_reconciliation_reports_started_at ON storage_reconciliation_reports(started_at DESC);
\ No newline at end of file
@@ -0,0 +1,12 @@
+-- Integrity scrub bookkeeping for stored blobs
+-- Migration: V8__Add_blob_verification.sql
+
+-- When the stored content was last re-hashed, and when it was first found not to match its hash
+ALTER TABLE blobs ADD COLUMN verified_at TIMESTAMP;
+ALTER TABLE blobs ADD COLUMN corrupted_at TIMESTAMP;
+
+-- The scrub picks never verified blobs first, then the least recently verified ones
+CREATE INDEX idx_blobs_verified_at ON blobs(verified_at NULLS FIRST);
+
+-- Corrupted blobs are few and looked up on their own
+CREATE INDEX idx_blobs_corrupted_at ON blobs(corrupted_at) WHERE corrupted_at IS NOT NULL;
\ No newline at end of file
@@ -0,0 +1,24 @@
+-- Supported document types as a lookup table instead of lists hard-coded in CHECK constraints
+-- Migration: V9__Add_content_types.sql
+
+-- The backend registers its content-type registry here on startup; the rows below cover existing data
+CREATE TABLE content_types (
+    content_type VARCHAR(50) PRIMARY KEY,
+    extensions TEXT[] NOT NULL CHECK (cardinality(extensions) > 0),
+    max_size_bytes INTEGER NOT NULL CHECK (max_size_bytes > 0),
+    registered_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO content_types (content_type, extensions, max_size_bytes) VALUES
+    ('text/plain', ARRAY['.txt'], 1048576),
+    ('text/markdown', ARRAY['.md'], 1048576),
+    ('application/json', ARRAY['.json'], 1048576);
+
+-- Files and revisions may only use registered content types
+ALTER TABLE files DROP CONSTRAINT files_content_type_check;
+ALTER TABLE files ADD CONSTRAINT files_content_type_fkey
+    FOREIGN KEY (content_type) REFERENCES content_types(content_type);
+
+ALTER TABLE file_versions DROP CONSTRAINT file_versions_content_type_check;
+ALTER TABLE file_versions ADD CONSTRAINT file_versions_content_type_fkey
+    FOREIGN KEY (content_type) REFERENCES content_types(content_type);
\ No newline at end of file
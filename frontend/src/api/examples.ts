@@ -26,7 +26,7 @@ import {
  */
 export const handleFileUpload = async (file: File): Promise<FileResponse> => {
   // Validate file before upload
-  const validation = validateFile(file);
+  const validation = await validateFile(file);
   if (!validation.valid) {
     throw new Error(validation.error);
   }
@@ -86,7 +86,7 @@ export const viewFile = async (fileId: string) => {
   console.log(`File: ${file.filename}`);
   console.log(`Type: ${file.contentType}`);
   console.log(`Size: ${file.formattedSize}`);
-  console.log(`Content:\n${file.content}`);
+  console.log(file.encoding === 'base64' ? 'Content: (binary, base64 encoded)' : `Content:\n${file.content}`);
   
   return file;
 };
@@ -128,6 +128,7 @@ import {
   uploadFile, 
   getAllFiles, 
   deleteFile, 
+  getContentTypes,
   validateFile,
   type FileResponse 
 } from '../api';
@@ -135,10 +136,12 @@ import {
 const FileManager: React.FC = () => {
   const [files, setFiles] = useState<FileResponse[]>([]);
   const [loading, setLoading] = useState(false);
+  const [accept, setAccept] = useState('');
 
-  // Load files on component mount
+  // Load files and the supported extensions on component mount
   useEffect(() => {
     loadFiles();
+    getContentTypes().then(types => setAccept(types.flatMap(type => type.extensions).join(',')));
   }, []);
 
   const loadFiles = async () => {
@@ -157,8 +160,8 @@ const FileManager: React.FC = () => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    // Validate file
-    const validation = validateFile(file);
+    // Validate file against the types the API supports
+    const validation = await validateFile(file);
     if (!validation.valid) {
       alert(validation.error);
       return;
@@ -188,7 +191,7 @@ const FileManager: React.FC = () => {
       
       <input 
         type="file" 
-        accept=".txt,.md,.json"
+        accept={accept}
         onChange={handleFileUpload}
       />
       
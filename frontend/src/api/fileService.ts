@@ -4,16 +4,28 @@ import type {
   FileListResponse, 
   FileContentResponse, 
   DeleteFileResponse,
+  ContentTypeResponse,
   GetAllFilesParamsSortByEnum,
   GetAllFilesParamsSortOrderEnum
 } from './generated/api-client';
 
+/**
+ * RFC 7807 problem details the API answers every error with
+ */
+interface ProblemDetails {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  requestId?: string;
+  errors?: Array<{ field: string; message: string }>;
+}
+
 interface ApiError {
   response?: {
     status?: number;
-    data?: {
-      message?: string;
-    };
+    data?: ProblemDetails;
   };
   message?: string;
 }
@@ -23,17 +35,21 @@ interface ApiError {
  * Wraps the generated API client with convenient methods
  */
 export class FileService {
+  // Supported document types, fetched once from the API
+  private static contentTypes?: Promise<ContentTypeResponse[]>;
+
   /**
    * Upload a file from File object (for file input)
+   * The bytes are sent base64 encoded, so images and PDFs arrive unchanged; the API detects their type
    */
   static async uploadFile(file: File): Promise<FileResponse> {
     try {
-      const content = await this.readFileAsText(file);
+      const content = await this.readFileAsBase64(file);
       
       const response = await filesApi.uploadFile({
         filename: file.name,
         content,
-        contentType: file.type || this.getContentTypeFromFilename(file.name)
+        encoding: 'base64'
       });
 
       return response.data;
@@ -45,12 +61,12 @@ export class FileService {
   /**
    * Upload a file from text content
    */
-  static async uploadTextFile(filename: string, content: string, contentType?: string): Promise<FileResponse> {
+  static async uploadTextFile(filename: string, content: string): Promise<FileResponse> {
     try {
       const response = await filesApi.uploadFile({
         filename,
         content,
-        contentType: contentType || this.getContentTypeFromFilename(filename)
+        encoding: 'utf8'
       });
 
       return response.data;
@@ -59,6 +75,22 @@ export class FileService {
     }
   }
 
+  /**
+   * Get the supported document types with their extensions and size limits
+   */
+  static async getContentTypes(): Promise<ContentTypeResponse[]> {
+    if (!this.contentTypes) {
+      this.contentTypes = filesApi.getContentTypes()
+        .then(response => response.data.contentTypes)
+        .catch((error: unknown) => {
+          this.contentTypes = undefined;
+          throw new Error(`Failed to fetch supported file types: ${this.getErrorMessage(error)}`);
+        });
+    }
+
+    return this.contentTypes;
+  }
+
   /**
    * Get all files with pagination and sorting
    */
@@ -115,7 +147,8 @@ export class FileService {
     try {
       const fileData = await this.getFileContent(fileId);
       
-      const blob = new Blob([fileData.content], { 
+      // Binary files arrive base64 encoded
+      const blob = new Blob([fileData.encoding === 'base64' ? this.decodeBase64(fileData.content) : fileData.content], { 
         type: fileData.contentType 
       });
 
@@ -149,31 +182,32 @@ export class FileService {
   }
 
   /**
-   * Validate file before upload
+   * Validate file before upload against the document types the API supports
    */
-  static validateFile(file: File): { valid: boolean; error?: string } {
-    const maxSize = 1048576; // 1MB
-    const allowedTypes = ['text/plain', 'text/markdown', 'application/json'];
-    const allowedExtensions = ['.txt', '.md', '.json'];
+  static async validateFile(file: File): Promise<{ valid: boolean; error?: string }> {
+    const contentTypes = await this.getContentTypes();
 
-    // Check file size
-    if (file.size > maxSize) {
+    // Check file extension
+    const extension = this.getFileExtension(file.name).toLowerCase();
+    const contentType = contentTypes.find(type => type.extensions.includes(extension));
+    if (!contentType) {
+      const allowedExtensions = contentTypes.flatMap(type => type.extensions);
       return { 
         valid: false, 
-        error: `File too large. Maximum size is ${this.formatFileSize(maxSize)}` 
+        error: `Invalid file type. Only ${allowedExtensions.join(', ')} files are allowed` 
       };
     }
 
-    // Check file extension
-    const extension = this.getFileExtension(file.name).toLowerCase();
-    if (!allowedExtensions.includes(extension)) {
+    // Check file size against the limit of its type
+    if (file.size > contentType.maxSizeBytes) {
       return { 
         valid: false, 
-        error: `Invalid file type. Only ${allowedExtensions.join(', ')} files are allowed` 
+        error: `File too large. Maximum size is ${this.formatFileSize(contentType.maxSizeBytes)}` 
       };
     }
 
     // Check MIME type if available
+    const allowedTypes = contentTypes.flatMap(type => [type.contentType, ...type.mimeAliases]);
     if (file.type && !allowedTypes.includes(file.type)) {
       return { 
         valid: false, 
@@ -201,10 +235,15 @@ export class FileService {
    * Extract error message from unknown error
    */
   private static getErrorMessage(error: unknown): string {
-    const apiError = error as ApiError;
+    const problem = (error as ApiError).response?.data;
     
-    if (apiError.response?.data?.message) {
-      return apiError.response.data.message;
+    if (problem?.errors && problem.errors.length > 0) {
+      return problem.errors.map(({ field, message }) => `${field}: ${message}`).join('; ');
+    }
+
+    if (problem?.detail || problem?.title) {
+      const message = (problem.detail || problem.title) as string;
+      return problem.requestId ? `${message} (request ${problem.requestId})` : message;
     }
     
     if (error instanceof Error) {
@@ -222,36 +261,31 @@ export class FileService {
   }
 
   /**
-   * Get content type from filename
+   * Decode base64 content into its bytes
    */
-  private static getContentTypeFromFilename(filename: string): string {
-    const extension = this.getFileExtension(filename).toLowerCase();
-    
-    switch (extension) {
-      case '.txt':
-        return 'text/plain';
-      case '.md':
-        return 'text/markdown';
-      case '.json':
-        return 'application/json';
-      default:
-        return 'text/plain';
+  private static decodeBase64(content: string): Uint8Array {
+    const binary = atob(content);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
     }
+    return bytes;
   }
 
   /**
-   * Read file as text content
+   * Read file content base64 encoded
    */
-  private static readFileAsText(file: File): Promise<string> {
+  private static readFileAsBase64(file: File): Promise<string> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
       
       reader.onload = (e) => {
         const result = e.target?.result;
         if (typeof result === 'string') {
-          resolve(result);
+          // Strip the data URL prefix, keeping only the base64 payload
+          resolve(result.substring(result.indexOf(',') + 1));
         } else {
-          reject(new Error('Failed to read file as text'));
+          reject(new Error('Failed to read file'));
         }
       };
       
@@ -259,7 +293,7 @@ export class FileService {
         reject(new Error('Failed to read file'));
       };
       
-      reader.readAsText(file);
+      reader.readAsDataURL(file);
     });
   }
 }
@@ -273,6 +307,7 @@ export const {
   deleteFile,
   downloadFile,
   triggerDownload,
+  getContentTypes,
   validateFile,
   formatFileSize
 } = FileService;
\ No newline at end of file
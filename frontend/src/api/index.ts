@@ -48,6 +48,8 @@ export type {
   FileContentResponse,
   DeleteFileResponse,
   ProcessedFileRequest,
+  ContentTypeResponse,
+  ContentTypeListResponse,
   GetAllFilesParamsSortByEnum,
   GetAllFilesParamsSortOrderEnum
 } from './generated/api-client';
@@ -80,6 +82,7 @@ export {
   deleteFile,
   downloadFile,
   triggerDownload,
+  getContentTypes,
   validateFile,
   formatFileSize
 } from './fileService';
\ No newline at end of file